@@ -0,0 +1,189 @@
+import { fileURLToPath } from 'node:url';
+import type { BlinkThresholds } from '../src/vision/analyzers/blinkAnalyzer';
+import { loadFixtures } from './fixtures';
+import { generateFixtures } from './generate';
+import type { DetectionScore, Distribution } from './scoring';
+import { runBlinkBench, type BlinkReport } from './suites/blink';
+import { runEmotionBench, type EmotionReport } from './suites/emotion';
+import { runRednessBench, type RednessReport } from './suites/redness';
+
+const SUITES = ['blink', 'redness', 'emotion'] as const;
+type Suite = (typeof SUITES)[number];
+
+const USAGE = `Scores the analyzers against labeled fixtures. Synthetic fixtures come from
+bench/generate.ts, so on them this is a regression check: it shows when a change
+moves the analyzers away from the generator's labels, not how they do on real
+faces. Recorded fixtures (source "recorded") are needed for that.
+
+Usage: npm run bench -- [blink] [redness] [emotion] [options]
+       npm run bench -- generate [--fixtures <dir>]
+
+Options:
+  --fixtures <dir>   Fixture directory (default bench/fixtures)
+  --tolerance <ms>   Blink onset matching tolerance (default 150)
+  --close <ear>      Override the blink close threshold
+  --reopen <ear>     Override the blink reopen threshold
+  --smoothing <ms>   Override the emotion smoothing time constant
+  --min-f1 <score>   Exit with status 1 when a suite's overall F1 is lower
+  --json             Print the reports as JSON`;
+
+const DEFAULT_FIXTURES = fileURLToPath(new URL('./fixtures', import.meta.url));
+const DEFAULT_TOLERANCE_MS = 150;
+
+interface Options {
+  suites: Suite[];
+  generate: boolean;
+  fixtures: string;
+  toleranceMs: number;
+  close?: number;
+  reopen?: number;
+  smoothingMs?: number;
+  minF1?: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { suites: [], generate: false, fixtures: DEFAULT_FIXTURES, toleranceMs: DEFAULT_TOLERANCE_MS, json: false };
+  const number = (flag: string, value: string | undefined) => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) throw new Error(`${flag} expects a number`);
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case 'generate':
+        options.generate = true;
+        break;
+      case '--fixtures':
+        if (!args[i + 1]) throw new Error('--fixtures expects a directory');
+        options.fixtures = args[++i];
+        break;
+      case '--tolerance':
+        options.toleranceMs = number(arg, args[++i]);
+        break;
+      case '--close':
+        options.close = number(arg, args[++i]);
+        break;
+      case '--reopen':
+        options.reopen = number(arg, args[++i]);
+        break;
+      case '--smoothing':
+        options.smoothingMs = number(arg, args[++i]);
+        break;
+      case '--min-f1':
+        options.minF1 = number(arg, args[++i]);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (!(SUITES as readonly string[]).includes(arg)) throw new Error(`Unknown argument: ${arg}`);
+        options.suites.push(arg as Suite);
+    }
+  }
+  if (options.suites.length === 0) options.suites = [...SUITES];
+  return options;
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const fixed = (value: number | null, digits = 2) => (value === null ? '—' : value.toFixed(digits));
+const ms = (value: Distribution | null) =>
+  value === null ? '—' : `mean ${value.mean.toFixed(0)} / p95 ${value.p95.toFixed(0)} / max ${value.max.toFixed(0)} ms`;
+const prf = (score: DetectionScore) =>
+  `P ${percent(score.precision)}  R ${percent(score.recall)}  F1 ${percent(score.f1)}` +
+  `  (tp ${score.truePositives}, fp ${score.falsePositives}, fn ${score.falseNegatives})`;
+
+function printBlink(report: BlinkReport) {
+  console.log('Blink detection');
+  for (const fixture of report.fixtures) {
+    console.log(`  ${fixture.name} [${fixture.source}, ${(fixture.durationMs / 1000).toFixed(0)} s]`);
+    console.log(`    ${prf(fixture.score)}`);
+    console.log(`    labeled ${fixture.labeled}, detected ${fixture.detected}, kind agreement ${percent(fixture.kindAgreement)}`);
+    console.log(`    onset error ${ms(fixture.onsetError)}`);
+    console.log(`    end error   ${ms(fixture.endError)}`);
+  }
+  console.log(`  overall ${prf(report.overall)}\n`);
+}
+
+function printRedness(report: RednessReport) {
+  console.log('Sclera redness');
+  for (const fixture of report.fixtures) {
+    console.log(`  ${fixture.name} [${fixture.source}, ${fixture.samples} samples]`);
+    console.log(`    red eyes ${prf(fixture.score)}`);
+    console.log(
+      `    index MAE ${fixed(fixture.meanAbsoluteError)}, RMSE ${fixed(fixture.rootMeanSquareError)}, r ${fixed(fixture.correlation)}`,
+    );
+    console.log(`    coverage ${percent(fixture.coverage)}, rejection agreement ${percent(fixture.rejectionAgreement)}`);
+  }
+  console.log(`  overall red eyes ${prf(report.overall)}\n`);
+}
+
+function printEmotion(report: EmotionReport) {
+  console.log('Emotion');
+  for (const fixture of report.fixtures) {
+    console.log(`  ${fixture.name} [${fixture.source}, ${fixture.scored} readings]`);
+    console.log(`    accuracy ${percent(fixture.accuracy)}, macro ${prf(fixture.macro)}`);
+    for (const [emotion, score] of Object.entries(fixture.perEmotion)) {
+      console.log(`      ${emotion.padEnd(10)} ${prf(score)}`);
+    }
+    console.log(`    switch latency ${ms(fixture.switchLatency)}, missed switches ${fixture.missedSwitches}`);
+  }
+  console.log(`  overall macro ${prf(report.overall)}\n`);
+}
+
+/** Runs the requested suites and returns the process exit code. */
+export async function main(args: string[]): Promise<number> {
+  let options: Options;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (options.generate) {
+    for (const file of generateFixtures(options.fixtures)) console.log(`wrote ${file}`);
+    return 0;
+  }
+
+  const reports: { blink?: BlinkReport; redness?: RednessReport; emotion?: EmotionReport } = {};
+  for (const suite of options.suites) {
+    if (suite === 'blink') {
+      const thresholds: Partial<BlinkThresholds> = {};
+      if (options.close !== undefined) thresholds.close = options.close;
+      if (options.reopen !== undefined) thresholds.reopen = options.reopen;
+      reports.blink = runBlinkBench(loadFixtures(options.fixtures, 'blink'), { toleranceMs: options.toleranceMs, thresholds });
+    } else if (suite === 'redness') {
+      reports.redness = runRednessBench(loadFixtures(options.fixtures, 'redness'));
+    } else {
+      reports.emotion = await runEmotionBench(loadFixtures(options.fixtures, 'emotion'), { smoothingMs: options.smoothingMs });
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    const sources = Object.values(reports).flatMap((report) => report.fixtures.map((fixture) => fixture.source));
+    if (sources.length > 0 && sources.every((source) => source === 'synthetic')) {
+      console.log('Regression check on synthetic fixtures only: scores track agreement with bench/generate.ts, not real-world accuracy.\n');
+    }
+    if (reports.blink) printBlink(reports.blink);
+    if (reports.redness) printRedness(reports.redness);
+    if (reports.emotion) printEmotion(reports.emotion);
+  }
+
+  let status = 0;
+  for (const suite of options.suites) {
+    const report = reports[suite];
+    if (!report || report.fixtures.length === 0) {
+      console.error(`No ${suite} fixtures in ${options.fixtures}`);
+      status = 1;
+    } else if (options.minF1 !== undefined && (report.overall.f1 ?? 0) < options.minF1) {
+      console.error(`${suite}: F1 ${percent(report.overall.f1)} is below ${percent(options.minF1)}`);
+      status = 1;
+    }
+  }
+  return status;
+}
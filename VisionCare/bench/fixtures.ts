@@ -0,0 +1,83 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { BlinkKind, Emotion, ExpressionVector } from '../src/metrics/types';
+import type { BlinkBaseline } from '../src/vision/analyzers/blinkAnalyzer';
+import type { Circle, InsufficientReason, Point } from '../src/vision/scleraRedness';
+
+export type FixtureSource = 'synthetic' | 'recorded';
+
+interface FixtureBase {
+  name: string;
+  description: string;
+  /** Synthetic fixtures come from generate.ts; recorded ones from real clips, labeled by hand. */
+  source: FixtureSource;
+}
+
+/**
+ * A face-mesh landmark sequence with labeled blinks. Only the landmarks
+ * listed in `points` are stored; every frame is `[timestamp]` when no face
+ * was found, else `[timestamp, x, y, x, y, ...]` in pixels, one pair per
+ * entry of `points`.
+ */
+export interface BlinkFixture extends FixtureBase {
+  kind: 'blink';
+  width: number;
+  height: number;
+  /** The subject's calibrated baseline, when known; otherwise the app default is used. */
+  baseline?: BlinkBaseline;
+  points: number[];
+  frames: number[][];
+  /** From the lid starting to close until it is fully open again, in ms. */
+  blinks: { start: number; end: number; kind?: BlinkKind }[];
+}
+
+/** One eye crop, as the redness worker receives it, with a graded redness. */
+export interface RednessFixtureSample {
+  id: string;
+  width: number;
+  height: number;
+  /** RGBA pixels, base64. */
+  rgba: string;
+  polygon: Point[];
+  iris: Circle | null;
+  label: { index: number } | { insufficient: InsufficientReason };
+}
+
+export interface RednessFixture extends FixtureBase {
+  kind: 'redness';
+  samples: RednessFixtureSample[];
+}
+
+/**
+ * Expression detector output for one face, one entry per scheduled
+ * detection, with labeled emotion segments.
+ */
+export interface EmotionFixture extends FixtureBase {
+  kind: 'emotion';
+  intervalMs: number;
+  detections: { t: number; expressions: ExpressionVector }[];
+  segments: { start: number; end: number; emotion: Emotion }[];
+}
+
+export type Fixture = BlinkFixture | RednessFixture | EmotionFixture;
+
+export type FixtureKind = Fixture['kind'];
+
+/** Every fixture of `kind` under `dir/<kind>/`, sorted by file name. */
+export function loadFixtures<K extends FixtureKind>(dir: string, kind: K): Extract<Fixture, { kind: K }>[] {
+  const kindDir = join(dir, kind);
+  let files: string[];
+  try {
+    files = readdirSync(kindDir).filter((file) => file.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+
+  return files.map((file) => {
+    const fixture = JSON.parse(readFileSync(join(kindDir, file), 'utf8')) as Fixture;
+    if (fixture.kind !== kind) {
+      throw new Error(`${join(kindDir, file)} is a ${fixture.kind} fixture, not ${kind}`);
+    }
+    return fixture as Extract<Fixture, { kind: K }>;
+  });
+}
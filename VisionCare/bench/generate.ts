@@ -0,0 +1,419 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { EMOTIONS, type BlinkKind, type Emotion, type ExpressionVector } from '../src/metrics/types';
+import { DEFAULT_EMOTION_INTERVAL_MS } from '../src/vision/analyzers/emotionAnalyzer';
+import { LEFT_EYE, RIGHT_EYE } from '../src/vision/landmarks';
+import { measureScleraRedness, type Circle, type InsufficientReason, type Point } from '../src/vision/scleraRedness';
+import type { BlinkFixture, EmotionFixture, Fixture, RednessFixture, RednessFixtureSample } from './fixtures';
+
+// Synthetic fixtures are rebuilt from fixed seeds, so regenerating them
+// leaves the files unchanged unless this generator changes.
+
+type Random = () => number;
+
+function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const uniform = (random: Random, min: number, max: number) => min + random() * (max - min);
+
+function gaussian(random: Random, sd: number) {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random()) * sd;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// ---------------------------------------------------------------------------
+// Blinks
+
+const FPS = 30;
+const FRAME_WIDTH = 640;
+const FRAME_HEIGHT = 480;
+// Half the eye width in pixels at the nominal head distance
+const EYE_HALF_WIDTH = 30;
+// Lid opening relative to eye half-width; EAR is about 0.924 times this
+const OPEN_RATIO = 0.355;
+const CLOSED_RATIO = 0.1;
+
+// Angle of each EAR landmark on an ellipse around its eye centre, with y
+// pointing down: upper-lid points have negative angles
+const EYE_ANGLES: Record<number, number> = {
+  [LEFT_EYE[0]]: Math.PI,
+  [LEFT_EYE[1]]: (-5 * Math.PI) / 8,
+  [LEFT_EYE[2]]: (-3 * Math.PI) / 8,
+  [LEFT_EYE[3]]: 0,
+  [LEFT_EYE[4]]: (3 * Math.PI) / 8,
+  [LEFT_EYE[5]]: (5 * Math.PI) / 8,
+  [RIGHT_EYE[0]]: Math.PI,
+  [RIGHT_EYE[1]]: (11 * Math.PI) / 8,
+  [RIGHT_EYE[2]]: (13 * Math.PI) / 8,
+  [RIGHT_EYE[3]]: 0,
+  [RIGHT_EYE[4]]: (3 * Math.PI) / 8,
+  [RIGHT_EYE[5]]: (5 * Math.PI) / 8,
+};
+
+interface BlinkPlan {
+  start: number;
+  closingMs: number;
+  holdMs: number;
+  openingMs: number;
+  /** Lid opening ratio at the deepest point. */
+  depth: number;
+  kind?: BlinkKind;
+}
+
+// Lid opening ratio at time t given the planned blinks and squints
+function lidRatio(t: number, plans: BlinkPlan[]) {
+  for (const { start, closingMs, holdMs, openingMs, depth } of plans) {
+    const u = t - start;
+    if (u < 0 || u > closingMs + holdMs + openingMs) continue;
+    const ease = (x: number) => (1 - Math.cos(Math.PI * x)) / 2;
+    const closed = u < closingMs ? ease(u / closingMs) : u < closingMs + holdMs ? 1 : 1 - ease((u - closingMs - holdMs) / openingMs);
+    return OPEN_RATIO + (depth - OPEN_RATIO) * closed;
+  }
+  return OPEN_RATIO;
+}
+
+interface BlinkScenario {
+  name: string;
+  description: string;
+  seed: number;
+  durationMs: number;
+  /** Landmark jitter in pixels. */
+  jitter: number;
+  /** Frame interval jitter in ms. */
+  timingJitter: number;
+  headMotion: boolean;
+  squints: number;
+  dropouts: number;
+}
+
+function planBlinks(random: Random, durationMs: number): BlinkPlan[] {
+  const plans: BlinkPlan[] = [];
+  let t = uniform(random, 800, 2000);
+  while (t < durationMs - 1500) {
+    const roll = random();
+    const kind: BlinkKind = roll < 0.7 ? 'complete' : roll < 0.88 ? 'incomplete' : 'prolonged';
+    plans.push({
+      start: Math.round(t),
+      closingMs: uniform(random, 60, 100),
+      holdMs: kind === 'prolonged' ? uniform(random, 550, 900) : uniform(random, 20, 60),
+      openingMs: uniform(random, 120, 200),
+      depth: kind === 'incomplete' ? uniform(random, 0.19, 0.22) : uniform(random, 0.06, CLOSED_RATIO),
+      kind,
+    });
+    t += uniform(random, 1800, 5000) + (kind === 'prolonged' ? 900 : 0);
+  }
+  return plans;
+}
+
+function generateBlinkFixture(scenario: BlinkScenario): BlinkFixture {
+  const random = mulberry32(scenario.seed);
+  const blinks = planBlinks(random, scenario.durationMs);
+
+  // Squints narrow the eyes for a second or two without being blinks, and
+  // dropouts are tracking gaps; both are placed between blinks
+  const gaps = blinks.slice(1).map((blink, i) => ({
+    from: blinks[i].start + blinks[i].closingMs + blinks[i].holdMs + blinks[i].openingMs + 300,
+    to: blink.start - 300,
+  }));
+  const free = gaps.filter(({ from, to }) => to - from > 1400);
+  const squints: BlinkPlan[] = [];
+  const dropouts: { from: number; to: number }[] = [];
+  for (let i = 0; i < scenario.squints + scenario.dropouts && free.length > 0; i++) {
+    const [gap] = free.splice(Math.floor(random() * free.length), 1);
+    const length = Math.min(gap.to - gap.from, uniform(random, 500, 1200));
+    if (i < scenario.squints) {
+      squints.push({ start: gap.from, closingMs: 250, holdMs: length - 500, openingMs: 250, depth: uniform(random, 0.26, 0.3) });
+    } else {
+      dropouts.push({ from: gap.from, to: gap.from + length });
+    }
+  }
+
+  const points = [...LEFT_EYE, ...RIGHT_EYE];
+  const frames: number[][] = [];
+  const motionPhase = uniform(random, 0, 2 * Math.PI);
+  for (let t = 0; t <= scenario.durationMs; t += 1000 / FPS + gaussian(random, scenario.timingJitter)) {
+    const timestamp = Math.round(t);
+    if (dropouts.some(({ from, to }) => timestamp >= from && timestamp < to)) {
+      frames.push([timestamp]);
+      continue;
+    }
+
+    // Slow sway and a drift towards and away from the camera
+    const sway = scenario.headMotion ? Math.sin(timestamp / 2300 + motionPhase) : 0;
+    const scale = scenario.headMotion ? 1 + 0.12 * Math.sin(timestamp / 5100 + motionPhase) : 1;
+    const cx = FRAME_WIDTH / 2 + 40 * sway;
+    const cy = FRAME_HEIGHT * 0.42 + 12 * sway;
+    const a = EYE_HALF_WIDTH * scale;
+    const b = a * lidRatio(timestamp, [...blinks, ...squints]);
+
+    const frame = [timestamp];
+    for (const index of points) {
+      const eyeCx = cx + (LEFT_EYE.includes(index) ? -1 : 1) * 2.2 * a;
+      const angle = EYE_ANGLES[index];
+      frame.push(
+        round(eyeCx + a * Math.cos(angle) + gaussian(random, scenario.jitter), 1),
+        round(cy + b * Math.sin(angle) + gaussian(random, scenario.jitter), 1),
+      );
+    }
+    frames.push(frame);
+  }
+
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    source: 'synthetic',
+    kind: 'blink',
+    width: FRAME_WIDTH,
+    height: FRAME_HEIGHT,
+    points,
+    frames,
+    blinks: blinks.map(({ start, closingMs, holdMs, openingMs, kind }) => ({
+      start,
+      end: Math.round(start + closingMs + holdMs + openingMs),
+      kind,
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Redness
+
+const CROP_WIDTH = 40;
+const CROP_HEIGHT = 20;
+const SKIN: [number, number, number] = [196, 150, 128];
+const IRIS: [number, number, number] = [72, 52, 40];
+const WHITE: [number, number, number] = [236, 233, 228];
+const FLUSH: [number, number, number] = [232, 168, 160];
+const VESSEL: [number, number, number] = [205, 92, 88];
+
+interface RednessScenario {
+  id: string;
+  /** How strongly the sclera is flushed towards the corners, with vessels to match; 1 is well bloodshot. */
+  injection: number;
+  /** Overall exposure; 1 is a well-lit eye. */
+  exposure: number;
+  /** Per-channel multipliers of the light source and camera. */
+  tint: [number, number, number];
+  /** Lid opening relative to the nominal almond shape. */
+  opening: number;
+  insufficient?: InsufficientReason;
+}
+
+function almond(opening: number): Point[] {
+  const points: Point[] = [];
+  const cx = CROP_WIDTH / 2;
+  const cy = CROP_HEIGHT / 2;
+  const a = CROP_WIDTH / 2 - 1;
+  const b = (CROP_HEIGHT / 2 - 1) * opening;
+  for (let k = 0; k < 16; k++) {
+    const angle = (k * Math.PI) / 8;
+    points.push([round(cx + a * Math.cos(angle), 2), round(cy + b * Math.sin(angle), 2)]);
+  }
+  return points;
+}
+
+function insideAlmond(x: number, y: number, opening: number) {
+  const a = CROP_WIDTH / 2 - 1;
+  const b = (CROP_HEIGHT / 2 - 1) * opening;
+  return b > 0 && ((x - CROP_WIDTH / 2) / a) ** 2 + ((y - CROP_HEIGHT / 2) / b) ** 2 < 1;
+}
+
+function generateRednessSample(random: Random, scenario: RednessScenario): RednessFixtureSample {
+  const iris: Circle = { cx: round(CROP_WIDTH / 2 + uniform(random, -3, 3), 2), cy: CROP_HEIGHT / 2, r: 6 };
+  // Injected eyes redden from the corners inwards while the sclera next to
+  // the iris stays white, with thin vessels running through the flush
+  const vesselRows = new Set<number>();
+  for (let y = 0; y < CROP_HEIGHT; y++) if (random() < scenario.injection * 0.5) vesselRows.add(y);
+
+  const painted: [number, number, number][] = [];
+  for (let y = 0; y < CROP_HEIGHT; y++) {
+    for (let x = 0; x < CROP_WIDTH; x++) {
+      if (!insideAlmond(x + 0.5, y + 0.5, scenario.opening)) {
+        painted.push(SKIN);
+      } else if (Math.hypot(x + 0.5 - iris.cx, y + 0.5 - iris.cy) < iris.r) {
+        painted.push(IRIS);
+      } else {
+        const periphery = Math.min(1, Math.abs(x + 0.5 - iris.cx) / (CROP_WIDTH / 2 - iris.r));
+        const flush = scenario.injection * periphery;
+        const vessel = vesselRows.has(y) && random() < periphery ? scenario.injection : 0;
+        painted.push([0, 1, 2].map((c) => {
+          const flushed = WHITE[c] + (FLUSH[c] - WHITE[c]) * flush;
+          return flushed + (VESSEL[c] - flushed) * vessel;
+        }) as [number, number, number]);
+      }
+    }
+  }
+
+  const render = (exposure: number, tint: [number, number, number], noise: number) => {
+    const data = new Uint8ClampedArray(CROP_WIDTH * CROP_HEIGHT * 4);
+    painted.forEach((color, i) => {
+      for (let c = 0; c < 3; c++) data[i * 4 + c] = Math.round(color[c] * exposure * tint[c] + gaussian(random, noise));
+      data[i * 4 + 3] = 255;
+    });
+    return data;
+  };
+  const polygon = almond(scenario.opening);
+  const data = render(scenario.exposure, scenario.tint, 3);
+
+  // The label is what the app measures on the same eye under neutral light
+  // without sensor noise, so the score shows how well lighting and noise are
+  // cancelled out, not how the index itself is defined
+  let label: RednessFixtureSample['label'];
+  if (scenario.insufficient) {
+    label = { insufficient: scenario.insufficient };
+  } else {
+    const reference = measureScleraRedness({ data: render(1, [1, 1, 1], 0), width: CROP_WIDTH, height: CROP_HEIGHT }, polygon, iris);
+    if (reference.status !== 'ok') throw new Error(`Redness sample ${scenario.id} is unmeasurable even under neutral light`);
+    label = { index: round(reference.index, 2) };
+  }
+
+  return {
+    id: scenario.id,
+    width: CROP_WIDTH,
+    height: CROP_HEIGHT,
+    rgba: Buffer.from(data).toString('base64'),
+    polygon,
+    iris,
+    label,
+  };
+}
+
+function generateRednessFixture(): RednessFixture {
+  const random = mulberry32(22);
+  const scenarios: RednessScenario[] = [];
+  for (let i = 0; i < 18; i++) {
+    scenarios.push({
+      id: `graded-${i + 1}`,
+      injection: (i / 17) * 1.4,
+      exposure: uniform(random, 0.75, 1.02),
+      tint: [uniform(random, 0.9, 1.08), 1, uniform(random, 0.88, 1.1)],
+      opening: uniform(random, 0.85, 1),
+    });
+  }
+  scenarios.push(
+    { id: 'closed', injection: 0.3, exposure: 1, tint: [1, 1, 1], opening: 0.15, insufficient: 'eyeClosed' },
+    { id: 'dark', injection: 0.3, exposure: 0.22, tint: [1, 1, 1], opening: 1, insufficient: 'tooDark' },
+    { id: 'overexposed', injection: 0.1, exposure: 1.6, tint: [1, 1, 1], opening: 1, insufficient: 'overexposed' },
+    { id: 'blue-cast', injection: 0.3, exposure: 0.9, tint: [0.5, 0.85, 1.1], opening: 1, insufficient: 'colorCast' },
+  );
+
+  return {
+    name: 'synthetic-eyes',
+    description: 'Eye crops from clear to bloodshot under varied exposure and tint, plus one crop per rejection reason',
+    source: 'synthetic',
+    kind: 'redness',
+    samples: scenarios.map((scenario) => generateRednessSample(random, scenario)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Emotions
+
+function generateEmotionFixture(): EmotionFixture {
+  const random = mulberry32(23);
+  const durationMs = 90_000;
+  const intervalMs = DEFAULT_EMOTION_INTERVAL_MS;
+
+  const segments: EmotionFixture['segments'] = [];
+  let previous: Emotion = 'neutral';
+  for (let t = 0; t < durationMs; ) {
+    const length = Math.round(uniform(random, 3000, 9000));
+    // Neutral in between expressions, as in a working session
+    const emotion: Emotion = previous !== 'neutral' || random() < 0.3
+      ? 'neutral'
+      : EMOTIONS[1 + Math.floor(random() * (EMOTIONS.length - 1))];
+    segments.push({ start: t, end: Math.min(durationMs, t + length), emotion });
+    previous = emotion;
+    t += length;
+  }
+
+  const detections: EmotionFixture['detections'] = [];
+  for (let t = 0; t < durationMs; t += intervalMs + Math.round(gaussian(random, 20))) {
+    const truth = segments.find(({ start, end }) => t >= start && t < end)!.emotion;
+    // One detection in ten flickers to another expression
+    const shown = random() < 0.1 ? EMOTIONS[Math.floor(random() * EMOTIONS.length)] : truth;
+    const expressions: ExpressionVector = {};
+    let rest = 1;
+    const top = uniform(random, 0.45, 0.9);
+    for (const emotion of EMOTIONS) {
+      if (emotion === shown) continue;
+      expressions[emotion] = uniform(random, 0, 1);
+    }
+    const others = Object.values(expressions).reduce((sum, p) => sum + (p ?? 0), 0);
+    rest -= top;
+    for (const emotion of EMOTIONS) {
+      if (emotion !== shown) expressions[emotion] = round(((expressions[emotion] ?? 0) / others) * rest, 3);
+    }
+    expressions[shown] = round(top, 3);
+    detections.push({ t, expressions });
+  }
+
+  return {
+    name: 'synthetic-expressions',
+    description: 'Ninety seconds of neutral with expression episodes; one detection in ten flickers to another label',
+    source: 'synthetic',
+    kind: 'emotion',
+    intervalMs,
+    detections,
+    segments,
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+// One line per array entry keeps the files readable and their diffs small
+function formatFixture(fixture: Fixture) {
+  const fields = Object.entries(fixture).map(([key, value]) => {
+    const body = Array.isArray(value) && value.length > 0
+      ? `[\n${value.map((item) => `    ${JSON.stringify(item)}`).join(',\n')}\n  ]`
+      : JSON.stringify(value);
+    return `  ${JSON.stringify(key)}: ${body}`;
+  });
+  return `{\n${fields.join(',\n')}\n}\n`;
+}
+
+/** Writes the synthetic fixtures under `dir` and returns the files written. */
+export function generateFixtures(dir: string): string[] {
+  const fixtures: Fixture[] = [
+    generateBlinkFixture({
+      name: 'synthetic-steady',
+      description: 'Still head, clean landmarks, steady 30 fps; complete, incomplete and prolonged blinks',
+      seed: 20,
+      durationMs: 40_000,
+      jitter: 0.25,
+      timingJitter: 0,
+      headMotion: false,
+      squints: 0,
+      dropouts: 0,
+    }),
+    generateBlinkFixture({
+      name: 'synthetic-noisy',
+      description: 'Swaying head, landmark jitter, uneven frame timing, squints and tracking dropouts between blinks',
+      seed: 21,
+      durationMs: 40_000,
+      jitter: 0.6,
+      timingJitter: 4,
+      headMotion: true,
+      squints: 2,
+      dropouts: 2,
+    }),
+    generateRednessFixture(),
+    generateEmotionFixture(),
+  ];
+
+  return fixtures.map((fixture) => {
+    mkdirSync(join(dir, fixture.kind), { recursive: true });
+    const file = join(dir, fixture.kind, `${fixture.name}.json`);
+    writeFileSync(file, formatFixture(fixture));
+    return file;
+  });
+}
@@ -0,0 +1,9 @@
+// Loads the TypeScript bench through Vite's module runner, so it shares the
+// app's module resolution and runs under plain Node without a build step.
+import { runnerImport } from 'vite';
+
+const { module } = await runnerImport(new URL('./cli.ts', import.meta.url).pathname, {
+  configFile: false,
+  logLevel: 'error',
+});
+process.exitCode = await module.main(process.argv.slice(2));
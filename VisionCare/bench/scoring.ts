@@ -0,0 +1,125 @@
+export interface DetectionScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Null when there is nothing to divide by, e.g. no detections at all. */
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export function detectionScore(truePositives: number, falsePositives: number, falseNegatives: number): DetectionScore {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null;
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : null;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+/** Sums the counts of several scores and recomputes the ratios. */
+export function combineScores(scores: DetectionScore[]): DetectionScore {
+  return detectionScore(
+    scores.reduce((sum, s) => sum + s.truePositives, 0),
+    scores.reduce((sum, s) => sum + s.falsePositives, 0),
+    scores.reduce((sum, s) => sum + s.falseNegatives, 0),
+  );
+}
+
+/** Unweighted mean of per-class scores; classes without a value are skipped. */
+export function macroAverage(scores: DetectionScore[]): DetectionScore {
+  const mean = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+  };
+  return {
+    ...combineScores(scores),
+    precision: mean(scores.map((s) => s.precision)),
+    recall: mean(scores.map((s) => s.recall)),
+    f1: mean(scores.map((s) => s.f1)),
+  };
+}
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface IntervalMatch<T extends Interval, D extends Interval> {
+  pairs: { truth: T; detected: D }[];
+  missed: T[];
+  spurious: D[];
+}
+
+/**
+ * One-to-one matching of detected events to labeled ones. A detection can
+ * match a label when it starts within the label's span widened by
+ * `toleranceMs` on both sides; among candidates, the closest onsets pair up
+ * first.
+ */
+export function matchIntervals<T extends Interval, D extends Interval>(
+  truth: T[],
+  detected: D[],
+  toleranceMs: number,
+): IntervalMatch<T, D> {
+  const candidates: { t: number; d: number; distance: number }[] = [];
+  truth.forEach((label, t) => {
+    detected.forEach((detection, d) => {
+      if (detection.start >= label.start - toleranceMs && detection.start <= label.end + toleranceMs) {
+        candidates.push({ t, d, distance: Math.abs(detection.start - label.start) });
+      }
+    });
+  });
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const usedTruth = new Set<number>();
+  const usedDetected = new Set<number>();
+  const pairs: { truth: T; detected: D }[] = [];
+  for (const { t, d } of candidates) {
+    if (usedTruth.has(t) || usedDetected.has(d)) continue;
+    usedTruth.add(t);
+    usedDetected.add(d);
+    pairs.push({ truth: truth[t], detected: detected[d] });
+  }
+
+  return {
+    pairs: pairs.sort((a, b) => a.truth.start - b.truth.start),
+    missed: truth.filter((_, t) => !usedTruth.has(t)),
+    spurious: detected.filter((_, d) => !usedDetected.has(d)),
+  };
+}
+
+export interface Distribution {
+  mean: number;
+  median: number;
+  p95: number;
+  max: number;
+}
+
+export function distribution(values: number[]): Distribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    mean: values.reduce((a, b) => a + b, 0) / values.length,
+    median: at(0.5),
+    p95: at(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/** Pearson correlation, or null for fewer than two pairs or a constant series. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+  const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const my = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
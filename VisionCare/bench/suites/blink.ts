@@ -0,0 +1,115 @@
+import type { BlinkKind } from '../../src/metrics/types';
+import {
+  BlinkAnalyzer,
+  DEFAULT_BLINK_BASELINE,
+  type BlinkBaseline,
+  type BlinkThresholds,
+} from '../../src/vision/analyzers/blinkAnalyzer';
+import { LEFT_EYE, RIGHT_EYE } from '../../src/vision/landmarks';
+import type { AnalyzerContext, BlinkEndEvent, Landmark } from '../../src/vision/types';
+import type { BlinkFixture } from '../fixtures';
+import { combineScores, detectionScore, distribution, matchIntervals, type DetectionScore, type Distribution } from '../scoring';
+
+export interface BlinkBenchOptions {
+  /** How far a detected onset may fall outside a labeled blink and still match it. */
+  toleranceMs: number;
+  /** Replaces the fixture's (or the default) thresholds, for tuning. */
+  thresholds?: Partial<BlinkThresholds>;
+}
+
+export interface BlinkFixtureReport {
+  name: string;
+  source: BlinkFixture['source'];
+  durationMs: number;
+  labeled: number;
+  detected: number;
+  score: DetectionScore;
+  /** Absolute gap between detected and labeled onset (or end), in ms, over matched blinks. */
+  onsetError: Distribution | null;
+  endError: Distribution | null;
+  /** Share of matched blinks with a kind label whose detected kind agrees. */
+  kindAgreement: number | null;
+}
+
+export interface BlinkReport {
+  fixtures: BlinkFixtureReport[];
+  overall: DetectionScore;
+}
+
+interface DetectedBlink {
+  start: number;
+  end: number;
+  kind: BlinkKind;
+}
+
+const REQUIRED_POINTS = [...LEFT_EYE, ...RIGHT_EYE];
+
+/** Rebuilds sparse normalised face meshes from a fixture's pixel coordinates. */
+function* meshes(fixture: BlinkFixture): Generator<{ timestamp: number; landmarks: Landmark[] | null }> {
+  const missing = REQUIRED_POINTS.filter((index) => !fixture.points.includes(index));
+  if (missing.length > 0) {
+    throw new Error(`${fixture.name}: landmarks ${missing.join(', ')} are needed for EAR but not stored`);
+  }
+
+  const size = Math.max(...fixture.points) + 1;
+  for (const [timestamp, ...coords] of fixture.frames) {
+    if (coords.length === 0) {
+      yield { timestamp, landmarks: null };
+      continue;
+    }
+    const landmarks: Landmark[] = new Array(size);
+    fixture.points.forEach((index, i) => {
+      landmarks[index] = { x: coords[i * 2] / fixture.width, y: coords[i * 2 + 1] / fixture.height };
+    });
+    yield { timestamp, landmarks };
+  }
+}
+
+function resolveBaseline(fixture: BlinkFixture, overrides: Partial<BlinkThresholds> | undefined): BlinkBaseline {
+  const baseline = fixture.baseline ?? DEFAULT_BLINK_BASELINE;
+  return { ...baseline, thresholds: { ...baseline.thresholds, ...overrides } };
+}
+
+/** Runs the blink analyzer over one fixture and collects the blinks it reports. */
+export function detectBlinks(fixture: BlinkFixture, thresholds?: Partial<BlinkThresholds>): DetectedBlink[] {
+  const analyzer = new BlinkAnalyzer(resolveBaseline(fixture, thresholds));
+  const detected: DetectedBlink[] = [];
+  const context: AnalyzerContext = {
+    emit(type, event) {
+      if (type !== 'blinkEnd') return;
+      const { startedAt, timestamp, kind } = event as BlinkEndEvent;
+      detected.push({ start: startedAt, end: timestamp, kind });
+    },
+    recordLatency() {},
+  };
+
+  for (const { timestamp, landmarks } of meshes(fixture)) {
+    analyzer.process({ timestamp, landmarks, width: fixture.width, height: fixture.height }, context);
+  }
+  return detected;
+}
+
+export function runBlinkBench(fixtures: BlinkFixture[], { toleranceMs, thresholds }: BlinkBenchOptions): BlinkReport {
+  const reports = fixtures.map((fixture): BlinkFixtureReport => {
+    const detected = detectBlinks(fixture, thresholds);
+    const { pairs, missed, spurious } = matchIntervals(fixture.blinks, detected, toleranceMs);
+    const kinded = pairs.filter(({ truth }) => truth.kind);
+    const frames = fixture.frames;
+
+    return {
+      name: fixture.name,
+      source: fixture.source,
+      durationMs: frames.length > 0 ? frames[frames.length - 1][0] - frames[0][0] : 0,
+      labeled: fixture.blinks.length,
+      detected: detected.length,
+      score: detectionScore(pairs.length, spurious.length, missed.length),
+      onsetError: distribution(pairs.map(({ truth, detected }) => Math.abs(detected.start - truth.start))),
+      endError: distribution(pairs.map(({ truth, detected }) => Math.abs(detected.end - truth.end))),
+      kindAgreement: kinded.length > 0
+        ? kinded.filter(({ truth, detected }) => truth.kind === detected.kind).length / kinded.length
+        : null,
+    };
+  });
+
+  return { fixtures: reports, overall: combineScores(reports.map((r) => r.score)) };
+}
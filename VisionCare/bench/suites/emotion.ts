@@ -0,0 +1,115 @@
+import { EMOTIONS, type Emotion, type ExpressionVector } from '../../src/metrics/types';
+import { EmotionAnalyzer } from '../../src/vision/analyzers/emotionAnalyzer';
+import type { FaceBox } from '../../src/vision/faceTracker';
+import type { AnalyzerContext, EmotionEvent, FrameSource, Landmark } from '../../src/vision/types';
+import type { EmotionFixture } from '../fixtures';
+import { combineScores, detectionScore, distribution, macroAverage, type DetectionScore, type Distribution } from '../scoring';
+
+export interface EmotionBenchOptions {
+  /** Overrides the analyzer's smoothing time constant. */
+  smoothingMs?: number;
+}
+
+export interface EmotionFixtureReport {
+  name: string;
+  source: EmotionFixture['source'];
+  /** Reported emotions that fall inside a labeled segment. */
+  scored: number;
+  accuracy: number | null;
+  /** Per-emotion scores, for emotions that are labeled or reported. */
+  perEmotion: Partial<Record<Emotion, DetectionScore>>;
+  macro: DetectionScore;
+  /** Time from a labeled change of emotion until the analyzer reports it. */
+  switchLatency: Distribution | null;
+  /** Labeled changes the analyzer never reported before the segment ended. */
+  missedSwitches: number;
+}
+
+export interface EmotionReport {
+  fixtures: EmotionFixtureReport[];
+  overall: DetectionScore;
+}
+
+// The detector stub and the face mesh agree on where the face is, so every
+// detection matches the tracked face
+const FACE_BOX: FaceBox = { minX: 0.3, minY: 0.2, maxX: 0.7, maxY: 0.8 };
+const FACE_LANDMARKS: Landmark[] = [
+  { x: FACE_BOX.minX, y: FACE_BOX.minY },
+  { x: FACE_BOX.maxX, y: FACE_BOX.maxY },
+];
+// Never drawn: the stub detector ignores the pixels
+const NO_IMAGE = {} as FrameSource;
+
+/** Replays a fixture's detector output through the emotion analyzer. */
+export async function reportedEmotions(fixture: EmotionFixture, smoothingMs?: number): Promise<EmotionEvent[]> {
+  let current: ExpressionVector = {};
+  const analyzer = new EmotionAnalyzer({
+    intervalMs: fixture.intervalMs,
+    smoothingMs,
+    detect: async () => [{ box: FACE_BOX, expressions: current }],
+  });
+  const events: EmotionEvent[] = [];
+  const context: AnalyzerContext = {
+    emit(type, event) {
+      if (type === 'emotion') events.push(event as EmotionEvent);
+    },
+    recordLatency() {},
+  };
+
+  for (const { t, expressions } of fixture.detections) {
+    current = expressions;
+    analyzer.process({ timestamp: t, landmarks: FACE_LANDMARKS, image: NO_IMAGE, width: 640, height: 480 }, context);
+    await analyzer.idle();
+  }
+  return events;
+}
+
+function labelAt(fixture: EmotionFixture, timestamp: number): Emotion | null {
+  return fixture.segments.find(({ start, end }) => timestamp >= start && timestamp < end)?.emotion ?? null;
+}
+
+export async function runEmotionBench(fixtures: EmotionFixture[], { smoothingMs }: EmotionBenchOptions = {}): Promise<EmotionReport> {
+  const reports: EmotionFixtureReport[] = [];
+  for (const fixture of fixtures) {
+    const events = await reportedEmotions(fixture, smoothingMs);
+
+    const scored = events
+      .map((event) => ({ event, label: labelAt(fixture, event.timestamp) }))
+      .filter((entry): entry is { event: EmotionEvent; label: Emotion } => entry.label !== null);
+    const perEmotion: Partial<Record<Emotion, DetectionScore>> = {};
+    for (const emotion of EMOTIONS) {
+      const tp = scored.filter(({ event, label }) => label === emotion && event.emotion === emotion).length;
+      const fp = scored.filter(({ event, label }) => label !== emotion && event.emotion === emotion).length;
+      const fn = scored.filter(({ event, label }) => label === emotion && event.emotion !== emotion).length;
+      if (tp + fp + fn > 0) perEmotion[emotion] = detectionScore(tp, fp, fn);
+    }
+
+    const latencies: number[] = [];
+    let missedSwitches = 0;
+    fixture.segments.forEach((segment, i) => {
+      if (i === 0 || fixture.segments[i - 1].emotion === segment.emotion) return;
+      const caught = events.find(
+        ({ timestamp, emotion }) => timestamp >= segment.start && timestamp < segment.end && emotion === segment.emotion,
+      );
+      if (caught) latencies.push(caught.timestamp - segment.start);
+      else missedSwitches += 1;
+    });
+
+    reports.push({
+      name: fixture.name,
+      source: fixture.source,
+      scored: scored.length,
+      accuracy: scored.length > 0 ? scored.filter(({ event, label }) => event.emotion === label).length / scored.length : null,
+      perEmotion,
+      macro: macroAverage(Object.values(perEmotion)),
+      switchLatency: distribution(latencies),
+      missedSwitches,
+    });
+  }
+
+  // Counts are pooled per emotion across fixtures before averaging over emotions
+  const pooled = EMOTIONS.map((emotion) => reports.flatMap((r) => r.perEmotion[emotion] ?? []))
+    .filter((scores) => scores.length > 0)
+    .map(combineScores);
+  return { fixtures: reports, overall: macroAverage(pooled) };
+}
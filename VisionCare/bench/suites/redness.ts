@@ -0,0 +1,93 @@
+import { DEFAULT_REDNESS_THRESHOLDS } from '../../src/insights/verdicts';
+import { measureScleraRedness } from '../../src/vision/scleraRedness';
+import type { RednessFixture, RednessFixtureSample } from '../fixtures';
+import { combineScores, detectionScore, pearson, type DetectionScore } from '../scoring';
+
+export interface RednessBenchOptions {
+  /** Index at which an eye counts as red; defaults to the app's alert level. */
+  alertIndex?: number;
+}
+
+export interface RednessFixtureReport {
+  name: string;
+  source: RednessFixture['source'];
+  samples: number;
+  /** Red eyes (label at or above the alert index) found by the measured index. */
+  score: DetectionScore;
+  /** Index errors over samples both labeled and measured. */
+  meanAbsoluteError: number | null;
+  rootMeanSquareError: number | null;
+  correlation: number | null;
+  /** Share of measurable samples that got an index. */
+  coverage: number | null;
+  /** Share of unmeasurable samples rejected for the labeled reason. */
+  rejectionAgreement: number | null;
+}
+
+export interface RednessReport {
+  fixtures: RednessFixtureReport[];
+  overall: DetectionScore;
+}
+
+function measure(sample: RednessFixtureSample) {
+  const data = new Uint8ClampedArray(Buffer.from(sample.rgba, 'base64'));
+  if (data.length !== sample.width * sample.height * 4) {
+    throw new Error(`Sample ${sample.id}: expected ${sample.width}x${sample.height} RGBA pixels, got ${data.length} bytes`);
+  }
+  return measureScleraRedness({ data, width: sample.width, height: sample.height }, sample.polygon, sample.iris);
+}
+
+export function runRednessBench(
+  fixtures: RednessFixture[],
+  { alertIndex = DEFAULT_REDNESS_THRESHOLDS.alert }: RednessBenchOptions = {},
+): RednessReport {
+  const reports = fixtures.map((fixture): RednessFixtureReport => {
+    const labeled: number[] = [];
+    const measured: number[] = [];
+    let measurable = 0;
+    let unmeasurable = 0;
+    let rejectedForReason = 0;
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+
+    for (const sample of fixture.samples) {
+      const result = measure(sample);
+      if ('insufficient' in sample.label) {
+        unmeasurable += 1;
+        if (result.status === 'insufficient' && result.reason === sample.label.insufficient) rejectedForReason += 1;
+        // An index reported for an unusable eye would be a spurious reading
+        if (result.status === 'ok' && result.index >= alertIndex) falsePositives += 1;
+        continue;
+      }
+
+      measurable += 1;
+      const red = sample.label.index >= alertIndex;
+      if (result.status !== 'ok') {
+        if (red) falseNegatives += 1;
+        continue;
+      }
+      labeled.push(sample.label.index);
+      measured.push(result.index);
+      const flagged = result.index >= alertIndex;
+      if (red && flagged) truePositives += 1;
+      else if (red) falseNegatives += 1;
+      else if (flagged) falsePositives += 1;
+    }
+
+    const errors = measured.map((index, i) => index - labeled[i]);
+    return {
+      name: fixture.name,
+      source: fixture.source,
+      samples: fixture.samples.length,
+      score: detectionScore(truePositives, falsePositives, falseNegatives),
+      meanAbsoluteError: errors.length > 0 ? errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length : null,
+      rootMeanSquareError: errors.length > 0 ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length) : null,
+      correlation: pearson(labeled, measured),
+      coverage: measurable > 0 ? labeled.length / measurable : null,
+      rejectionAgreement: unmeasurable > 0 ? rejectedForReason / unmeasurable : null,
+    };
+  });
+
+  return { fixtures: reports, overall: combineScores(reports.map((r) => r.score)) };
+}
@@ -0,0 +1,93 @@
+// VisionCare service worker: keeps the app shell and every vision runtime
+// (MediaPipe wasm, face-api models) available offline after the
+// first visit. Bump CACHE_VERSION whenever the precache list changes.
+// The optional Human backend's models come from a CDN and are not cached.
+const CACHE_VERSION = 'v2';
+const CACHE_NAME = `visioncare-${CACHE_VERSION}`;
+
+const scope = new URL(self.registration.scope);
+const withScope = (path) => new URL(path, scope).toString();
+
+const PRECACHE_URLS = [
+  '',
+  'index.html',
+  'vite.svg',
+  'mediapipe/face_mesh.js',
+  'mediapipe/face_mesh.binarypb',
+  'mediapipe/face_mesh_solution_packed_assets.data',
+  'mediapipe/face_mesh_solution_packed_assets_loader.js',
+  'mediapipe/face_mesh_solution_simd_wasm_bin.js',
+  'mediapipe/face_mesh_solution_simd_wasm_bin.wasm',
+  'mediapipe/face_mesh_solution_wasm_bin.js',
+  'mediapipe/face_mesh_solution_wasm_bin.wasm',
+  'models/tiny_face_detector_model-weights_manifest.json',
+  'models/tiny_face_detector_model-shard1',
+  'models/face_expression_model-weights_manifest.json',
+  'models/face_expression_model-shard1',
+].map(withScope);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('visioncare-') && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the URLs it loaded before the worker took control (hashed
+// JS/CSS bundles) so they are cached too.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  const urls = event.data.urls.filter((url) => new URL(url).origin === scope.origin);
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)))
+    )
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== scope.origin) return;
+
+  // Navigations: network first so deploys show up, cached shell when offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(withScope('index.html'), copy));
+          return response;
+        })
+        .catch(() => caches.match(withScope('index.html')))
+    );
+    return;
+  }
+
+  // Everything else is either content-hashed or a versioned runtime asset,
+  // so cache first and fill the cache on the way through.
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+      return fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
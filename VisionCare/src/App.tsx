@@ -1,19 +1,53 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import AuthProvider from './auth/AuthProvider';
+import RequireAuth from './auth/RequireAuth';
+import RequireRole from './auth/RequireRole';
+import RequireDataKey from './privacy/RequireDataKey';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
+import History from './pages/History';
+import Replay from './pages/Replay';
+import BackendComparison from './pages/BackendComparison';
+import Settings from './pages/Settings';
+import Privacy from './pages/Privacy';
+import Sharing from './pages/Sharing';
+import Clinician from './pages/Clinician';
+import PatientReview from './pages/PatientReview';
 import './App.css';
 
 function App() {
   return (
-    <Router>
-      <Routes>
-        <Route path="/" element={<Navigate to="/login" replace />} />
-        <Route path="/login" element={<Login />} />
-        <Route path="/signup" element={<Signup />} />
-        <Route path="/dashboard" element={<Dashboard />} />
-      </Routes>
-    </Router>
+    <AuthProvider>
+      <Router>
+        <Routes>
+          <Route path="/" element={<Navigate to="/login" replace />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/signup" element={<Signup />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route element={<RequireAuth />}>
+            <Route element={<RequireDataKey />}>
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/history" element={<History />} />
+              <Route path="/replay" element={<Replay />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/compare" element={<BackendComparison />} />
+              <Route path="/privacy" element={<Privacy />} />
+              <Route element={<RequireRole role="patient" />}>
+                <Route path="/sharing" element={<Sharing />} />
+              </Route>
+              <Route element={<RequireRole role="clinician" />}>
+                <Route path="/clinician" element={<Clinician />} />
+                <Route path="/clinician/patients/:patientId" element={<PatientReview />} />
+              </Route>
+            </Route>
+          </Route>
+        </Routes>
+      </Router>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,6 @@
+// Point VITE_API_URL at a real backend; without it the app talks to the
+// in-browser mock server so it runs fully offline.
+const configuredBaseUrl = import.meta.env.VITE_API_URL as string | undefined;
+
+export const API_BASE_URL = configuredBaseUrl ?? '/api';
+export const USE_MOCK_API = !configuredBaseUrl;
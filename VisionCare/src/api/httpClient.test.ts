@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, apiRequest } from './httpClient';
+
+vi.mock('./config', () => ({ API_BASE_URL: 'https://api.example.com', USE_MOCK_API: false }));
+
+function respond(status: number, body: string) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('apiRequest', () => {
+  it('returns the parsed body', async () => {
+    respond(200, JSON.stringify({ id: 'pat' }));
+    await expect(apiRequest('/me')).resolves.toEqual({ id: 'pat' });
+  });
+
+  it("fails with the server's message and status", async () => {
+    respond(401, JSON.stringify({ message: 'Session expired' }));
+    await expect(apiRequest('/me')).rejects.toEqual(new ApiError(401, 'Session expired'));
+  });
+
+  it('keeps the status of a failure whose body is not JSON', async () => {
+    respond(502, '<html><body>Bad Gateway</body></html>');
+    const error = await apiRequest('/me').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 502, message: 'Request failed (502)' });
+  });
+
+  it('fails on a success whose body is not JSON', async () => {
+    respond(200, 'OK');
+    await expect(apiRequest('/me')).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('reports an unreachable server with status 0', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Promise.reject(new TypeError('Failed to fetch'))));
+    await expect(apiRequest('/me')).rejects.toMatchObject({ status: 0 });
+  });
+});
@@ -0,0 +1,53 @@
+import { API_BASE_URL, USE_MOCK_API } from './config';
+import { createMockFetch } from './mockServer';
+import { mockRoutes } from './mockRoutes';
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const apiFetch: typeof fetch = USE_MOCK_API
+  ? createMockFetch(API_BASE_URL, mockRoutes)
+  : (input, init) => fetch(input, init);
+
+export interface ApiRequestOptions {
+  method?: string;
+  body?: unknown;
+  token?: string;
+}
+
+export async function apiRequest<T>(path: string, { method = 'GET', body, token }: ApiRequestOptions = {}): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let response: Response;
+  try {
+    response = await apiFetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new ApiError(0, 'Could not reach the server. Check your connection and try again.');
+  }
+
+  const text = await response.text();
+  let data: { message?: string } | undefined;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Not JSON, e.g. a proxy's error page; failures still keep their status
+    if (response.ok) throw new ApiError(response.status, 'The server sent a response that could not be read.');
+  }
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.message ?? `Request failed (${response.status})`);
+  }
+  return data as T;
+}
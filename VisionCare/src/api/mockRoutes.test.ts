@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockUserTables } from './mockRoutes';
+
+const SEED: Record<string, { [field: string]: unknown }[]> = {
+  users: [
+    { id: 'pat', email: 'pat@example.com', name: 'Pat', salt: 's', passwordHash: 'h' },
+    { id: 'doc', email: 'doc@example.com', name: 'Doc', role: 'clinician', salt: 's', passwordHash: 'h' },
+  ],
+  refreshTokens: [
+    { token: 'a', userId: 'pat', expiresAt: 1 },
+    { token: 'b', userId: 'doc', expiresAt: 1 },
+  ],
+  invites: [
+    { id: 'i1', clinicianId: 'doc', patientEmail: 'pat@example.com', status: 'pending' },
+    { id: 'i2', clinicianId: 'doc', patientEmail: 'sam@example.com', status: 'pending' },
+  ],
+  careLinks: [{ id: 'l1', clinicianId: 'doc', patientId: 'pat' }],
+  sharedSessions: [{ sessionId: 's1', patientId: 'pat' }],
+  annotations: [{ id: 'n1', clinicianId: 'doc', patientId: 'pat', sessionId: 's1' }],
+};
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+});
+
+const rows = (table: string) => JSON.parse(storage.get(`mockApi:${table}`) ?? '[]') as { [field: string]: unknown }[];
+
+beforeEach(() => {
+  storage.clear();
+  Object.entries(SEED).forEach(([table, seeded]) => storage.set(`mockApi:${table}`, JSON.stringify(seeded)));
+});
+
+describe('mockUserTables', () => {
+  it('counts the rows a user is part of', () => {
+    const counts = Object.fromEntries(mockUserTables.map((table) => [table.table, table.count('pat').rows]));
+    expect(counts).toEqual({
+      invites: 1,
+      careLinks: 1,
+      sharedSessions: 1,
+      annotations: 1,
+      accessTokens: 0,
+      refreshTokens: 1,
+      resetTokens: 0,
+      users: 1,
+    });
+  });
+
+  it("erases the user's rows, including invites sent to their email, and keeps everyone else's", () => {
+    mockUserTables.forEach((table) => table.erase('pat'));
+
+    expect(rows('users').map((row) => row.id)).toEqual(['doc']);
+    expect(rows('refreshTokens').map((row) => row.token)).toEqual(['b']);
+    expect(rows('invites').map((row) => row.id)).toEqual(['i2']);
+    expect(rows('careLinks')).toEqual([]);
+    expect(rows('sharedSessions')).toEqual([]);
+    expect(rows('annotations')).toEqual([]);
+    expect(mockUserTables.every((table) => table.count('pat').rows === 0)).toBe(true);
+  });
+});
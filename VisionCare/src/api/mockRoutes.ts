@@ -0,0 +1,8 @@
+import type { MockRoute, MockUserData } from './mockServer';
+import { authRoutes, authUserData } from '../auth/mockAuthRoutes';
+import { clinicRoutes, clinicUserData } from '../clinic/mockClinicRoutes';
+
+export const mockRoutes: MockRoute[] = [...authRoutes, ...clinicRoutes];
+
+// Erased in this order; the account tables come last since the others look users up in them
+export const mockUserTables: MockUserData[] = [...clinicUserData, ...authUserData];
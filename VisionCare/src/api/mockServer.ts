@@ -0,0 +1,139 @@
+// MSW-style stand-in for the backend: a fetch-compatible function that
+// routes requests to local handlers backed by localStorage tables.
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockRoute {
+  method: string;
+  /** Path relative to the API base, e.g. `/auth/login` or `/patients/:id`. */
+  path: string;
+  handler: MockHandler;
+}
+
+/** Thrown by handlers to produce an error response. */
+export class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+  }
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function createMockFetch(baseUrl: string, routes: MockRoute[], latencyMs = 150): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url, window.location.origin);
+    const basePath = new URL(baseUrl, window.location.origin).pathname.replace(/\/$/, '');
+    const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+
+    await new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+    for (const route of routes) {
+      if (route.method !== request.method) continue;
+      const params = matchPath(route.path, path);
+      if (!params) continue;
+
+      const text = await request.text();
+      try {
+        const response = await route.handler({
+          method: request.method,
+          path,
+          params,
+          query: url.searchParams,
+          headers: request.headers,
+          body: text ? JSON.parse(text) : undefined,
+        });
+        return jsonResponse(response.status, response.body);
+      } catch (err) {
+        if (err instanceof MockHttpError) return jsonResponse(err.status, { message: err.message });
+        console.error('Mock server error:', err);
+        return jsonResponse(500, { message: 'Internal server error' });
+      }
+    }
+
+    return jsonResponse(404, { message: `No mock route for ${request.method} ${path}` });
+  };
+}
+
+export interface MockTable<T> {
+  readonly name: string;
+  all(): T[];
+  save(rows: T[]): void;
+}
+
+/** A JSON array persisted in localStorage, standing in for a database table. */
+export function mockTable<T>(name: string): MockTable<T> {
+  const key = `mockApi:${name}`;
+  return {
+    name,
+    all(): T[] {
+      try {
+        return JSON.parse(localStorage.getItem(key) || '[]') as T[];
+      } catch {
+        return [];
+      }
+    },
+    save(rows: T[]) {
+      localStorage.setItem(key, JSON.stringify(rows));
+    },
+  };
+}
+
+/** One user's rows in a mock table, so the privacy page can list and erase them. */
+export interface MockUserData {
+  table: string;
+  count(userId: string): { rows: number; bytes: number };
+  erase(userId: string): void;
+}
+
+export function mockUserData<T>(table: MockTable<T>, owns: (row: T, userId: string) => boolean): MockUserData {
+  return {
+    table: table.name,
+    count(userId) {
+      const rows = table.all().filter((row) => owns(row, userId));
+      return { rows: rows.length, bytes: rows.length > 0 ? JSON.stringify(rows).length : 0 };
+    },
+    erase(userId) {
+      table.save(table.all().filter((row) => !owns(row, userId)));
+    },
+  };
+}
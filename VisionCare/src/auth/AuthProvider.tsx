@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { ApiError } from '../api/httpClient';
+import { lockDataKeys, unlockDataKey } from '../privacy/dataKey';
+import { AuthContext, type AuthContextValue, type AuthStatus } from './authContext';
+import { httpAuthClient, type AuthClient } from './authClient';
+import { clearSession, loadSession, saveSession } from './tokenStorage';
+import type { AuthSession, SignupInput } from './types';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000;
+// Waits before retrying a refresh that failed for any other reason than a rejected token
+const REFRESH_RETRY_MS = [5_000, 15_000, 30_000, 60_000];
+
+/** The server turned the refresh token down, so the session is over. */
+function isRejected(err: unknown) {
+  return err instanceof ApiError && (err.status === 401 || err.status === 403);
+}
+
+interface AuthState {
+  status: AuthStatus;
+  session: AuthSession | null;
+  remember: boolean;
+}
+
+function initialState(): AuthState {
+  const stored = loadSession();
+  if (!stored) return { status: 'anonymous', session: null, remember: false };
+
+  // An expired access token is refreshed before the app treats the user as signed in,
+  // unless the server cannot be reached (see the refresh effect)
+  const fresh = stored.session.tokens.accessExpiresAt - REFRESH_MARGIN_MS > Date.now();
+  return { status: fresh ? 'authenticated' : 'loading', session: stored.session, remember: stored.remember };
+}
+
+interface AuthProviderProps {
+  children: ReactNode;
+  client?: AuthClient;
+}
+
+export default function AuthProvider({ children, client = httpAuthClient }: AuthProviderProps) {
+  const [state, setState] = useState<AuthState>(initialState);
+  const refreshing = useRef<Promise<AuthSession> | null>(null);
+
+  const signOutLocally = useCallback(() => {
+    clearSession();
+    lockDataKeys();
+    setState({ status: 'anonymous', session: null, remember: false });
+  }, []);
+
+  const refresh = useCallback((session: AuthSession, remember: boolean) => {
+    // Concurrent callers share one refresh; refresh tokens are single use
+    refreshing.current ??= client
+      .refresh(session.tokens.refreshToken)
+      .then((next) => {
+        saveSession(next, remember);
+        setState({ status: 'authenticated', session: next, remember });
+        return next;
+      })
+      .catch((err) => {
+        // An unreachable or failing server leaves the session in place for a retry
+        if (isRejected(err)) signOutLocally();
+        throw err;
+      })
+      .finally(() => {
+        refreshing.current = null;
+      });
+    return refreshing.current;
+  }, [client, signOutLocally]);
+
+  // Validate a restored session, then keep the access token fresh
+  const { session, remember, status } = state;
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const attempt = (retries: number) => {
+      refresh(session, remember).catch((err) => {
+        console.error('Session refresh failed:', err);
+        if (cancelled || isRejected(err)) return;
+        // Offline or with the server down, a restored session still opens the app on its stored data
+        setState((prev) => (prev.status === 'loading' ? { ...prev, status: 'authenticated' } : prev));
+        timer = setTimeout(() => attempt(retries + 1), REFRESH_RETRY_MS[Math.min(retries, REFRESH_RETRY_MS.length - 1)]);
+      });
+    };
+
+    // A restored session with an expired access token is due at once
+    const refreshIn = session.tokens.accessExpiresAt - REFRESH_MARGIN_MS - Date.now();
+    timer = setTimeout(() => attempt(0), Math.max(0, refreshIn));
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [session, remember, refresh]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    status,
+    user: status === 'authenticated' ? session?.user ?? null : null,
+
+    login: async (email: string, password: string, rememberMe: boolean) => {
+      const next = await client.login(email, password);
+      // A password that no longer matches the stored data leaves it locked; <RequireDataKey> handles that
+      await unlockDataKey(next.user.id, password);
+      saveSession(next, rememberMe);
+      setState({ status: 'authenticated', session: next, remember: rememberMe });
+    },
+
+    signup: async (input: SignupInput) => {
+      const next = await client.signup(input);
+      await unlockDataKey(next.user.id, input.password);
+      saveSession(next, false);
+      setState({ status: 'authenticated', session: next, remember: false });
+    },
+
+    logout: async () => {
+      const refreshToken = session?.tokens.refreshToken;
+      signOutLocally();
+      if (refreshToken) {
+        await client.logout(refreshToken).catch((err) => console.error('Logout failed:', err));
+      }
+    },
+
+    requestPasswordReset: (email: string) => client.requestPasswordReset(email),
+    resetPassword: (token: string, password: string) => client.resetPassword(token, password),
+
+    getAccessToken: async () => {
+      if (!session) throw new Error('Not signed in');
+      if (session.tokens.accessExpiresAt - REFRESH_MARGIN_MS > Date.now()) {
+        return session.tokens.accessToken;
+      }
+      return (await refresh(session, remember)).tokens.accessToken;
+    },
+  }), [client, session, remember, status, refresh, signOutLocally]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
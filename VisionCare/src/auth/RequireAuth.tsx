@@ -0,0 +1,23 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from './useAuth';
+import '../pages/Auth.css';
+
+/** Route guard: renders nested routes for signed-in users, otherwise sends them to login. */
+export default function RequireAuth() {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  if (status === 'loading') {
+    return (
+      <div className="auth-container">
+        <p className="auth-subtitle">Restoring your session...</p>
+      </div>
+    );
+  }
+
+  if (status === 'anonymous') {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
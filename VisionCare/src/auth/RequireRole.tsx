@@ -0,0 +1,14 @@
+import { Navigate, Outlet } from 'react-router-dom';
+import { useCurrentUser } from './useAuth';
+import type { UserRole } from './types';
+
+interface RequireRoleProps {
+  role: UserRole;
+}
+
+/** Route guard nested inside <RequireAuth>: other roles go back to the dashboard. */
+export default function RequireRole({ role }: RequireRoleProps) {
+  const user = useCurrentUser();
+  if (user.role !== role) return <Navigate to="/dashboard" replace />;
+  return <Outlet />;
+}
@@ -0,0 +1,27 @@
+import { apiRequest } from '../api/httpClient';
+import type { AuthSession, PasswordResetRequest, SignupInput } from './types';
+
+export interface AuthClient {
+  login(email: string, password: string): Promise<AuthSession>;
+  signup(input: SignupInput): Promise<AuthSession>;
+  logout(refreshToken: string): Promise<void>;
+  refresh(refreshToken: string): Promise<AuthSession>;
+  requestPasswordReset(email: string): Promise<PasswordResetRequest>;
+  resetPassword(token: string, password: string): Promise<void>;
+}
+
+/** AuthClient for the VisionCare REST API (or its offline mock). */
+export const httpAuthClient: AuthClient = {
+  login: (email, password) =>
+    apiRequest('/auth/login', { method: 'POST', body: { email, password } }),
+  signup: (input) =>
+    apiRequest('/auth/signup', { method: 'POST', body: input }),
+  logout: (refreshToken) =>
+    apiRequest('/auth/logout', { method: 'POST', body: { refreshToken } }),
+  refresh: (refreshToken) =>
+    apiRequest('/auth/refresh', { method: 'POST', body: { refreshToken } }),
+  requestPasswordReset: (email) =>
+    apiRequest('/auth/password-reset', { method: 'POST', body: { email } }),
+  resetPassword: (token, password) =>
+    apiRequest('/auth/password-reset/confirm', { method: 'POST', body: { token, password } }),
+};
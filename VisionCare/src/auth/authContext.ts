@@ -0,0 +1,18 @@
+import { createContext } from 'react';
+import type { AuthUser, PasswordResetRequest, SignupInput } from './types';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'anonymous';
+
+export interface AuthContextValue {
+  status: AuthStatus;
+  user: AuthUser | null;
+  login(email: string, password: string, remember: boolean): Promise<void>;
+  signup(input: SignupInput): Promise<void>;
+  logout(): Promise<void>;
+  requestPasswordReset(email: string): Promise<PasswordResetRequest>;
+  resetPassword(token: string, password: string): Promise<void>;
+  /** Returns a valid access token, refreshing it first if needed. */
+  getAccessToken(): Promise<string>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
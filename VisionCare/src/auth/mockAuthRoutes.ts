@@ -0,0 +1,213 @@
+import {
+  MockHttpError,
+  mockTable,
+  mockUserData,
+  type MockRequest,
+  type MockRoute,
+  type MockTable,
+  type MockUserData,
+} from '../api/mockServer';
+import type { AuthSession, AuthUser, UserRole } from './types';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60_000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60_000;
+const RESET_TOKEN_TTL_MS = 30 * 60_000;
+const PBKDF2_ITERATIONS = 100_000;
+
+interface UserRow extends Omit<AuthUser, 'role'> {
+  // Absent on accounts created before roles existed; those are patients
+  role?: UserRole;
+  salt: string;
+  passwordHash: string;
+}
+
+interface TokenRow {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+const users = mockTable<UserRow>('users');
+const accessTokens = mockTable<TokenRow>('accessTokens');
+const refreshTokens = mockTable<TokenRow>('refreshTokens');
+const resetTokens = mockTable<TokenRow>('resetTokens');
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+async function hashPassword(password: string, salt: string) {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256,
+  );
+  return toHex(bits);
+}
+
+function issueToken(table: MockTable<TokenRow>, userId: string, ttlMs: number): TokenRow {
+  const now = Date.now();
+  const row = { token: crypto.randomUUID(), userId, expiresAt: now + ttlMs };
+  table.save([...table.all().filter((t) => t.expiresAt > now), row]);
+  return row;
+}
+
+function revokeToken(table: MockTable<TokenRow>, token: string) {
+  table.save(table.all().filter((t) => t.token !== token));
+}
+
+function findValidToken(table: MockTable<TokenRow>, token: string | undefined) {
+  return table.all().find((t) => t.token === token && t.expiresAt > Date.now()) ?? null;
+}
+
+function publicUser({ id, email, name, role = 'patient' }: UserRow): AuthUser {
+  return { id, email, name, role };
+}
+
+function createSession(user: UserRow): AuthSession {
+  const access = issueToken(accessTokens, user.id, ACCESS_TOKEN_TTL_MS);
+  const refresh = issueToken(refreshTokens, user.id, REFRESH_TOKEN_TTL_MS);
+  return {
+    user: publicUser(user),
+    tokens: {
+      accessToken: access.token,
+      refreshToken: refresh.token,
+      accessExpiresAt: access.expiresAt,
+      refreshExpiresAt: refresh.expiresAt,
+    },
+  };
+}
+
+function field(body: unknown, name: string): string {
+  const value = (body as Record<string, unknown> | undefined)?.[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new MockHttpError(400, `Missing ${name}`);
+  }
+  return value;
+}
+
+export const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+const ROLES: UserRole[] = ['patient', 'clinician'];
+
+/** Resolves the user behind a request's bearer token, for other mock routes. */
+export function authenticate(request: MockRequest, role?: UserRole): AuthUser {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+  const row = findValidToken(accessTokens, token);
+  const user = row && users.all().find((u) => u.id === row.userId);
+  if (!user) throw new MockHttpError(401, 'Session expired. Please sign in again.');
+  const account = publicUser(user);
+  if (role && account.role !== role) throw new MockHttpError(403, `Only ${role}s can do this`);
+  return account;
+}
+
+/** The email of an account, for tables that refer to users by email. */
+export function accountEmail(userId: string): string | null {
+  return users.all().find((u) => u.id === userId)?.email ?? null;
+}
+
+const ownToken = (row: TokenRow, userId: string) => row.userId === userId;
+
+// The account row goes last: other tables find the user's rows through its email
+export const authUserData: MockUserData[] = [
+  mockUserData(accessTokens, ownToken),
+  mockUserData(refreshTokens, ownToken),
+  mockUserData(resetTokens, ownToken),
+  mockUserData(users, (row, userId) => row.id === userId),
+];
+
+export const authRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/auth/signup',
+    handler: async ({ body }) => {
+      const email = normaliseEmail(field(body, 'email'));
+      const password = field(body, 'password');
+      if (password.length < 8) throw new MockHttpError(400, 'Password must be at least 8 characters');
+      const role = field(body, 'role') as UserRole;
+      if (!ROLES.includes(role)) throw new MockHttpError(400, 'Role must be patient or clinician');
+      if (users.all().some((u) => u.email === email)) {
+        throw new MockHttpError(409, 'An account with this email already exists');
+      }
+
+      const salt = crypto.randomUUID();
+      const user: UserRow = {
+        id: crypto.randomUUID(),
+        email,
+        name: field(body, 'name').trim(),
+        role,
+        salt,
+        passwordHash: await hashPassword(password, salt),
+      };
+      users.save([...users.all(), user]);
+      return { status: 201, body: createSession(user) };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: async ({ body }) => {
+      const email = normaliseEmail(field(body, 'email'));
+      const user = users.all().find((u) => u.email === email);
+      if (!user || (await hashPassword(field(body, 'password'), user.salt)) !== user.passwordHash) {
+        throw new MockHttpError(401, 'Incorrect email or password');
+      }
+      return { status: 200, body: createSession(user) };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    handler: ({ body }) => {
+      const refreshToken = field(body, 'refreshToken');
+      const row = findValidToken(refreshTokens, refreshToken);
+      const user = row && users.all().find((u) => u.id === row.userId);
+      if (!user) throw new MockHttpError(401, 'Session expired. Please sign in again.');
+
+      // Refresh tokens are single use
+      revokeToken(refreshTokens, refreshToken);
+      return { status: 200, body: createSession(user) };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    handler: ({ body }) => {
+      revokeToken(refreshTokens, field(body, 'refreshToken'));
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/password-reset',
+    handler: ({ body }) => {
+      const email = normaliseEmail(field(body, 'email'));
+      const user = users.all().find((u) => u.email === email);
+      // Respond the same way whether or not the account exists
+      if (!user) return { status: 202, body: {} };
+
+      const reset = issueToken(resetTokens, user.id, RESET_TOKEN_TTL_MS);
+      return { status: 202, body: { debugToken: reset.token } };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/password-reset/confirm',
+    handler: async ({ body }) => {
+      const token = field(body, 'token');
+      const password = field(body, 'password');
+      if (password.length < 8) throw new MockHttpError(400, 'Password must be at least 8 characters');
+
+      const row = findValidToken(resetTokens, token);
+      if (!row) throw new MockHttpError(400, 'This reset link is invalid or has expired');
+
+      const salt = crypto.randomUUID();
+      const passwordHash = await hashPassword(password, salt);
+      users.save(users.all().map((u) => (u.id === row.userId ? { ...u, salt, passwordHash } : u)));
+      revokeToken(resetTokens, token);
+      // Sign out everywhere after a password change
+      refreshTokens.save(refreshTokens.all().filter((t) => t.userId !== row.userId));
+      return { status: 204 };
+    },
+  },
+];
@@ -0,0 +1,38 @@
+import type { AuthSession } from './types';
+
+// "Remember me" sessions survive the browser closing (localStorage); others
+// only last for the tab (sessionStorage).
+const SESSION_KEY = 'auth:session';
+
+export interface StoredSession {
+  session: AuthSession;
+  remember: boolean;
+}
+
+export function saveSession(session: AuthSession, remember: boolean) {
+  clearSession();
+  const storage = remember ? localStorage : sessionStorage;
+  storage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function loadSession(now = Date.now()): StoredSession | null {
+  for (const [storage, remember] of [[localStorage, true], [sessionStorage, false]] as const) {
+    const raw = storage.getItem(SESSION_KEY);
+    if (!raw) continue;
+    try {
+      const session = JSON.parse(raw) as AuthSession;
+      // Sessions saved before roles existed belong to patients
+      session.user.role ??= 'patient';
+      if (session.tokens.refreshExpiresAt > now) return { session, remember };
+    } catch {
+      // Fall through and discard the corrupt entry
+    }
+    storage.removeItem(SESSION_KEY);
+  }
+  return null;
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY);
+  sessionStorage.removeItem(SESSION_KEY);
+}
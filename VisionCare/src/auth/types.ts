@@ -0,0 +1,37 @@
+/** Clinicians invite patients and review what those patients share with them. */
+export type UserRole = 'patient' | 'clinician';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch milliseconds. */
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  tokens: AuthTokens;
+}
+
+export interface SignupInput {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface PasswordResetRequest {
+  /**
+   * Only returned by the offline mock server, which cannot send email; a
+   * real backend delivers the token out of band.
+   */
+  debugToken?: string;
+}
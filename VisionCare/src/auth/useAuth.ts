@@ -0,0 +1,15 @@
+import { useContext } from 'react';
+import { AuthContext } from './authContext';
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside <AuthProvider>');
+  return context;
+}
+
+/** The signed-in user; only for components rendered behind <RequireAuth>. */
+export function useCurrentUser() {
+  const { user } = useAuth();
+  if (!user) throw new Error('useCurrentUser requires an authenticated user');
+  return user;
+}
@@ -0,0 +1,265 @@
+import { setBackgroundTimeout } from '../runtime/backgroundTimer';
+
+export type CameraErrorKind = 'permissionDenied' | 'noDevice' | 'inUse' | 'unplugged' | 'unsupported' | 'unknown';
+
+export type CameraState =
+  | { status: 'idle' }
+  | { status: 'starting' }
+  | { status: 'live'; deviceId: string | null; label: string; width: number; height: number; fps: number | null }
+  | { status: 'error'; error: CameraErrorKind; detail: string };
+
+export interface CameraRequest {
+  /** Null picks the browser's default camera. */
+  deviceId: string | null;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** Receives each new video frame; the next frame waits until it resolves. */
+export type FrameCallback = (video: HTMLVideoElement) => Promise<void>;
+
+// Frame rate for hidden tabs when no rate was requested
+const DEFAULT_BACKGROUND_FPS = 15;
+
+// Errors after which the camera comes back on its own once a device appears
+const RECOVERS_ON_DEVICE_CHANGE: CameraErrorKind[] = ['noDevice', 'unplugged'];
+
+/** Maps getUserMedia failures, which differ between browsers, to what the user can do about them. */
+export function classifyCameraError(err: unknown): CameraErrorKind {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'permissionDenied';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return 'noDevice';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'inUse';
+    default:
+      return 'unknown';
+  }
+}
+
+/** Video inputs; labels stay empty until camera permission has been granted. */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput')
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+}
+
+/**
+ * Owns the webcam stream behind the dashboard: opens the requested device,
+ * feeds frames to a callback one at a time, and reports a CameraState that
+ * React reads through `subscribe`/`getState`. A camera that is unplugged or
+ * missing is reopened automatically when the device list changes, and a
+ * denied permission is retried once the browser reports it granted.
+ */
+export class CameraController {
+  private state: CameraState = { status: 'idle' };
+  private readonly listeners = new Set<() => void>();
+  private video: HTMLVideoElement | null = null;
+  private request: CameraRequest | null = null;
+  private onFrame: FrameCallback | null = null;
+  private stream: MediaStream | null = null;
+  private permission: PermissionStatus | null = null;
+  // Bumped on every (re)open so callbacks from an older stream stop
+  private generation = 0;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = () => this.state;
+
+  start(video: HTMLVideoElement, request: CameraRequest, onFrame: FrameCallback) {
+    this.stop();
+    this.video = video;
+    this.request = request;
+    this.onFrame = onFrame;
+    navigator.mediaDevices?.addEventListener('devicechange', this.handleDeviceChange);
+    void this.open();
+  }
+
+  /** Reopens the camera with the current request, e.g. after the user fixed a problem. */
+  retry() {
+    if (this.video && this.request && this.onFrame) void this.open();
+  }
+
+  stop() {
+    this.generation += 1;
+    this.releaseStream();
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    if (this.permission) this.permission.onchange = null;
+    this.permission = null;
+    this.video = null;
+    this.request = null;
+    this.onFrame = null;
+    this.setState({ status: 'idle' });
+  }
+
+  private async open() {
+    const generation = ++this.generation;
+    const { video, request } = this;
+    if (!video || !request) return;
+    this.releaseStream();
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      this.setState({ status: 'error', error: 'unsupported', detail: 'This browser cannot access cameras' });
+      return;
+    }
+
+    this.setState({ status: 'starting' });
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: false,
+        video: {
+          ...(request.deviceId ? { deviceId: { exact: request.deviceId } } : { facingMode: 'user' }),
+          width: { ideal: request.width },
+          height: { ideal: request.height },
+          frameRate: { ideal: request.fps },
+        },
+      });
+    } catch (err) {
+      if (generation !== this.generation) return;
+      const error = classifyCameraError(err);
+      console.error('Camera initialization error:', err);
+      this.setState({ status: 'error', error, detail: err instanceof Error ? err.message : String(err) });
+      if (error === 'permissionDenied') void this.watchPermission();
+      return;
+    }
+
+    if (generation !== this.generation) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    this.stream = stream;
+
+    const [track] = stream.getVideoTracks();
+    track.addEventListener('ended', () => {
+      if (this.stream !== stream) return;
+      this.releaseStream();
+      this.setState({ status: 'error', error: 'unplugged', detail: 'The camera stopped sending video' });
+    });
+
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (err) {
+      // A newer open interrupts play(); that is not a failure
+      if (generation !== this.generation) return;
+      this.releaseStream();
+      this.setState({ status: 'error', error: 'unknown', detail: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+
+    const settings = track.getSettings();
+    this.setState({
+      status: 'live',
+      deviceId: settings.deviceId ?? request.deviceId,
+      label: track.label,
+      width: settings.width ?? video.videoWidth,
+      height: settings.height ?? video.videoHeight,
+      fps: settings.frameRate ?? null,
+    });
+    this.pumpFrames(video, generation);
+  }
+
+  /**
+   * Feeds frames to the callback one at a time. Visible tabs are paced by
+   * the video itself; hidden tabs get neither video-frame nor animation-frame
+   * callbacks, so there a worker timer paces them at the requested frame rate.
+   */
+  private pumpFrames(video: HTMLVideoElement, generation: number) {
+    // Bumped per scheduled wait, so a wait abandoned on a visibility change never fires a second tick
+    let wait = 0;
+    let busy = false;
+    let cancelTimer: (() => void) | null = null;
+
+    const next = () => {
+      cancelTimer?.();
+      cancelTimer = null;
+      if (generation !== this.generation) {
+        document.removeEventListener('visibilitychange', next);
+        return;
+      }
+      if (busy) return;
+      const id = ++wait;
+      const run = () => {
+        if (id === wait) void tick();
+      };
+      if (document.hidden) cancelTimer = setBackgroundTimeout(run, 1000 / (this.request?.fps ?? DEFAULT_BACKGROUND_FPS));
+      else if ('requestVideoFrameCallback' in video) video.requestVideoFrameCallback(run);
+      else requestAnimationFrame(run);
+    };
+    const tick = async () => {
+      if (generation !== this.generation) return;
+      busy = true;
+      if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && this.onFrame) {
+        try {
+          await this.onFrame(video);
+        } catch (err) {
+          console.error('Frame processing error:', err);
+        }
+      }
+      busy = false;
+      next();
+    };
+    document.addEventListener('visibilitychange', next);
+    next();
+  }
+
+  private handleDeviceChange = async () => {
+    const { state, request } = this;
+    if (state.status !== 'error' || !RECOVERS_ON_DEVICE_CHANGE.includes(state.error) || !request) return;
+    const cameras = await listCameras();
+    const available = request.deviceId
+      ? cameras.some((camera) => camera.deviceId === request.deviceId)
+      : cameras.length > 0;
+    if (available) this.retry();
+  };
+
+  private async watchPermission() {
+    if (this.permission || !navigator.permissions) return;
+    try {
+      // Not every browser can query the camera permission
+      const permission = await navigator.permissions.query({ name: 'camera' as PermissionName });
+      this.permission = permission;
+      permission.onchange = () => {
+        const { state } = this;
+        if (permission.state === 'granted' && state.status === 'error' && state.error === 'permissionDenied') {
+          this.retry();
+        }
+      };
+    } catch {
+      // The recovery screen's retry button still works
+    }
+  }
+
+  private releaseStream() {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.video) this.video.srcObject = null;
+  }
+
+  private setState(state: CameraState) {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
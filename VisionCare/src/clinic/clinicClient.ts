@@ -0,0 +1,62 @@
+import { apiRequest } from '../api/httpClient';
+import type {
+  Annotation,
+  AnnotationInput,
+  CareLink,
+  Invite,
+  PatientOverview,
+  SharedSession,
+  SharingConsent,
+} from './types';
+
+export interface ClinicClient {
+  // Clinician side
+  listPatients(): Promise<PatientOverview[]>;
+  listSentInvites(): Promise<Invite[]>;
+  invitePatient(email: string): Promise<Invite>;
+  cancelInvite(inviteId: string): Promise<void>;
+  getPatientSessions(patientId: string): Promise<SharedSession[]>;
+  getPatientAnnotations(patientId: string): Promise<Annotation[]>;
+  annotateSession(patientId: string, sessionId: string, input: AnnotationInput): Promise<Annotation>;
+  deleteAnnotation(annotationId: string): Promise<void>;
+
+  // Patient side
+  listReceivedInvites(): Promise<Invite[]>;
+  acceptInvite(inviteId: string, consent: SharingConsent): Promise<CareLink>;
+  declineInvite(inviteId: string): Promise<void>;
+  listCareLinks(): Promise<CareLink[]>;
+  updateConsent(linkId: string, consent: SharingConsent): Promise<CareLink>;
+  stopSharing(linkId: string): Promise<void>;
+  /** Replaces every session summary the server holds for the patient. */
+  uploadSessions(sessions: SharedSession[]): Promise<void>;
+  listMyAnnotations(): Promise<Annotation[]>;
+}
+
+const id = encodeURIComponent;
+
+/** ClinicClient for the VisionCare REST API (or its offline mock). */
+export function createHttpClinicClient(getAccessToken: () => Promise<string>): ClinicClient {
+  const request = async <T>(path: string, method = 'GET', body?: unknown) =>
+    apiRequest<T>(path, { method, body, token: await getAccessToken() });
+
+  return {
+    listPatients: () => request('/clinic/patients'),
+    listSentInvites: () => request('/clinic/invites'),
+    invitePatient: (email) => request('/clinic/invites', 'POST', { email }),
+    cancelInvite: (inviteId) => request(`/clinic/invites/${id(inviteId)}`, 'DELETE'),
+    getPatientSessions: (patientId) => request(`/clinic/patients/${id(patientId)}/sessions`),
+    getPatientAnnotations: (patientId) => request(`/clinic/patients/${id(patientId)}/annotations`),
+    annotateSession: (patientId, sessionId, input) =>
+      request(`/clinic/patients/${id(patientId)}/sessions/${id(sessionId)}/annotations`, 'POST', input),
+    deleteAnnotation: (annotationId) => request(`/clinic/annotations/${id(annotationId)}`, 'DELETE'),
+
+    listReceivedInvites: () => request('/sharing/invites'),
+    acceptInvite: (inviteId, consent) => request(`/sharing/invites/${id(inviteId)}/accept`, 'POST', { consent }),
+    declineInvite: (inviteId) => request(`/sharing/invites/${id(inviteId)}/decline`, 'POST'),
+    listCareLinks: () => request('/sharing/links'),
+    updateConsent: (linkId, consent) => request(`/sharing/links/${id(linkId)}`, 'PUT', { consent }),
+    stopSharing: (linkId) => request(`/sharing/links/${id(linkId)}`, 'DELETE'),
+    uploadSessions: (sessions) => request('/sharing/sessions', 'PUT', { sessions }),
+    listMyAnnotations: () => request('/sharing/annotations'),
+  };
+}
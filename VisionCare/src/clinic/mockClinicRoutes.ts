@@ -0,0 +1,318 @@
+import { MockHttpError, mockTable, mockUserData, type MockRoute, type MockUserData } from '../api/mockServer';
+import { accountEmail, authenticate, normaliseEmail } from '../auth/mockAuthRoutes';
+import { isEmotion } from '../metrics/types';
+import {
+  SHARE_SCOPES,
+  type Annotation,
+  type CareLink,
+  type FlagKind,
+  type Invite,
+  type PatientOverview,
+  type SharedSession,
+  type SharingConsent,
+} from './types';
+
+interface SessionRow extends SharedSession {
+  patientId: string;
+}
+
+const invites = mockTable<Invite>('invites');
+const careLinks = mockTable<CareLink>('careLinks');
+const sharedSessions = mockTable<SessionRow>('sharedSessions');
+const annotations = mockTable<Annotation>('annotations');
+
+const FLAG_KINDS: FlagKind[] = ['redness', 'blinkRate'];
+
+// Rows the user is on either side of: as the patient or as the clinician
+export const clinicUserData: MockUserData[] = [
+  mockUserData(invites, (row, userId) => row.clinicianId === userId || row.patientEmail === accountEmail(userId)),
+  mockUserData(careLinks, (row, userId) => row.clinicianId === userId || row.patientId === userId),
+  mockUserData(sharedSessions, (row, userId) => row.patientId === userId),
+  mockUserData(annotations, (row, userId) => row.clinicianId === userId || row.patientId === userId),
+];
+
+function parseConsent(body: unknown): SharingConsent {
+  const consent = (body as { consent?: Record<string, unknown> } | undefined)?.consent;
+  if (typeof consent !== 'object' || consent === null) throw new MockHttpError(400, 'Missing consent');
+  return Object.fromEntries(SHARE_SCOPES.map(({ scope }) => [scope, consent[scope] === true])) as SharingConsent;
+}
+
+// The server, not the client, drops what the patient has not agreed to share
+function withinConsent(row: SessionRow, consent: SharingConsent): SharedSession {
+  return {
+    sessionId: row.sessionId,
+    startedAt: row.startedAt,
+    durationMs: row.durationMs,
+    blinkRate: consent.blinkRate ? row.blinkRate : null,
+    redness: consent.redness ? row.redness : null,
+    dominantEmotion: consent.emotion ? row.dominantEmotion : null,
+  };
+}
+
+function linkFor(clinicianId: string, patientId: string): CareLink {
+  const link = careLinks.all().find((l) => l.clinicianId === clinicianId && l.patientId === patientId);
+  if (!link) throw new MockHttpError(404, 'This patient is not sharing with you');
+  return link;
+}
+
+function ownLink(patientId: string, linkId: string): CareLink {
+  const link = careLinks.all().find((l) => l.id === linkId && l.patientId === patientId);
+  if (!link) throw new MockHttpError(404, 'Sharing link not found');
+  return link;
+}
+
+function pendingInvite(email: string, inviteId: string): Invite {
+  const invite = invites.all().find((i) => i.id === inviteId && i.patientEmail === email && i.status === 'pending');
+  if (!invite) throw new MockHttpError(404, 'This invitation is no longer open');
+  return invite;
+}
+
+function isSharedSession(value: unknown): value is SharedSession {
+  const row = value as Record<string, unknown> | null;
+  const nullableNumber = (v: unknown) => v === null || (typeof v === 'number' && Number.isFinite(v));
+  return (
+    typeof row === 'object' && row !== null &&
+    typeof row.sessionId === 'string' &&
+    typeof row.startedAt === 'number' &&
+    typeof row.durationMs === 'number' &&
+    nullableNumber(row.blinkRate) &&
+    nullableNumber(row.redness) &&
+    (row.dominantEmotion === null || (typeof row.dominantEmotion === 'string' && isEmotion(row.dominantEmotion)))
+  );
+}
+
+export const clinicRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/clinic/patients',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      const flagged = annotations.all().filter((a) => a.clinicianId === clinician.id && a.flags.length > 0);
+      const body: PatientOverview[] = careLinks.all()
+        .filter((l) => l.clinicianId === clinician.id)
+        .map((link) => {
+          const sessions = sharedSessions.all().filter((s) => s.patientId === link.patientId);
+          return {
+            link,
+            sessionCount: sessions.length,
+            lastSessionAt: sessions.length > 0 ? Math.max(...sessions.map((s) => s.startedAt)) : null,
+            flaggedSessionCount: new Set(flagged.filter((a) => a.patientId === link.patientId).map((a) => a.sessionId)).size,
+          };
+        });
+      return { status: 200, body };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/clinic/invites',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      return { status: 200, body: invites.all().filter((i) => i.clinicianId === clinician.id && i.status === 'pending') };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/clinic/invites',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      const raw = (request.body as { email?: unknown } | undefined)?.email;
+      if (typeof raw !== 'string' || !/^\S+@\S+\.\S+$/.test(raw.trim())) {
+        throw new MockHttpError(400, 'Enter the patient\'s email address');
+      }
+      const patientEmail = normaliseEmail(raw);
+      if (patientEmail === clinician.email) throw new MockHttpError(400, 'You cannot invite yourself');
+      if (careLinks.all().some((l) => l.clinicianId === clinician.id && l.patientEmail === patientEmail)) {
+        throw new MockHttpError(409, 'This patient already shares with you');
+      }
+      if (invites.all().some((i) => i.clinicianId === clinician.id && i.patientEmail === patientEmail && i.status === 'pending')) {
+        throw new MockHttpError(409, 'This patient already has an open invitation');
+      }
+
+      const invite: Invite = {
+        id: crypto.randomUUID(),
+        clinicianId: clinician.id,
+        clinicianName: clinician.name,
+        patientEmail,
+        createdAt: Date.now(),
+        status: 'pending',
+      };
+      invites.save([...invites.all(), invite]);
+      return { status: 201, body: invite };
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/clinic/invites/:inviteId',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      invites.save(invites.all().filter((i) => !(i.id === request.params.inviteId && i.clinicianId === clinician.id)));
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/clinic/patients/:patientId/sessions',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      const { consent } = linkFor(clinician.id, request.params.patientId);
+      const body = sharedSessions.all()
+        .filter((s) => s.patientId === request.params.patientId)
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .map((row) => withinConsent(row, consent));
+      return { status: 200, body };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/clinic/patients/:patientId/annotations',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      linkFor(clinician.id, request.params.patientId);
+      const body = annotations.all().filter(
+        (a) => a.clinicianId === clinician.id && a.patientId === request.params.patientId,
+      );
+      return { status: 200, body };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/clinic/patients/:patientId/sessions/:sessionId/annotations',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      const { patientId, sessionId } = request.params;
+      linkFor(clinician.id, patientId);
+      if (!sharedSessions.all().some((s) => s.patientId === patientId && s.sessionId === sessionId)) {
+        throw new MockHttpError(404, 'Session not found');
+      }
+
+      const body = request.body as { note?: unknown; flags?: unknown } | undefined;
+      const note = typeof body?.note === 'string' ? body.note.trim() : '';
+      const flags = Array.isArray(body?.flags) ? FLAG_KINDS.filter((kind) => (body.flags as unknown[]).includes(kind)) : [];
+      if (!note && flags.length === 0) throw new MockHttpError(400, 'Add a note or a flag');
+
+      const annotation: Annotation = {
+        id: crypto.randomUUID(),
+        patientId,
+        sessionId,
+        clinicianId: clinician.id,
+        clinicianName: clinician.name,
+        note,
+        flags,
+        createdAt: Date.now(),
+      };
+      annotations.save([...annotations.all(), annotation]);
+      return { status: 201, body: annotation };
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/clinic/annotations/:annotationId',
+    handler: (request) => {
+      const clinician = authenticate(request, 'clinician');
+      annotations.save(
+        annotations.all().filter((a) => !(a.id === request.params.annotationId && a.clinicianId === clinician.id)),
+      );
+      return { status: 204 };
+    },
+  },
+
+  {
+    method: 'GET',
+    path: '/sharing/invites',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      return { status: 200, body: invites.all().filter((i) => i.patientEmail === patient.email && i.status === 'pending') };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/sharing/invites/:inviteId/accept',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      const invite = pendingInvite(patient.email, request.params.inviteId);
+      const link: CareLink = {
+        id: crypto.randomUUID(),
+        clinicianId: invite.clinicianId,
+        clinicianName: invite.clinicianName,
+        patientId: patient.id,
+        patientName: patient.name,
+        patientEmail: patient.email,
+        consent: parseConsent(request.body),
+        since: Date.now(),
+      };
+      invites.save(invites.all().map((i) => (i.id === invite.id ? { ...i, status: 'accepted' } : i)));
+      careLinks.save([...careLinks.all().filter((l) => !(l.clinicianId === invite.clinicianId && l.patientId === patient.id)), link]);
+      return { status: 201, body: link };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/sharing/invites/:inviteId/decline',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      const invite = pendingInvite(patient.email, request.params.inviteId);
+      invites.save(invites.all().map((i) => (i.id === invite.id ? { ...i, status: 'declined' } : i)));
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/sharing/links',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      return { status: 200, body: careLinks.all().filter((l) => l.patientId === patient.id) };
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/sharing/links/:linkId',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      const link = { ...ownLink(patient.id, request.params.linkId), consent: parseConsent(request.body) };
+      careLinks.save(careLinks.all().map((l) => (l.id === link.id ? link : l)));
+      return { status: 200, body: link };
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/sharing/links/:linkId',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      const link = ownLink(patient.id, request.params.linkId);
+      careLinks.save(careLinks.all().filter((l) => l.id !== link.id));
+      // A clinician the patient stopped sharing with keeps nothing
+      annotations.save(annotations.all().filter((a) => !(a.patientId === patient.id && a.clinicianId === link.clinicianId)));
+      if (!careLinks.all().some((l) => l.patientId === patient.id)) {
+        sharedSessions.save(sharedSessions.all().filter((s) => s.patientId !== patient.id));
+      }
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/sharing/sessions',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      const sessions = (request.body as { sessions?: unknown } | undefined)?.sessions;
+      if (!Array.isArray(sessions) || !sessions.every(isSharedSession)) {
+        throw new MockHttpError(400, 'Sessions must be a list of session summaries');
+      }
+      if (!careLinks.all().some((l) => l.patientId === patient.id)) {
+        throw new MockHttpError(409, 'You are not sharing with any clinician');
+      }
+      const rows: SessionRow[] = sessions.map(({ sessionId, startedAt, durationMs, blinkRate, redness, dominantEmotion }) => (
+        { patientId: patient.id, sessionId, startedAt, durationMs, blinkRate, redness, dominantEmotion }
+      ));
+      sharedSessions.save([...sharedSessions.all().filter((s) => s.patientId !== patient.id), ...rows]);
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/sharing/annotations',
+    handler: (request) => {
+      const patient = authenticate(request, 'patient');
+      return { status: 200, body: annotations.all().filter((a) => a.patientId === patient.id) };
+    },
+  },
+];
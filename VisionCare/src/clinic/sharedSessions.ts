@@ -0,0 +1,44 @@
+import { buildTrend } from '../history/trends';
+import {
+  DEFAULT_BLINK_RATE_BOUNDS,
+  DEFAULT_REDNESS_THRESHOLDS,
+  type BlinkRateBounds,
+  type RednessThresholds,
+} from '../insights/verdicts';
+import { isEmotion, type SessionSummary } from '../metrics/types';
+import { listSessions, type SessionRecord } from '../storage/sessionStore';
+import type { ClinicClient } from './clinicClient';
+import type { FlagKind, SharedSession } from './types';
+
+/** Per-session summaries; raw samples never leave the device. */
+export function summarizeSessions(records: SessionRecord[]): SharedSession[] {
+  return buildTrend(records, 'session').map((point) => ({
+    sessionId: point.key,
+    startedAt: point.start,
+    durationMs: point.durationMs,
+    blinkRate: point.blinkRate,
+    redness: point.redness,
+    dominantEmotion: point.dominantEmotion !== null && isEmotion(point.dominantEmotion) ? point.dominantEmotion : null,
+  }));
+}
+
+/** Uploads the patient's stored sessions so clinicians they share with see them. */
+export async function shareSessions(client: ClinicClient, userId: string): Promise<number> {
+  const summaries = summarizeSessions(await listSessions(userId));
+  await client.uploadSessions(summaries);
+  return summaries.length;
+}
+
+/** Patterns a clinician should look at, judged against the default verdict thresholds. */
+export function suggestedFlags(
+  session: SessionSummary,
+  rednessThresholds: RednessThresholds = DEFAULT_REDNESS_THRESHOLDS,
+  blinkRateBounds: BlinkRateBounds = DEFAULT_BLINK_RATE_BOUNDS,
+): FlagKind[] {
+  const flags: FlagKind[] = [];
+  if (session.redness !== null && session.redness > rednessThresholds.alert) flags.push('redness');
+  if (session.blinkRate !== null && (session.blinkRate < blinkRateBounds.low || session.blinkRate > blinkRateBounds.high)) {
+    flags.push('blinkRate');
+  }
+  return flags;
+}
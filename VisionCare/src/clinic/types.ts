@@ -0,0 +1,75 @@
+import type { SessionSummary } from '../metrics/types';
+
+/** Session metrics a patient can choose to share with a clinician. */
+export type ShareScope = 'blinkRate' | 'redness' | 'emotion';
+
+export type SharingConsent = Record<ShareScope, boolean>;
+
+export const SHARE_SCOPES: { scope: ShareScope; label: string }[] = [
+  { scope: 'blinkRate', label: 'Blink rate' },
+  { scope: 'redness', label: 'Eye redness' },
+  { scope: 'emotion', label: 'Dominant emotion' },
+];
+
+export const DEFAULT_CONSENT: SharingConsent = { blinkRate: true, redness: true, emotion: false };
+
+export type InviteStatus = 'pending' | 'accepted' | 'declined';
+
+export interface Invite {
+  id: string;
+  clinicianId: string;
+  clinicianName: string;
+  patientEmail: string;
+  createdAt: number;
+  status: InviteStatus;
+}
+
+/** An accepted invite: the clinician sees the patient's sessions within `consent`. */
+export interface CareLink {
+  id: string;
+  clinicianId: string;
+  clinicianName: string;
+  patientId: string;
+  patientName: string;
+  patientEmail: string;
+  consent: SharingConsent;
+  since: number;
+}
+
+/**
+ * One monitoring session as it leaves the patient's device. Metrics the
+ * patient does not share with a clinician reach them as null.
+ */
+export interface SharedSession extends SessionSummary {
+  sessionId: string;
+}
+
+export type FlagKind = 'redness' | 'blinkRate';
+
+export const FLAG_LABELS: Record<FlagKind, string> = {
+  redness: 'Concerning redness',
+  blinkRate: 'Concerning blink rate',
+};
+
+export interface Annotation {
+  id: string;
+  patientId: string;
+  sessionId: string;
+  clinicianId: string;
+  clinicianName: string;
+  note: string;
+  flags: FlagKind[];
+  createdAt: number;
+}
+
+export interface AnnotationInput {
+  note: string;
+  flags: FlagKind[];
+}
+
+export interface PatientOverview {
+  link: CareLink;
+  sessionCount: number;
+  lastSessionAt: number | null;
+  flaggedSessionCount: number;
+}
@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { useAuth } from '../auth/useAuth';
+import { createHttpClinicClient, type ClinicClient } from './clinicClient';
+
+/** A ClinicClient that signs requests with the current user's access token. */
+export function useClinicClient(): ClinicClient {
+  const { getAccessToken } = useAuth();
+  return useMemo(() => createHttpClinicClient(getAccessToken), [getAccessToken]);
+}
@@ -0,0 +1,51 @@
+// Audible alerts synthesised with Web Audio, so no sound files are needed.
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext() {
+  if (!('AudioContext' in window)) return null;
+  audioContext ??= new AudioContext();
+  return audioContext;
+}
+
+/**
+ * Browsers keep audio suspended until a user gesture; call this from a click
+ * handler so later alarms can play unattended.
+ */
+export async function unlockAudio() {
+  await getAudioContext()?.resume();
+}
+
+function tone(ctx: AudioContext, frequency: number, start: number, duration: number, volume: number, type: OscillatorType) {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = type;
+  oscillator.frequency.value = frequency;
+  // Short ramps avoid clicks at the start and end of each tone
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(volume, start + 0.02);
+  gain.gain.setValueAtTime(volume, start + duration - 0.05);
+  gain.gain.linearRampToValueAtTime(0, start + duration);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+}
+
+/** Gentle two-note chime for early drowsiness. */
+export function playChime() {
+  const ctx = getAudioContext();
+  if (!ctx || ctx.state !== 'running') return;
+  const now = ctx.currentTime;
+  tone(ctx, 660, now, 0.25, 0.2, 'sine');
+  tone(ctx, 880, now + 0.25, 0.35, 0.2, 'sine');
+}
+
+/** Loud repeating beeps for microsleeps and severe fatigue. */
+export function playAlarm() {
+  const ctx = getAudioContext();
+  if (!ctx || ctx.state !== 'running') return;
+  const now = ctx.currentTime;
+  for (let i = 0; i < 4; i++) {
+    tone(ctx, i % 2 === 0 ? 1040 : 780, now + i * 0.3, 0.22, 0.45, 'square');
+  }
+}
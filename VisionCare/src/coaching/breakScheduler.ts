@@ -0,0 +1,166 @@
+// 20-20-20 coaching: every 20 minutes of screen time, look at something
+// 20 feet away for 20 seconds.
+
+export interface BreakConfig {
+  /** Continuous screen time before a break is due. */
+  workIntervalMs: number;
+  /** How long the user has to look away for a break to count. */
+  breakDurationMs: number;
+  /** How long a snoozed reminder stays quiet. */
+  snoozeMs: number;
+  /** A due break that is ignored for this long is counted as missed. */
+  missAfterMs: number;
+  notificationsEnabled: boolean;
+}
+
+export const DEFAULT_BREAK_CONFIG: BreakConfig = {
+  workIntervalMs: 20 * 60_000,
+  breakDurationMs: 20_000,
+  snoozeMs: 5 * 60_000,
+  missAfterMs: 5 * 60_000,
+  notificationsEnabled: true,
+};
+
+/** What the camera currently says about the user. */
+export type Presence = 'watching' | 'lookingAway' | 'absent';
+
+export type BreakPhase = 'working' | 'due' | 'snoozed';
+
+export interface BreakStats {
+  reminders: number;
+  taken: number;
+  snoozed: number;
+  skipped: number;
+  missed: number;
+}
+
+export const EMPTY_BREAK_STATS: BreakStats = { reminders: 0, taken: 0, snoozed: 0, skipped: 0, missed: 0 };
+
+export interface BreakSnapshot {
+  phase: BreakPhase;
+  /** Screen time since the last break. */
+  screenTimeMs: number;
+  /** Progress of the current look-away, 0 while watching. */
+  awayMs: number;
+  nextBreakInMs: number;
+  stats: BreakStats;
+}
+
+export type BreakEvent = 'reminder' | 'breakTaken' | 'breakMissed';
+
+export function adherence(stats: BreakStats) {
+  return stats.reminders > 0 ? stats.taken / stats.reminders : null;
+}
+
+/**
+ * Tracks continuous screen time from presence updates and decides when a
+ * 20-20-20 break is due and whether the user actually took it. Any look-away
+ * lasting a full break duration resets the screen-time clock, whether or not
+ * a reminder prompted it.
+ */
+export class BreakScheduler {
+  private config: BreakConfig;
+  private phase: BreakPhase = 'working';
+  private screenTimeMs = 0;
+  private awaySince: number | null = null;
+  private dueSince = 0;
+  private snoozedUntil = 0;
+  private lastUpdate: number | null = null;
+  private stats: BreakStats;
+  private readonly listeners = new Set<(event: BreakEvent) => void>();
+
+  constructor(config: BreakConfig = DEFAULT_BREAK_CONFIG, stats: BreakStats = EMPTY_BREAK_STATS) {
+    this.config = config;
+    this.stats = { ...stats };
+  }
+
+  setConfig(config: BreakConfig) {
+    this.config = config;
+  }
+
+  on(listener: (event: BreakEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  update(now: number, presence: Presence) {
+    const elapsed = this.lastUpdate === null ? 0 : Math.max(0, now - this.lastUpdate);
+    this.lastUpdate = now;
+
+    if (presence === 'watching') {
+      this.awaySince = null;
+      this.screenTimeMs += elapsed;
+    } else {
+      this.awaySince ??= now;
+      if (now - this.awaySince >= this.config.breakDurationMs) {
+        this.completeBreak(now);
+        return;
+      }
+    }
+
+    switch (this.phase) {
+      case 'working':
+        if (this.screenTimeMs >= this.config.workIntervalMs) this.remind(now);
+        break;
+      case 'snoozed':
+        if (now >= this.snoozedUntil) this.remind(now);
+        break;
+      case 'due':
+        if (now - this.dueSince >= this.config.missAfterMs) {
+          this.stats.missed += 1;
+          this.restart();
+          this.emit('breakMissed');
+        }
+        break;
+    }
+  }
+
+  snooze(now: number) {
+    if (this.phase !== 'due') return;
+    this.stats.snoozed += 1;
+    this.phase = 'snoozed';
+    this.snoozedUntil = now + this.config.snoozeMs;
+  }
+
+  skip() {
+    if (this.phase === 'working') return;
+    this.stats.skipped += 1;
+    this.restart();
+  }
+
+  getSnapshot(now: number): BreakSnapshot {
+    return {
+      phase: this.phase,
+      screenTimeMs: this.screenTimeMs,
+      awayMs: this.awaySince === null ? 0 : now - this.awaySince,
+      nextBreakInMs: Math.max(0, this.config.workIntervalMs - this.screenTimeMs),
+      stats: { ...this.stats },
+    };
+  }
+
+  private remind(now: number) {
+    this.phase = 'due';
+    this.dueSince = now;
+    this.stats.reminders += 1;
+    this.emit('reminder');
+  }
+
+  private completeBreak(now: number) {
+    const prompted = this.phase !== 'working';
+    if (prompted) this.stats.taken += 1;
+    this.restart();
+    this.awaySince = now;
+    if (prompted) this.emit('breakTaken');
+  }
+
+  private restart() {
+    this.phase = 'working';
+    this.screenTimeMs = 0;
+  }
+
+  private emit(event: BreakEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,143 @@
+// Fatigue scoring for long shifts: sustained eye closure (PERCLOS),
+// microsleeps and yawns combined into a 0-100 score with escalating alarms.
+
+import {
+  DEFAULT_FATIGUE_ANALYZER_CONFIG,
+  type FatigueAnalyzerConfig,
+} from '../vision/analyzers/fatigueAnalyzer';
+
+export interface FatigueConfig extends FatigueAnalyzerConfig {
+  soundEnabled: boolean;
+}
+
+export const DEFAULT_FATIGUE_CONFIG: FatigueConfig = {
+  ...DEFAULT_FATIGUE_ANALYZER_CONFIG,
+  soundEnabled: true,
+};
+
+export type FatigueLevel = 'alert' | 'drowsy' | 'severe';
+
+export interface FatigueSnapshot {
+  score: number;
+  level: FatigueLevel;
+  /** Latest PERCLOS, or null until enough of the window has been observed. */
+  perclos: number | null;
+  /** Microsleeps and yawns within the scoring lookback. */
+  recentMicrosleeps: number;
+  recentYawns: number;
+  totalMicrosleeps: number;
+  totalYawns: number;
+  lastMicrosleepAt: number | null;
+}
+
+export type FatigueEvent =
+  | { type: 'levelChanged'; level: FatigueLevel; previous: FatigueLevel }
+  | { type: 'microsleep' };
+
+// Events older than this no longer count towards the score
+const LOOKBACK_MS = 10 * 60_000;
+// PERCLOS is unreliable until this much of the window has been observed
+const MIN_PERCLOS_COVERAGE = 0.5;
+// PERCLOS at which the closure component of the score maxes out; 0.15 is
+// the usual drowsiness cut-off
+const PERCLOS_FULL_SCALE = 0.3;
+
+const PERCLOS_WEIGHT = 60;
+const MICROSLEEP_POINTS = 25;
+const YAWN_POINTS = 8;
+const MAX_YAWN_POINTS = 24;
+
+const DROWSY_SCORE = 30;
+const SEVERE_SCORE = 60;
+
+export function fatigueScore(perclos: number | null, microsleeps: number, yawns: number) {
+  const closure = perclos === null ? 0 : Math.min(1, perclos / PERCLOS_FULL_SCALE) * PERCLOS_WEIGHT;
+  const score = closure + microsleeps * MICROSLEEP_POINTS + Math.min(MAX_YAWN_POINTS, yawns * YAWN_POINTS);
+  return Math.round(Math.min(100, score));
+}
+
+export function fatigueLevel(score: number): FatigueLevel {
+  if (score >= SEVERE_SCORE) return 'severe';
+  if (score >= DROWSY_SCORE) return 'drowsy';
+  return 'alert';
+}
+
+/**
+ * Accumulates fatigue signals from the analyzer and reports escalation. A
+ * microsleep is always reported on its own, since it needs an alarm even
+ * when the overall level does not change.
+ */
+export class FatigueMonitor {
+  private config: FatigueConfig;
+  private perclos: number | null = null;
+  private microsleeps: number[] = [];
+  private yawns: number[] = [];
+  private totalMicrosleeps = 0;
+  private totalYawns = 0;
+  private level: FatigueLevel = 'alert';
+  private readonly listeners = new Set<(event: FatigueEvent) => void>();
+
+  constructor(config: FatigueConfig = DEFAULT_FATIGUE_CONFIG) {
+    this.config = config;
+  }
+
+  setConfig(config: FatigueConfig) {
+    this.config = config;
+  }
+
+  on(listener: (event: FatigueEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  recordPerclos(perclos: number, coveredMs: number) {
+    this.perclos = coveredMs >= this.config.perclosWindowMs * MIN_PERCLOS_COVERAGE ? perclos : null;
+  }
+
+  recordMicrosleep(timestamp: number) {
+    this.microsleeps.push(timestamp);
+    this.totalMicrosleeps += 1;
+    this.emit({ type: 'microsleep' });
+    this.update(timestamp);
+  }
+
+  recordYawn(timestamp: number) {
+    this.yawns.push(timestamp);
+    this.totalYawns += 1;
+    this.update(timestamp);
+  }
+
+  /** Drops expired events and re-evaluates the level. */
+  update(now: number) {
+    const cutoff = now - LOOKBACK_MS;
+    this.microsleeps = this.microsleeps.filter((t) => t >= cutoff);
+    this.yawns = this.yawns.filter((t) => t >= cutoff);
+
+    const level = this.getSnapshot().level;
+    if (level !== this.level) {
+      const previous = this.level;
+      this.level = level;
+      this.emit({ type: 'levelChanged', level, previous });
+    }
+  }
+
+  getSnapshot(): FatigueSnapshot {
+    const score = fatigueScore(this.perclos, this.microsleeps.length, this.yawns.length);
+    return {
+      score,
+      level: fatigueLevel(score),
+      perclos: this.perclos,
+      recentMicrosleeps: this.microsleeps.length,
+      recentYawns: this.yawns.length,
+      totalMicrosleeps: this.totalMicrosleeps,
+      totalYawns: this.totalYawns,
+      lastMicrosleepAt: this.microsleeps[this.microsleeps.length - 1] ?? null,
+    };
+  }
+
+  private emit(event: FatigueEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
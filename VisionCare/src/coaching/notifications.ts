@@ -0,0 +1,22 @@
+/** Asks for notification permission once; resolves to whether it was granted. */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+export function showNotification(title: string, body: string, tag: string) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(title, { body, tag, icon: '/vite.svg' });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (err) {
+    // Some browsers (e.g. Android Chrome) only allow notifications from a
+    // service worker; the in-app toast still shows.
+    console.error('Notification failed:', err);
+  }
+}
@@ -0,0 +1,122 @@
+// Screen distance and neck posture: warn when the user sits too close to
+// the screen or holds the head bent or tilted for long stretches.
+
+import type { HeadPose } from '../vision/headPose';
+
+export interface PostureConfig {
+  /** Closer than this counts as too close; ~50 cm is the usual minimum. */
+  minDistanceCm: number;
+  /** How long the user must stay too close before a warning. */
+  tooCloseMs: number;
+  /** Forward head bend (chin down) beyond this is poor neck posture. */
+  maxPitchDeg: number;
+  /** Sideways head tilt beyond this is poor neck posture. */
+  maxRollDeg: number;
+  /** How long poor posture must last before a warning. */
+  badPostureMs: number;
+  /** A repeated warning of the same kind waits at least this long. */
+  warningCooldownMs: number;
+}
+
+export const DEFAULT_POSTURE_CONFIG: PostureConfig = {
+  minDistanceCm: 50,
+  tooCloseMs: 10_000,
+  maxPitchDeg: 20,
+  maxRollDeg: 15,
+  badPostureMs: 60_000,
+  warningCooldownMs: 5 * 60_000,
+};
+
+export type PostureWarning = 'tooClose' | 'neckPosture';
+
+export interface PostureReading {
+  timestamp: number;
+  pose: HeadPose;
+  distanceCm: number | null;
+}
+
+export interface PostureSnapshot {
+  tooClose: boolean;
+  badPosture: boolean;
+  /** Share of observed time with good distance and posture. */
+  goodTimeRatio: number | null;
+  warnings: Record<PostureWarning, number>;
+}
+
+// Gaps longer than this (face lost, tab hidden) are not counted as time
+const MAX_GAP_MS = 2000;
+
+/**
+ * Times how long the user has been too close or in poor posture and raises a
+ * warning once either condition has lasted long enough. Brief dips, like
+ * glancing down at a keyboard, never reach the threshold.
+ */
+export class PostureMonitor {
+  private config: PostureConfig;
+  private tooCloseSince: number | null = null;
+  private badPostureSince: number | null = null;
+  private lastReadingAt: number | null = null;
+  private observedMs = 0;
+  private goodMs = 0;
+  private tooClose = false;
+  private badPosture = false;
+  private readonly lastWarning: Record<PostureWarning, number> = { tooClose: -Infinity, neckPosture: -Infinity };
+  private readonly warnings: Record<PostureWarning, number> = { tooClose: 0, neckPosture: 0 };
+  private readonly listeners = new Set<(warning: PostureWarning) => void>();
+
+  constructor(config: PostureConfig = DEFAULT_POSTURE_CONFIG) {
+    this.config = config;
+  }
+
+  setConfig(config: PostureConfig) {
+    this.config = config;
+  }
+
+  on(listener: (warning: PostureWarning) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  record({ timestamp, pose, distanceCm }: PostureReading) {
+    const { minDistanceCm, maxPitchDeg, maxRollDeg } = this.config;
+    this.tooClose = distanceCm !== null && distanceCm < minDistanceCm;
+    this.badPosture = pose.pitch > maxPitchDeg || Math.abs(pose.roll) > maxRollDeg;
+
+    if (this.lastReadingAt !== null) {
+      const elapsed = timestamp - this.lastReadingAt;
+      if (elapsed > 0 && elapsed <= MAX_GAP_MS) {
+        this.observedMs += elapsed;
+        if (!this.tooClose && !this.badPosture) this.goodMs += elapsed;
+      }
+    }
+    this.lastReadingAt = timestamp;
+
+    this.tooCloseSince = this.tooClose ? (this.tooCloseSince ?? timestamp) : null;
+    this.badPostureSince = this.badPosture ? (this.badPostureSince ?? timestamp) : null;
+
+    if (this.tooCloseSince !== null && timestamp - this.tooCloseSince >= this.config.tooCloseMs) {
+      this.warn('tooClose', timestamp);
+    }
+    if (this.badPostureSince !== null && timestamp - this.badPostureSince >= this.config.badPostureMs) {
+      this.warn('neckPosture', timestamp);
+    }
+  }
+
+  getSnapshot(): PostureSnapshot {
+    return {
+      tooClose: this.tooClose,
+      badPosture: this.badPosture,
+      goodTimeRatio: this.observedMs > 0 ? this.goodMs / this.observedMs : null,
+      warnings: { ...this.warnings },
+    };
+  }
+
+  private warn(warning: PostureWarning, now: number) {
+    if (now - this.lastWarning[warning] < this.config.warningCooldownMs) return;
+    this.lastWarning[warning] = now;
+    this.warnings[warning] += 1;
+    this.listeners.forEach((listener) => listener(warning));
+  }
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { VisionEngine } from '../vision/VisionEngine';
+import { BreakScheduler, type BreakConfig, type BreakSnapshot, type Presence } from './breakScheduler';
+import { ensureNotificationPermission, showNotification } from './notifications';
+import { loadBreakConfig, loadBreakStats, saveBreakConfig, saveBreakStats } from '../storage/breakStore';
+import { setBackgroundInterval } from '../runtime/backgroundTimer';
+
+const TICK_MS = 1000;
+const NOTICE_MS = 5000;
+
+function currentPermission(): NotificationPermission | 'unsupported' {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+/** Wires a BreakScheduler to the engine's presence events and persists its state per user. */
+export function useBreakCoach(engine: VisionEngine, userId: string) {
+  const [scheduler] = useState(() => new BreakScheduler(loadBreakConfig(userId), loadBreakStats(userId)));
+  const [config, setConfigState] = useState(() => loadBreakConfig(userId));
+  const [snapshot, setSnapshot] = useState<BreakSnapshot>(() => scheduler.getSnapshot(0));
+  const [notice, setNotice] = useState<string | null>(null);
+  const [permission, setPermission] = useState(currentPermission);
+  const presenceRef = useRef<Presence>('absent');
+
+  // Presence comes straight from the face detector and head-turn analyzer
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('faceFound', () => { presenceRef.current = 'watching'; }),
+      engine.on('faceLost', () => { presenceRef.current = 'absent'; }),
+      engine.on('attention', ({ lookingAway }) => {
+        presenceRef.current = lookingAway ? 'lookingAway' : 'watching';
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine]);
+
+  useEffect(() => {
+    // Reminders are due whether or not the dashboard tab is in front
+    return setBackgroundInterval(() => {
+      const now = Date.now();
+      scheduler.update(now, presenceRef.current);
+      setSnapshot(scheduler.getSnapshot(now));
+    }, TICK_MS);
+  }, [scheduler]);
+
+  useEffect(() => {
+    let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+    const showNotice = (message: string) => {
+      setNotice(message);
+      clearTimeout(noticeTimer);
+      noticeTimer = setTimeout(() => setNotice(null), NOTICE_MS);
+    };
+
+    const unsubscribe = scheduler.on((event) => {
+      saveBreakStats(userId, scheduler.getSnapshot(Date.now()).stats);
+
+      if (event === 'reminder' && config.notificationsEnabled) {
+        showNotification(
+          'Time for an eye break',
+          'Look at something 20 feet away for 20 seconds.',
+          'visioncare-break',
+        );
+      } else if (event === 'breakTaken') {
+        showNotice('Break complete. Your eyes thank you!');
+      } else if (event === 'breakMissed') {
+        showNotice('Break missed. We will remind you again later.');
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      clearTimeout(noticeTimer);
+    };
+  }, [scheduler, userId, config.notificationsEnabled]);
+
+  const setConfig = useCallback((next: BreakConfig) => {
+    scheduler.setConfig(next);
+    saveBreakConfig(userId, next);
+    setConfigState(next);
+  }, [scheduler, userId]);
+
+  const requestNotifications = useCallback(async () => {
+    await ensureNotificationPermission();
+    setPermission(currentPermission());
+  }, []);
+
+  const snooze = useCallback(() => {
+    const now = Date.now();
+    scheduler.snooze(now);
+    saveBreakStats(userId, scheduler.getSnapshot(now).stats);
+    setSnapshot(scheduler.getSnapshot(now));
+  }, [scheduler, userId]);
+
+  const skip = useCallback(() => {
+    const now = Date.now();
+    scheduler.skip();
+    saveBreakStats(userId, scheduler.getSnapshot(now).stats);
+    setSnapshot(scheduler.getSnapshot(now));
+  }, [scheduler, userId]);
+
+  return {
+    config,
+    setConfig,
+    snapshot,
+    notice,
+    dismissNotice: () => setNotice(null),
+    permission,
+    requestNotifications,
+    snooze,
+    skip,
+  };
+}
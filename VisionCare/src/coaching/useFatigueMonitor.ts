@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { VisionEngine } from '../vision/VisionEngine';
+import { FatigueAnalyzer } from '../vision/analyzers/fatigueAnalyzer';
+import { FatigueMonitor, type FatigueConfig, type FatigueSnapshot } from './fatigueMonitor';
+import { playAlarm, playChime, unlockAudio } from './alarm';
+import { showNotification } from './notifications';
+import { loadFatigueConfig, saveFatigueConfig } from '../storage/fatigueStore';
+import { setBackgroundInterval } from '../runtime/backgroundTimer';
+
+const TICK_MS = 1000;
+// An unacknowledged alarm repeats this often
+const REPEAT_ALARM_MS = 15_000;
+
+export type FatigueAlarm = 'microsleep' | 'severe';
+
+/**
+ * Feeds the engine's fatigue events into a FatigueMonitor and escalates:
+ * a chime when drowsiness sets in, a repeating alarm with a full-screen
+ * alert for microsleeps and severe fatigue until the user acknowledges it.
+ * Registers its own FatigueAnalyzer; callers set its baseline via
+ * `engine.getAnalyzer('fatigue')`.
+ */
+export function useFatigueMonitor(engine: VisionEngine, userId: string) {
+  const [config, setConfigState] = useState(() => loadFatigueConfig(userId));
+  const [monitor] = useState(() => new FatigueMonitor(config));
+  const [snapshot, setSnapshot] = useState<FatigueSnapshot>(() => monitor.getSnapshot());
+  const [alarm, setAlarm] = useState<FatigueAlarm | null>(null);
+  const alarmRef = useRef<FatigueAlarm | null>(null);
+  const lastAlarmAtRef = useRef(0);
+  const soundRef = useRef(config.soundEnabled);
+
+  useEffect(() => {
+    engine.register(new FatigueAnalyzer());
+    return () => engine.unregister('fatigue');
+  }, [engine]);
+
+  useEffect(() => {
+    soundRef.current = config.soundEnabled;
+    monitor.setConfig(config);
+    engine.getAnalyzer<FatigueAnalyzer>('fatigue')?.setConfig(config);
+  }, [engine, monitor, config]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('perclos', ({ perclos, coveredMs }) => monitor.recordPerclos(perclos, coveredMs)),
+      engine.on('microsleep', ({ timestamp }) => monitor.recordMicrosleep(timestamp)),
+      engine.on('yawn', ({ timestamp }) => monitor.recordYawn(timestamp)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine, monitor]);
+
+  useEffect(() => {
+    const raise = (kind: FatigueAlarm) => {
+      alarmRef.current = kind;
+      setAlarm(kind);
+      lastAlarmAtRef.current = Date.now();
+      if (soundRef.current) playAlarm();
+    };
+
+    const unsubscribe = monitor.on((event) => {
+      if (event.type === 'microsleep') {
+        raise('microsleep');
+        showNotification('Microsleep detected', 'Your eyes closed for too long. Take a break.', 'visioncare-fatigue');
+      } else if (event.level === 'severe') {
+        raise('severe');
+        showNotification('Severe fatigue', 'Stop and rest before continuing.', 'visioncare-fatigue');
+      } else if (event.level === 'drowsy' && event.previous === 'alert' && soundRef.current) {
+        playChime();
+      }
+    });
+
+    // Alarms have to sound while the user is in another app
+    const stopTicking = setBackgroundInterval(() => {
+      const now = Date.now();
+      monitor.update(now);
+      setSnapshot(monitor.getSnapshot());
+
+      if (alarmRef.current && now - lastAlarmAtRef.current >= REPEAT_ALARM_MS) {
+        lastAlarmAtRef.current = now;
+        if (soundRef.current) playAlarm();
+      }
+    }, TICK_MS);
+
+    return () => {
+      unsubscribe();
+      stopTicking();
+    };
+  }, [monitor]);
+
+  // Audio stays locked until a user gesture; take the first one on the page
+  useEffect(() => {
+    const handleGesture = () => unlockAudio();
+    window.addEventListener('pointerdown', handleGesture, { once: true });
+    return () => window.removeEventListener('pointerdown', handleGesture);
+  }, []);
+
+  const setConfig = useCallback((next: FatigueConfig) => {
+    saveFatigueConfig(userId, next);
+    setConfigState(next);
+  }, [userId]);
+
+  const acknowledge = useCallback(() => {
+    alarmRef.current = null;
+    setAlarm(null);
+  }, []);
+
+  return { config, setConfig, snapshot, alarm, acknowledge };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { VisionEngine } from '../vision/VisionEngine';
+import { PostureAnalyzer } from '../vision/analyzers/postureAnalyzer';
+import type { DistanceCalibration } from '../vision/headPose';
+import type { PostureEvent } from '../vision/types';
+import { PostureMonitor, type PostureSnapshot, type PostureWarning } from './postureMonitor';
+import { playChime } from './alarm';
+import { showNotification } from './notifications';
+import { clearDistanceCalibration, loadDistanceCalibration, saveDistanceCalibration } from '../storage/postureStore';
+
+const TICK_MS = 1000;
+// About three seconds of readings at the analyzer's 5 Hz
+const CALIBRATION_SAMPLES = 15;
+const MIN_CALIBRATION_SAMPLES = 5;
+
+const WARNING_TEXT: Record<PostureWarning, { title: string; body: string }> = {
+  tooClose: { title: 'Too close to the screen', body: 'Sit back to at least an arm\'s length from your display.' },
+  neckPosture: { title: 'Check your posture', body: 'Your head has been bent or tilted for a while. Sit upright and raise the screen if needed.' },
+};
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Registers the posture analyzer, feeds its readings to a PostureMonitor and
+ * surfaces warnings as a chime, a desktop notification and an in-app notice
+ * that clears once the user has corrected their position.
+ */
+export function usePostureMonitor(engine: VisionEngine, userId: string) {
+  const [monitor] = useState(() => new PostureMonitor());
+  const [calibration, setCalibration] = useState(() => loadDistanceCalibration(userId));
+  const [reading, setReading] = useState<PostureEvent | null>(null);
+  const [snapshot, setSnapshot] = useState<PostureSnapshot>(() => monitor.getSnapshot());
+  const [warning, setWarning] = useState<PostureWarning | null>(null);
+  const recentRef = useRef<PostureEvent[]>([]);
+
+  useEffect(() => {
+    engine.register(new PostureAnalyzer());
+    return () => engine.unregister('posture');
+  }, [engine]);
+
+  useEffect(() => {
+    engine.getAnalyzer<PostureAnalyzer>('posture')?.setCalibration(calibration);
+  }, [engine, calibration]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('posture', (event) => {
+        monitor.record(event);
+        recentRef.current = [...recentRef.current.slice(1 - CALIBRATION_SAMPLES), event];
+      }),
+      engine.on('faceLost', () => {
+        recentRef.current = [];
+      }),
+      monitor.on((next) => {
+        setWarning(next);
+        playChime();
+        showNotification(WARNING_TEXT[next].title, WARNING_TEXT[next].body, `visioncare-${next}`);
+      }),
+    ];
+
+    const tick = setInterval(() => {
+      const next = monitor.getSnapshot();
+      setSnapshot(next);
+      setReading(recentRef.current[recentRef.current.length - 1] ?? null);
+      setWarning((current) => {
+        if (current === 'tooClose' && !next.tooClose) return null;
+        if (current === 'neckPosture' && !next.badPosture) return null;
+        return current;
+      });
+    }, TICK_MS);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      clearInterval(tick);
+    };
+  }, [engine, monitor]);
+
+  /**
+   * Takes the user's current position, sitting upright at `distanceCm`, as
+   * the reference. Returns false when there are too few recent readings.
+   */
+  const calibrate = useCallback((distanceCm: number) => {
+    const samples = recentRef.current.filter((event) => event.ipdRatio !== null);
+    if (samples.length < MIN_CALIBRATION_SAMPLES) return false;
+
+    const next: DistanceCalibration = {
+      distanceCm,
+      ipdRatio: median(samples.map((event) => event.ipdRatio as number)),
+      neutralPose: {
+        yaw: median(samples.map((event) => event.rawPose.yaw)),
+        pitch: median(samples.map((event) => event.rawPose.pitch)),
+        roll: median(samples.map((event) => event.rawPose.roll)),
+      },
+      calibratedAt: Date.now(),
+    };
+    saveDistanceCalibration(userId, next);
+    setCalibration(next);
+    recentRef.current = [];
+    return true;
+  }, [userId]);
+
+  const resetCalibration = useCallback(() => {
+    clearDistanceCalibration(userId);
+    setCalibration(null);
+  }, [userId]);
+
+  return {
+    reading,
+    snapshot,
+    warning,
+    warningText: warning ? WARNING_TEXT[warning] : null,
+    calibration,
+    calibrate,
+    resetCalibration,
+    dismissWarning: () => setWarning(null),
+  };
+}
@@ -0,0 +1,112 @@
+import { useLayoutEffect, useRef } from 'react';
+import type { AffectPoint } from '../vision/affectTimeline';
+import { emotionColor } from '../utils/emotion';
+import { formatClock } from '../utils/time';
+import './AffectTimelineChart.css';
+
+interface AffectTimelineChartProps {
+  points: AffectPoint[];
+  /** Session start; the time axis counts from here. */
+  startedAt: number;
+}
+
+const PX_PER_SECOND = 4;
+const MIN_WIDTH = 600;
+const HEIGHT = 230;
+const PADDING_LEFT = 36;
+const AFFECT_PANEL = { top: 8, height: 90 };
+const STRESS_PANEL = { top: 110, height: 70 };
+const EMOTION_STRIP = { top: 188, height: 12 };
+const AXIS_Y = 218;
+// Gaps longer than this (no face, emotion paused) break the lines
+const MAX_GAP_MS = 3000;
+const TICK_EVERY_MS = 60_000;
+
+function linePath(points: AffectPoint[], x: (p: AffectPoint) => number, y: (p: AffectPoint) => number) {
+  return points
+    .map((p, i) => {
+      const gap = i > 0 && p.start - points[i - 1].start > MAX_GAP_MS;
+      return `${i === 0 || gap ? 'M' : 'L'}${x(p).toFixed(1)},${y(p).toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+/** Whole-session valence, arousal and stress, scrolling horizontally as the session grows. */
+export default function AffectTimelineChart({ points, startedAt }: AffectTimelineChartProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Keep the newest data in view unless the user scrolled back to look at older data
+  const followRef = useRef(true);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (el && followRef.current) el.scrollLeft = el.scrollWidth;
+  }, [points]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (el) followRef.current = el.scrollLeft + el.clientWidth >= el.scrollWidth - 8;
+  };
+
+  if (points.length === 0) {
+    return <div className="affect-timeline-empty">The timeline fills in as expressions are detected.</div>;
+  }
+
+  const durationMs = points[points.length - 1].start - startedAt + 1000;
+  const width = Math.max(MIN_WIDTH, PADDING_LEFT + (durationMs / 1000) * PX_PER_SECOND);
+  const x = (p: AffectPoint) => PADDING_LEFT + ((p.start - startedAt) / 1000) * PX_PER_SECOND;
+  const affectY = (value: number) => AFFECT_PANEL.top + ((1 - value) / 2) * AFFECT_PANEL.height;
+  const stressY = (value: number) => STRESS_PANEL.top + (1 - value / 100) * STRESS_PANEL.height;
+  const ticks = Array.from({ length: Math.floor(durationMs / TICK_EVERY_MS) + 1 }, (_, i) => i * TICK_EVERY_MS);
+  const slotWidth = PX_PER_SECOND * (points.length > 1 ? (points[1].start - points[0].start) / 1000 : 1);
+
+  return (
+    <div className="affect-timeline">
+      <div className="affect-timeline-scroll" ref={scrollRef} onScroll={handleScroll}>
+        <svg width={width} height={HEIGHT} role="img" aria-label="Valence, arousal and stress over the session">
+          <text x={4} y={AFFECT_PANEL.top + 8} className="affect-timeline-tick">+1</text>
+          <text x={4} y={affectY(0) + 3} className="affect-timeline-tick">0</text>
+          <text x={4} y={AFFECT_PANEL.top + AFFECT_PANEL.height} className="affect-timeline-tick">−1</text>
+          <line x1={PADDING_LEFT} x2={width} y1={affectY(0)} y2={affectY(0)} className="affect-timeline-zero" />
+          <path d={linePath(points, x, (p) => affectY(p.valence))} className="affect-timeline-valence" />
+          <path d={linePath(points, x, (p) => affectY(p.arousal))} className="affect-timeline-arousal" />
+
+          <text x={4} y={STRESS_PANEL.top + 8} className="affect-timeline-tick">100</text>
+          <text x={4} y={STRESS_PANEL.top + STRESS_PANEL.height} className="affect-timeline-tick">0</text>
+          <line
+            x1={PADDING_LEFT}
+            x2={width}
+            y1={STRESS_PANEL.top + STRESS_PANEL.height}
+            y2={STRESS_PANEL.top + STRESS_PANEL.height}
+            className="affect-timeline-zero"
+          />
+          <path d={linePath(points, x, (p) => stressY(p.stress))} className="affect-timeline-stress" />
+
+          {points.map((p) => (
+            <rect
+              key={p.start}
+              x={x(p)}
+              y={EMOTION_STRIP.top}
+              width={Math.max(1, slotWidth)}
+              height={EMOTION_STRIP.height}
+              fill={emotionColor(p.emotion)}
+            >
+              <title>{`${formatClock(p.start - startedAt)} ${p.emotion}`}</title>
+            </rect>
+          ))}
+
+          {ticks.map((t) => (
+            <text key={t} x={PADDING_LEFT + (t / 1000) * PX_PER_SECOND} y={AXIS_Y} className="affect-timeline-tick">
+              {formatClock(t)}
+            </text>
+          ))}
+        </svg>
+      </div>
+      <div className="affect-timeline-legend">
+        <span className="affect-timeline-key valence">Valence</span>
+        <span className="affect-timeline-key arousal">Arousal</span>
+        <span className="affect-timeline-key stress">Stress index</span>
+        <span className="affect-timeline-key emotion">Expression</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { FLAG_LABELS, type AnnotationInput, type FlagKind } from '../clinic/types';
+
+interface AnnotationFormProps {
+  /** Flags ticked up front because the session's metrics crossed a threshold. */
+  suggested: FlagKind[];
+  onSubmit(input: AnnotationInput): Promise<void>;
+}
+
+const FLAG_KINDS = Object.keys(FLAG_LABELS) as FlagKind[];
+
+export default function AnnotationForm({ suggested, onSubmit }: AnnotationFormProps) {
+  const [note, setNote] = useState('');
+  const [flags, setFlags] = useState<FlagKind[]>(suggested);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleFlag = (kind: FlagKind, on: boolean) => {
+    setFlags((prev) => (on ? [...prev, kind] : prev.filter((k) => k !== kind)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ note, flags });
+      setNote('');
+      setFlags([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the note.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="annotation-form" onSubmit={handleSubmit}>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for this session"
+        aria-label="Session note"
+        rows={2}
+      />
+      <div className="annotation-form-row">
+        {FLAG_KINDS.map((kind) => (
+          <label key={kind} className="annotation-flag-option">
+            <input
+              type="checkbox"
+              checked={flags.includes(kind)}
+              onChange={(e) => toggleFlag(kind, e.target.checked)}
+            />
+            {FLAG_LABELS[kind]}
+            {suggested.includes(kind) && <small>suggested</small>}
+          </label>
+        ))}
+        <button type="submit" className="card-action-btn" disabled={saving || (!note.trim() && flags.length === 0)}>
+          {saving ? 'Saving...' : 'Add note'}
+        </button>
+      </div>
+      {error && <p className="clinic-error" role="alert">{error}</p>}
+    </form>
+  );
+}
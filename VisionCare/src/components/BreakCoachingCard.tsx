@@ -0,0 +1,120 @@
+import { adherence, type BreakConfig, type BreakSnapshot } from '../coaching/breakScheduler';
+import { formatClock } from '../utils/time';
+
+interface BreakCoachingCardProps {
+  snapshot: BreakSnapshot;
+  config: BreakConfig;
+  permission: NotificationPermission | 'unsupported';
+  onConfigChange: (config: BreakConfig) => void;
+  onEnableNotifications: () => void;
+}
+
+const PHASE_BADGES = {
+  working: { text: '⏱️ Tracking', color: '#6b7280' },
+  due: { text: '🌳 Break Due', color: '#f59e0b' },
+  snoozed: { text: '💤 Snoozed', color: '#8b5cf6' },
+};
+
+export default function BreakCoachingCard({
+  snapshot,
+  config,
+  permission,
+  onConfigChange,
+  onEnableNotifications,
+}: BreakCoachingCardProps) {
+  const badge = PHASE_BADGES[snapshot.phase];
+  const rate = adherence(snapshot.stats);
+
+  const updateNumber = (key: 'workIntervalMs' | 'breakDurationMs' | 'snoozeMs', unitMs: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(e.target.value);
+      if (value > 0) onConfigChange({ ...config, [key]: value * unitMs });
+    };
+
+  return (
+    <div className="insight-card">
+      <div className="insight-header">
+        <h3 className="insight-title">Screen Time Coaching</h3>
+        <span className="insight-badge" style={{ backgroundColor: badge.color }}>
+          {badge.text}
+        </span>
+      </div>
+      <div className="insight-body">
+        <div className="blink-metric">
+          <div className="metric-item">
+            <span className="metric-label">Screen Time</span>
+            <span className="metric-value-big">{formatClock(snapshot.screenTimeMs)}</span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Next Break In</span>
+            <span className="metric-value">{formatClock(snapshot.nextBreakInMs)}</span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Adherence</span>
+            <span className="metric-value">
+              {rate === null ? '–' : `${Math.round(rate * 100)}%`}
+              {' '}({snapshot.stats.taken}/{snapshot.stats.reminders} taken)
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Snoozed / Skipped / Missed</span>
+            <span className="metric-value">
+              {snapshot.stats.snoozed} / {snapshot.stats.skipped} / {snapshot.stats.missed}
+            </span>
+          </div>
+        </div>
+
+        <div className="coaching-settings">
+          <label className="coaching-field">
+            <span>Remind every (min)</span>
+            <input
+              type="number"
+              min={1}
+              value={config.workIntervalMs / 60_000}
+              onChange={updateNumber('workIntervalMs', 60_000)}
+            />
+          </label>
+          <label className="coaching-field">
+            <span>Break length (s)</span>
+            <input
+              type="number"
+              min={5}
+              value={config.breakDurationMs / 1000}
+              onChange={updateNumber('breakDurationMs', 1000)}
+            />
+          </label>
+          <label className="coaching-field">
+            <span>Snooze (min)</span>
+            <input
+              type="number"
+              min={1}
+              value={config.snoozeMs / 60_000}
+              onChange={updateNumber('snoozeMs', 60_000)}
+            />
+          </label>
+          <label className="coaching-field checkbox">
+            <input
+              type="checkbox"
+              checked={config.notificationsEnabled}
+              onChange={(e) => onConfigChange({ ...config, notificationsEnabled: e.target.checked })}
+            />
+            <span>Desktop notifications</span>
+          </label>
+        </div>
+
+        {config.notificationsEnabled && permission === 'default' && (
+          <div className="card-actions">
+            <button className="card-action-btn" onClick={onEnableNotifications}>
+              Allow notifications
+            </button>
+          </div>
+        )}
+        {config.notificationsEnabled && permission === 'denied' && (
+          <div className="health-message">
+            <p>Notifications are blocked in your browser; reminders will only appear in the app.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
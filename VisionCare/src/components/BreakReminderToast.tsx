@@ -0,0 +1,57 @@
+import type { BreakSnapshot } from '../coaching/breakScheduler';
+import './BreakReminderToast.css';
+
+interface BreakReminderToastProps {
+  snapshot: BreakSnapshot;
+  breakDurationMs: number;
+  notice: string | null;
+  onSnooze: () => void;
+  onSkip: () => void;
+  onDismissNotice: () => void;
+}
+
+export default function BreakReminderToast({
+  snapshot,
+  breakDurationMs,
+  notice,
+  onSnooze,
+  onSkip,
+  onDismissNotice,
+}: BreakReminderToastProps) {
+  if (snapshot.phase === 'due') {
+    const progress = Math.min(1, snapshot.awayMs / breakDurationMs);
+    const secondsLeft = Math.ceil((breakDurationMs - snapshot.awayMs) / 1000);
+
+    return (
+      <div className="break-toast" role="alert">
+        <div className="break-toast-header">
+          <span className="break-toast-icon">🌳</span>
+          <span className="break-toast-title">Time for a 20-20-20 break</span>
+        </div>
+        <p className="break-toast-text">
+          {progress > 0
+            ? `Keep looking away... ${secondsLeft}s to go`
+            : `Look at something 20 feet away for ${Math.round(breakDurationMs / 1000)} seconds.`}
+        </p>
+        <div className="break-toast-progress">
+          <div className="break-toast-progress-bar" style={{ width: `${progress * 100}%` }} />
+        </div>
+        <div className="break-toast-actions">
+          <button className="break-toast-btn" onClick={onSnooze}>Snooze</button>
+          <button className="break-toast-btn secondary" onClick={onSkip}>Skip</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (notice) {
+    return (
+      <div className="break-toast compact" role="status">
+        <span className="break-toast-text">{notice}</span>
+        <button className="break-toast-close" onClick={onDismissNotice} aria-label="Dismiss">×</button>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import type { VisionEngine } from '../vision/VisionEngine';
+import { computeCalibration, type EarCalibrationProfile } from '../vision/calibration';
+import './CalibrationWizard.css';
+
+const OPEN_PHASE_MS = 4000;
+const BLINK_CUES = 5;
+const BLINK_CUE_INTERVAL_MS = 1200;
+const BLINK_CUE_VISIBLE_MS = 500;
+
+type Phase = 'intro' | 'open' | 'blink' | 'result';
+
+interface CalibrationWizardProps {
+  engine: VisionEngine;
+  onSave: (profile: EarCalibrationProfile) => void;
+  onCancel: () => void;
+}
+
+export default function CalibrationWizard({ engine, onSave, onCancel }: CalibrationWizardProps) {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [openSamples, setOpenSamples] = useState<number[]>([]);
+  const [cueCount, setCueCount] = useState(0);
+  const [cueVisible, setCueVisible] = useState(false);
+  const [result, setResult] = useState<ReturnType<typeof computeCalibration> | null>(null);
+
+  // Phase 1: record the open-eye baseline
+  useEffect(() => {
+    if (phase !== 'open') return;
+
+    const samples: number[] = [];
+    const unsubscribe = engine.on('ear', ({ average }) => samples.push(average));
+    const timer = setTimeout(() => {
+      setOpenSamples(samples);
+      setCueCount(0);
+      setPhase('blink');
+    }, OPEN_PHASE_MS);
+
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [engine, phase]);
+
+  // Phase 2: cue a series of blinks and record the closed-eye minimum
+  useEffect(() => {
+    if (phase !== 'blink') return;
+
+    const samples: number[] = [];
+    const unsubscribe = engine.on('ear', ({ average }) => samples.push(average));
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    for (let i = 0; i < BLINK_CUES; i++) {
+      const cueAt = (i + 1) * BLINK_CUE_INTERVAL_MS;
+      timers.push(setTimeout(() => {
+        setCueCount(i + 1);
+        setCueVisible(true);
+      }, cueAt));
+      timers.push(setTimeout(() => setCueVisible(false), cueAt + BLINK_CUE_VISIBLE_MS));
+    }
+
+    timers.push(setTimeout(() => {
+      setResult(computeCalibration(openSamples, samples));
+      setPhase('result');
+    }, (BLINK_CUES + 1) * BLINK_CUE_INTERVAL_MS));
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [engine, phase, openSamples]);
+
+  const restart = () => {
+    setResult(null);
+    setOpenSamples([]);
+    setPhase('open');
+  };
+
+  return (
+    <div className="calibration-backdrop" role="dialog" aria-modal="true" aria-labelledby="calibration-title">
+      <div className="calibration-modal">
+        <h2 id="calibration-title" className="calibration-title">Blink Calibration</h2>
+
+        {phase === 'intro' && (
+          <>
+            <p className="calibration-text">
+              Everyone's eyes are shaped differently. This short calibration learns what your eyes look like
+              open and closed so blinks are counted accurately, even with glasses or an off-centre webcam.
+            </p>
+            <ol className="calibration-steps">
+              <li>Sit as you normally would and look at the screen.</li>
+              <li>Keep your eyes open for a few seconds.</li>
+              <li>Blink fully each time the cue appears ({BLINK_CUES} times).</li>
+            </ol>
+            <div className="calibration-actions">
+              <button className="calibration-btn secondary" onClick={onCancel}>Cancel</button>
+              <button className="calibration-btn primary" onClick={() => setPhase('open')}>Start</button>
+            </div>
+          </>
+        )}
+
+        {phase === 'open' && (
+          <div className="calibration-stage">
+            <div className="calibration-target" />
+            <p className="calibration-instruction">Keep your eyes open and look at the dot</p>
+          </div>
+        )}
+
+        {phase === 'blink' && (
+          <div className="calibration-stage">
+            <div className={`calibration-cue ${cueVisible ? 'visible' : ''}`}>Blink!</div>
+            <p className="calibration-instruction">
+              Blink when the cue flashes ({cueCount}/{BLINK_CUES})
+            </p>
+          </div>
+        )}
+
+        {phase === 'result' && result && (
+          result.ok ? (
+            <>
+              <p className="calibration-text">Calibration complete. These are your personal baselines:</p>
+              <div className="calibration-results">
+                <div className="metric-item">
+                  <span className="metric-label">Eyes open</span>
+                  <span className="metric-value">{result.profile.openEAR.toFixed(3)}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Eyes closed</span>
+                  <span className="metric-value">{result.profile.closedEAR.toFixed(3)}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Blink threshold</span>
+                  <span className="metric-value">
+                    {result.profile.thresholds.close.toFixed(3)} / {result.profile.thresholds.reopen.toFixed(3)}
+                  </span>
+                </div>
+              </div>
+              <div className="calibration-actions">
+                <button className="calibration-btn secondary" onClick={restart}>Retry</button>
+                <button className="calibration-btn primary" onClick={() => onSave(result.profile)}>Save</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="calibration-error">{result.reason}</p>
+              <div className="calibration-actions">
+                <button className="calibration-btn secondary" onClick={onCancel}>Cancel</button>
+                <button className="calibration-btn primary" onClick={restart}>Try Again</button>
+              </div>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
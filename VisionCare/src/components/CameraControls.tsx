@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { listCameras, type CameraDevice, type CameraRequest, type CameraState } from '../camera/cameraController';
+import './CameraControls.css';
+
+interface CameraControlsProps {
+  request: CameraRequest;
+  state: CameraState;
+  onChange: (request: CameraRequest) => void;
+}
+
+const RESOLUTIONS: [number, number][] = [
+  [640, 480],
+  [1280, 720],
+  [1920, 1080],
+];
+const FRAME_RATES = [15, 24, 30, 60];
+
+const withCurrent = <T,>(options: T[], current: T, same: (a: T, b: T) => boolean) =>
+  options.some((option) => same(option, current)) ? options : [current, ...options];
+
+export default function CameraControls({ request, state, onChange }: CameraControlsProps) {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+
+  // Labels only appear once permission is granted, so reload when the camera goes live
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listCameras()
+        .then((list) => {
+          if (!cancelled) setDevices(list);
+        })
+        .catch((err) => console.error('Could not list cameras:', err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [state.status]);
+
+  const resolutions = withCurrent(RESOLUTIONS, [request.width, request.height], (a, b) => a[0] === b[0] && a[1] === b[1]);
+  const frameRates = withCurrent(FRAME_RATES, request.fps, (a, b) => a === b);
+
+  return (
+    <div className="camera-controls">
+      <label className="camera-control">
+        <span>Camera</span>
+        <select
+          value={request.deviceId ?? ''}
+          onChange={(e) => onChange({ ...request, deviceId: e.target.value || null })}
+        >
+          <option value="">System default</option>
+          {devices.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="camera-control">
+        <span>Resolution</span>
+        <select
+          value={`${request.width}x${request.height}`}
+          onChange={(e) => {
+            const [width, height] = e.target.value.split('x').map(Number);
+            onChange({ ...request, width, height });
+          }}
+        >
+          {resolutions.map(([width, height]) => (
+            <option key={`${width}x${height}`} value={`${width}x${height}`}>
+              {width} × {height}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="camera-control">
+        <span>Frame rate</span>
+        <select value={request.fps} onChange={(e) => onChange({ ...request, fps: Number(e.target.value) })}>
+          {frameRates.map((fps) => (
+            <option key={fps} value={fps}>
+              {fps} fps
+            </option>
+          ))}
+        </select>
+      </label>
+      {state.status === 'live' && (
+        <span className="camera-actual" title={state.label}>
+          Receiving {state.width} × {state.height}
+          {state.fps !== null && ` @ ${Math.round(state.fps)} fps`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import type { CameraErrorKind, CameraState } from '../camera/cameraController';
+import './CameraStatusOverlay.css';
+
+interface CameraStatusOverlayProps {
+  state: CameraState;
+  onRetry: () => void;
+}
+
+interface Recovery {
+  icon: string;
+  title: string;
+  body: string;
+  /** Whether the stream comes back by itself once the problem is fixed. */
+  automatic: boolean;
+}
+
+const RECOVERY: Record<CameraErrorKind, Recovery> = {
+  permissionDenied: {
+    icon: '🔒',
+    title: 'Camera access is blocked',
+    body: "Allow camera access for this site from the icon in your browser's address bar or its site settings. Video never leaves this device.",
+    automatic: false,
+  },
+  noDevice: {
+    icon: '📷',
+    title: 'No camera found',
+    body: 'Connect a webcam or pick another camera below. Monitoring starts as soon as one is available.',
+    automatic: true,
+  },
+  inUse: {
+    icon: '🎥',
+    title: 'Camera is busy',
+    body: 'Another app, such as a video call or recorder, is using the camera. Close it, then try again.',
+    automatic: false,
+  },
+  unplugged: {
+    icon: '🔌',
+    title: 'Camera disconnected',
+    body: 'Plug the camera back in and monitoring resumes automatically, or pick another camera below.',
+    automatic: true,
+  },
+  unsupported: {
+    icon: '🚫',
+    title: 'Camera not supported',
+    body: 'This browser cannot access cameras. Use a current Chrome, Edge, Firefox or Safari over HTTPS.',
+    automatic: false,
+  },
+  unknown: {
+    icon: '⚠️',
+    title: 'Camera could not start',
+    body: 'Something went wrong opening the camera.',
+    automatic: false,
+  },
+};
+
+/** Covers the video while the camera starts or when it needs the user's help. */
+export default function CameraStatusOverlay({ state, onRetry }: CameraStatusOverlayProps) {
+  if (state.status === 'starting') {
+    return (
+      <div className="camera-overlay">
+        <span className="camera-overlay-icon">⏳</span>
+        <p className="camera-overlay-title">Starting camera...</p>
+      </div>
+    );
+  }
+  if (state.status !== 'error') return null;
+
+  const recovery = RECOVERY[state.error];
+  return (
+    <div className="camera-overlay" role="alert">
+      <span className="camera-overlay-icon">{recovery.icon}</span>
+      <p className="camera-overlay-title">{recovery.title}</p>
+      <p className="camera-overlay-body">{recovery.body}</p>
+      {state.error === 'unknown' && <p className="camera-overlay-detail">{state.detail}</p>}
+      {recovery.automatic && <p className="camera-overlay-detail">Waiting for a camera...</p>}
+      <button className="card-action-btn" onClick={onRetry}>
+        Try again
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { EarSample } from '../vision/earSeries';
+import './EarSparkline.css';
+
+interface EarSparklineProps {
+  samples: EarSample[];
+  /** EAR below which a blink starts, drawn as a dashed guide. */
+  threshold: number;
+  /** Time window shown, in milliseconds, ending at the newest sample. */
+  windowMs: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const MAX_EAR = 0.45;
+
+export default function EarSparkline({ samples, threshold, windowMs }: EarSparklineProps) {
+  if (samples.length < 2) {
+    return <div className="ear-sparkline-empty">Waiting for eye data...</div>;
+  }
+
+  const end = samples[samples.length - 1].timestamp;
+  const x = (timestamp: number) => WIDTH - ((end - timestamp) / windowMs) * WIDTH;
+  const y = (ear: number) => HEIGHT - (Math.min(ear, MAX_EAR) / MAX_EAR) * HEIGHT;
+  const path = (eye: 'left' | 'right') =>
+    samples.map((s) => `${x(s.timestamp).toFixed(1)},${y(s[eye]).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="ear-sparkline">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" role="img" aria-label="Eye aspect ratio over time">
+        <line x1={0} x2={WIDTH} y1={y(threshold)} y2={y(threshold)} className="ear-sparkline-threshold" />
+        <polyline points={path('left')} className="ear-sparkline-left" />
+        <polyline points={path('right')} className="ear-sparkline-right" />
+      </svg>
+      <div className="ear-sparkline-legend">
+        <span className="ear-sparkline-key left">Left eye</span>
+        <span className="ear-sparkline-key right">Right eye</span>
+        <span className="ear-sparkline-key threshold">Blink threshold</span>
+      </div>
+    </div>
+  );
+}
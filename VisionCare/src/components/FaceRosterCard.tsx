@@ -0,0 +1,76 @@
+import type { FaceSummary } from '../vision/faceRoster';
+
+interface FaceRosterCardProps {
+  faces: FaceSummary[];
+  lockedTrackId: number | null;
+  onLock: (trackId: number | null) => void;
+}
+
+export default function FaceRosterCard({ faces, lockedTrackId, onLock }: FaceRosterCardProps) {
+  const lockedMissing = lockedTrackId !== null && !faces.some((face) => face.trackId === lockedTrackId && face.visible);
+
+  const badge =
+    lockedTrackId === null
+      ? { text: '🔓 Auto', color: '#6b7280' }
+      : lockedMissing
+        ? { text: '⏸️ User Away', color: '#f59e0b' }
+        : { text: '🔒 Locked', color: '#10b981' };
+
+  return (
+    <div className="insight-card">
+      <div className="insight-header">
+        <h3 className="insight-title">People in View</h3>
+        <span className="insight-badge" style={{ backgroundColor: badge.color }}>
+          {badge.text}
+        </span>
+      </div>
+      <div className="insight-body">
+        {faces.length === 0 ? (
+          <div className="health-message">
+            <p>No faces tracked yet.</p>
+          </div>
+        ) : (
+          <ul className="face-roster">
+            {faces.map((face) => (
+              <li key={face.trackId} className={`face-roster-item ${face.primary ? 'primary' : ''} ${face.visible ? '' : 'away'}`}>
+                <div className="face-roster-name">
+                  <span>Face #{face.trackId}</span>
+                  {face.primary && <span className="face-roster-tag">Measured user</span>}
+                  {!face.visible && <span className="face-roster-tag muted">Out of view</span>}
+                </div>
+                <div className="face-roster-stats">
+                  <span>{face.blinkCount} blinks</span>
+                  <span>{face.blinksPerMinute} BPM</span>
+                  {face.emotion && <span>{face.emotion}</span>}
+                </div>
+                {face.trackId !== lockedTrackId && (
+                  <button className="card-action-btn secondary" onClick={() => onLock(face.trackId)}>
+                    This is me
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="health-message">
+          <p>
+            {lockedTrackId === null
+              ? 'The closest face is measured. Lock yourself in on shared stations so colleagues are not counted.'
+              : lockedMissing
+                ? `Face #${lockedTrackId} left the camera. Metrics are paused until they return.`
+                : `Only face #${lockedTrackId} is measured.`}
+          </p>
+        </div>
+
+        {lockedTrackId !== null && (
+          <div className="card-actions">
+            <button className="card-action-btn secondary" onClick={() => onLock(null)}>
+              Unlock
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { FatigueAlarm } from '../coaching/useFatigueMonitor';
+import './FatigueAlertOverlay.css';
+
+interface FatigueAlertOverlayProps {
+  alarm: FatigueAlarm | null;
+  onAcknowledge: () => void;
+}
+
+const MESSAGES: Record<FatigueAlarm, { title: string; text: string }> = {
+  microsleep: {
+    title: 'Microsleep detected',
+    text: 'Your eyes stayed closed. Stop what you are doing and take a break.',
+  },
+  severe: {
+    title: 'Severe fatigue',
+    text: 'Frequent eye closure and yawning. Rest before continuing your shift.',
+  },
+};
+
+export default function FatigueAlertOverlay({ alarm, onAcknowledge }: FatigueAlertOverlayProps) {
+  if (!alarm) return null;
+  const { title, text } = MESSAGES[alarm];
+
+  return (
+    <div className="fatigue-overlay" role="alertdialog" aria-labelledby="fatigue-overlay-title">
+      <div className="fatigue-overlay-panel">
+        <span className="fatigue-overlay-icon">⚠️</span>
+        <h2 id="fatigue-overlay-title" className="fatigue-overlay-title">{title}</h2>
+        <p className="fatigue-overlay-text">{text}</p>
+        <button className="fatigue-overlay-btn" onClick={onAcknowledge} autoFocus>
+          I'm awake
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import type { FatigueConfig, FatigueLevel, FatigueSnapshot } from '../coaching/fatigueMonitor';
+
+interface FatigueCardProps {
+  snapshot: FatigueSnapshot;
+  config: FatigueConfig;
+  onConfigChange: (config: FatigueConfig) => void;
+}
+
+const LEVEL_BADGES: Record<FatigueLevel, { text: string; color: string }> = {
+  alert: { text: '✓ Alert', color: '#10b981' },
+  drowsy: { text: '😪 Drowsy', color: '#f59e0b' },
+  severe: { text: '⚠️ Severe', color: '#ef4444' },
+};
+
+export default function FatigueCard({ snapshot, config, onConfigChange }: FatigueCardProps) {
+  const badge = LEVEL_BADGES[snapshot.level];
+
+  return (
+    <div className="insight-card">
+      <div className="insight-header">
+        <h3 className="insight-title">Fatigue Monitor</h3>
+        <span className="insight-badge" style={{ backgroundColor: badge.color }}>
+          {badge.text}
+        </span>
+      </div>
+      <div className="insight-body">
+        <div className="fatigue-score">
+          <div className="fatigue-score-track">
+            <div
+              className="fatigue-score-fill"
+              style={{ width: `${snapshot.score}%`, backgroundColor: badge.color }}
+            />
+          </div>
+          <span className="fatigue-score-value">{snapshot.score}</span>
+        </div>
+
+        <div className="blink-metric">
+          <div className="metric-item">
+            <span className="metric-label">PERCLOS ({Math.round(config.perclosWindowMs / 1000)}s)</span>
+            <span className="metric-value-big">
+              {snapshot.perclos === null ? '–' : `${(snapshot.perclos * 100).toFixed(1)}%`}
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Microsleeps (10 min / session)</span>
+            <span className="metric-value">
+              {snapshot.recentMicrosleeps} / {snapshot.totalMicrosleeps}
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Yawns (10 min / session)</span>
+            <span className="metric-value">
+              {snapshot.recentYawns} / {snapshot.totalYawns}
+            </span>
+          </div>
+        </div>
+
+        <div className="coaching-settings">
+          <label className="coaching-field">
+            <span>Microsleep after (s)</span>
+            <input
+              type="number"
+              min={0.5}
+              step={0.1}
+              value={config.microsleepMs / 1000}
+              onChange={(e) => {
+                const seconds = Number(e.target.value);
+                if (seconds >= 0.5) onConfigChange({ ...config, microsleepMs: seconds * 1000 });
+              }}
+            />
+          </label>
+          <label className="coaching-field checkbox">
+            <input
+              type="checkbox"
+              checked={config.soundEnabled}
+              onChange={(e) => onConfigChange({ ...config, soundEnabled: e.target.checked })}
+            />
+            <span>Sound alarms</span>
+          </label>
+        </div>
+
+        {snapshot.level !== 'alert' && (
+          <div className="health-message">
+            <p>
+              {snapshot.level === 'severe'
+                ? 'Stop and rest. Signs of severe fatigue detected.'
+                : 'Signs of drowsiness. Consider a short break or some fresh air.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
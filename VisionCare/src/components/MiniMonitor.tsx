@@ -0,0 +1,104 @@
+import { createPortal } from 'react-dom';
+import type { BreakSnapshot } from '../coaching/breakScheduler';
+import type { SessionSnapshot } from '../session/sessionClock';
+import { formatDuration } from '../history/trends';
+import './MiniMonitor.css';
+
+interface MiniMonitorProps {
+  /** The picture-in-picture window to render into. */
+  target: Window;
+  currentBPM: number;
+  bpmColor: string;
+  isBlinking: boolean;
+  eyesDetected: boolean;
+  session: SessionSnapshot;
+  breakSnapshot: BreakSnapshot;
+  breakDurationMs: number;
+  notice: string | null;
+  onSnooze: () => void;
+  onSkip: () => void;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+function sessionText({ status, pauseReason, activeMs }: SessionSnapshot) {
+  switch (status) {
+    case 'idle':
+      return 'No session';
+    case 'running':
+      return `Recording · ${formatDuration(activeMs)}`;
+    case 'paused':
+      return pauseReason === 'away' ? 'Paused while away' : 'Paused';
+    case 'stopped':
+      return 'Session ended';
+  }
+}
+
+/**
+ * The dashboard's essentials in an always-on-top window, for monitoring
+ * while working in other apps. Rendered through a portal, so it shares the
+ * dashboard's state and needs no processing of its own.
+ */
+export default function MiniMonitor({
+  target,
+  currentBPM,
+  bpmColor,
+  isBlinking,
+  eyesDetected,
+  session,
+  breakSnapshot,
+  breakDurationMs,
+  notice,
+  onSnooze,
+  onSkip,
+  onPause,
+  onResume,
+}: MiniMonitorProps) {
+  const breakDue = breakSnapshot.phase === 'due';
+  const progress = Math.min(1, breakSnapshot.awayMs / breakDurationMs);
+
+  return createPortal(
+    <div className={`mini-monitor ${breakDue ? 'break-due' : ''}`}>
+      <div className="mini-monitor-row">
+        <div className="mini-monitor-bpm">
+          <span className="mini-monitor-value" style={{ color: bpmColor }}>{currentBPM}</span>
+          <span className="mini-monitor-unit">BPM</span>
+        </div>
+        <span
+          className={`mini-monitor-blink ${isBlinking ? 'active' : ''} ${eyesDetected ? '' : 'lost'}`}
+          title={eyesDetected ? 'Blink indicator' : 'No face in view'}
+        >
+          👁️
+        </span>
+      </div>
+
+      <div className="mini-monitor-row">
+        <span className="mini-monitor-text">{sessionText(session)}</span>
+        {session.status === 'running' && (
+          <button className="mini-monitor-btn" onClick={onPause}>Pause</button>
+        )}
+        {session.status === 'paused' && (
+          <button className="mini-monitor-btn" onClick={onResume}>Resume</button>
+        )}
+      </div>
+
+      {breakDue ? (
+        <div className="mini-monitor-alert" role="alert">
+          <span className="mini-monitor-alert-title">🌳 Time for a 20-20-20 break</span>
+          <div className="break-toast-progress">
+            <div className="break-toast-progress-bar" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <div className="mini-monitor-row">
+            <button className="mini-monitor-btn" onClick={onSnooze}>Snooze</button>
+            <button className="mini-monitor-btn" onClick={onSkip}>Skip</button>
+          </div>
+        </div>
+      ) : (
+        <span className="mini-monitor-text">
+          {notice ?? `Next break in ${formatDuration(breakSnapshot.nextBreakInMs)}`}
+        </span>
+      )}
+    </div>,
+    target.document.body,
+  );
+}
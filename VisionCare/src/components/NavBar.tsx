@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+import { NavLink, useNavigate } from 'react-router-dom';
+import { useAuth } from '../auth/useAuth';
+
+interface NavBarProps {
+  children?: ReactNode;
+}
+
+export default function NavBar({ children }: NavBarProps) {
+  const navigate = useNavigate();
+  const { logout, user } = useAuth();
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  return (
+    <nav className="navbar">
+      <div className="nav-content">
+        <div className="nav-logo">
+          <span className="logo-icon">👁️</span>
+          <span className="logo-text">VisionCare</span>
+          <span className="beta-badge">BETA</span>
+        </div>
+        <div className="nav-links">
+          <NavLink to="/dashboard" className="nav-link">Dashboard</NavLink>
+          <NavLink to="/history" className="nav-link">History</NavLink>
+          <NavLink to="/replay" className="nav-link">Replay</NavLink>
+          <NavLink to="/settings" className="nav-link">Settings</NavLink>
+          <NavLink to="/privacy" className="nav-link">Privacy</NavLink>
+          {user?.role === 'clinician' ? (
+            <NavLink to="/clinician" className="nav-link">Patients</NavLink>
+          ) : (
+            <NavLink to="/sharing" className="nav-link">Sharing</NavLink>
+          )}
+          {children}
+          <button onClick={handleLogout} className="nav-btn-primary">Logout</button>
+        </div>
+      </div>
+    </nav>
+  );
+}
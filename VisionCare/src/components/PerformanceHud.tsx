@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import type { PerfSnapshot } from '../vision/perfMonitor';
+import type { VisionEngine } from '../vision/VisionEngine';
+import type { FrameThrottle } from '../vision/frameThrottle';
+import './PerformanceHud.css';
+
+interface PerformanceHudProps {
+  engine: VisionEngine;
+  throttle: FrameThrottle;
+}
+
+interface HudState {
+  snapshot: PerfSnapshot;
+  targetFps: number;
+}
+
+const REFRESH_MS = 1000;
+// Latencies above this share of a frame interval are highlighted
+const SLOW_SHARE = 0.5;
+
+/** Toggleable overlay with frame rate and per-stage latency. */
+export default function PerformanceHud({ engine, throttle }: PerformanceHudProps) {
+  const [visible, setVisible] = useState(false);
+  const [state, setState] = useState<HudState | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    const refresh = () => setState({ snapshot: engine.perf.snapshot(), targetFps: throttle.targetFps });
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [engine, throttle, visible]);
+
+  const toggle = (
+    <button type="button" className="perf-hud-toggle" onClick={() => setVisible((v) => !v)}>
+      {visible ? 'Hide performance' : 'Performance'}
+    </button>
+  );
+  if (!visible) return toggle;
+  if (!state) {
+    return (
+      <>
+        <div className="perf-hud">Measuring...</div>
+        {toggle}
+      </>
+    );
+  }
+
+  const { snapshot, targetFps } = state;
+  const budgetMs = 1000 / targetFps;
+  return (
+    <>
+      <div className="perf-hud" aria-label="Performance statistics">
+        <div className="perf-hud-fps">
+          <strong>{snapshot.fps.toFixed(0)}</strong> fps
+          <span className="perf-hud-target">target {targetFps}</span>
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>Stage</th>
+              <th>avg</th>
+              <th>max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {snapshot.latencies.map(({ label, meanMs, maxMs }) => (
+              <tr key={label} className={meanMs > budgetMs * SLOW_SHARE ? 'slow' : undefined}>
+                <td>{label}</td>
+                <td>{meanMs.toFixed(1)} ms</td>
+                <td>{maxMs.toFixed(1)} ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {toggle}
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import type { PostureSnapshot } from '../coaching/postureMonitor';
+import type { DistanceCalibration, GazeEstimate } from '../vision/headPose';
+import type { PostureEvent } from '../vision/types';
+
+interface PostureCardProps {
+  reading: PostureEvent | null;
+  snapshot: PostureSnapshot;
+  calibration: DistanceCalibration | null;
+  warningText: { title: string; body: string } | null;
+  onCalibrate: (distanceCm: number) => boolean;
+  onResetCalibration: () => void;
+  onDismissWarning: () => void;
+}
+
+// Iris offsets below this are treated as looking at the screen
+const GAZE_DEADZONE = 0.3;
+
+// Directions are from the user's point of view; the camera image is not
+// mirrored, so the right of the image is the user's left.
+function gazeLabel(gaze: GazeEstimate | null) {
+  if (!gaze) return '–';
+  const { horizontal, vertical } = gaze;
+  if (Math.abs(horizontal) < GAZE_DEADZONE && Math.abs(vertical) < GAZE_DEADZONE) return 'At screen';
+  if (Math.abs(horizontal) >= Math.abs(vertical)) return horizontal > 0 ? 'Left' : 'Right';
+  return vertical > 0 ? 'Down' : 'Up';
+}
+
+const formatAngle = (degrees: number) => `${degrees > 0 ? '+' : ''}${degrees.toFixed(0)}°`;
+
+export default function PostureCard({
+  reading,
+  snapshot,
+  calibration,
+  warningText,
+  onCalibrate,
+  onResetCalibration,
+  onDismissWarning,
+}: PostureCardProps) {
+  const [calibrating, setCalibrating] = useState(false);
+  const [distanceInput, setDistanceInput] = useState(60);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+
+  const badge = !reading
+    ? { text: '⏱️ Waiting', color: '#6b7280' }
+    : snapshot.tooClose
+      ? { text: '⚠️ Too Close', color: '#ef4444' }
+      : snapshot.badPosture
+        ? { text: '⚡ Poor Posture', color: '#f59e0b' }
+        : { text: '✓ Good', color: '#10b981' };
+
+  const handleCapture = () => {
+    if (onCalibrate(distanceInput)) {
+      setCalibrating(false);
+      setCalibrationError(null);
+    } else {
+      setCalibrationError('Could not see your eyes clearly. Face the camera and try again.');
+    }
+  };
+
+  return (
+    <div className="insight-card">
+      <div className="insight-header">
+        <h3 className="insight-title">Posture & Distance</h3>
+        <span className="insight-badge" style={{ backgroundColor: badge.color }}>
+          {badge.text}
+        </span>
+      </div>
+      <div className="insight-body">
+        {warningText && (
+          <div className="posture-warning" role="alert">
+            <div>
+              <strong>{warningText.title}</strong>
+              <p>{warningText.body}</p>
+            </div>
+            <button className="posture-warning-close" onClick={onDismissWarning} aria-label="Dismiss">×</button>
+          </div>
+        )}
+
+        <div className="blink-metric">
+          <div className="metric-item">
+            <span className="metric-label">Screen Distance</span>
+            <span className="metric-value-big">
+              {reading?.distanceCm != null ? `${Math.round(reading.distanceCm)} cm` : '–'}
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Head (yaw / pitch / roll)</span>
+            <span className="metric-value">
+              {reading
+                ? `${formatAngle(reading.pose.yaw)} / ${formatAngle(reading.pose.pitch)} / ${formatAngle(reading.pose.roll)}`
+                : '–'}
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Gaze</span>
+            <span className="metric-value">{gazeLabel(reading?.gaze ?? null)}</span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Good Posture</span>
+            <span className="metric-value">
+              {snapshot.goodTimeRatio === null ? '–' : `${Math.round(snapshot.goodTimeRatio * 100)}% of session`}
+            </span>
+          </div>
+          <div className="metric-item">
+            <span className="metric-label">Calibration</span>
+            <span className="metric-value">
+              {calibration
+                ? `${calibration.distanceCm} cm (${new Date(calibration.calibratedAt).toLocaleDateString()})`
+                : 'Estimated'}
+            </span>
+          </div>
+        </div>
+
+        {calibrating ? (
+          <div className="coaching-settings">
+            <label className="coaching-field">
+              <span>Your distance now (cm)</span>
+              <input
+                type="number"
+                min={20}
+                max={150}
+                value={distanceInput}
+                onChange={(e) => setDistanceInput(Number(e.target.value))}
+              />
+            </label>
+            <div className="health-message posture-calibration-hint">
+              <p>Sit upright, look at the screen and measure from your eyes to the display.</p>
+            </div>
+            {calibrationError && (
+              <div className="health-message posture-calibration-hint">
+                <p>{calibrationError}</p>
+              </div>
+            )}
+          </div>
+        ) : (
+          !calibration && (
+            <div className="health-message">
+              <p>Calibrate once with a measured distance for accurate readings.</p>
+            </div>
+          )
+        )}
+
+        <div className="card-actions">
+          {calibrating ? (
+            <>
+              <button className="card-action-btn" onClick={handleCapture} disabled={!reading || distanceInput < 20}>
+                Capture
+              </button>
+              <button className="card-action-btn secondary" onClick={() => setCalibrating(false)}>
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button className="card-action-btn" onClick={() => setCalibrating(true)} disabled={!reading}>
+                {calibration ? 'Recalibrate' : 'Calibrate distance'}
+              </button>
+              {calibration && (
+                <button className="card-action-btn secondary" onClick={onResetCalibration}>
+                  Reset
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import './ReportExportBar.css';
+
+export type ExportFormat = 'pdf' | 'csv' | 'json';
+
+interface ReportExportBarProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'pdf', label: '📄 PDF Summary', hint: 'Printable summary with verdicts and recommendations' },
+  { format: 'csv', label: '📊 CSV', hint: 'Blink, redness and emotion samples with timestamps' },
+  { format: 'json', label: '🧾 JSON', hint: 'Full report including the raw time series' },
+];
+
+export default function ReportExportBar({ onExport }: ReportExportBarProps) {
+  return (
+    <div className="report-export-bar">
+      <div className="report-export-text">
+        <h3 className="report-export-title">Session Report</h3>
+        <p className="report-export-subtitle">
+          Export this session for occupational health. Files are generated on this device.
+        </p>
+      </div>
+      <div className="report-export-actions">
+        {FORMATS.map(({ format, label, hint }) => (
+          <button key={format} className="card-action-btn" title={hint} onClick={() => onExport(format)}>
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
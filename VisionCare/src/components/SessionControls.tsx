@@ -0,0 +1,83 @@
+import type { ReactNode } from 'react';
+import { SESSION_ACTIVITIES, type SessionActivity } from '../session/activities';
+import type { SessionSnapshot } from '../session/sessionClock';
+import { formatDuration } from '../history/trends';
+import './SessionControls.css';
+
+interface SessionControlsProps {
+  snapshot: SessionSnapshot;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onActivityChange: (activity: SessionActivity) => void;
+  /** Extra actions shown after the session buttons. */
+  children?: ReactNode;
+}
+
+function statusText({ status, pauseReason, pausedMs }: SessionSnapshot) {
+  switch (status) {
+    case 'idle':
+      return 'Not started: nothing is counted or stored until you start a session';
+    case 'running':
+      return pausedMs > 0 ? `Recording · ${formatDuration(pausedMs)} paused so far` : 'Recording';
+    case 'paused':
+      return pauseReason === 'away' ? 'Paused while you are away; resumes when your face is back' : 'Paused';
+    case 'stopped':
+      return 'Session ended and saved';
+  }
+}
+
+export default function SessionControls({
+  snapshot,
+  onStart,
+  onPause,
+  onResume,
+  onStop,
+  onActivityChange,
+  children,
+}: SessionControlsProps) {
+  const { status } = snapshot;
+  const live = status === 'running' || status === 'paused';
+
+  return (
+    <div className="session-controls">
+      <span className={`session-status-dot ${status}`} aria-hidden="true" />
+      <div className="session-status">
+        <span className="session-status-title">
+          Session {live || status === 'stopped' ? formatDuration(snapshot.activeMs) : ''}
+        </span>
+        <span className="session-status-text">{statusText(snapshot)}</span>
+      </div>
+
+      <label className="session-activity">
+        <span>Activity</span>
+        <select value={snapshot.activity} onChange={(e) => onActivityChange(e.target.value as SessionActivity)}>
+          {SESSION_ACTIVITIES.map(({ activity, label, icon }) => (
+            <option key={activity} value={activity}>
+              {icon} {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="card-actions">
+        {!live && (
+          <button className="card-action-btn" onClick={onStart}>
+            {status === 'stopped' ? 'Start New Session' : 'Start Session'}
+          </button>
+        )}
+        {status === 'running' && (
+          <button className="card-action-btn secondary" onClick={onPause}>Pause</button>
+        )}
+        {status === 'paused' && (
+          <button className="card-action-btn" onClick={onResume}>Resume</button>
+        )}
+        {live && (
+          <button className="card-action-btn secondary" onClick={onStop}>Stop</button>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { QUALITY_HINTS, type FrameQuality } from '../vision/frameQuality';
+import type { VisionEngine } from '../vision/VisionEngine';
+import './TrackingQualityIndicator.css';
+
+interface TrackingQualityIndicatorProps {
+  engine: VisionEngine;
+  /** The engine's gate: below this, metrics are paused. */
+  minScore: number;
+}
+
+const REFRESH_MS = 500;
+
+/** Live tracking-quality meter with a hint on what to fix. */
+export default function TrackingQualityIndicator({ engine, minScore }: TrackingQualityIndicatorProps) {
+  const [quality, setQuality] = useState<FrameQuality | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setQuality(engine.quality), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [engine]);
+
+  if (!quality) return null;
+
+  const level = quality.score < minScore ? 'poor' : quality.issue ? 'fair' : 'good';
+  return (
+    <div className={`tracking-quality ${level}`} role="status">
+      <div className="tracking-quality-header">
+        <span>Tracking quality</span>
+        <strong>{Math.round(quality.score * 100)}%</strong>
+      </div>
+      <div className="tracking-quality-bar">
+        <div style={{ width: `${quality.score * 100}%` }} />
+      </div>
+      {quality.issue && <p className="tracking-quality-hint">{QUALITY_HINTS[quality.issue]}</p>}
+      {level === 'poor' && quality.issue !== 'noFace' && (
+        <p className="tracking-quality-paused">Measurements paused until tracking improves</p>
+      )}
+    </div>
+  );
+}
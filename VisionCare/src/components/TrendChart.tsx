@@ -0,0 +1,94 @@
+import './TrendChart.css';
+
+export interface ChartPoint {
+  key: string;
+  label: string;
+  value: number | null;
+}
+
+interface TrendChartProps {
+  title: string;
+  unit: string;
+  color: string;
+  points: ChartPoint[];
+  /** Optional [low, high] range drawn behind the bars, e.g. a healthy range. */
+  band?: [number, number];
+  decimals?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 12, bottom: 28, left: 40 };
+
+export default function TrendChart({ title, unit, color, points, band, decimals = 1 }: TrendChartProps) {
+  const values = points.map((p) => p.value).filter((v): v is number => v !== null);
+  const maxValue = Math.max(1, ...values, band ? band[1] : 0) * 1.1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = points.length > 0 ? plotWidth / points.length : plotWidth;
+  const barWidth = Math.max(2, Math.min(40, slot * 0.6));
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  const labelEvery = Math.ceil(points.length / 8);
+
+  return (
+    <div className="trend-chart">
+      <div className="trend-chart-header">
+        <h4 className="trend-chart-title">{title}</h4>
+        <span className="trend-chart-unit">{unit}</span>
+      </div>
+      {values.length === 0 ? (
+        <div className="trend-chart-empty">No data yet</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="trend-chart-svg" role="img" aria-label={title}>
+          {band && (
+            <rect
+              x={PADDING.left}
+              y={y(band[1])}
+              width={plotWidth}
+              height={y(band[0]) - y(band[1])}
+              className="trend-chart-band"
+            />
+          )}
+          <line
+            x1={PADDING.left}
+            x2={PADDING.left + plotWidth}
+            y1={PADDING.top + plotHeight}
+            y2={PADDING.top + plotHeight}
+            className="trend-chart-axis"
+          />
+          <text x={PADDING.left - 6} y={y(maxValue / 1.1)} className="trend-chart-tick" textAnchor="end">
+            {(maxValue / 1.1).toFixed(0)}
+          </text>
+          <text x={PADDING.left - 6} y={PADDING.top + plotHeight} className="trend-chart-tick" textAnchor="end">
+            0
+          </text>
+          {points.map((point, i) => {
+            const x = PADDING.left + slot * i + (slot - barWidth) / 2;
+            return (
+              <g key={point.key}>
+                {point.value !== null && (
+                  <rect
+                    x={x}
+                    y={y(point.value)}
+                    width={barWidth}
+                    height={PADDING.top + plotHeight - y(point.value)}
+                    rx={3}
+                    fill={color}
+                  >
+                    <title>{`${point.label}: ${point.value.toFixed(decimals)} ${unit}`}</title>
+                  </rect>
+                )}
+                {i % labelEvery === 0 && (
+                  <text x={x + barWidth / 2} y={HEIGHT - 8} className="trend-chart-tick" textAnchor="middle">
+                    {point.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+}
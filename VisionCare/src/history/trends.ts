@@ -0,0 +1,170 @@
+import { SESSION_ACTIVITIES, type SessionActivity } from '../session/activities';
+import type { SessionRecord, SessionSample } from '../storage/sessionStore';
+
+export type TrendGranularity = 'session' | 'day' | 'week';
+
+export interface TrendPoint {
+  key: string;
+  label: string;
+  start: number;
+  durationMs: number;
+  sessionCount: number;
+  blinkRate: number | null;
+  redness: number | null;
+  dominantEmotion: string | null;
+  sessionIds: string[];
+}
+
+export interface ActivityPoint {
+  /** Null for sessions that were never tagged. */
+  activity: SessionActivity | null;
+  durationMs: number;
+  sessionCount: number;
+  blinkRate: number | null;
+  redness: number | null;
+  dominantEmotion: string | null;
+}
+
+interface Totals {
+  durationMs: number;
+  blinks: number;
+  rednessWeighted: number;
+  rednessDurationMs: number;
+  emotions: Record<string, number>;
+}
+
+function emptyTotals(): Totals {
+  return { durationMs: 0, blinks: 0, rednessWeighted: 0, rednessDurationMs: 0, emotions: {} };
+}
+
+function addSample(totals: Totals, sample: SessionSample) {
+  const duration = Math.max(0, sample.end - sample.start);
+  totals.durationMs += duration;
+  totals.blinks += sample.blinks;
+
+  if (sample.leftRedness !== null && sample.rightRedness !== null) {
+    // Weight by bucket length so a short trailing bucket does not count as
+    // much as a full one.
+    totals.rednessWeighted += ((sample.leftRedness + sample.rightRedness) / 2) * duration;
+    totals.rednessDurationMs += duration;
+  }
+
+  for (const [emotion, count] of Object.entries(sample.emotions)) {
+    totals.emotions[emotion] = (totals.emotions[emotion] || 0) + count;
+  }
+}
+
+function rates(totals: Totals) {
+  const minutes = totals.durationMs / 60000;
+  return {
+    blinkRate: minutes > 0 ? totals.blinks / minutes : null,
+    redness: totals.rednessDurationMs > 0 ? totals.rednessWeighted / totals.rednessDurationMs : null,
+  };
+}
+
+function dominant(counts: Record<string, number>): string | null {
+  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  return sorted[0]?.[0] ?? null;
+}
+
+function startOfDay(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Weeks start on Monday.
+function startOfWeek(timestamp: number) {
+  const date = new Date(startOfDay(timestamp));
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+}
+
+function bucketStart(record: SessionRecord, granularity: TrendGranularity) {
+  switch (granularity) {
+    case 'session':
+      return record.startedAt;
+    case 'day':
+      return startOfDay(record.startedAt);
+    case 'week':
+      return startOfWeek(record.startedAt);
+  }
+}
+
+function formatLabel(start: number, granularity: TrendGranularity) {
+  const date = new Date(start);
+  switch (granularity) {
+    case 'session':
+      return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    case 'day':
+      return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    case 'week':
+      return `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  }
+}
+
+/** Aggregates stored sessions into chronologically ordered trend points. */
+export function buildTrend(sessions: SessionRecord[], granularity: TrendGranularity): TrendPoint[] {
+  const groups = new Map<string, { start: number; totals: Totals; sessionIds: string[] }>();
+
+  for (const session of sessions) {
+    const start = bucketStart(session, granularity);
+    const key = granularity === 'session' ? session.id : String(start);
+    const group = groups.get(key) ?? { start, totals: emptyTotals(), sessionIds: [] };
+    groups.set(key, group);
+    group.sessionIds.push(session.id);
+    session.samples.forEach((sample) => addSample(group.totals, sample));
+  }
+
+  return [...groups.entries()]
+    .map(([key, { start, totals, sessionIds }]) => ({
+      key,
+      label: formatLabel(start, granularity),
+      start,
+      durationMs: totals.durationMs,
+      sessionCount: sessionIds.length,
+      ...rates(totals),
+      dominantEmotion: dominant(totals.emotions),
+      sessionIds,
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Aggregates stored sessions per activity, in the order activities are
+ * offered, with untagged sessions last. Rates come from the stored samples,
+ * so paused time is excluded just as in the trends.
+ */
+export function buildActivityBreakdown(sessions: SessionRecord[]): ActivityPoint[] {
+  const groups = new Map<SessionActivity | null, { totals: Totals; sessionCount: number }>();
+
+  for (const session of sessions) {
+    const activity = session.activity ?? null;
+    const group = groups.get(activity) ?? { totals: emptyTotals(), sessionCount: 0 };
+    groups.set(activity, group);
+    group.sessionCount += 1;
+    session.samples.forEach((sample) => addSample(group.totals, sample));
+  }
+
+  const order = [...SESSION_ACTIVITIES.map((entry) => entry.activity), null];
+  return order.flatMap((activity) => {
+    const group = groups.get(activity);
+    if (!group) return [];
+    return [{
+      activity,
+      durationMs: group.totals.durationMs,
+      sessionCount: group.sessionCount,
+      ...rates(group.totals),
+      dominantEmotion: dominant(group.totals.emotions),
+    }];
+  });
+}
+
+export function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '< 1 min';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { InsufficientReason } from '../vision/scleraRedness';
+import { getBlinkHealthStatus, getEyeHealthStatus } from './verdicts';
+
+describe('getEyeHealthStatus', () => {
+  it.each([
+    { left: 0, right: 0, status: 'Healthy' },
+    { left: 8, right: 8, status: 'Healthy' },
+    { left: 8, right: 8.2, status: 'Moderate' },
+    { left: 4, right: 12, status: 'Healthy' },
+    { left: 15, right: 15, status: 'Moderate' },
+    { left: 15, right: 15.2, status: 'High Risk' },
+    { left: 10, right: 22, status: 'High Risk' },
+  ])('averages $left and $right to $status', ({ left, right, status }) => {
+    expect(getEyeHealthStatus(left, right).status).toBe(status);
+  });
+
+  it.each([
+    { left: null, right: null },
+    { left: 20, right: null },
+    { left: null, right: 20 },
+  ])('is still measuring with left $left and right $right', ({ left, right }) => {
+    expect(getEyeHealthStatus(left, right).status).toBe('Measuring...');
+  });
+
+  it.each<InsufficientReason>(['eyeClosed', 'tooDark', 'overexposed', 'colorCast'])(
+    'reports %s frames instead of reusing the values',
+    (reason) => {
+      const verdict = getEyeHealthStatus(20, 20, reason);
+      expect(verdict.status).toBe('Insufficient Quality');
+      expect(verdict.message).toContain('redness is paused');
+    },
+  );
+
+  it('uses the given thresholds', () => {
+    const thresholds = { moderate: 4, alert: 6, high: 8 };
+    expect(getEyeHealthStatus(4, 4, null, thresholds).status).toBe('Healthy');
+    expect(getEyeHealthStatus(5, 5, null, thresholds).status).toBe('Moderate');
+    expect(getEyeHealthStatus(9, 9, null, thresholds).status).toBe('High Risk');
+  });
+});
+
+describe('getBlinkHealthStatus', () => {
+  it.each([
+    { bpm: 0, status: 'Measuring...' },
+    { bpm: 1, status: 'Too Low' },
+    { bpm: 9.9, status: 'Too Low' },
+    { bpm: 10, status: 'Optimal' },
+    { bpm: 17, status: 'Optimal' },
+    { bpm: 25, status: 'Optimal' },
+    { bpm: 25.1, status: 'Too High' },
+    { bpm: 40, status: 'Too High' },
+  ])('rates $bpm blinks per minute as $status', ({ bpm, status }) => {
+    expect(getBlinkHealthStatus(bpm).status).toBe(status);
+  });
+
+  it('uses the given bounds', () => {
+    const bounds = { low: 12, high: 20 };
+    expect(getBlinkHealthStatus(11, bounds).status).toBe('Too Low');
+    expect(getBlinkHealthStatus(12, bounds).status).toBe('Optimal');
+    expect(getBlinkHealthStatus(21, bounds).status).toBe('Too High');
+  });
+});
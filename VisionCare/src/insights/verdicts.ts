@@ -0,0 +1,103 @@
+import { INSUFFICIENT_REASON_TEXT, type InsufficientReason } from '../vision/scleraRedness';
+
+export interface HealthVerdict {
+  status: string;
+  color: string;
+  icon: string;
+  message?: string;
+}
+
+/** Average redness index cut-offs, lowest first. */
+export interface RednessThresholds {
+  moderate: number;
+  /** Above this the eyes need a rest. */
+  alert: number;
+  high: number;
+}
+
+export const DEFAULT_REDNESS_THRESHOLDS: RednessThresholds = { moderate: 8, alert: 12, high: 15 };
+
+/** Blinks per minute outside which the blink rate is flagged. */
+export interface BlinkRateBounds {
+  low: number;
+  high: number;
+}
+
+export const DEFAULT_BLINK_RATE_BOUNDS: BlinkRateBounds = { low: 10, high: 25 };
+
+/** Blink rate range shown to users as healthy. */
+export interface BlinkRateRange {
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_HEALTHY_BLINK_RANGE: BlinkRateRange = { min: 15, max: 20 };
+
+/**
+ * Redness verdict from the latest trusted measurement. When the current
+ * frames cannot be measured the verdict says so instead of reusing old
+ * values or reporting healthy eyes.
+ */
+export function getEyeHealthStatus(
+  leftRedness: number | null,
+  rightRedness: number | null,
+  insufficient: InsufficientReason | null = null,
+  thresholds: RednessThresholds = DEFAULT_REDNESS_THRESHOLDS,
+): HealthVerdict {
+  if (insufficient) {
+    return {
+      status: 'Insufficient Quality',
+      color: '#6b7280',
+      icon: '💡',
+      message: `${INSUFFICIENT_REASON_TEXT[insufficient]}: redness is paused until the eyes can be measured reliably`,
+    };
+  }
+  if (leftRedness === null || rightRedness === null) {
+    return { status: 'Measuring...', color: '#6b7280', icon: '⏱️' };
+  }
+  const avgRedness = (leftRedness + rightRedness) / 2;
+  if (avgRedness > thresholds.high) return { status: 'High Risk', color: '#ef4444', icon: '⚠️' };
+  if (avgRedness > thresholds.moderate) return { status: 'Moderate', color: '#f59e0b', icon: '⚡' };
+  return { status: 'Healthy', color: '#10b981', icon: '✓' };
+}
+
+export function getBlinkHealthStatus(
+  currentBPM: number,
+  bounds: BlinkRateBounds = DEFAULT_BLINK_RATE_BOUNDS,
+): HealthVerdict {
+  if (currentBPM === 0) return { status: 'Measuring...', color: '#6b7280', icon: '⏱️' };
+  if (currentBPM < bounds.low) return { status: 'Too Low', color: '#ef4444', icon: '⚠️', message: 'Increase blink frequency' };
+  if (currentBPM > bounds.high) return { status: 'Too High', color: '#f59e0b', icon: '⚡', message: 'May indicate eye strain' };
+  return { status: 'Optimal', color: '#10b981', icon: '✓', message: 'Normal blink rate' };
+}
+
+export function isRednessElevated(
+  leftRedness: number | null,
+  rightRedness: number | null,
+  thresholds: RednessThresholds = DEFAULT_REDNESS_THRESHOLDS,
+) {
+  if (leftRedness === null || rightRedness === null) return false;
+  return (leftRedness + rightRedness) / 2 > thresholds.alert;
+}
+
+export function getRednessRecommendations(
+  leftRedness: number | null,
+  rightRedness: number | null,
+  thresholds: RednessThresholds = DEFAULT_REDNESS_THRESHOLDS,
+): string[] {
+  if (leftRedness === null || rightRedness === null) {
+    return ['Face a soft, neutral light source so redness can be measured'];
+  }
+  if (isRednessElevated(leftRedness, rightRedness, thresholds)) {
+    return [
+      'Take a 20-minute break from screens',
+      'Use eye drops for dryness',
+      'Adjust screen brightness',
+    ];
+  }
+  return [
+    'Eye redness levels are normal',
+    'Continue with regular breaks',
+    'Maintain good hydration',
+  ];
+}
@@ -0,0 +1,59 @@
+// Domain model for the measurements VisionCare takes. Analyzers, the session
+// log, reports and the UI all pass these around; turning them into display
+// text is left to the components that show them.
+
+export const EMOTIONS = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'] as const;
+
+/** The expression labels face-api classifies. */
+export type Emotion = (typeof EMOTIONS)[number];
+
+export function isEmotion(label: string): label is Emotion {
+  return (EMOTIONS as readonly string[]).includes(label);
+}
+
+/** Probability per expression; labels missing from a detection count as 0. */
+export type ExpressionVector = Partial<Record<Emotion, number>>;
+
+export interface EmotionSample {
+  timestamp: number;
+  /** Most probable expression after smoothing. */
+  emotion: Emotion;
+  /** Smoothed probability of `emotion`, 0-1. */
+  confidence: number;
+  /** Raw probabilities of every expression in this detection. */
+  expressions: ExpressionVector;
+  valence: number;
+  arousal: number;
+  /** Screen-stress index 0-100 at this detection. */
+  stress: number;
+}
+
+export type BlinkKind = 'complete' | 'incomplete' | 'prolonged';
+
+/** A blink in the session log. */
+export interface BlinkEvent {
+  timestamp: number;
+  /** Filled in when the lid reopens; missing if tracking was lost mid-blink. */
+  durationMs?: number;
+  kind?: BlinkKind;
+}
+
+/** A trusted redness measurement of both eyes; unmeasurable frames produce none. */
+export interface RednessSample {
+  timestamp: number;
+  left: number;
+  right: number;
+  /** Confidence of the weaker of the two eye measurements, 0-1. */
+  confidence: number;
+}
+
+/** What one monitoring session amounted to. */
+export interface SessionSummary {
+  startedAt: number;
+  durationMs: number;
+  /** Blinks per minute, or null without monitored time. */
+  blinkRate: number | null;
+  /** Mean redness index of both eyes, or null if never measured. */
+  redness: number | null;
+  dominantEmotion: Emotion | null;
+}
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import NavBar from '../components/NavBar';
+import { useCurrentUser } from '../auth/useAuth';
+import { useEngineStatus } from '../runtime/useEngineStatus';
+import { CameraController } from '../camera/cameraController';
+import { loadCameraDevice } from '../storage/cameraStore';
+import { loadCalibration } from '../storage/calibrationStore';
+import { loadSettings, saveSettings } from '../storage/settingsStore';
+import { blinkBaselineFor } from '../settings/settings';
+import { createPreviewPainter } from '../privacy/preview';
+import { BackendComparison as Comparison, type BackendStats, type ComparisonSnapshot } from '../vision/backendComparison';
+import { BACKEND_IDS, backendEngines, createFaceBackend, FACE_BACKENDS, type BackendId } from '../vision/faceBackend';
+import { LEFT_EYE, LEFT_IRIS_CENTER, RIGHT_EYE, RIGHT_IRIS_CENTER } from '../vision/landmarks';
+import type { Landmark } from '../vision/types';
+import { emotionEmoji } from '../utils/emotion';
+import '../App.css';
+import './History.css';
+import './BackendComparison.css';
+
+const SNAPSHOT_INTERVAL_MS = 500;
+
+const percent = (value: number | null) => (value === null ? '--' : `${(value * 100).toFixed(0)}%`);
+const millis = (value: number | null) => (value === null ? '--' : `${value.toFixed(1)} ms`);
+
+const ROWS: { label: string; value: (stats: BackendStats) => string }[] = [
+  { label: 'Detection time (mean)', value: (stats) => millis(stats.meanMs) },
+  { label: 'Detection time (p95)', value: (stats) => millis(stats.p95Ms) },
+  { label: 'Max frame rate', value: (stats) => (stats.maxFps === null ? '--' : `${stats.maxFps.toFixed(0)} fps`) },
+  { label: 'Expression time', value: (stats) => (stats.frames === 0 ? '--' : stats.expressionMs === null ? 'With the mesh' : millis(stats.expressionMs)) },
+  { label: 'Face found', value: (stats) => percent(stats.detectionRate) },
+  { label: 'Iris landmarks', value: (stats) => (stats.frames === 0 ? '--' : stats.iris ? 'Yes' : 'No') },
+  { label: 'Blinks counted', value: (stats) => String(stats.blinks) },
+  { label: 'Expression', value: (stats) => (stats.emotion ? `${emotionEmoji(stats.emotion)} ${stats.emotion}` : '--') },
+];
+
+function drawMesh(ctx: CanvasRenderingContext2D, landmarks: Landmark[]) {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = 'rgba(0, 255, 255, 0.6)';
+  for (const point of landmarks) {
+    ctx.fillRect(point.x * width - 1, point.y * height - 1, 2, 2);
+  }
+
+  ctx.strokeStyle = '#00ff00';
+  ctx.lineWidth = 2;
+  for (const eye of [LEFT_EYE, RIGHT_EYE]) {
+    ctx.beginPath();
+    eye.forEach((index, i) => {
+      const { x, y } = landmarks[index];
+      if (i === 0) ctx.moveTo(x * width, y * height);
+      else ctx.lineTo(x * width, y * height);
+    });
+    ctx.closePath();
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = '#f472b6';
+  for (const index of [LEFT_IRIS_CENTER, RIGHT_IRIS_CENTER]) {
+    const iris = landmarks[index];
+    if (!iris) continue;
+    ctx.beginPath();
+    ctx.arc(iris.x * width, iris.y * height, 3, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+}
+
+export default function BackendComparison() {
+  const user = useCurrentUser();
+  const [settings] = useState(() => loadSettings(user.id));
+  const [calibration] = useState(() => loadCalibration(user.id));
+  const [selected, setSelected] = useState<BackendId>(settings.analysis.backend);
+  const [camera] = useState(() => new CameraController());
+  const cameraState = useSyncExternalStore(camera.subscribe, camera.getState);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const comparisonRef = useRef<Comparison | null>(null);
+  const [snapshot, setSnapshot] = useState<ComparisonSnapshot | null>(null);
+
+  // Every backend's runtimes, expression models included when emotions are on
+  const engineStatus = useEngineStatus(BACKEND_IDS.flatMap((id) => backendEngines(id, settings.features.emotion)));
+  const failed = BACKEND_IDS.filter((id) => engineStatus[FACE_BACKENDS[id].landmarks].state === 'failed');
+  const ready = BACKEND_IDS.every((id) => engineStatus[FACE_BACKENDS[id].landmarks].state === 'ready');
+  const expressionsReady = settings.features.emotion
+    && BACKEND_IDS.every((id) => engineStatus[FACE_BACKENDS[id].expressions].state === 'ready');
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!ready || !video) return;
+
+    const comparison = new Comparison(
+      BACKEND_IDS.map((id) => createFaceBackend(id, { maxFaces: 1, expressions: expressionsReady })),
+      {
+        baseline: blinkBaselineFor(settings, calibration),
+        expressionIntervalMs: expressionsReady ? settings.emotion.intervalMs : 0,
+      },
+    );
+    comparisonRef.current = comparison;
+    const painters = BACKEND_IDS.map(() => createPreviewPainter(settings.privacy.preview));
+    let closed = false;
+
+    camera.start(
+      video,
+      {
+        deviceId: loadCameraDevice(user.id),
+        width: settings.capture.width,
+        height: settings.capture.height,
+        fps: settings.capture.fps,
+      },
+      async (frame) => {
+        const meshes = await comparison.process(frame, frame.videoWidth, frame.videoHeight, Date.now());
+        if (closed) return;
+        meshes.forEach((landmarks, i) => {
+          const canvas = canvasRefs.current[i];
+          const ctx = canvas?.getContext('2d');
+          if (!canvas || !ctx) return;
+          if (canvas.width !== frame.videoWidth || canvas.height !== frame.videoHeight) {
+            canvas.width = frame.videoWidth;
+            canvas.height = frame.videoHeight;
+          }
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
+          painters[i](ctx, frame);
+          if (landmarks) drawMesh(ctx, landmarks);
+        });
+      },
+    );
+
+    return () => {
+      closed = true;
+      camera.stop();
+      comparisonRef.current = null;
+      comparison.close();
+    };
+  }, [camera, user.id, settings, calibration, ready, expressionsReady]);
+
+  // Figures are sampled from the comparison rather than per frame
+  useEffect(() => {
+    const snapshotInterval = setInterval(() => setSnapshot(comparisonRef.current?.snapshot() ?? null), SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(snapshotInterval);
+  }, []);
+
+  const chooseBackend = (id: BackendId) => {
+    // Read fresh so changes saved from the dashboard since this page opened are kept
+    const stored = loadSettings(user.id);
+    saveSettings(user.id, { ...stored, analysis: { ...stored.analysis, backend: id } });
+    setSelected(id);
+  };
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Backend Comparison</h1>
+            <p className="history-subtitle">
+              Run both face-analysis backends on the same camera frames to see which works better on this machine
+            </p>
+          </div>
+        </div>
+
+        {failed.length > 0 && (
+          <div className="history-error">
+            {failed.map((id) => FACE_BACKENDS[id].label).join(' and ')} failed to load, so there is nothing to compare.
+          </div>
+        )}
+        {failed.length === 0 && !ready && <div className="history-empty">Loading both backends...</div>}
+        {cameraState.status === 'error' && <div className="history-error">Camera unavailable: {cameraState.detail}</div>}
+
+        <div className="comparison-grid">
+          {BACKEND_IDS.map((id, i) => (
+            <div key={id} className="comparison-panel">
+              <div className="comparison-panel-header">
+                <h2 className="section-title">{FACE_BACKENDS[id].label}</h2>
+                {selected === id ? (
+                  <span className="comparison-current">In use</span>
+                ) : (
+                  <button className="card-action-btn" onClick={() => chooseBackend(id)}>Use this backend</button>
+                )}
+              </div>
+              <canvas
+                ref={(canvas) => {
+                  canvasRefs.current[i] = canvas;
+                }}
+                className="comparison-canvas"
+                width={settings.capture.width}
+                height={settings.capture.height}
+              />
+            </div>
+          ))}
+        </div>
+        <video ref={videoRef} className="comparison-video" autoPlay playsInline muted />
+
+        <div className="session-list">
+          <h2 className="section-title">Performance</h2>
+          <table className="session-table">
+            <thead>
+              <tr>
+                <th>Measure</th>
+                {BACKEND_IDS.map((id) => <th key={id}>{FACE_BACKENDS[id].label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  {BACKEND_IDS.map((id, i) => {
+                    const stats = snapshot?.backends[i];
+                    return <td key={id}>{stats ? row.value(stats) : '--'}</td>;
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="session-list">
+          <h2 className="section-title">Agreement</h2>
+          <table className="session-table">
+            <tbody>
+              <tr>
+                <td>Frames where both found the face</td>
+                <td>{snapshot?.framesCompared ?? '--'}</td>
+              </tr>
+              <tr>
+                <td>Mean EAR difference</td>
+                <td>{snapshot?.earDifference == null ? '--' : snapshot.earDifference.toFixed(3)}</td>
+              </tr>
+              <tr>
+                <td>Eye landmark offset (share of eye distance)</td>
+                <td>{percent(snapshot?.eyeLandmarkDifference ?? null)}</td>
+              </tr>
+              <tr>
+                <td>Same top expression</td>
+                <td>{expressionsReady ? percent(snapshot?.emotionAgreement ?? null) : 'Emotion detection is off'}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="comparison-note">
+            Both backends run one after the other on every frame, so the camera view updates more slowly here than on
+            the dashboard. Detection times are measured per backend and are what each would cost on its own.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import NavBar from '../components/NavBar';
+import { useClinicClient } from '../clinic/useClinicClient';
+import { SHARE_SCOPES, type Invite, type PatientOverview } from '../clinic/types';
+import '../App.css';
+import './History.css';
+import './Settings.css';
+import './Clinic.css';
+
+type Notice = { kind: 'success' | 'error'; text: string };
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+export default function Clinician() {
+  const client = useClinicClient();
+  const [patients, setPatients] = useState<PatientOverview[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [inviting, setInviting] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  useEffect(() => {
+    Promise.all([client.listPatients(), client.listSentInvites()])
+      .then(([roster, sent]) => {
+        setPatients(roster);
+        setInvites(sent);
+      })
+      .catch((err) => {
+        console.error('Failed to load patients:', err);
+        setNotice({ kind: 'error', text: 'Could not load your patients.' });
+      })
+      .finally(() => setLoading(false));
+  }, [client]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const invite = await client.invitePatient(email);
+      setInvites((prev) => [...prev, invite]);
+      setEmail('');
+      setNotice({ kind: 'success', text: `Invitation sent to ${invite.patientEmail}. It appears on their Sharing page.` });
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not send the invitation.' });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCancel = async (invite: Invite) => {
+    try {
+      await client.cancelInvite(invite.id);
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (err) {
+      console.error('Failed to cancel invitation:', err);
+      setNotice({ kind: 'error', text: 'Could not cancel the invitation.' });
+    }
+  };
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Patients</h1>
+            <p className="history-subtitle">Patients who share their session summaries with you</p>
+          </div>
+        </div>
+
+        {notice && (
+          <div className={`settings-notice ${notice.kind}`} role={notice.kind === 'error' ? 'alert' : 'status'}>
+            <p>{notice.text}</p>
+          </div>
+        )}
+
+        <section className="settings-section">
+          <h2 className="settings-section-title">Invite a patient</h2>
+          <form className="clinic-invite-form" onSubmit={handleInvite}>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="patient@example.com"
+              aria-label="Patient email"
+              required
+            />
+            <button type="submit" className="card-action-btn" disabled={inviting}>
+              {inviting ? 'Sending...' : 'Send invitation'}
+            </button>
+          </form>
+          {invites.length > 0 && (
+            <ul className="clinic-list">
+              {invites.map((invite) => (
+                <li key={invite.id} className="clinic-list-item">
+                  <span>
+                    <strong>{invite.patientEmail}</strong>
+                    <small>Invited {formatDate(invite.createdAt)}, waiting for the patient</small>
+                  </span>
+                  <button className="session-delete-btn" onClick={() => handleCancel(invite)}>
+                    Cancel
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {loading ? (
+          <div className="history-empty">Loading patients...</div>
+        ) : patients.length === 0 ? (
+          <div className="history-empty">
+            No patients yet. Once a patient accepts your invitation their sessions appear here.
+          </div>
+        ) : (
+          <div className="session-list">
+            <h2 className="section-title">Roster</h2>
+            <table className="session-table">
+              <thead>
+                <tr>
+                  <th>Patient</th>
+                  <th>Shares</th>
+                  <th>Sessions</th>
+                  <th>Last Session</th>
+                  <th>Flagged</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {patients.map(({ link, sessionCount, lastSessionAt, flaggedSessionCount }) => (
+                  <tr key={link.id}>
+                    <td>
+                      {link.patientName}
+                      <div className="clinic-muted">{link.patientEmail}</div>
+                    </td>
+                    <td>
+                      {SHARE_SCOPES.filter(({ scope }) => link.consent[scope]).map(({ label }) => label).join(', ') ||
+                        'Nothing'}
+                    </td>
+                    <td>{sessionCount}</td>
+                    <td>{lastSessionAt !== null ? formatDate(lastSessionAt) : '–'}</td>
+                    <td>
+                      {flaggedSessionCount > 0 ? (
+                        <span className="clinic-flag">{flaggedSessionCount}</span>
+                      ) : (
+                        '–'
+                      )}
+                    </td>
+                    <td>
+                      <Link to={`/clinician/patients/${link.patientId}`} className="card-action-btn secondary">
+                        Review
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
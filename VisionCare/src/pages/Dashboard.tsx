@@ -1,244 +1,326 @@
-import { useRef, useEffect, useState } from "react";
-import * as faceapi from "face-api.js";
-import { useNavigate } from "react-router-dom";
+import { useRef, useEffect, useState, useSyncExternalStore } from "react";
+import NavBar from "../components/NavBar";
+import { useCurrentUser } from "../auth/useAuth";
+import { SessionRecorder, SAMPLE_BUCKET_MS } from "../storage/sessionRecorder";
+import { emotionEmoji } from "../utils/emotion";
+import { ENGINE_LABELS, type EngineStatus } from "../runtime/loader";
+import { useEngineStatus } from "../runtime/useEngineStatus";
+import { VisionEngine } from "../vision/VisionEngine";
+import { LEFT_EYE, LEFT_IRIS_CENTER, RIGHT_EYE, RIGHT_IRIS_CENTER } from "../vision/landmarks";
+import { backendEngines, createFaceBackend, expressionDetectorFor, FACE_BACKENDS, type FaceBackend } from "../vision/faceBackend";
+import { FrameThrottle } from "../vision/frameThrottle";
+import { FaceRoster, type FaceSummary } from "../vision/faceRoster";
+import { loadSettings, saveSettings } from "../storage/settingsStore";
+import { loadCameraDevice, saveCameraDevice } from "../storage/cameraStore";
+import { CameraController, type CameraRequest } from "../camera/cameraController";
+import { blinkBaselineFor, healthyBlinkRange } from "../settings/settings";
+import { createPreviewPainter } from "../privacy/preview";
+import type { Landmark } from "../vision/types";
+import type { EmotionSample, RednessSample } from "../metrics/types";
+import { BlinkAnalyzer } from "../vision/analyzers/blinkAnalyzer";
+import type { EarSample } from "../vision/earSeries";
+import {
+  addBlink,
+  EMPTY_BLINK_QUALITY,
+  getBlinkQualityStatus,
+  meanBlinkDuration,
+  partialBlinkRatio,
+} from "../vision/blinkStats";
+import EarSparkline from "../components/EarSparkline";
+import type { EarCalibrationProfile } from "../vision/calibration";
+import { clearCalibration, loadCalibration, saveCalibration } from "../storage/calibrationStore";
+import CalibrationWizard from "../components/CalibrationWizard";
+import { AttentionAnalyzer } from "../vision/analyzers/attentionAnalyzer";
+import { FatigueAnalyzer } from "../vision/analyzers/fatigueAnalyzer";
+import { useFatigueMonitor } from "../coaching/useFatigueMonitor";
+import FatigueCard from "../components/FatigueCard";
+import FatigueAlertOverlay from "../components/FatigueAlertOverlay";
+import { usePostureMonitor } from "../coaching/usePostureMonitor";
+import PostureCard from "../components/PostureCard";
+import { useBreakCoach } from "../coaching/useBreakCoach";
+import BreakCoachingCard from "../components/BreakCoachingCard";
+import BreakReminderToast from "../components/BreakReminderToast";
+import { RednessAnalyzer } from "../vision/analyzers/rednessAnalyzer";
+import type { InsufficientReason } from "../vision/scleraRedness";
+import { EmotionAnalyzer } from "../vision/analyzers/emotionAnalyzer";
+import { dominantExpression, recentBlinkRate, stressIndex } from "../vision/affect";
+import { AffectTimeline, type AffectPoint } from "../vision/affectTimeline";
+import {
+  getBlinkHealthStatus,
+  getEyeHealthStatus,
+  getRednessRecommendations,
+  isRednessElevated,
+} from "../insights/verdicts";
+import { formatDuration } from "../history/trends";
+import { SessionLog } from "../reports/sessionLog";
+import { buildSessionReport, reportFileName } from "../reports/sessionReport";
+import { reportToCsv, reportToJson } from "../reports/csvExport";
+import { reportToPdf } from "../reports/pdfReport";
+import { downloadFile } from "../reports/download";
+import ReportExportBar, { type ExportFormat } from "../components/ReportExportBar";
+import TrackingQualityIndicator from "../components/TrackingQualityIndicator";
+import PerformanceHud from "../components/PerformanceHud";
+import FaceRosterCard from "../components/FaceRosterCard";
+import CameraControls from "../components/CameraControls";
+import CameraStatusOverlay from "../components/CameraStatusOverlay";
+import AffectTimelineChart from "../components/AffectTimelineChart";
+import SessionControls from "../components/SessionControls";
+import MiniMonitor from "../components/MiniMonitor";
+import { useSessionLifecycle } from "../session/useSessionLifecycle";
+import { usePictureInPicture } from "../runtime/usePictureInPicture";
+import { setBackgroundInterval } from "../runtime/backgroundTimer";
 import "../App.css";
 
-// TypeScript declarations for MediaPipe globals
-declare global {
-  interface Window {
-    FaceMesh: any;
-    Camera: any;
-    cv: any;
-  }
-}
-
-// Eye landmark indices (from MediaPipe documentation)
-const LEFT_EYE = [33, 160, 158, 133, 153, 144];
-const RIGHT_EYE = [362, 385, 387, 263, 373, 380];
 
-// Extended eye region for redness detection (including sclera)
-const LEFT_EYE_REGION = [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246];
-const RIGHT_EYE_REGION = [263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388, 466];
+const ENGINE_STATUS_COLORS: Record<EngineStatus["state"], string> = {
+  loading: "#6b7280",
+  ready: "#10b981",
+  failed: "#ef4444",
+};
 
-// Eye Aspect Ratio function
-function calcEAR(landmarks: any[], eyeIndices: number[]) {
-  const p = (i: number) => landmarks[i];
-  const dist = (a: number, b: number) =>
-    Math.hypot(p(a).x - p(b).x, p(a).y - p(b).y);
+const ENGINE_STATUS_TEXT: Record<EngineStatus["state"], string> = {
+  loading: "Loading...",
+  ready: "Ready",
+  failed: "Failed",
+};
 
-  const A = dist(eyeIndices[1], eyeIndices[5]);
-  const B = dist(eyeIndices[2], eyeIndices[4]);
-  const C = dist(eyeIndices[0], eyeIndices[3]);
+const EAR_WINDOW_MS = 10000;
+const MINI_MONITOR_SIZE = { width: 280, height: 220 };
 
-  return (A + B) / (2.0 * C);
-}
 
 export default function Dashboard() {
-  const navigate = useNavigate();
+  const user = useCurrentUser();
+  const userId = user.id;
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [blinkCount, setBlinkCount] = useState(0);
   const [avgBlinkRate, setAvgBlinkRate] = useState(0);
   const [isBlinking, setIsBlinking] = useState(false);
   const [eyesDetected, setEyesDetected] = useState(false);
-  const [emotion, setEmotion] = useState("Loading...");
-  const [modelsLoaded, setModelsLoaded] = useState(false);
-  const [leftEyeRedness, setLeftEyeRedness] = useState(0);
-  const [rightEyeRedness, setRightEyeRedness] = useState(0);
-  const [opencvLoaded, setOpencvLoaded] = useState(false);
+  const [currentEmotion, setCurrentEmotion] = useState<EmotionSample | null>(null);
+  const [redness, setRedness] = useState<RednessSample | null>(null);
+  const [rednessQuality, setRednessQuality] = useState<InsufficientReason | null>(null);
   const [currentBPM, setCurrentBPM] = useState(0);
-  const [emotionHistory, setEmotionHistory] = useState<string[]>([]);
-  const blinkStateRef = useRef(false);
-  const startTimeRef = useRef(Date.now());
-  const emotionIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const rednessIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastMinuteRef = useRef(Date.now());
-  const blinksThisMinuteRef = useRef(0);
+  const [affectTimeline, setAffectTimeline] = useState(() => new AffectTimeline());
+  const [affectPoints, setAffectPoints] = useState<AffectPoint[]>([]);
+  const [blinkQuality, setBlinkQuality] = useState(EMPTY_BLINK_QUALITY);
+  const [earSamples, setEarSamples] = useState<EarSample[]>([]);
+  const [engine] = useState(() => new VisionEngine());
+  const [throttle] = useState(() => new FrameThrottle());
+  const [camera] = useState(() => new CameraController());
+  const [calibration, setCalibration] = useState(() => loadCalibration(userId));
+  // Read once: the settings page applies changes on the next visit
+  const [settings] = useState(() => loadSettings(userId));
+  const [cameraRequest, setCameraRequest] = useState<CameraRequest>(() => ({
+    deviceId: loadCameraDevice(userId),
+    width: settings.capture.width,
+    height: settings.capture.height,
+    fps: settings.capture.fps,
+  }));
+  const cameraState = useSyncExternalStore(camera.subscribe, camera.getState);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const calibratingRef = useRef(false);
   const recentBlinksRef = useRef<number[]>([]);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const sessionLogRef = useRef<SessionLog | null>(null);
+  const rosterRef = useRef<FaceRoster | null>(null);
+  const faceBackendRef = useRef<FaceBackend | null>(null);
+  // Runs face detection on a camera frame and draws the result; null until the backend is ready
+  const trackFrameRef = useRef<((frame: HTMLVideoElement) => Promise<void>) | null>(null);
+  const [faces, setFaces] = useState<FaceSummary[]>([]);
+  const [lockedFace, setLockedFace] = useState<number | null>(null);
+  // Expression models are only downloaded when emotion detection is on
+  const backendId = settings.analysis.backend;
+  const backend = FACE_BACKENDS[backendId];
+  const engines = backendEngines(backendId, settings.features.emotion);
+  const engineStatus = useEngineStatus(engines);
+  const trackingLoaded = engineStatus[backend.landmarks].state === "ready";
+  const modelsLoaded = engineStatus[backend.expressions].state === "ready";
+  const breakCoach = useBreakCoach(engine, userId);
+  const fatigue = useFatigueMonitor(engine, userId);
+  const posture = usePostureMonitor(engine, userId);
+  const session = useSessionLifecycle(engine, userId, settings.session.autoPauseSec * 1000);
+  const { clock } = session;
+  const miniMonitor = usePictureInPicture();
 
-  // Check authentication
+  // Each started session is persisted as time-bucketed samples for the
+  // history view; paused stretches fall between buckets
   useEffect(() => {
-    const isAuth = localStorage.getItem('isAuthenticated');
-    if (!isAuth) {
-      navigate('/login');
-    }
-  }, [navigate]);
+    const unsubscribe = clock.on((event) => {
+      const recorder = recorderRef.current;
+      switch (event.type) {
+        case "start":
+          recorderRef.current = new SessionRecorder(userId, event.at, clock.getSnapshot(event.at).activity);
+          sessionLogRef.current = new SessionLog(event.at);
+          recentBlinksRef.current = [];
+          setBlinkCount(0);
+          setAvgBlinkRate(0);
+          setCurrentBPM(0);
+          setBlinkQuality(EMPTY_BLINK_QUALITY);
+          setAffectTimeline(new AffectTimeline(event.at));
+          setAffectPoints([]);
+          break;
+        case "pause":
+          recorder?.pause(event.at);
+          break;
+        case "resume":
+          recorder?.resume(event.at);
+          break;
+        case "stop":
+          recorder?.flush(event.at);
+          recorderRef.current = null;
+          break;
+        case "activity":
+          recorder?.setActivity(event.activity);
+          break;
+      }
+    });
 
-  const handleLogout = () => {
-    localStorage.removeItem('isAuthenticated');
-    navigate('/login');
-  };
+    const flushInterval = setInterval(() => recorderRef.current?.flush(), SAMPLE_BUCKET_MS);
+    const handlePageHide = () => recorderRef.current?.flush();
+    window.addEventListener("pagehide", handlePageHide);
 
-  // Load face-api.js models for emotion detection
-  useEffect(() => {
-    async function loadModels() {
-      try {
-        const MODEL_URL = "/models";
-        await faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL);
-        await faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL);
-        console.log("face-api.js models loaded successfully");
-        setModelsLoaded(true);
-      } catch (err) {
-        console.error("Error loading face-api.js models:", err);
-        setEmotion("Error loading models");
-      }
-    }
-    loadModels();
-  }, []);
+    return () => {
+      unsubscribe();
+      clearInterval(flushInterval);
+      window.removeEventListener("pagehide", handlePageHide);
+      recorderRef.current?.flush();
+      recorderRef.current = null;
+    };
+  }, [clock, userId]);
 
-  // Wait for OpenCV.js to load
+  // Analyzers are plugged in as their runtimes become available
   useEffect(() => {
-    const checkOpenCV = () => {
-      if (window.cv && window.cv.Mat) {
-        console.log("OpenCV.js is ready");
-        setOpencvLoaded(true);
-      } else {
-        setTimeout(checkOpenCV, 100);
-      }
+    engine.register(new BlinkAnalyzer());
+    engine.register(new AttentionAnalyzer());
+    return () => {
+      engine.unregister("blink");
+      engine.unregister("attention");
     };
-    checkOpenCV();
-  }, []);
+  }, [engine]);
 
-  // Emotion detection interval (every 300ms) - only starts after models are loaded
+  // Apply the user's personal blink baseline, if they have calibrated
   useEffect(() => {
-    if (!modelsLoaded) return;
-
-    emotionIntervalRef.current = setInterval(async () => {
-      if (!videoRef.current) return;
-
-      try {
-        const detections = await faceapi
-          .detectSingleFace(videoRef.current, new faceapi.TinyFaceDetectorOptions())
-          .withFaceExpressions();
-
-        if (detections && detections.expressions) {
-          const sorted = Object.entries(detections.expressions).sort(
-            (a, b) => b[1] - a[1]
-          );
-          const [emotionName, confidence] = sorted[0];
-          const emotionStr = `${emotionName}`;
-          setEmotion(`${emotionName} (${(confidence * 100).toFixed(1)}%)`);
-          
-          // Track emotion history (keep last 20)
-          setEmotionHistory(prev => {
-            const newHistory = [...prev, emotionStr];
-            return newHistory.slice(-20);
-          });
-        }
-      } catch (err) {
-        console.error("Emotion detection error:", err);
-      }
-    }, 300);
+    const baseline = blinkBaselineFor(settings, calibration);
+    engine.getAnalyzer<BlinkAnalyzer>("blink")?.setBaseline(baseline);
+    engine.getAnalyzer<FatigueAnalyzer>("fatigue")?.setBaseline(baseline);
+  }, [engine, settings, calibration]);
 
-    return () => {
-      if (emotionIntervalRef.current) {
-        clearInterval(emotionIntervalRef.current);
-      }
-    };
-  }, [modelsLoaded]);
+  // The EAR trace is sampled from the analyzer's buffer rather than per frame
+  useEffect(() => {
+    const earInterval = setInterval(() => {
+      const series = engine.getAnalyzer<BlinkAnalyzer>("blink")?.series;
+      setEarSamples(series ? series.toArray(Date.now() - EAR_WINDOW_MS) : []);
+    }, 500);
+    return () => clearInterval(earInterval);
+  }, [engine]);
 
-  // Eye redness detection function
-  const detectEyeRedness = (videoElement: HTMLVideoElement, landmarks: any[], eyeRegion: number[]) => {
-    if (!window.cv || !opencvLoaded) return 0;
+  // Poor frames are kept from the analyzers they would mislead
+  useEffect(() => {
+    engine.setQualityGate(settings.quality.minScore);
+    return () => engine.setQualityGate(null);
+  }, [engine, settings]);
 
-    try {
-      const cv = window.cv;
-      
-      // Get eye region bounding box
-      const eyePoints = eyeRegion.map(idx => landmarks[idx]);
-      const xs = eyePoints.map(p => p.x * videoElement.videoWidth);
-      const ys = eyePoints.map(p => p.y * videoElement.videoHeight);
-      
-      const minX = Math.max(0, Math.floor(Math.min(...xs)) - 5);
-      const maxX = Math.min(videoElement.videoWidth, Math.ceil(Math.max(...xs)) + 5);
-      const minY = Math.max(0, Math.floor(Math.min(...ys)) - 5);
-      const maxY = Math.min(videoElement.videoHeight, Math.ceil(Math.max(...ys)) + 5);
-      
-      const width = maxX - minX;
-      const height = maxY - minY;
-      
-      if (width <= 0 || height <= 0) return 0;
-
-      // Create canvas to extract eye region
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = videoElement.videoWidth;
-      tempCanvas.height = videoElement.videoHeight;
-      const ctx = tempCanvas.getContext('2d');
-      if (!ctx) return 0;
-      
-      ctx.drawImage(videoElement, 0, 0);
-      const imageData = ctx.getImageData(minX, minY, width, height);
-      
-      // Convert to OpenCV Mat
-      const src = cv.matFromImageData(imageData);
-      const hsv = new cv.Mat();
-      
-      // Convert BGR to HSV
-      cv.cvtColor(src, hsv, cv.COLOR_RGBA2RGB);
-      cv.cvtColor(hsv, hsv, cv.COLOR_RGB2HSV);
-      
-      // Define red color ranges in HSV
-      const lower1 = new cv.Mat(hsv.rows, hsv.cols, hsv.type(), [0, 70, 50, 0]);
-      const upper1 = new cv.Mat(hsv.rows, hsv.cols, hsv.type(), [10, 255, 255, 255]);
-      const lower2 = new cv.Mat(hsv.rows, hsv.cols, hsv.type(), [170, 70, 50, 0]);
-      const upper2 = new cv.Mat(hsv.rows, hsv.cols, hsv.type(), [180, 255, 255, 255]);
-      
-      const mask1 = new cv.Mat();
-      const mask2 = new cv.Mat();
-      const mask = new cv.Mat();
-      
-      // Create masks for red ranges
-      cv.inRange(hsv, lower1, upper1, mask1);
-      cv.inRange(hsv, lower2, upper2, mask2);
-      cv.bitwise_or(mask1, mask2, mask);
-      
-      // Calculate red pixel percentage
-      const redPixels = cv.countNonZero(mask);
-      const totalPixels = width * height;
-      const rednessPercent = (redPixels / totalPixels) * 100;
-      
-      // Cleanup
-      src.delete();
-      hsv.delete();
-      lower1.delete();
-      upper1.delete();
-      lower2.delete();
-      upper2.delete();
-      mask1.delete();
-      mask2.delete();
-      mask.delete();
-      
-      return rednessPercent;
-    } catch (err) {
-      console.error("Eye redness detection error:", err);
-      return 0;
-    }
-  };
+  // Disabled analyzers are never registered, so they never see a frame
+  useEffect(() => {
+    if (!settings.features.redness) return;
+    engine.register(new RednessAnalyzer({ intervalMs: settings.redness.intervalMs }));
+    return () => engine.unregister("redness");
+  }, [engine, settings]);
 
-  // Eye redness detection interval (every 200ms)
   useEffect(() => {
-    if (!opencvLoaded) return;
+    if (!modelsLoaded || !settings.features.emotion) return;
+    engine.register(new EmotionAnalyzer({
+      ...settings.emotion,
+      // Tracking rebuilds the backend on its own schedule, so ask whichever one is current
+      detect: async (image) => (faceBackendRef.current ? expressionDetectorFor(faceBackendRef.current)(image) : []),
+    }));
+    return () => engine.unregister("emotion");
+  }, [engine, settings, modelsLoaded]);
 
-    rednessIntervalRef.current = setInterval(() => {
-      if (!videoRef.current || !eyesDetected) return;
+  // Turn engine events into dashboard state; only a running session counts
+  // and stores measurements
+  useEffect(() => {
+    const recording = () => clock.getStatus() === "running";
+    const unsubscribers = [
+      engine.on("faceFound", () => setEyesDetected(true)),
+      engine.on("faceLost", () => setEyesDetected(false)),
 
-      // Get current landmarks from the last MediaPipe result
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+      engine.on("blink", ({ timestamp, ear }) => {
+        // Cued blinks during calibration are not real measurements
+        if (calibratingRef.current) return;
+        setIsBlinking(true);
+        if (!recording()) return;
+        console.log('Blink detected! EAR:', ear.toFixed(3));
 
-      // We'll update redness in the MediaPipe callback instead
-    }, 200);
+        setBlinkCount((prev) => {
+          const newCount = prev + 1;
+          // Running time only, so time away from the desk does not dilute the average
+          const elapsedMinutes = clock.activeMs(timestamp) / 60000;
+          setAvgBlinkRate(elapsedMinutes > 0 ? newCount / elapsedMinutes : 0);
+          return newCount;
+        });
 
-    return () => {
-      if (rednessIntervalRef.current) {
-        clearInterval(rednessIntervalRef.current);
-      }
-    };
-  }, [opencvLoaded, eyesDetected]);
+        recorderRef.current?.recordBlink();
+        sessionLogRef.current?.recordBlink(timestamp);
+
+        // Track recent blinks for current BPM (keep last 60 seconds)
+        recentBlinksRef.current.push(timestamp);
+
+        // Remove blinks older than 60 seconds
+        const oneMinuteAgo = timestamp - 60000;
+        recentBlinksRef.current = recentBlinksRef.current.filter(t => t > oneMinuteAgo);
+
+        // Update current BPM based on blinks in last 60 seconds
+        setCurrentBPM(recentBlinksRef.current.length);
+      }),
+      engine.on("blinkEnd", (event) => {
+        setIsBlinking(false);
+        if (calibratingRef.current || !recording()) return;
+        setBlinkQuality((prev) => addBlink(prev, event));
+        sessionLogRef.current?.recordBlinkEnd(event.startedAt, event.duration, event.kind);
+      }),
+
+      engine.on("redness", ({ timestamp, left, right }) => {
+        // Untrustworthy frames are flagged, never stored or shown as a score
+        if (left.status !== "ok" || right.status !== "ok") {
+          setRednessQuality(left.status !== "ok" ? left.reason : right.status !== "ok" ? right.reason : null);
+          return;
+        }
+        const sample: RednessSample = {
+          timestamp,
+          left: left.index,
+          right: right.index,
+          confidence: Math.min(left.confidence, right.confidence),
+        };
+        setRednessQuality(null);
+        setRedness(sample);
+        if (!recording()) return;
+        recorderRef.current?.recordRedness(sample.left, sample.right, sample.confidence);
+        sessionLogRef.current?.recordRedness(sample);
+      }),
+
+      engine.on("emotion", ({ timestamp, emotion, confidence, expressions, smoothed, affect }) => {
+        const blinkRate = recentBlinkRate(recentBlinksRef.current, timestamp, clock.getSnapshot(timestamp).startedAt ?? timestamp);
+        const stress = stressIndex(affect, blinkRate, healthyBlinkRange(settings));
+        const sample: EmotionSample = { timestamp, emotion, confidence, expressions, ...affect, stress };
+        setCurrentEmotion(sample);
+        if (!recording()) return;
+        affectTimeline.add(timestamp, smoothed, affect, stress);
+        recorderRef.current?.recordEmotion(emotion);
+        sessionLogRef.current?.recordEmotion(sample);
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine, clock, affectTimeline, settings]);
 
   // Periodic BPM update (clean up old blinks every 5 seconds)
   useEffect(() => {
-    const bpmUpdateInterval = setInterval(() => {
+    // The mini monitor shows this while the tab is in the background
+    return setBackgroundInterval(() => {
+      // Held while paused rather than decaying towards zero
+      if (clock.getStatus() !== "running") return;
       const now = Date.now();
       const oneMinuteAgo = now - 60000;
       
@@ -248,218 +330,259 @@ export default function Dashboard() {
       // Update current BPM
       setCurrentBPM(recentBlinksRef.current.length);
     }, 5000); // Update every 5 seconds
+  }, [clock]);
 
-    return () => {
-      clearInterval(bpmUpdateInterval);
-    };
+  // Per-face metrics are sampled from the roster like the EAR trace
+  useEffect(() => {
+    const faceInterval = setInterval(() => {
+      const roster = rosterRef.current;
+      setFaces(roster ? roster.summaries() : []);
+      setLockedFace(roster?.lockedTrackId ?? null);
+    }, 1000);
+    return () => clearInterval(faceInterval);
   }, []);
 
+  // The affect timeline is charted from once-a-second snapshots
   useEffect(() => {
-    let camera: any | null = null;
-
-    const initCamera = async () => {
-      try {
-        // Wait for MediaPipe libraries to load
-        // Wait for MediaPipe libraries to load
-        if (typeof window.FaceMesh === "undefined" || typeof window.Camera === "undefined") {
-          setTimeout(initCamera, 100);
-          return;
-        }
+    const affectInterval = setInterval(() => setAffectPoints(affectTimeline.points()), 1000);
+    return () => clearInterval(affectInterval);
+  }, [affectTimeline]);
 
-        // Define face mesh instance with simplified config
-        const faceMesh = new window.FaceMesh({
-          locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-          },
-        });
+  const lockFace = (trackId: number | null) => {
+    rosterRef.current?.lock(trackId);
+    setLockedFace(trackId);
+  };
 
-        faceMesh.setOptions({
-          maxNumFaces: 1,
-          refineLandmarks: false,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
+  useEffect(() => {
+    if (!trackingLoaded) return;
+    const roster = new FaceRoster(engine, {
+      // Other people have no calibration of their own
+      createEngine: () => {
+        const faceEngine = new VisionEngine();
+        faceEngine.register(new BlinkAnalyzer(blinkBaselineFor(settings, null)));
+        return faceEngine;
+      },
+    });
+    rosterRef.current = roster;
+    const paintPreview = createPreviewPainter(settings.privacy.preview);
 
-        // Called every frame with detected results
-        faceMesh.onResults((results: any) => {
-          const canvas = canvasRef.current;
-          if (!canvas) return;
+    const faceBackend = createFaceBackend(settings.analysis.backend, {
+      maxFaces: settings.capture.maxFaces,
+      expressions: settings.features.emotion,
+    });
+    faceBackendRef.current = faceBackend;
+    let closed = false;
 
-          const ctx = canvas.getContext("2d");
-          if (!ctx) return;
+    // Called for every camera frame that is processed
+    trackFrameRef.current = async (frame) => {
+      const faces = await faceBackend.detect(frame);
+      const canvas = canvasRef.current;
+      if (closed || !canvas) return;
 
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
 
-          if (!results.multiFaceLandmarks || results.multiFaceLandmarks.length === 0) {
-            setEyesDetected(false);
-            return;
-          }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      paintPreview(ctx, frame);
 
-          const landmarks = results.multiFaceLandmarks[0];
-          setEyesDetected(true);
-
-          // Draw face mesh
-          ctx.strokeStyle = "rgba(0, 255, 255, 0.5)";
-          ctx.lineWidth = 1;
-          for (const point of landmarks) {
-            ctx.beginPath();
-            ctx.arc(point.x * canvas.width, point.y * canvas.height, 1, 0, 2 * Math.PI);
-            ctx.fillStyle = "rgba(0, 255, 255, 0.6)";
-            ctx.fill();
-          }
+      const video = videoRef.current;
+      const timestamp = Date.now();
+      const tracks = roster.process(
+        {
+          timestamp,
+          image: video ?? undefined,
+          width: video?.videoWidth ?? canvas.width,
+          height: video?.videoHeight ?? canvas.height,
+        },
+        faces,
+      );
+
+      // Other people are drawn faintly and labelled so they can be picked
+      let landmarks: Landmark[] | null = null;
+      for (const track of tracks) {
+        if (track.lastSeen !== timestamp) continue;
+        if (roster.isPrimary(track.trackId)) {
+          landmarks = track.landmarks;
+          continue;
+        }
+        ctx.fillStyle = "rgba(148, 163, 184, 0.4)";
+        for (const point of track.landmarks) {
+          ctx.fillRect(point.x * canvas.width, point.y * canvas.height, 1.5, 1.5);
+        }
+        ctx.font = "bold 16px sans-serif";
+        ctx.fillStyle = "#e2e8f0";
+        ctx.fillText(`#${track.trackId}`, track.box.minX * canvas.width, track.box.minY * canvas.height - 6);
+      }
 
-          // Highlight eyes
-          const drawEye = (eyeIndices: number[], color: string) => {
-            ctx.strokeStyle = color;
-            ctx.lineWidth = 2;
-            ctx.beginPath();
-            for (let i = 0; i < eyeIndices.length; i++) {
-              const point = landmarks[eyeIndices[i]];
-              if (i === 0) {
-                ctx.moveTo(point.x * canvas.width, point.y * canvas.height);
-              } else {
-                ctx.lineTo(point.x * canvas.width, point.y * canvas.height);
-              }
+      if (landmarks) {
+        // Draw face mesh
+        ctx.strokeStyle = "rgba(0, 255, 255, 0.5)";
+        ctx.lineWidth = 1;
+        for (const point of landmarks) {
+          ctx.beginPath();
+          ctx.arc(point.x * canvas.width, point.y * canvas.height, 1, 0, 2 * Math.PI);
+          ctx.fillStyle = "rgba(0, 255, 255, 0.6)";
+          ctx.fill();
+        }
+
+        // Highlight eyes
+        const drawEye = (eyeIndices: number[], color: string) => {
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          for (let i = 0; i < eyeIndices.length; i++) {
+            const point = landmarks[eyeIndices[i]];
+            if (i === 0) {
+              ctx.moveTo(point.x * canvas.width, point.y * canvas.height);
+            } else {
+              ctx.lineTo(point.x * canvas.width, point.y * canvas.height);
             }
-            ctx.closePath();
-            ctx.stroke();
-          };
-
-          drawEye(LEFT_EYE, "#00ff00");
-          drawEye(RIGHT_EYE, "#00ff00");
-
-          // Eye redness detection (every few frames for performance)
-          if (opencvLoaded && videoRef.current && Math.random() < 0.2) {
-            const leftRedness = detectEyeRedness(videoRef.current, landmarks, LEFT_EYE_REGION);
-            const rightRedness = detectEyeRedness(videoRef.current, landmarks, RIGHT_EYE_REGION);
-            setLeftEyeRedness(leftRedness);
-            setRightEyeRedness(rightRedness);
-          }
-          // Blink detection
-          const leftEAR = calcEAR(landmarks, LEFT_EYE);
-          const rightEAR = calcEAR(landmarks, RIGHT_EYE);
-          const avgEAR = (leftEAR + rightEAR) / 2.0;
-
-          // Debug: Log EAR values more frequently
-          if (Math.random() < 0.05) {
-            console.log('EAR:', avgEAR.toFixed(3), 'Threshold: 0.30', 'Blinking:', blinkStateRef.current);
           }
+          ctx.closePath();
+          ctx.stroke();
+        };
 
-          if (avgEAR < 0.30 && !blinkStateRef.current) {
-            const blinkTimestamp = Date.now();
-            console.log('Blink detected! EAR:', avgEAR.toFixed(3));
-            
-            setBlinkCount((prev) => {
-              const newCount = prev + 1;
-              const elapsedMinutes = (blinkTimestamp - startTimeRef.current) / 60000;
-              setAvgBlinkRate(elapsedMinutes > 0 ? newCount / elapsedMinutes : 0);
-              return newCount;
-            });
-            
-            // Track recent blinks for current BPM (keep last 60 seconds)
-            recentBlinksRef.current.push(blinkTimestamp);
-            
-            // Remove blinks older than 60 seconds
-            const oneMinuteAgo = blinkTimestamp - 60000;
-            recentBlinksRef.current = recentBlinksRef.current.filter(t => t > oneMinuteAgo);
-            
-            // Update current BPM based on blinks in last 60 seconds
-            setCurrentBPM(recentBlinksRef.current.length);
-            
-            setIsBlinking(true);
-            blinkStateRef.current = true;
-          } else if (avgEAR >= 0.25) {
-            setIsBlinking(false);
-            blinkStateRef.current = false;
-          }
-        });
+        drawEye(LEFT_EYE, "#00ff00");
+        drawEye(RIGHT_EYE, "#00ff00");
 
-        // Setup webcam
-        if (videoRef.current) {
-          camera = new window.Camera(videoRef.current, {
-            onFrame: async () => {
-              if (videoRef.current) {
-                await faceMesh.send({ image: videoRef.current });
-              }
-            },
-            width: 640,
-            height: 480,
-          });
-          camera.start();
+        // Iris centres, when the mesh includes them
+        ctx.fillStyle = "#f472b6";
+        for (const index of [LEFT_IRIS_CENTER, RIGHT_IRIS_CENTER]) {
+          const iris = landmarks[index];
+          if (!iris) continue;
+          ctx.beginPath();
+          ctx.arc(iris.x * canvas.width, iris.y * canvas.height, 3, 0, 2 * Math.PI);
+          ctx.fill();
         }
-      } catch (err) {
-        console.error("Camera initialization error:", err);
       }
     };
 
-    // Add delay to ensure DOM is ready
-    const timer = setTimeout(initCamera, 500);
-
     return () => {
-      clearTimeout(timer);
-      if (camera) {
-        camera.stop();
-      }
+      closed = true;
+      trackFrameRef.current = null;
+      roster.dispose();
+      rosterRef.current = null;
+      faceBackendRef.current = null;
+      faceBackend.close();
     };
-  }, [opencvLoaded]);
-
-  // Helper functions for derived insights
-  const getEyeHealthStatus = () => {
-    const avgRedness = (leftEyeRedness + rightEyeRedness) / 2;
-    if (avgRedness > 15) return { status: 'High Risk', color: '#ef4444', icon: '⚠️' };
-    if (avgRedness > 8) return { status: 'Moderate', color: '#f59e0b', icon: '⚡' };
-    return { status: 'Healthy', color: '#10b981', icon: '✓' };
+  }, [engine, settings, trackingLoaded]);
+
+  // The camera runs independently of the models so permission problems show
+  // up straight away; frames are dropped until face tracking is ready
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    camera.start(video, cameraRequest, async (frame) => {
+      const trackFrame = trackFrameRef.current;
+      const start = performance.now();
+      if (!trackFrame || !throttle.shouldProcess(start)) return;
+      await trackFrame(frame);
+      const cost = performance.now() - start;
+      engine.perf.record("frame (total)", cost);
+      throttle.update(cost);
+    });
+    return () => camera.stop();
+  }, [engine, camera, throttle, cameraRequest]);
+
+  const changeCamera = (request: CameraRequest) => {
+    setCameraRequest(request);
+    saveCameraDevice(userId, request.deviceId);
+    // Saved without touching `settings`, which would restart every analyzer
+    const { width, height, fps } = request;
+    const stored = loadSettings(userId);
+    saveSettings(userId, { ...stored, capture: { ...stored.capture, width, height, fps } });
+  };
+
+  const openCalibration = () => {
+    calibratingRef.current = true;
+    setShowCalibration(true);
   };
 
-  const getBlinkHealthStatus = () => {
-    if (currentBPM === 0) return { status: 'Measuring...', color: '#6b7280', icon: '⏱️' };
-    if (currentBPM < 10) return { status: 'Too Low', color: '#ef4444', icon: '⚠️', message: 'Increase blink frequency' };
-    if (currentBPM > 25) return { status: 'Too High', color: '#f59e0b', icon: '⚡', message: 'May indicate eye strain' };
-    return { status: 'Optimal', color: '#10b981', icon: '✓', message: 'Normal blink rate' };
+  const closeCalibration = () => {
+    calibratingRef.current = false;
+    setShowCalibration(false);
   };
 
-  const getDominantEmotion = () => {
-    if (emotionHistory.length === 0) return 'No data';
-    const counts: { [key: string]: number } = {};
-    emotionHistory.forEach(e => {
-      counts[e] = (counts[e] || 0) + 1;
+  const handleCalibrationSave = (profile: EarCalibrationProfile) => {
+    saveCalibration(userId, profile);
+    setCalibration(profile);
+    closeCalibration();
+  };
+
+  const handleCalibrationReset = () => {
+    clearCalibration(userId);
+    setCalibration(null);
+  };
+
+
+  const openMiniMonitor = () => {
+    miniMonitor.open(MINI_MONITOR_SIZE.width, MINI_MONITOR_SIZE.height).catch((err) => {
+      console.error("Could not open the mini monitor:", err);
     });
-    const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
-    return sorted[0]?.[0] || 'No data';
   };
 
-  const getSessionDuration = () => {
-    const minutes = Math.floor((Date.now() - startTimeRef.current) / 60000);
-    if (minutes < 1) return '< 1 min';
-    if (minutes < 60) return `${minutes} min`;
-    const hours = Math.floor(minutes / 60);
-    const remainingMins = minutes % 60;
-    return `${hours}h ${remainingMins}m`;
+  const handleExport = (format: ExportFormat) => {
+    const sessionLog = sessionLogRef.current;
+    if (!sessionLog) return;
+
+    const report = buildSessionReport(
+      { name: user.name, email: user.email },
+      sessionLog.snapshot(),
+      {
+        currentBPM,
+        avgBlinkRate,
+        leftRedness: redness?.left ?? null,
+        rightRedness: redness?.right ?? null,
+        dominantEmotion,
+        blinkQuality,
+        durationMs: session.snapshot.activeMs,
+        rednessThresholds: settings.redness,
+        blinkRateBounds: settings.blinkRate,
+        healthyBlinkRange: healthyBlinkRange(settings),
+      },
+    );
+
+    if (format === "pdf") {
+      downloadFile(reportFileName(report, "pdf"), reportToPdf(report), "application/pdf");
+    } else if (format === "csv") {
+      downloadFile(reportFileName(report, "csv"), reportToCsv(report), "text/csv");
+    } else {
+      downloadFile(reportFileName(report, "json"), reportToJson(report), "application/json");
+    }
   };
 
-  const eyeHealthStatus = getEyeHealthStatus();
-  const blinkHealthStatus = getBlinkHealthStatus();
-  const dominantEmotion = getDominantEmotion();
+  const leftEyeRedness = redness?.left ?? null;
+  const rightEyeRedness = redness?.right ?? null;
+  const eyeHealthStatus = settings.features.redness
+    ? getEyeHealthStatus(leftEyeRedness, rightEyeRedness, rednessQuality, settings.redness)
+    : { status: "Off", color: "#6b7280", icon: "⏸️", message: "Redness analysis is turned off in Settings" };
+  const blinkHealthStatus = getBlinkHealthStatus(currentBPM, settings.blinkRate);
+  const rednessElevated = isRednessElevated(leftEyeRedness, rightEyeRedness, settings.redness);
+  // Summed probabilities, not label counts, so a close second still weighs in
+  const dominantEmotion = dominantExpression(affectPoints.map((p) => p.expressions));
+  const blinkQualityStatus = getBlinkQualityStatus(blinkQuality);
+  const partialRatio = partialBlinkRatio(blinkQuality);
+  const meanDuration = meanBlinkDuration(blinkQuality);
+  // The canvas follows what the camera delivers, which may differ from the request
+  const frameWidth = cameraState.status === "live" ? cameraState.width : cameraRequest.width;
+  const frameHeight = cameraState.status === "live" ? cameraState.height : cameraRequest.height;
+  const blinkThreshold = blinkBaselineFor(settings, calibration).thresholds.close;
+  // Shown in place of a reading while there is none to show
+  const emotionStatus = !settings.features.emotion
+    ? "Off"
+    : engineStatus[backend.expressions].state === "failed"
+      ? "Error loading models"
+      : "Loading...";
+  const liveEmotion = settings.features.emotion && engineStatus[backend.expressions].state !== "failed" ? currentEmotion : null;
 
   return (
     <div className="app-container">
       {/* Navigation Bar */}
-      <nav className="navbar">
-        <div className="nav-content">
-          <div className="nav-logo">
-            <span className="logo-icon">👁️</span>
-            <span className="logo-text">VisionCare</span>
-            <span className="beta-badge">BETA</span>
-          </div>
-          <div className="nav-links">
-            <a href="#features" className="nav-link">Features</a>
-            <a href="#how-it-works" className="nav-link">How it Works</a>
-            <a href="#" className="nav-link">Pricing</a>
-            <button onClick={handleLogout} className="nav-btn-primary">Logout</button>
-          </div>
-        </div>
-      </nav>
+      <NavBar>
+        <a href="#features" className="nav-link">Features</a>
+        <a href="#how-it-works" className="nav-link">How it Works</a>
+        <a href="#" className="nav-link">Pricing</a>
+      </NavBar>
 
       <div className="main-content">
         {/* Top Section: Stats and Video Side by Side */}
@@ -473,7 +596,7 @@ export default function Dashboard() {
               </div>
               <div className="stat-value-large">{blinkCount}</div>
               <div className="stat-footer">
-                <span className="stat-label">Session: {getSessionDuration()}</span>
+                <span className="stat-label">Session: {formatDuration(session.snapshot.activeMs)}</span>
               </div>
             </div>
 
@@ -499,14 +622,40 @@ export default function Dashboard() {
               </div>
             </div>
 
+            <div className="stat-card">
+              <div className="stat-header">
+                <span className="stat-icon">🌗</span>
+                <span className="stat-title">Partial Blinks</span>
+              </div>
+              <div className="stat-value-large">
+                {partialRatio === null ? "--" : `${(partialRatio * 100).toFixed(0)}%`}
+              </div>
+              <div className="stat-footer">
+                <span className="stat-label">{blinkQuality.incomplete} incomplete</span>
+              </div>
+            </div>
+
+            <div className="stat-card">
+              <div className="stat-header">
+                <span className="stat-icon">⏲️</span>
+                <span className="stat-title">Blink Duration</span>
+              </div>
+              <div className="stat-value-large">
+                {meanDuration === null ? "--" : `${Math.round(meanDuration)} ms`}
+              </div>
+              <div className="stat-footer">
+                <span className="stat-label">Mean lid closure</span>
+              </div>
+            </div>
+
             <div className="stat-card">
               <div className="stat-header">
                 <span className="stat-icon">😊</span>
                 <span className="stat-title">Current Emotion</span>
               </div>
-              <div className="stat-value-medium">{emotion.split('(')[0]}</div>
+              <div className="stat-value-medium">{liveEmotion ? liveEmotion.emotion : emotionStatus}</div>
               <div className="stat-footer">
-                <span className="stat-label">{emotion.includes('(') ? emotion.split('(')[1]?.replace(')', '') : ''}</span>
+                <span className="stat-label">{liveEmotion ? `${(liveEmotion.confidence * 100).toFixed(1)}%` : ""}</span>
               </div>
             </div>
           </div>
@@ -520,13 +669,13 @@ export default function Dashboard() {
               autoPlay
               playsInline
               muted
-              width="640"
-              height="480"
+              width={frameWidth}
+              height={frameHeight}
             />
             <canvas
               ref={canvasRef}
-              width="640"
-              height="480"
+              width={frameWidth}
+              height={frameHeight}
               className="video-canvas"
             />
             {eyesDetected && (
@@ -541,10 +690,34 @@ export default function Dashboard() {
                 <span>Blink!</span>
               </div>
             )}
+            <TrackingQualityIndicator engine={engine} minScore={settings.quality.minScore} />
+            <PerformanceHud engine={engine} throttle={throttle} />
+            <CameraStatusOverlay state={cameraState} onRetry={() => camera.retry()} />
           </div>
+          <CameraControls request={cameraRequest} state={cameraState} onChange={changeCamera} />
           </div>
         </div>
 
+        <SessionControls
+          snapshot={session.snapshot}
+          onStart={session.start}
+          onPause={session.pause}
+          onResume={session.resume}
+          onStop={session.stop}
+          onActivityChange={session.setActivity}
+        >
+          <button
+            className="card-action-btn secondary"
+            onClick={miniMonitor.pipWindow ? miniMonitor.close : openMiniMonitor}
+            disabled={!miniMonitor.supported}
+            title={miniMonitor.supported ? "A small always-on-top window for working in other apps" : "Needs Chrome or Edge 116 or later"}
+          >
+            {miniMonitor.pipWindow ? "Close Mini Monitor" : "Mini Monitor"}
+          </button>
+        </SessionControls>
+
+        <ReportExportBar onExport={handleExport} />
+
         {/* Insights Grid */}
         <div className="insights-grid">
           {/* Eye Health Analysis */}
@@ -566,12 +739,12 @@ export default function Dashboard() {
                     <div 
                       className="redness-bar" 
                       style={{ 
-                        width: `${Math.min(leftEyeRedness * 5, 100)}%`,
-                        backgroundColor: leftEyeRedness > 12 ? '#ef4444' : '#10b981'
+                        width: `${Math.min((leftEyeRedness ?? 0) * 5, 100)}%`,
+                        backgroundColor: (leftEyeRedness ?? 0) > settings.redness.alert ? '#ef4444' : '#10b981'
                       }}
                     ></div>
                   </div>
-                  <span className="redness-percent">{leftEyeRedness.toFixed(1)}%</span>
+                  <span className="redness-percent">{leftEyeRedness === null ? "–" : leftEyeRedness.toFixed(1)}</span>
                 </div>
                 <div className="eye-redness-item">
                   <div className="eye-label">
@@ -582,31 +755,25 @@ export default function Dashboard() {
                     <div 
                       className="redness-bar" 
                       style={{ 
-                        width: `${Math.min(rightEyeRedness * 5, 100)}%`,
-                        backgroundColor: rightEyeRedness > 12 ? '#ef4444' : '#10b981'
+                        width: `${Math.min((rightEyeRedness ?? 0) * 5, 100)}%`,
+                        backgroundColor: (rightEyeRedness ?? 0) > settings.redness.alert ? '#ef4444' : '#10b981'
                       }}
                     ></div>
                   </div>
-                  <span className="redness-percent">{rightEyeRedness.toFixed(1)}%</span>
+                  <span className="redness-percent">{rightEyeRedness === null ? "–" : rightEyeRedness.toFixed(1)}</span>
                 </div>
               </div>
+              {eyeHealthStatus.message && (
+                <div className="health-message">
+                  <p>{eyeHealthStatus.message}</p>
+                </div>
+              )}
               <div className="insight-recommendations">
                 <h4 className="rec-title">Recommendations</h4>
                 <ul className="rec-list">
-                  {(leftEyeRedness + rightEyeRedness) / 2 > 12 && (
-                    <>
-                      <li>Take a 20-minute break from screens</li>
-                      <li>Use eye drops for dryness</li>
-                      <li>Adjust screen brightness</li>
-                    </>
-                  )}
-                  {(leftEyeRedness + rightEyeRedness) / 2 <= 12 && (
-                    <>
-                      <li>✓ Eye redness levels are normal</li>
-                      <li>✓ Continue with regular breaks</li>
-                      <li>✓ Maintain good hydration</li>
-                    </>
-                  )}
+                  {getRednessRecommendations(leftEyeRedness, rightEyeRedness, settings.redness).map((rec) => (
+                    <li key={rec}>{rednessElevated ? rec : `✓ ${rec}`}</li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -632,7 +799,17 @@ export default function Dashboard() {
                 </div>
                 <div className="metric-item">
                   <span className="metric-label">Healthy Range</span>
-                  <span className="metric-value">15-20 BPM</span>
+                  <span className="metric-value">
+                    {settings.blinkRate.healthyMin}-{settings.blinkRate.healthyMax} BPM
+                  </span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Calibration</span>
+                  <span className="metric-value">
+                    {calibration
+                      ? `Personal (${new Date(calibration.calibratedAt).toLocaleDateString()})`
+                      : "Default thresholds"}
+                  </span>
                 </div>
               </div>
               {blinkHealthStatus.message && (
@@ -640,44 +817,136 @@ export default function Dashboard() {
                   <p>{blinkHealthStatus.message}</p>
                 </div>
               )}
+              {!calibration && (
+                <div className="health-message">
+                  <p>Calibrate to your eyes for more accurate blink counting.</p>
+                </div>
+              )}
+              <div className="card-actions">
+                <button className="card-action-btn" onClick={openCalibration} disabled={!eyesDetected}>
+                  {calibration ? "Recalibrate" : "Calibrate"}
+                </button>
+                {calibration && (
+                  <button className="card-action-btn secondary" onClick={handleCalibrationReset}>
+                    Reset to default
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Blink Quality Analysis */}
+          <div className="insight-card">
+            <div className="insight-header">
+              <h3 className="insight-title">Blink Quality</h3>
+              <span className="insight-badge" style={{ backgroundColor: blinkQualityStatus.color }}>
+                {blinkQualityStatus.icon} {blinkQualityStatus.status}
+              </span>
+            </div>
+            <div className="insight-body">
+              <div className="blink-metric">
+                <div className="metric-item">
+                  <span className="metric-label">Complete</span>
+                  <span className="metric-value-big">{blinkQuality.complete}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Incomplete</span>
+                  <span className="metric-value-big">{blinkQuality.incomplete}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Prolonged</span>
+                  <span className="metric-value-big">{blinkQuality.prolonged}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Mean Duration</span>
+                  <span className="metric-value">
+                    {meanDuration === null ? "--" : `${Math.round(meanDuration)} ms`}
+                  </span>
+                </div>
+              </div>
+              <EarSparkline samples={earSamples} threshold={blinkThreshold} windowMs={EAR_WINDOW_MS} />
+              {blinkQualityStatus.message && (
+                <div className="health-message">
+                  <p>{blinkQualityStatus.message}</p>
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Fatigue Monitor */}
+          <FatigueCard
+            snapshot={fatigue.snapshot}
+            config={fatigue.config}
+            onConfigChange={fatigue.setConfig}
+          />
+
+          {/* Tracked Faces */}
+          <FaceRosterCard faces={faces} lockedTrackId={lockedFace} onLock={lockFace} />
+
+          {/* Posture & Distance */}
+          <PostureCard
+            reading={posture.reading}
+            snapshot={posture.snapshot}
+            calibration={posture.calibration}
+            warningText={posture.warningText}
+            onCalibrate={posture.calibrate}
+            onResetCalibration={posture.resetCalibration}
+            onDismissWarning={posture.dismissWarning}
+          />
+
+          {/* Screen Time Coaching */}
+          <BreakCoachingCard
+            snapshot={breakCoach.snapshot}
+            config={breakCoach.config}
+            permission={breakCoach.permission}
+            onConfigChange={breakCoach.setConfig}
+            onEnableNotifications={breakCoach.requestNotifications}
+          />
+
           {/* Emotion Analysis */}
           <div className="insight-card">
             <div className="insight-header">
               <h3 className="insight-title">Emotion Analysis</h3>
-              <span className="insight-badge" style={{ backgroundColor: '#8b5cf6' }}>
-                🎭 Active
+              <span className="insight-badge" style={{ backgroundColor: settings.features.emotion ? '#8b5cf6' : '#6b7280' }}>
+                {settings.features.emotion ? '🎭 Active' : '⏸️ Off'}
               </span>
             </div>
             <div className="insight-body">
               <div className="emotion-display">
                 <div className="current-emotion">
                   <span className="emotion-label">Current</span>
-                  <span className="emotion-value">{emotion.split('(')[0]}</span>
-                  <span className="emotion-confidence">{emotion.includes('(') ? emotion.split('(')[1]?.replace(')', '') : ''}</span>
+                  <span className="emotion-value">
+                    {liveEmotion ? `${emotionEmoji(liveEmotion.emotion)} ${liveEmotion.emotion}` : emotionStatus}
+                  </span>
+                  <span className="emotion-confidence">
+                    {liveEmotion ? `${(liveEmotion.confidence * 100).toFixed(1)}%` : ""}
+                  </span>
                 </div>
                 <div className="dominant-emotion">
                   <span className="emotion-label">Dominant (Session)</span>
-                  <span className="emotion-value-small">{dominantEmotion}</span>
+                  <span className="emotion-value-small">
+                    {dominantEmotion ? `${emotionEmoji(dominantEmotion)} ${dominantEmotion}` : "No data"}
+                  </span>
                 </div>
               </div>
-              <div className="emotion-timeline">
-                <span className="timeline-label">Recent history:</span>
-                <div className="timeline-dots">
-                  {emotionHistory.slice(-10).map((e, i) => (
-                    <span 
-                      key={i} 
-                      className="emotion-dot"
-                      title={e}
-                    >
-                      {e === 'happy' ? '😊' : e === 'sad' ? '😢' : e === 'angry' ? '😠' : 
-                       e === 'fearful' ? '😨' : e === 'surprised' ? '😲' : e === 'disgusted' ? '🤢' : '😐'}
-                    </span>
-                  ))}
+              <div className="affect-stats">
+                <div className="affect-stat">
+                  <span className="emotion-label">Valence</span>
+                  <span className="emotion-value-small">{liveEmotion ? liveEmotion.valence.toFixed(2) : "–"}</span>
+                </div>
+                <div className="affect-stat">
+                  <span className="emotion-label">Arousal</span>
+                  <span className="emotion-value-small">{liveEmotion ? liveEmotion.arousal.toFixed(2) : "–"}</span>
+                </div>
+                <div className="affect-stat">
+                  <span className="emotion-label">Screen Stress</span>
+                  <span className="emotion-value-small">{liveEmotion ? `${Math.round(liveEmotion.stress)} / 100` : "–"}</span>
                 </div>
               </div>
+              <div className="emotion-timeline">
+                <span className="timeline-label">Session timeline</span>
+                <AffectTimelineChart points={affectPoints} startedAt={affectTimeline.startedAt} />
+              </div>
             </div>
           </div>
         </div>
@@ -691,7 +960,7 @@ export default function Dashboard() {
               <h3 className="feature-title">Blink Detection</h3>
               <p className="feature-desc">
                 Real-time blink counting using Eye Aspect Ratio (EAR) algorithm
-                with MediaPipe Face Mesh for precise tracking.
+                with MediaPipe Face Mesh or Human for precise tracking.
               </p>
             </div>
             <div className="feature-card">
@@ -699,15 +968,15 @@ export default function Dashboard() {
               <h3 className="feature-title">Emotion Recognition</h3>
               <p className="feature-desc">
                 Advanced facial expression analysis detecting 7 emotions using
-                TensorFlow.js and face-api.js models.
+                TensorFlow.js models from face-api.js or Human.
               </p>
             </div>
             <div className="feature-card">
               <div className="feature-icon">🔴</div>
               <h3 className="feature-title">Redness Analysis</h3>
               <p className="feature-desc">
-                HSV color space analysis with OpenCV.js to detect and quantify
-                eye redness in real-time.
+                White-balanced sclera segmentation that scores eye redness
+                consistently across lighting, cameras and skin tones.
               </p>
             </div>
           </div>
@@ -715,21 +984,62 @@ export default function Dashboard() {
 
         {/* System Status */}
         <div className="system-status">
-          <div className="status-item">
-            <div className="status-indicator active"></div>
-            <span>MediaPipe: Active</span>
-          </div>
-          <div className="status-item">
-            <div className="status-indicator" style={{backgroundColor: modelsLoaded ? '#10b981' : '#6b7280'}}></div>
-            <span>Face-API: {modelsLoaded ? 'Ready' : 'Loading...'}</span>
-          </div>
-          <div className="status-item">
-            <div className="status-indicator" style={{backgroundColor: opencvLoaded ? '#10b981' : '#6b7280'}}></div>
-            <span>OpenCV: {opencvLoaded ? 'Ready' : 'Loading...'}</span>
-          </div>
+          {engines.map((id) => {
+            const status = engineStatus[id];
+            return (
+              <div
+                key={id}
+                className="status-item"
+                title={status.state === "failed" ? status.error : undefined}
+              >
+                <div
+                  className={`status-indicator ${status.state === "ready" ? "active" : ""}`}
+                  style={{ backgroundColor: ENGINE_STATUS_COLORS[status.state] }}
+                ></div>
+                <span>{ENGINE_LABELS[id]}: {ENGINE_STATUS_TEXT[status.state]}</span>
+              </div>
+            );
+          })}
         </div>
       </div>
 
+      <BreakReminderToast
+        snapshot={breakCoach.snapshot}
+        breakDurationMs={breakCoach.config.breakDurationMs}
+        notice={breakCoach.notice}
+        onSnooze={breakCoach.snooze}
+        onSkip={breakCoach.skip}
+        onDismissNotice={breakCoach.dismissNotice}
+      />
+
+      {miniMonitor.pipWindow && (
+        <MiniMonitor
+          target={miniMonitor.pipWindow}
+          currentBPM={currentBPM}
+          bpmColor={blinkHealthStatus.color}
+          isBlinking={isBlinking}
+          eyesDetected={eyesDetected}
+          session={session.snapshot}
+          breakSnapshot={breakCoach.snapshot}
+          breakDurationMs={breakCoach.config.breakDurationMs}
+          notice={breakCoach.notice}
+          onSnooze={breakCoach.snooze}
+          onSkip={breakCoach.skip}
+          onPause={session.pause}
+          onResume={session.resume}
+        />
+      )}
+
+      <FatigueAlertOverlay alarm={fatigue.alarm} onAcknowledge={fatigue.acknowledge} />
+
+      {showCalibration && (
+        <CalibrationWizard
+          engine={engine}
+          onSave={handleCalibrationSave}
+          onCancel={closeCalibration}
+        />
+      )}
+
       {/* Footer */}
       <footer className="footer">
         <div className="footer-content">
@@ -746,8 +1056,8 @@ export default function Dashboard() {
             <h4 className="footer-heading">Technology</h4>
             <ul className="footer-links">
               <li>MediaPipe Face Mesh</li>
+              <li>Human</li>
               <li>TensorFlow.js</li>
-              <li>OpenCV.js</li>
               <li>React + Vite</li>
             </ul>
           </div>
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../auth/useAuth';
+import './Auth.css';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [debugToken, setDebugToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { requestPasswordReset } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const result = await requestPasswordReset(email);
+      setDebugToken(result.debugToken ?? null);
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the reset link');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-background">
+        <div className="auth-glow auth-glow-1"></div>
+        <div className="auth-glow auth-glow-2"></div>
+        <div className="auth-glow auth-glow-3"></div>
+      </div>
+
+      <div className="auth-content">
+        <div className="auth-card">
+          <div className="auth-header">
+            <div className="auth-logo">
+              <span className="logo-icon">👁️</span>
+              <span className="logo-text">VisionCare</span>
+            </div>
+            <h1 className="auth-title">Reset Password</h1>
+            <p className="auth-subtitle">We'll send you a link to choose a new password</p>
+          </div>
+
+          {sent ? (
+            <div className="auth-form">
+              <div className="auth-notice">
+                If an account exists for {email}, a password reset link is on its way.
+              </div>
+              {debugToken && (
+                <Link to={`/reset-password?token=${encodeURIComponent(debugToken)}`} className="forgot-link">
+                  Offline mode: open the reset link
+                </Link>
+              )}
+            </div>
+          ) : (
+            <form className="auth-form" onSubmit={handleSubmit}>
+              {error && <div className="auth-error" role="alert">{error}</div>}
+
+              <div className="form-group">
+                <label htmlFor="email">Email Address</label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                />
+              </div>
+
+              <button type="submit" className="auth-button" disabled={submitting}>
+                {submitting ? 'Sending...' : 'Send Reset Link'}
+              </button>
+            </form>
+          )}
+
+          <div className="auth-footer">
+            <p>
+              Remembered it?{' '}
+              <button onClick={() => navigate('/login')} className="link-button">
+                Sign in
+              </button>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import NavBar from '../components/NavBar';
+import TrendChart from '../components/TrendChart';
+import { useCurrentUser } from '../auth/useAuth';
+import { deleteSession, listSessions, setSessionActivity, type SessionRecord } from '../storage/sessionStore';
+import { buildActivityBreakdown, buildTrend, formatDuration, type TrendGranularity } from '../history/trends';
+import { activityLabel, SESSION_ACTIVITIES, type SessionActivity } from '../session/activities';
+import { emotionEmoji } from '../utils/emotion';
+import '../App.css';
+import './History.css';
+
+const GRANULARITIES: { value: TrendGranularity; label: string }[] = [
+  { value: 'session', label: 'Per Session' },
+  { value: 'day', label: 'Per Day' },
+  { value: 'week', label: 'Per Week' },
+];
+
+export default function History() {
+  const { id: userId } = useCurrentUser();
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+
+  useEffect(() => {
+    listSessions(userId)
+      .then(setSessions)
+      .catch((err) => {
+        console.error('Failed to load session history:', err);
+        setError('Could not load your session history.');
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const handleDelete = async (sessionId: string, startedAt: number) => {
+    const when = new Date(startedAt).toLocaleString();
+    if (!window.confirm(`Delete the session from ${when}? This cannot be undone.`)) return;
+
+    try {
+      await deleteSession(sessionId);
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+      setError('Could not delete the session.');
+    }
+  };
+
+  const handleActivityChange = async (sessionId: string, activity: SessionActivity) => {
+    try {
+      const updated = await setSessionActivity(sessionId, activity);
+      setSessions((prev) => prev.map((s) => (s.id === sessionId ? updated : s)));
+    } catch (err) {
+      console.error('Failed to tag session:', err);
+      setError('Could not change the session activity.');
+    }
+  };
+
+  const trend = buildTrend(sessions, granularity);
+  const sessionSummaries = buildTrend(sessions, 'session').reverse();
+  const activities = buildActivityBreakdown(sessions);
+  const activityOf = new Map(sessions.map((s) => [s.id, s.activity]));
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Session History</h1>
+            <p className="history-subtitle">How your eyes have been doing over time</p>
+          </div>
+          <div className="granularity-toggle" role="group" aria-label="Group by">
+            {GRANULARITIES.map(({ value, label }) => (
+              <button
+                key={value}
+                className={`granularity-btn ${granularity === value ? 'active' : ''}`}
+                onClick={() => setGranularity(value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <div className="history-error">{error}</div>}
+
+        {loading ? (
+          <div className="history-empty">Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          <div className="history-empty">
+            No sessions recorded yet. Start monitoring from the dashboard and your results will appear here.
+          </div>
+        ) : (
+          <>
+            <div className="history-charts">
+              <TrendChart
+                title="Blink Rate"
+                unit="BPM"
+                color="#60a5fa"
+                band={[15, 20]}
+                points={trend.map((p) => ({ key: p.key, label: p.label, value: p.blinkRate }))}
+              />
+              <TrendChart
+                title="Eye Redness"
+                unit="index"
+                color="#ef4444"
+                points={trend.map((p) => ({ key: p.key, label: p.label, value: p.redness }))}
+              />
+            </div>
+
+            <div className="trend-chart emotion-trend">
+              <div className="trend-chart-header">
+                <h4 className="trend-chart-title">Dominant Emotion</h4>
+              </div>
+              <div className="emotion-trend-row">
+                {trend.map((p) => (
+                  <div key={p.key} className="emotion-trend-item" title={p.dominantEmotion ?? 'No data'}>
+                    <span className="emotion-trend-emoji">{p.dominantEmotion ? emotionEmoji(p.dominantEmotion) : '–'}</span>
+                    <span className="emotion-trend-label">{p.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="session-list">
+              <h2 className="section-title">By Activity</h2>
+              <table className="session-table">
+                <thead>
+                  <tr>
+                    <th>Activity</th>
+                    <th>Sessions</th>
+                    <th>Time</th>
+                    <th>Blink Rate</th>
+                    <th>Redness</th>
+                    <th>Emotion</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activities.map((point) => (
+                    <tr key={point.activity ?? 'untagged'}>
+                      <td>{point.activity ? activityLabel(point.activity) : 'Untagged'}</td>
+                      <td>{point.sessionCount}</td>
+                      <td>{formatDuration(point.durationMs)}</td>
+                      <td>{point.blinkRate !== null ? `${point.blinkRate.toFixed(1)} BPM` : '–'}</td>
+                      <td>{point.redness !== null ? point.redness.toFixed(1) : '–'}</td>
+                      <td>
+                        {point.dominantEmotion ? `${emotionEmoji(point.dominantEmotion)} ${point.dominantEmotion}` : '–'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="session-list">
+              <h2 className="section-title">Sessions</h2>
+              <table className="session-table">
+                <thead>
+                  <tr>
+                    <th>Started</th>
+                    <th>Activity</th>
+                    <th>Duration</th>
+                    <th>Blink Rate</th>
+                    <th>Redness</th>
+                    <th>Emotion</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessionSummaries.map((summary) => (
+                    <tr key={summary.key}>
+                      <td>{summary.label}</td>
+                      <td>
+                        <select
+                          className="session-activity-select"
+                          value={activityOf.get(summary.key) ?? ''}
+                          onChange={(e) => handleActivityChange(summary.key, e.target.value as SessionActivity)}
+                          aria-label="Activity"
+                        >
+                          {!activityOf.get(summary.key) && <option value="" disabled>Untagged</option>}
+                          {SESSION_ACTIVITIES.map(({ activity, label, icon }) => (
+                            <option key={activity} value={activity}>
+                              {icon} {label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>{formatDuration(summary.durationMs)}</td>
+                      <td>{summary.blinkRate !== null ? `${summary.blinkRate.toFixed(1)} BPM` : '–'}</td>
+                      <td>{summary.redness !== null ? summary.redness.toFixed(1) : '–'}</td>
+                      <td>
+                        {summary.dominantEmotion
+                          ? `${emotionEmoji(summary.dominantEmotion)} ${summary.dominantEmotion}`
+                          : '–'}
+                      </td>
+                      <td>
+                        <button
+                          className="session-delete-btn"
+                          onClick={() => handleDelete(summary.key, summary.start)}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
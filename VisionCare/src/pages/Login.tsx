@@ -1,18 +1,35 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { useAuth } from '../auth/useAuth';
 import './Auth.css';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { login, status } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from?.pathname ?? '/dashboard';
+  const notice = (location.state as { notice?: string } | null)?.notice;
 
-  const handleLogin = (e: React.FormEvent) => {
+  if (status === 'authenticated') {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Simple validation - in production, use real authentication
-    if (email && password) {
-      localStorage.setItem('isAuthenticated', 'true');
-      navigate('/dashboard');
+    setError(null);
+    setSubmitting(true);
+    try {
+      await login(email, password, remember);
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -36,6 +53,9 @@ export default function Login() {
           </div>
 
           <form className="auth-form" onSubmit={handleLogin}>
+            {notice && <div className="auth-notice">{notice}</div>}
+            {error && <div className="auth-error" role="alert">{error}</div>}
+
             <div className="form-group">
               <label htmlFor="email">Email Address</label>
               <input
@@ -62,14 +82,18 @@ export default function Login() {
 
             <div className="form-options">
               <label className="checkbox-label">
-                <input type="checkbox" />
+                <input
+                  type="checkbox"
+                  checked={remember}
+                  onChange={(e) => setRemember(e.target.checked)}
+                />
                 <span>Remember me</span>
               </label>
-              <a href="#" className="forgot-link">Forgot password?</a>
+              <Link to="/forgot-password" className="forgot-link">Forgot password?</Link>
             </div>
 
-            <button type="submit" className="auth-button">
-              Sign In
+            <button type="submit" className="auth-button" disabled={submitting}>
+              {submitting ? 'Signing In...' : 'Sign In'}
             </button>
           </form>
 
@@ -92,7 +116,7 @@ export default function Login() {
           <div className="feature-item">
             <div className="feature-icon">🔒</div>
             <h3>Secure & Private</h3>
-            <p>Your data stays on your device, always encrypted</p>
+            <p>Sessions stay on your device, encrypted with your password</p>
           </div>
           <div className="feature-item">
             <div className="feature-icon">📊</div>
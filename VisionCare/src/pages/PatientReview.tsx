@@ -0,0 +1,194 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import NavBar from '../components/NavBar';
+import TrendChart from '../components/TrendChart';
+import AnnotationForm from '../components/AnnotationForm';
+import { useClinicClient } from '../clinic/useClinicClient';
+import { suggestedFlags } from '../clinic/sharedSessions';
+import {
+  FLAG_LABELS,
+  SHARE_SCOPES,
+  type Annotation,
+  type AnnotationInput,
+  type CareLink,
+  type SharedSession,
+} from '../clinic/types';
+import { formatDuration } from '../history/trends';
+import { DEFAULT_HEALTHY_BLINK_RANGE } from '../insights/verdicts';
+import { emotionEmoji } from '../utils/emotion';
+import '../App.css';
+import './History.css';
+import './Clinic.css';
+
+const formatStart = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function PatientReview() {
+  const { patientId = '' } = useParams();
+  const client = useClinicClient();
+  const [link, setLink] = useState<CareLink | null>(null);
+  const [sessions, setSessions] = useState<SharedSession[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([client.listPatients(), client.getPatientSessions(patientId), client.getPatientAnnotations(patientId)])
+      .then(([roster, shared, notes]) => {
+        setLink(roster.find((p) => p.link.patientId === patientId)?.link ?? null);
+        setSessions(shared);
+        setAnnotations(notes);
+      })
+      .catch((err) => {
+        console.error('Failed to load patient sessions:', err);
+        setError(err instanceof Error ? err.message : 'Could not load this patient.');
+      })
+      .finally(() => setLoading(false));
+  }, [client, patientId]);
+
+  const handleAnnotate = async (sessionId: string, input: AnnotationInput) => {
+    const annotation = await client.annotateSession(patientId, sessionId, input);
+    setAnnotations((prev) => [...prev, annotation]);
+  };
+
+  const handleDeleteAnnotation = async (annotationId: string) => {
+    try {
+      await client.deleteAnnotation(annotationId);
+      setAnnotations((prev) => prev.filter((a) => a.id !== annotationId));
+    } catch (err) {
+      console.error('Failed to delete note:', err);
+      setError('Could not delete the note.');
+    }
+  };
+
+  const chronological = [...sessions].reverse();
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <Link to="/clinician" className="clinic-back">← All patients</Link>
+            <h1 className="history-title">{link?.patientName ?? 'Patient'}</h1>
+            {link && (
+              <p className="history-subtitle">
+                Sharing since {new Date(link.since).toLocaleDateString()}:{' '}
+                {SHARE_SCOPES.filter(({ scope }) => link.consent[scope]).map(({ label }) => label).join(', ') ||
+                  'session times only'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {error && <div className="history-error">{error}</div>}
+
+        {loading ? (
+          <div className="history-empty">Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          !error && <div className="history-empty">This patient has not shared any sessions yet.</div>
+        ) : (
+          <>
+            <div className="history-charts">
+              <TrendChart
+                title="Blink Rate"
+                unit="BPM"
+                color="#60a5fa"
+                band={[DEFAULT_HEALTHY_BLINK_RANGE.min, DEFAULT_HEALTHY_BLINK_RANGE.max]}
+                points={chronological.map((s) => ({ key: s.sessionId, label: formatStart(s.startedAt), value: s.blinkRate }))}
+              />
+              <TrendChart
+                title="Eye Redness"
+                unit="index"
+                color="#ef4444"
+                points={chronological.map((s) => ({ key: s.sessionId, label: formatStart(s.startedAt), value: s.redness }))}
+              />
+            </div>
+
+            <div className="session-list">
+              <h2 className="section-title">Sessions</h2>
+              <table className="session-table">
+                <thead>
+                  <tr>
+                    <th>Started</th>
+                    <th>Duration</th>
+                    <th>Blink Rate</th>
+                    <th>Redness</th>
+                    <th>Emotion</th>
+                    <th>Flags</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => {
+                    const notes = annotations.filter((a) => a.sessionId === session.sessionId);
+                    const flags = new Set(notes.flatMap((a) => a.flags));
+                    const suggested = suggestedFlags(session);
+                    const open = openSessionId === session.sessionId;
+                    return (
+                      <Fragment key={session.sessionId}>
+                        <tr>
+                          <td>{formatStart(session.startedAt)}</td>
+                          <td>{formatDuration(session.durationMs)}</td>
+                          <td>{session.blinkRate !== null ? `${session.blinkRate.toFixed(1)} BPM` : '–'}</td>
+                          <td>{session.redness !== null ? session.redness.toFixed(1) : '–'}</td>
+                          <td>
+                            {session.dominantEmotion
+                              ? `${emotionEmoji(session.dominantEmotion)} ${session.dominantEmotion}`
+                              : '–'}
+                          </td>
+                          <td>
+                            {[...flags].map((kind) => (
+                              <span key={kind} className="clinic-flag">{FLAG_LABELS[kind]}</span>
+                            ))}
+                            {flags.size === 0 && suggested.length > 0 && (
+                              <span className="clinic-flag suggested">Needs review</span>
+                            )}
+                          </td>
+                          <td>
+                            <button
+                              className="session-delete-btn"
+                              onClick={() => setOpenSessionId(open ? null : session.sessionId)}
+                            >
+                              {open ? 'Close' : notes.length > 0 ? `Notes (${notes.length})` : 'Annotate'}
+                            </button>
+                          </td>
+                        </tr>
+                        {open && (
+                          <tr className="annotation-row">
+                            <td colSpan={7}>
+                              {notes.map((note) => (
+                                <div key={note.id} className="annotation">
+                                  <div>
+                                    {note.flags.map((kind) => (
+                                      <span key={kind} className="clinic-flag">{FLAG_LABELS[kind]}</span>
+                                    ))}
+                                    {note.note && <p>{note.note}</p>}
+                                    <small className="clinic-muted">{new Date(note.createdAt).toLocaleString()}</small>
+                                  </div>
+                                  <button className="session-delete-btn" onClick={() => handleDeleteAnnotation(note.id)}>
+                                    Delete
+                                  </button>
+                                </div>
+                              ))}
+                              <AnnotationForm
+                                suggested={flags.size === 0 ? suggested : []}
+                                onSubmit={(input) => handleAnnotate(session.sessionId, input)}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
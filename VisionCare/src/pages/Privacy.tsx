@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import NavBar from '../components/NavBar';
+import { USE_MOCK_API } from '../api/config';
+import { useAuth, useCurrentUser } from '../auth/useAuth';
+import { useClinicClient } from '../clinic/useClinicClient';
+import { dataInventory, wipeUserData, type InventoryItem } from '../privacy/inventory';
+import '../App.css';
+import './History.css';
+import './Settings.css';
+import './Privacy.css';
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function Privacy() {
+  const user = useCurrentUser();
+  const { logout } = useAuth();
+  const client = useClinicClient();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<InventoryItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [wiping, setWiping] = useState(false);
+
+  useEffect(() => {
+    dataInventory(user.id)
+      .then(setItems)
+      .catch((err) => {
+        console.error('Failed to list stored data:', err);
+        setError('Could not list the data stored on this device.');
+      });
+  }, [user.id]);
+
+  const handleWipe = async () => {
+    if (!confirm('Erase everything VisionCare stored about you on this device and sign out? This cannot be undone.')) {
+      return;
+    }
+    setWiping(true);
+    try {
+      // Shared summaries live on the server; the care links themselves are kept unless the server is the local mock
+      if (user.role === 'patient') {
+        try {
+          if ((await client.listCareLinks()).length > 0) await client.uploadSessions([]);
+        } catch (err) {
+          console.error('Failed to withdraw shared sessions:', err);
+        }
+      }
+      await wipeUserData(user.id, logout);
+      navigate('/login');
+    } catch (err) {
+      console.error('Failed to wipe data:', err);
+      setError('Could not erase all of your data. Please try again.');
+      setWiping(false);
+    }
+  };
+
+  const stored = items?.filter((item) => item.entries > 0) ?? [];
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Privacy</h1>
+            <p className="history-subtitle">What VisionCare keeps on this device, and how to erase it</p>
+          </div>
+        </div>
+
+        {error && <div className="history-error">{error}</div>}
+
+        <section className="settings-section privacy-facts">
+          <h2 className="settings-section-title">How your data is handled</h2>
+          <ul>
+            <li>Camera frames are analysed in this browser and never stored or uploaded.</li>
+            <li>
+              Monitoring sessions are encrypted (AES-GCM) with a key derived from your password. The key is only kept in
+              memory, so after a reload you enter your password again to open them, even if you stayed signed in.
+            </li>
+            <li>
+              Settings, calibrations and break statistics are stored unencrypted. They hold your preferences and baselines,
+              not your session measurements.
+            </li>
+            <li>Only the session summaries you choose to share on the Sharing page reach a clinician.</li>
+            <li>The camera preview can be blurred or reduced to face landmarks in Settings.</li>
+          </ul>
+        </section>
+
+        <section className="settings-section">
+          <h2 className="settings-section-title">Data on this device</h2>
+          {items === null ? (
+            !error && <p className="history-subtitle">Checking stored data...</p>
+          ) : stored.length === 0 ? (
+            <p className="history-subtitle">Nothing is stored about you on this device.</p>
+          ) : (
+            <table className="session-table">
+              <thead>
+                <tr>
+                  <th>Data</th>
+                  <th>Entries</th>
+                  <th>Size</th>
+                  <th>Protection</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stored.map((item) => (
+                  <tr key={item.id}>
+                    <td>
+                      <strong>{item.label}</strong>
+                      <small className="privacy-description">{item.description}</small>
+                    </td>
+                    <td>{item.entries}</td>
+                    <td>{formatBytes(item.bytes)}</td>
+                    <td>
+                      <span className={`privacy-badge ${item.encrypted ? 'encrypted' : ''}`}>
+                        {item.encrypted ? 'Encrypted' : 'Not encrypted'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section className="settings-section privacy-danger">
+          <h2 className="settings-section-title">Wipe all my data</h2>
+          <p className="history-subtitle">
+            Erases your sessions, settings and calibrations from this device, withdraws the sessions you shared with
+            clinicians and signs you out.{' '}
+            {USE_MOCK_API
+              ? 'Without a server configured your account lives on this device too, so it is erased along with your care links.'
+              : 'Your account itself is kept.'}
+          </p>
+          <button className="session-delete-btn" onClick={handleWipe} disabled={wiping}>
+            {wiping ? 'Erasing...' : 'Erase everything'}
+          </button>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useRef, useState } from 'react';
+import NavBar from '../components/NavBar';
+import TrendChart from '../components/TrendChart';
+import ReportExportBar, { type ExportFormat } from '../components/ReportExportBar';
+import { useCurrentUser } from '../auth/useAuth';
+import { useEngineStatus } from '../runtime/useEngineStatus';
+import { backendEngines, FACE_BACKENDS } from '../vision/faceBackend';
+import { loadCalibration } from '../storage/calibrationStore';
+import { loadSettings } from '../storage/settingsStore';
+import { blinkBaselineFor, healthyBlinkRange } from '../settings/settings';
+import { openImageSequence, openVideoFile, type ReplaySource } from '../replay/frameSources';
+import { runReplay, type ReplayProgress, type ReplayResult } from '../replay/replayRunner';
+import { replayTimeline, summarizeReplay } from '../replay/replaySummary';
+import { meanBlinkDuration, partialBlinkRatio } from '../vision/blinkStats';
+import { buildSessionReport, reportFileName } from '../reports/sessionReport';
+import { reportToCsv, reportToJson } from '../reports/csvExport';
+import { reportToPdf } from '../reports/pdfReport';
+import { downloadFile } from '../reports/download';
+import { emotionEmoji } from '../utils/emotion';
+import { formatMediaTime } from '../utils/time';
+import { formatDuration } from '../history/trends';
+import '../App.css';
+import './History.css';
+import './Replay.css';
+
+type SourceKind = 'video' | 'frames';
+
+const TIMELINE_BUCKET_MS = 10_000;
+const MAX_BLINK_ROWS = 200;
+
+export default function Replay() {
+  const user = useCurrentUser();
+  const [settings] = useState(() => loadSettings(user.id));
+  const backend = FACE_BACKENDS[settings.analysis.backend];
+  const engineStatus = useEngineStatus(backendEngines(settings.analysis.backend, settings.features.emotion));
+  const [kind, setKind] = useState<SourceKind>('video');
+  const [files, setFiles] = useState<File[]>([]);
+  const [fps, setFps] = useState(30);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<ReplayProgress | null>(null);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [calibration] = useState(() => loadCalibration(user.id));
+
+  const trackingReady = engineStatus[backend.landmarks].state === 'ready';
+  const directoryInputRef = (input: HTMLInputElement | null) => {
+    // Not part of the typed DOM attributes React knows about
+    input?.setAttribute('webkitdirectory', '');
+  };
+
+  const handleKindChange = (next: SourceKind) => {
+    setKind(next);
+    setFiles([]);
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    setResult(null);
+    setError(null);
+  };
+
+  const handleStart = async () => {
+    let source: ReplaySource | null = null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+
+    try {
+      source = kind === 'video'
+        ? await openVideoFile(files[0], fps)
+        : openImageSequence(files, fps, files[0]?.webkitRelativePath.split('/')[0] || undefined);
+
+      const replay = await runReplay(source, {
+        baseline: blinkBaselineFor(settings, calibration),
+        emotions: engineStatus[backend.expressions].state === 'ready',
+        settings,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setResult(replay);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setError('Analysis cancelled.');
+      } else {
+        console.error('Replay failed:', err);
+        setError(err instanceof Error ? err.message : 'Analysis failed.');
+      }
+    } finally {
+      source?.dispose();
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const summary = result ? summarizeReplay(result) : null;
+  const timeline = result ? replayTimeline(result, TIMELINE_BUCKET_MS) : [];
+
+  const handleExport = (format: ExportFormat) => {
+    if (!result || !summary) return;
+    const report = buildSessionReport(
+      { name: user.name, email: user.email },
+      result.log,
+      {
+        currentBPM: Math.round(summary.blinkRate),
+        avgBlinkRate: summary.blinkRate,
+        leftRedness: summary.leftRedness,
+        rightRedness: summary.rightRedness,
+        dominantEmotion: summary.dominantEmotion,
+        blinkQuality: result.blinkQuality,
+        durationMs: result.durationMs,
+        rednessThresholds: settings.redness,
+        blinkRateBounds: settings.blinkRate,
+        healthyBlinkRange: healthyBlinkRange(settings),
+      },
+    );
+
+    if (format === 'pdf') {
+      downloadFile(reportFileName(report, 'pdf'), reportToPdf(report), 'application/pdf');
+    } else if (format === 'csv') {
+      downloadFile(reportFileName(report, 'csv'), reportToCsv(report), 'text/csv');
+    } else {
+      downloadFile(reportFileName(report, 'json'), reportToJson(report), 'application/json');
+    }
+  };
+
+  const partialRatio = result ? partialBlinkRatio(result.blinkQuality) : null;
+  const meanDuration = result ? meanBlinkDuration(result.blinkQuality) : null;
+  const percentDone = progress ? (progress.framesDone / progress.frameCount) * 100 : 0;
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Recording Analysis</h1>
+            <p className="history-subtitle">
+              Run a recorded video or a folder of frames through the same analysis as the live dashboard
+            </p>
+          </div>
+          <div className="granularity-toggle" role="group" aria-label="Source type">
+            <button
+              className={`granularity-btn ${kind === 'video' ? 'active' : ''}`}
+              onClick={() => handleKindChange('video')}
+              disabled={running}
+            >
+              Video File
+            </button>
+            <button
+              className={`granularity-btn ${kind === 'frames' ? 'active' : ''}`}
+              onClick={() => handleKindChange('frames')}
+              disabled={running}
+            >
+              Frame Folder
+            </button>
+          </div>
+        </div>
+
+        <div className="replay-setup">
+          <label className="replay-field">
+            <span>{kind === 'video' ? 'Video file' : 'Folder of frames'}</span>
+            {kind === 'video' ? (
+              <input key="video" type="file" accept="video/*" onChange={handleFiles} disabled={running} />
+            ) : (
+              <input key="frames" type="file" ref={directoryInputRef} multiple onChange={handleFiles} disabled={running} />
+            )}
+          </label>
+          <label className="replay-field">
+            <span>{kind === 'video' ? 'Analysis rate (fps)' : 'Frame rate (fps)'}</span>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              value={fps}
+              onChange={(e) => setFps(Math.max(1, Number(e.target.value) || 1))}
+              disabled={running}
+            />
+          </label>
+          <div className="replay-field">
+            <span>Face analysis</span>
+            <strong>{backend.label}</strong>
+          </div>
+          <div className="replay-field">
+            <span>Blink thresholds</span>
+            <strong>{calibration ? 'Your calibration' : 'From settings'}</strong>
+          </div>
+          <div className="card-actions">
+            {running ? (
+              <button className="card-action-btn secondary" onClick={handleCancel}>Cancel</button>
+            ) : (
+              <button className="card-action-btn" onClick={handleStart} disabled={!trackingReady || files.length === 0}>
+                Analyze
+              </button>
+            )}
+          </div>
+        </div>
+
+        {!trackingReady && (
+          <div className="history-empty">
+            {engineStatus[backend.landmarks].state === 'failed' ? 'Face tracking failed to load.' : 'Loading face tracking...'}
+          </div>
+        )}
+
+        {running && (
+          <div className="replay-progress">
+            <div className="replay-progress-bar">
+              <div className="replay-progress-fill" style={{ width: `${percentDone}%` }} />
+            </div>
+            <span className="replay-progress-text">
+              {progress
+                ? `${progress.framesDone} / ${progress.frameCount} frames · ${progress.speed.toFixed(1)}× real time`
+                : 'Preparing...'}
+            </span>
+          </div>
+        )}
+
+        {error && <div className="history-error">{error}</div>}
+
+        {result && summary && (
+          <>
+            <div className="replay-summary">
+              <div className="stat-card">
+                <span className="stat-title">Blinks</span>
+                <div className="stat-value-large">{summary.blinkCount}</div>
+                <span className="stat-label">{summary.blinkRate.toFixed(1)} BPM over {formatDuration(result.durationMs)}</span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Partial Blinks</span>
+                <div className="stat-value-large">{partialRatio === null ? '--' : `${(partialRatio * 100).toFixed(0)}%`}</div>
+                <span className="stat-label">
+                  Mean duration {meanDuration === null ? '--' : `${Math.round(meanDuration)} ms`}
+                </span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Redness</span>
+                <div className="stat-value-large">
+                  {summary.leftRedness === null || summary.rightRedness === null
+                    ? '--'
+                    : ((summary.leftRedness + summary.rightRedness) / 2).toFixed(1)}
+                </div>
+                <span className="stat-label">
+                  {summary.leftRedness === null || summary.rightRedness === null
+                    ? 'Not measured'
+                    : `L ${summary.leftRedness.toFixed(1)} · R ${summary.rightRedness.toFixed(1)}`}
+                </span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Emotion</span>
+                <div className="stat-value-medium">
+                  {summary.dominantEmotion ? `${emotionEmoji(summary.dominantEmotion)} ${summary.dominantEmotion}` : '--'}
+                </div>
+                <span className="stat-label">
+                  Face tracked in {(summary.faceCoverage * 100).toFixed(0)}% of {result.framesProcessed} frames
+                </span>
+              </div>
+            </div>
+
+            <ReportExportBar onExport={handleExport} />
+
+            <div className="history-charts">
+              <TrendChart
+                title="Blink Rate"
+                unit="BPM"
+                color="#60a5fa"
+                band={[15, 20]}
+                points={timeline.map((p) => ({ key: p.key, label: p.label, value: p.blinkRate }))}
+              />
+              <TrendChart
+                title="Eye Redness"
+                unit="index"
+                color="#ef4444"
+                points={timeline.map((p) => ({ key: p.key, label: p.label, value: p.redness }))}
+              />
+            </div>
+
+            <div className="session-list">
+              <h2 className="section-title">Blink Timeline</h2>
+              <table className="session-table">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Duration</th>
+                    <th>Type</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.log.blinks.slice(0, MAX_BLINK_ROWS).map((blink) => (
+                    <tr key={blink.timestamp}>
+                      <td>{formatMediaTime(blink.timestamp - result.startedAt)}</td>
+                      <td>{blink.durationMs !== undefined ? `${Math.round(blink.durationMs)} ms` : '–'}</td>
+                      <td>{blink.kind ?? 'unfinished'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.log.blinks.length > MAX_BLINK_ROWS && (
+                <p className="replay-note">
+                  Showing the first {MAX_BLINK_ROWS} of {result.log.blinks.length} blinks. Export the CSV for all of them.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
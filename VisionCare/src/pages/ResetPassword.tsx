@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../auth/useAuth';
+import './Auth.css';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { resetPassword } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match!');
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      await resetPassword(token, password);
+      navigate('/login', { replace: true, state: { notice: 'Password updated. Sign in with your new password.' } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset your password');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-background">
+        <div className="auth-glow auth-glow-1"></div>
+        <div className="auth-glow auth-glow-2"></div>
+        <div className="auth-glow auth-glow-3"></div>
+      </div>
+
+      <div className="auth-content">
+        <div className="auth-card">
+          <div className="auth-header">
+            <div className="auth-logo">
+              <span className="logo-icon">👁️</span>
+              <span className="logo-text">VisionCare</span>
+            </div>
+            <h1 className="auth-title">Choose a New Password</h1>
+            <p className="auth-subtitle">You'll be signed out on all other devices</p>
+          </div>
+
+          <form className="auth-form" onSubmit={handleSubmit}>
+            {!token && <div className="auth-error">This reset link is missing its token.</div>}
+            {error && <div className="auth-error" role="alert">{error}</div>}
+
+            <div className="form-group">
+              <label htmlFor="password">New Password</label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Create a strong password"
+                required
+                minLength={8}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="confirmPassword">Confirm Password</label>
+              <input
+                type="password"
+                id="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm your password"
+                required
+              />
+            </div>
+
+            <button type="submit" className="auth-button" disabled={submitting || !token}>
+              {submitting ? 'Saving...' : 'Update Password'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import NavBar from '../components/NavBar';
+import { useCurrentUser } from '../auth/useAuth';
+import { clearSettings, loadSettings, saveSettings } from '../storage/settingsStore';
+import { downloadFile } from '../reports/download';
+import {
+  DEFAULT_SETTINGS,
+  NUMBER_FIELDS,
+  PREVIEW_MODES,
+  SECTION_LABELS,
+  TOGGLE_FIELDS,
+  getNumber,
+  parseSettings,
+  setNumber,
+  settingsFromJson,
+  settingsToJson,
+  type AppSettings,
+} from '../settings/settings';
+import { BACKEND_IDS, FACE_BACKENDS } from '../vision/faceBackend';
+import '../App.css';
+import './History.css';
+import './Settings.css';
+
+type Notice = { kind: 'success' | 'error'; text: string; details?: string[] };
+
+const SECTIONS = Object.keys(SECTION_LABELS) as (keyof typeof SECTION_LABELS)[];
+
+export default function Settings() {
+  const user = useCurrentUser();
+  const [draft, setDraft] = useState<AppSettings>(() => loadSettings(user.id));
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const updateFeature = (key: keyof AppSettings['features'], enabled: boolean) => {
+    setDraft((prev) => ({ ...prev, features: { ...prev.features, [key]: enabled } }));
+  };
+
+  const handleSave = () => {
+    const { settings, errors } = parseSettings(draft);
+    if (errors.length > 0) {
+      setNotice({ kind: 'error', text: 'Some values are out of range. Nothing was saved.', details: errors });
+      return;
+    }
+    saveSettings(user.id, settings);
+    setDraft(settings);
+    setNotice({ kind: 'success', text: 'Settings saved. They apply the next time the dashboard opens.' });
+  };
+
+  const handleReset = () => {
+    if (!confirm('Reset every setting to its default?')) return;
+    clearSettings(user.id);
+    setDraft(DEFAULT_SETTINGS);
+    setNotice({ kind: 'success', text: 'Settings reset to defaults.' });
+  };
+
+  const handleExport = () => {
+    downloadFile('visioncare-settings.json', settingsToJson(draft), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = settingsFromJson(await file.text());
+    if (!parsed) {
+      setNotice({ kind: 'error', text: `${file.name} is not a VisionCare settings file.` });
+      return;
+    }
+    setDraft(parsed.settings);
+    setNotice(
+      parsed.errors.length > 0
+        ? {
+            kind: 'error',
+            text: 'Imported with some values replaced by defaults. Review and save.',
+            details: parsed.errors,
+          }
+        : { kind: 'success', text: `Imported ${file.name}. Review and save to apply.` },
+    );
+  };
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Settings</h1>
+            <p className="history-subtitle">Detection thresholds, analysis intervals, which analyzers and backend run and what the camera preview shows</p>
+          </div>
+          <div className="card-actions">
+            <button className="card-action-btn secondary" onClick={() => importInputRef.current?.click()}>
+              Import JSON
+            </button>
+            <button className="card-action-btn secondary" onClick={handleExport}>
+              Export JSON
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          </div>
+        </div>
+
+        {notice && (
+          <div className={`settings-notice ${notice.kind}`} role={notice.kind === 'error' ? 'alert' : 'status'}>
+            <p>{notice.text}</p>
+            {notice.details && (
+              <ul>
+                {notice.details.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <section className="settings-section">
+          <h2 className="settings-section-title">Analyzers</h2>
+          {TOGGLE_FIELDS.map((toggle) => (
+            <label key={toggle.key} className="settings-toggle">
+              <input
+                type="checkbox"
+                checked={draft.features[toggle.key]}
+                onChange={(e) => updateFeature(toggle.key, e.target.checked)}
+              />
+              <span>
+                <strong>{toggle.label}</strong>
+                <small>{toggle.description}</small>
+              </span>
+            </label>
+          ))}
+        </section>
+
+        <section className="settings-section">
+          <h2 className="settings-section-title">Face analysis backend</h2>
+          {BACKEND_IDS.map((id) => (
+            <label key={id} className="settings-toggle">
+              <input
+                type="radio"
+                name="backend"
+                checked={draft.analysis.backend === id}
+                onChange={() => setDraft((prev) => ({ ...prev, analysis: { backend: id } }))}
+              />
+              <span>
+                <strong>{FACE_BACKENDS[id].label}</strong>
+                <small>{FACE_BACKENDS[id].description}</small>
+              </span>
+            </label>
+          ))}
+          <p className="settings-section-hint">
+            Not sure which is faster here? <Link to="/compare">Compare them side by side</Link> on this machine.
+          </p>
+        </section>
+
+        <section className="settings-section">
+          <h2 className="settings-section-title">Camera preview</h2>
+          {PREVIEW_MODES.map((option) => (
+            <label key={option.mode} className="settings-toggle">
+              <input
+                type="radio"
+                name="preview"
+                checked={draft.privacy.preview === option.mode}
+                onChange={() => setDraft((prev) => ({ ...prev, privacy: { preview: option.mode } }))}
+              />
+              <span>
+                <strong>{option.label}</strong>
+                <small>{option.description}</small>
+              </span>
+            </label>
+          ))}
+        </section>
+
+        {SECTIONS.map((section) => (
+          <section key={section} className="settings-section">
+            <h2 className="settings-section-title">{SECTION_LABELS[section]}</h2>
+            <div className="settings-grid">
+              {NUMBER_FIELDS.filter((f) => f.section === section).map((f) => (
+                <label key={`${f.section}.${f.key}`} className="replay-field">
+                  <span>{f.label}</span>
+                  <span className="settings-input">
+                    <input
+                      type="number"
+                      min={f.min}
+                      max={f.max}
+                      step={f.step}
+                      value={getNumber(draft, f)}
+                      onChange={(e) => setDraft((prev) => setNumber(prev, f, e.target.valueAsNumber))}
+                    />
+                    {f.unit && <small>{f.unit}</small>}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+        ))}
+
+        <div className="card-actions">
+          <button className="card-action-btn" onClick={handleSave}>
+            Save
+          </button>
+          <button className="card-action-btn secondary" onClick={handleReset}>
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
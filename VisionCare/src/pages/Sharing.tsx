@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import NavBar from '../components/NavBar';
+import { useCurrentUser } from '../auth/useAuth';
+import { useClinicClient } from '../clinic/useClinicClient';
+import { shareSessions } from '../clinic/sharedSessions';
+import {
+  DEFAULT_CONSENT,
+  FLAG_LABELS,
+  SHARE_SCOPES,
+  type Annotation,
+  type CareLink,
+  type Invite,
+  type SharingConsent,
+} from '../clinic/types';
+import '../App.css';
+import './History.css';
+import './Settings.css';
+import './Clinic.css';
+
+type Notice = { kind: 'success' | 'error'; text: string };
+
+interface ConsentPickerProps {
+  consent: SharingConsent;
+  onChange(consent: SharingConsent): void;
+}
+
+function ConsentPicker({ consent, onChange }: ConsentPickerProps) {
+  return (
+    <div className="consent-picker">
+      {SHARE_SCOPES.map(({ scope, label }) => (
+        <label key={scope} className="annotation-flag-option">
+          <input
+            type="checkbox"
+            checked={consent[scope]}
+            onChange={(e) => onChange({ ...consent, [scope]: e.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function Sharing() {
+  const { id: userId } = useCurrentUser();
+  const client = useClinicClient();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteConsent, setInviteConsent] = useState<Record<string, SharingConsent>>({});
+  const [links, setLinks] = useState<CareLink[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [sharedCount, setSharedCount] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  useEffect(() => {
+    Promise.all([client.listReceivedInvites(), client.listCareLinks(), client.listMyAnnotations()])
+      .then(async ([received, active, notes]) => {
+        setInvites(received);
+        setLinks(active);
+        setAnnotations(notes);
+        // Opening this page brings every clinician up to date with the latest sessions
+        if (active.length > 0) setSharedCount(await shareSessions(client, userId));
+      })
+      .catch((err) => {
+        console.error('Failed to load sharing:', err);
+        setNotice({ kind: 'error', text: 'Could not load your sharing settings.' });
+      })
+      .finally(() => setLoading(false));
+  }, [client, userId]);
+
+  const handleShareNow = async () => {
+    try {
+      const count = await shareSessions(client, userId);
+      setSharedCount(count);
+      setNotice({ kind: 'success', text: `Shared ${count} session${count === 1 ? '' : 's'}.` });
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not share your sessions.' });
+    }
+  };
+
+  const handleAccept = async (invite: Invite) => {
+    try {
+      const link = await client.acceptInvite(invite.id, inviteConsent[invite.id] ?? DEFAULT_CONSENT);
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      setLinks((prev) => [...prev.filter((l) => l.id !== link.id), link]);
+      setSharedCount(await shareSessions(client, userId));
+      setNotice({ kind: 'success', text: `You now share your sessions with ${invite.clinicianName}.` });
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not accept the invitation.' });
+    }
+  };
+
+  const handleDecline = async (invite: Invite) => {
+    try {
+      await client.declineInvite(invite.id);
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not decline the invitation.' });
+    }
+  };
+
+  const handleConsentChange = async (link: CareLink, consent: SharingConsent) => {
+    try {
+      const updated = await client.updateConsent(link.id, consent);
+      setLinks((prev) => prev.map((l) => (l.id === updated.id ? updated : l)));
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not update what you share.' });
+    }
+  };
+
+  const handleStop = async (link: CareLink) => {
+    if (!confirm(`Stop sharing with ${link.clinicianName}? They lose access to all of your sessions and their notes.`)) {
+      return;
+    }
+    try {
+      await client.stopSharing(link.id);
+      setLinks((prev) => prev.filter((l) => l.id !== link.id));
+      setAnnotations((prev) => prev.filter((a) => a.clinicianId !== link.clinicianId));
+      setNotice({ kind: 'success', text: `Stopped sharing with ${link.clinicianName}.` });
+    } catch (err) {
+      setNotice({ kind: 'error', text: err instanceof Error ? err.message : 'Could not stop sharing.' });
+    }
+  };
+
+  return (
+    <div className="app-container">
+      <NavBar />
+
+      <div className="main-content history-page">
+        <div className="history-header">
+          <div>
+            <h1 className="history-title">Sharing</h1>
+            <p className="history-subtitle">
+              Choose which clinicians see your session summaries. Raw camera data never leaves this device.
+            </p>
+          </div>
+          {links.length > 0 && (
+            <div className="card-actions">
+              <button className="card-action-btn secondary" onClick={handleShareNow}>
+                Share latest sessions
+              </button>
+            </div>
+          )}
+        </div>
+
+        {notice && (
+          <div className={`settings-notice ${notice.kind}`} role={notice.kind === 'error' ? 'alert' : 'status'}>
+            <p>{notice.text}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="history-empty">Loading...</div>
+        ) : (
+          <>
+            {invites.map((invite) => (
+              <section key={invite.id} className="settings-section">
+                <h2 className="settings-section-title">{invite.clinicianName} invited you to share your sessions</h2>
+                <p className="clinic-muted">Pick what they may see. You can change this or stop sharing at any time.</p>
+                <ConsentPicker
+                  consent={inviteConsent[invite.id] ?? DEFAULT_CONSENT}
+                  onChange={(consent) => setInviteConsent((prev) => ({ ...prev, [invite.id]: consent }))}
+                />
+                <div className="card-actions">
+                  <button className="card-action-btn" onClick={() => handleAccept(invite)}>
+                    Accept
+                  </button>
+                  <button className="card-action-btn secondary" onClick={() => handleDecline(invite)}>
+                    Decline
+                  </button>
+                </div>
+              </section>
+            ))}
+
+            {links.length === 0 && invites.length === 0 ? (
+              <div className="history-empty">
+                You are not sharing with anyone. Invitations from your clinician appear here.
+              </div>
+            ) : (
+              links.map((link) => (
+                <section key={link.id} className="settings-section">
+                  <h2 className="settings-section-title">{link.clinicianName}</h2>
+                  <p className="clinic-muted">
+                    Sharing since {new Date(link.since).toLocaleDateString()}
+                    {sharedCount !== null && `, ${sharedCount} session${sharedCount === 1 ? '' : 's'} shared`}
+                  </p>
+                  <ConsentPicker consent={link.consent} onChange={(consent) => handleConsentChange(link, consent)} />
+                  <div className="card-actions">
+                    <button className="card-action-btn secondary" onClick={() => handleStop(link)}>
+                      Stop sharing
+                    </button>
+                  </div>
+                </section>
+              ))
+            )}
+
+            {annotations.length > 0 && (
+              <section className="settings-section">
+                <h2 className="settings-section-title">Notes from your clinicians</h2>
+                {annotations.map((note) => (
+                  <div key={note.id} className="annotation">
+                    <div>
+                      {note.flags.map((kind) => (
+                        <span key={kind} className="clinic-flag">{FLAG_LABELS[kind]}</span>
+                      ))}
+                      {note.note && <p>{note.note}</p>}
+                      <small className="clinic-muted">
+                        {note.clinicianName}, {new Date(note.createdAt).toLocaleString()}
+                      </small>
+                    </div>
+                  </div>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
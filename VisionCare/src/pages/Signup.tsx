@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../auth/useAuth';
+import type { UserRole } from '../auth/types';
 import './Auth.css';
 
 export default function Signup() {
@@ -7,16 +9,28 @@ export default function Signup() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('patient');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { signup } = useAuth();
   const navigate = useNavigate();
 
-  const handleSignup = (e: React.FormEvent) => {
+  const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Simple validation - in production, use real authentication
-    if (name && email && password && password === confirmPassword) {
-      localStorage.setItem('isAuthenticated', 'true');
-      navigate('/dashboard');
-    } else if (password !== confirmPassword) {
-      alert('Passwords do not match!');
+    if (password !== confirmPassword) {
+      setError('Passwords do not match!');
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      await signup({ name, email, password, role });
+      navigate(role === 'clinician' ? '/clinician' : '/dashboard', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign up failed');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -40,6 +54,8 @@ export default function Signup() {
           </div>
 
           <form className="auth-form" onSubmit={handleSignup}>
+            {error && <div className="auth-error" role="alert">{error}</div>}
+
             <div className="form-group">
               <label htmlFor="name">Full Name</label>
               <input
@@ -52,6 +68,14 @@ export default function Signup() {
               />
             </div>
 
+            <div className="form-group">
+              <label htmlFor="role">I am a</label>
+              <select id="role" value={role} onChange={(e) => setRole(e.target.value as UserRole)}>
+                <option value="patient">Patient monitoring my own eyes</option>
+                <option value="clinician">Clinician reviewing patients</option>
+              </select>
+            </div>
+
             <div className="form-group">
               <label htmlFor="email">Email Address</label>
               <input
@@ -96,8 +120,8 @@ export default function Signup() {
               </label>
             </div>
 
-            <button type="submit" className="auth-button">
-              Create Account
+            <button type="submit" className="auth-button" disabled={submitting}>
+              {submitting ? 'Creating Account...' : 'Create Account'}
             </button>
           </form>
 
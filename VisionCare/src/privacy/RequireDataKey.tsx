@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Outlet, useNavigate } from 'react-router-dom';
+import { useAuth, useCurrentUser } from '../auth/useAuth';
+import { deleteUserSessions } from '../storage/sessionStore';
+import { clearKeyParams, hasDataKey, hasKeyParams, unlockDataKey } from './dataKey';
+import '../pages/Auth.css';
+
+/**
+ * Route guard behind <RequireAuth>: renders nested routes once the user's
+ * data key is unlocked. Sign-in unlocks it; the key is never stored, so after
+ * a reload (even of a remembered sign-in), or when the data was encrypted
+ * under an earlier password, the user has to enter that password here.
+ */
+export default function RequireDataKey() {
+  const user = useCurrentUser();
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [unlocked, setUnlocked] = useState(() => hasDataKey(user.id));
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const signInAgain = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      if (await unlockDataKey(user.id, password)) setUnlocked(true);
+      else setError('That password does not unlock the data on this device');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock your data');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm('Erase the encrypted sessions on this device? This cannot be undone.')) return;
+    try {
+      await deleteUserSessions(user.id);
+      clearKeyParams(user.id);
+      await signInAgain();
+    } catch (err) {
+      console.error('Failed to erase sessions:', err);
+      setError('Could not erase the stored sessions');
+    }
+  };
+
+  if (unlocked) return <Outlet />;
+
+  const hasParams = hasKeyParams(user.id);
+  return (
+    <div className="auth-container">
+      <div className="auth-content">
+        <div className="auth-card">
+          <div className="auth-header">
+            <div className="auth-logo">
+              <span className="logo-icon">🔒</span>
+              <span className="logo-text">VisionCare</span>
+            </div>
+            <h1 className="auth-title">Unlock Your Data</h1>
+            <p className="auth-subtitle">
+              {hasParams
+                ? 'Your sessions are encrypted with your password. Enter the password they were saved under.'
+                : 'Sign in again to set up encryption for the sessions stored on this device.'}
+            </p>
+          </div>
+
+          {hasParams ? (
+            <form className="auth-form" onSubmit={handleSubmit}>
+              {error && <div className="auth-error" role="alert">{error}</div>}
+
+              <div className="form-group">
+                <label htmlFor="password">Password</label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+
+              <button type="submit" className="auth-button" disabled={submitting}>
+                {submitting ? 'Unlocking...' : 'Unlock'}
+              </button>
+            </form>
+          ) : (
+            <div className="auth-form">
+              <button className="auth-button" onClick={signInAgain}>Sign in again</button>
+            </div>
+          )}
+
+          {hasParams && (
+            <div className="auth-footer">
+              <p>
+                Changed your password and lost the old one?{' '}
+                <button onClick={handleErase} className="link-button">
+                  Erase the stored sessions
+                </button>
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { PBKDF2_ITERATIONS, deriveDataKey, fromBase64, randomSalt, seal, toBase64, unseal } from './encryption';
+
+// The salt for deriving a user's data key, plus a known value sealed under
+// that key so a password can be checked without storing anything derived
+// from it in the clear.
+interface KeyParams {
+  salt: string;
+  iterations: number;
+  check: { iv: string; data: string };
+}
+
+interface ActiveKey {
+  userId: string;
+  key: CryptoKey;
+}
+
+const CHECK_CONTEXT = 'key-check';
+const CHECK_VALUE = 'visioncare';
+
+export const keyParamsKey = (userId: string) => `dataKey:${userId}`;
+
+/** Thrown when encrypted data is used before the user's data key is unlocked. */
+export class DataLockedError extends Error {
+  constructor() {
+    super('Stored data is locked until you enter your password');
+    this.name = 'DataLockedError';
+  }
+}
+
+// Only one user is signed in at a time. The key lives in memory only, so a
+// reload locks the data until the password is entered again.
+let active: ActiveKey | null = null;
+
+function loadParams(userId: string): KeyParams | null {
+  const raw = localStorage.getItem(keyParamsKey(userId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as KeyParams;
+  } catch {
+    return null;
+  }
+}
+
+export function hasKeyParams(userId: string): boolean {
+  return loadParams(userId) !== null;
+}
+
+/**
+ * Derives the user's data key from their password and makes it the active
+ * key. The first unlock for a user creates their salt. Returns false, and
+ * leaves the data locked, when the password is not the one the data was
+ * encrypted with (e.g. after a password reset).
+ */
+export async function unlockDataKey(userId: string, password: string): Promise<boolean> {
+  const params = loadParams(userId);
+  let key: CryptoKey;
+
+  if (params) {
+    key = await deriveDataKey(password, fromBase64(params.salt), params.iterations);
+    const check = { iv: fromBase64(params.check.iv), data: fromBase64(params.check.data).buffer };
+    try {
+      if ((await unseal<string>(key, check, CHECK_CONTEXT)) !== CHECK_VALUE) return false;
+    } catch {
+      return false;
+    }
+  } else {
+    const salt = randomSalt();
+    key = await deriveDataKey(password, salt);
+    const check = await seal(key, CHECK_VALUE, CHECK_CONTEXT);
+    const created: KeyParams = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: { iv: toBase64(check.iv), data: toBase64(check.data) },
+    };
+    localStorage.setItem(keyParamsKey(userId), JSON.stringify(created));
+  }
+
+  active = { userId, key };
+  return true;
+}
+
+/** Locks the user's data. */
+export function forgetDataKey(userId: string) {
+  if (active?.userId === userId) active = null;
+}
+
+export function hasDataKey(userId: string): boolean {
+  return active?.userId === userId;
+}
+
+/** The active key for `userId`; throws DataLockedError when it is locked. */
+export function getDataKey(userId: string): CryptoKey {
+  if (active?.userId !== userId) throw new DataLockedError();
+  return active.key;
+}
+
+/** Locks every user's data; run on sign-out. */
+export function lockDataKeys() {
+  active = null;
+}
+
+/** Drops the user's salt, so the next sign-in starts a new key. */
+export function clearKeyParams(userId: string) {
+  localStorage.removeItem(keyParamsKey(userId));
+}
@@ -0,0 +1,66 @@
+// AES-GCM encryption of stored data under a key derived from the user's
+// password. Keys are created non-extractable, so scripts can use them but
+// never read the key bytes.
+
+export const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface Sealed {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export function randomSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+export async function deriveDataKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Encrypts a JSON value. `context` is authenticated but not encrypted: a
+ * sealed value only opens under the same context, so ciphertext cannot be
+ * swapped between records.
+ */
+export async function seal(key: CryptoKey, value: unknown, context: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return { iv, data };
+}
+
+/** Decrypts a sealed value; rejects when the key or context does not match. */
+export async function unseal<T>(key: CryptoKey, sealed: Sealed, context: string): Promise<T> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    sealed.data,
+  );
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+}
+
+export function toBase64(bytes: Uint8Array | ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
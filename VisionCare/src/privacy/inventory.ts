@@ -0,0 +1,106 @@
+import { mockUserTables } from '../api/mockRoutes';
+import { activityKey } from '../storage/activityStore';
+import { breakConfigKey, breakStatsKey } from '../storage/breakStore';
+import { calibrationKey } from '../storage/calibrationStore';
+import { cameraDeviceKey } from '../storage/cameraStore';
+import { fatigueConfigKey } from '../storage/fatigueStore';
+import { distanceCalibrationKey } from '../storage/postureStore';
+import { countSessions, deleteUserSessions } from '../storage/sessionStore';
+import { settingsKey } from '../storage/settingsStore';
+import { forgetDataKey, keyParamsKey } from './dataKey';
+
+export interface InventoryItem {
+  id: string;
+  label: string;
+  description: string;
+  /** Stored entries; 0 means nothing of this kind is on the device. */
+  entries: number;
+  bytes: number;
+  encrypted: boolean;
+}
+
+// Everything the app keeps in localStorage for a user. Add new stores here
+// so they show up in the inventory and are erased by a wipe. They stay
+// unencrypted on purpose: their stores read them synchronously, and they hold
+// preferences, calibrations and break counts rather than session measurements.
+const LOCAL_ITEMS: { id: string; label: string; description: string; key: (userId: string) => string }[] = [
+  { id: 'settings', label: 'Settings', description: 'Thresholds, intervals and analyzer choices', key: settingsKey },
+  { id: 'calibration', label: 'Blink calibration', description: 'Your eye-openness baseline', key: calibrationKey },
+  {
+    id: 'distanceCalibration',
+    label: 'Distance calibration',
+    description: 'Face size at your usual screen distance',
+    key: distanceCalibrationKey,
+  },
+  { id: 'breakConfig', label: 'Break schedule', description: 'Reminder intervals', key: breakConfigKey },
+  { id: 'breakStats', label: 'Break statistics', description: 'Breaks taken and skipped', key: breakStatsKey },
+  { id: 'fatigueConfig', label: 'Fatigue alerts', description: 'Fatigue alert sensitivity', key: fatigueConfigKey },
+  { id: 'cameraDevice', label: 'Camera choice', description: 'The camera you picked last', key: cameraDeviceKey },
+  { id: 'sessionActivity', label: 'Session activity', description: 'The activity you tagged your last session with', key: activityKey },
+  {
+    id: 'dataKey',
+    label: 'Encryption salt',
+    description: 'Lets your password re-create the session key; holds no data',
+    key: keyParamsKey,
+  },
+];
+
+// Tables of the built-in mock server, which keeps the server side of accounts
+// in localStorage when no API is configured
+const MOCK_TABLE_LABELS: Record<string, { label: string; description: string }> = {
+  users: { label: 'Account', description: 'Name, email, role and password hash' },
+  accessTokens: { label: 'Access tokens', description: 'Short-lived sign-in tokens' },
+  refreshTokens: { label: 'Refresh tokens', description: 'Keep you signed in between visits' },
+  resetTokens: { label: 'Password reset links', description: 'Pending password reset requests' },
+  invites: { label: 'Care invites', description: 'Invitations between you and clinicians' },
+  careLinks: { label: 'Care links', description: 'Clinicians you share with, or patients who share with you' },
+  sharedSessions: { label: 'Shared sessions', description: 'Session summaries you shared with clinicians' },
+  annotations: { label: 'Clinician notes', description: 'Notes and flags on shared sessions' },
+};
+
+/** What the app has stored about the user on this device. Camera frames are never stored. */
+export async function dataInventory(userId: string): Promise<InventoryItem[]> {
+  const sessions = await countSessions(userId);
+  const items: InventoryItem[] = [
+    {
+      id: 'sessions',
+      label: 'Monitoring sessions',
+      description: 'Blink, redness and emotion measurements in 30 second buckets',
+      entries: sessions.total,
+      bytes: sessions.bytes,
+      encrypted: sessions.total > 0 && sessions.encrypted === sessions.total,
+    },
+  ];
+
+  for (const item of LOCAL_ITEMS) {
+    const raw = localStorage.getItem(item.key(userId));
+    items.push({
+      id: item.id,
+      label: item.label,
+      description: item.description,
+      entries: raw === null ? 0 : 1,
+      bytes: raw?.length ?? 0,
+      encrypted: false,
+    });
+  }
+
+  for (const table of mockUserTables) {
+    const { rows, bytes } = table.count(userId);
+    const copy = MOCK_TABLE_LABELS[table.table] ?? { label: table.table, description: 'Mock server table' };
+    items.push({ id: `mockApi:${table.table}`, ...copy, entries: rows, bytes, encrypted: false });
+  }
+  return items;
+}
+
+/**
+ * Erases everything the app stored about the user on this device and signs
+ * them out. `signOut` runs before the mock server's tables are erased, so it
+ * can still revoke the refresh token it finds there.
+ */
+export async function wipeUserData(userId: string, signOut: () => Promise<void>): Promise<void> {
+  await deleteUserSessions(userId);
+  forgetDataKey(userId);
+  for (const item of LOCAL_ITEMS) localStorage.removeItem(item.key(userId));
+  await signOut();
+  for (const table of mockUserTables) table.erase(userId);
+}
@@ -0,0 +1,41 @@
+import type { PreviewMode } from '../settings/settings';
+
+// Width of the copy the blurred preview is scaled up from: each of its
+// pixels covers a patch of face far larger than an eye.
+const BLUR_WIDTH = 24;
+
+const LANDMARKS_BACKGROUND = '#0f172a';
+
+/**
+ * Returns a function that paints a camera frame onto the preview canvas as
+ * the privacy setting allows. Frames are never kept: the blurred mode's
+ * scratch copy is cleared as soon as it has been drawn.
+ */
+export function createPreviewPainter(mode: PreviewMode) {
+  let scratch: HTMLCanvasElement | null = null;
+
+  return (ctx: CanvasRenderingContext2D, image: CanvasImageSource) => {
+    const { width, height } = ctx.canvas;
+
+    if (mode === 'camera') {
+      ctx.drawImage(image, 0, 0, width, height);
+      return;
+    }
+    if (mode === 'landmarks') {
+      ctx.fillStyle = LANDMARKS_BACKGROUND;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    scratch ??= document.createElement('canvas');
+    scratch.width = BLUR_WIDTH;
+    scratch.height = Math.max(1, Math.round((BLUR_WIDTH * height) / width));
+    const small = scratch.getContext('2d');
+    if (!small) return;
+    small.drawImage(image, 0, 0, scratch.width, scratch.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(scratch, 0, 0, width, height);
+    small.clearRect(0, 0, scratch.width, scratch.height);
+  };
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openVideoFile } from './frameSources';
+
+/** Stands in for a <video>: loads on `src` and seeks within the length it finds once it has seen the end. */
+class FakeVideo extends EventTarget {
+  muted = false;
+  playsInline = false;
+  preload = '';
+  videoWidth = 640;
+  videoHeight = 480;
+  duration: number;
+  private time = 0;
+  private readonly length: number;
+
+  constructor(duration: number, length = duration) {
+    super();
+    this.duration = duration;
+    this.length = length;
+  }
+
+  set src(_url: string) {
+    queueMicrotask(() => this.dispatchEvent(new Event('loadeddata')));
+  }
+
+  get currentTime() {
+    return this.time;
+  }
+
+  set currentTime(seconds: number) {
+    this.time = Math.min(seconds, this.length);
+    if (seconds >= this.length) this.duration = this.length;
+    queueMicrotask(() => this.dispatchEvent(new Event('seeked')));
+  }
+
+  removeAttribute() {}
+  load() {}
+}
+
+const FILE = { name: 'clip.webm' } as File;
+
+function useVideo(video: FakeVideo) {
+  vi.stubGlobal('document', { createElement: () => video });
+}
+
+beforeEach(() => {
+  vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:clip');
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('openVideoFile', () => {
+  it('samples the whole video at the requested rate', async () => {
+    useVideo(new FakeVideo(2));
+
+    const source = await openVideoFile(FILE, 10);
+    const times: number[] = [];
+    for await (const frame of source.frames()) times.push(frame.mediaTime);
+
+    expect(source.frameCount).toBe(20);
+    expect(source.durationMs).toBe(2000);
+    expect(times).toHaveLength(20);
+    expect(times[19]).toBe(1900);
+  });
+
+  it('finds the length of a video that reports an infinite duration', async () => {
+    useVideo(new FakeVideo(Infinity, 1.5));
+
+    const source = await openVideoFile(FILE, 10);
+
+    expect(source.frameCount).toBe(15);
+    expect(source.durationMs).toBe(1500);
+  });
+
+  it('refuses a video whose length cannot be found', async () => {
+    useVideo(new FakeVideo(Infinity));
+
+    await expect(openVideoFile(FILE, 10)).rejects.toThrow('"clip.webm" does not report its length, so it cannot be replayed');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:clip');
+  });
+});
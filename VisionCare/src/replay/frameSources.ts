@@ -0,0 +1,139 @@
+import type { FrameSource } from '../vision/types';
+
+export interface ReplayFrame {
+  /** Position in the recording, in milliseconds. */
+  mediaTime: number;
+  image: FrameSource;
+  width: number;
+  height: number;
+}
+
+/** A recording that can be stepped through frame by frame. */
+export interface ReplaySource {
+  readonly name: string;
+  readonly frameCount: number;
+  readonly durationMs: number;
+  frames(): AsyncIterable<ReplayFrame>;
+  dispose(): void;
+}
+
+const IMAGE_FILE = /\.(png|jpe?g|webp|bmp)$/i;
+
+function waitForEvent(target: EventTarget, type: string) {
+  return new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Failed while waiting for "${type}"`));
+    };
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(type, onEvent);
+    target.addEventListener('error', onError);
+  });
+}
+
+/**
+ * The video's length in seconds. WebM files from MediaRecorder carry none, so
+ * the browser reports Infinity until it has seen their end; seeking past it
+ * makes it look.
+ */
+async function resolveDuration(video: HTMLVideoElement) {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await seeked;
+  return video.duration;
+}
+
+/**
+ * Steps through a video file by seeking to each sample time instead of
+ * playing it, so analysis runs as fast as the pipeline allows and every run
+ * sees exactly the same frames.
+ */
+export async function openVideoFile(file: File, fps: number): Promise<ReplaySource> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  let duration: number;
+  try {
+    await waitForEvent(video, 'loadeddata');
+    duration = await resolveDuration(video);
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new Error(`"${file.name}" could not be decoded as a video`);
+  }
+  if (!Number.isFinite(duration) || duration <= 0) {
+    URL.revokeObjectURL(url);
+    throw new Error(`"${file.name}" does not report its length, so it cannot be replayed`);
+  }
+
+  const durationMs = duration * 1000;
+  const frameCount = Math.max(1, Math.floor((durationMs * fps) / 1000));
+
+  return {
+    name: file.name,
+    frameCount,
+    durationMs,
+    async *frames() {
+      for (let i = 0; i < frameCount; i++) {
+        const mediaTime = (i * 1000) / fps;
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = mediaTime / 1000;
+        await seeked;
+        yield { mediaTime, image: video, width: video.videoWidth, height: video.videoHeight };
+      }
+    },
+    dispose() {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+async function loadImage(file: File) {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Treats a set of still images, e.g. a directory of extracted frames, as a
+ * recording at `fps`. Frames play in natural file-name order (frame2 before
+ * frame10).
+ */
+export function openImageSequence(files: File[], fps: number, name = 'Image sequence'): ReplaySource {
+  const images = files
+    .filter((file) => file.type.startsWith('image/') || IMAGE_FILE.test(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  if (images.length === 0) throw new Error('No image files found in the selection');
+
+  return {
+    name,
+    frameCount: images.length,
+    durationMs: (images.length * 1000) / fps,
+    async *frames() {
+      for (let i = 0; i < images.length; i++) {
+        const image = await loadImage(images[i]);
+        yield { mediaTime: (i * 1000) / fps, image, width: image.naturalWidth, height: image.naturalHeight };
+      }
+    },
+    dispose() {},
+  };
+}
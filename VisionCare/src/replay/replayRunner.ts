@@ -0,0 +1,134 @@
+import { VisionEngine } from '../vision/VisionEngine';
+import { createFaceBackend, expressionDetectorFor } from '../vision/faceBackend';
+import { BlinkAnalyzer, DEFAULT_BLINK_BASELINE, type BlinkBaseline } from '../vision/analyzers/blinkAnalyzer';
+import { RednessAnalyzer } from '../vision/analyzers/rednessAnalyzer';
+import { EmotionAnalyzer } from '../vision/analyzers/emotionAnalyzer';
+import { recentBlinkRate, stressIndex } from '../vision/affect';
+import { addBlink, EMPTY_BLINK_QUALITY, type BlinkQualityStats } from '../vision/blinkStats';
+import { SessionLog, type SessionLogData } from '../reports/sessionLog';
+import { DEFAULT_SETTINGS, healthyBlinkRange, type AppSettings } from '../settings/settings';
+import type { ReplaySource } from './frameSources';
+
+export interface ReplayOptions {
+  /** Per-user blink baseline; the defaults match an uncalibrated dashboard. */
+  baseline?: BlinkBaseline;
+  /** Whether the expression models of the settings' backend are loaded. */
+  emotions: boolean;
+  /** The user's analyzer settings and backend; disabled analyzers are not run. */
+  settings?: AppSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: ReplayProgress) => void;
+}
+
+export interface ReplayProgress {
+  framesDone: number;
+  frameCount: number;
+  /** Recording time analysed per second of wall-clock time. */
+  speed: number;
+}
+
+export interface ReplayResult {
+  sourceName: string;
+  /** Wall-clock time the replay started; event timestamps are offsets from it. */
+  startedAt: number;
+  durationMs: number;
+  framesProcessed: number;
+  framesWithFace: number;
+  elapsedMs: number;
+  log: SessionLogData;
+  blinkQuality: BlinkQualityStats;
+}
+
+// Progress is reported at most this often to keep React renders cheap
+const PROGRESS_INTERVAL_MS = 200;
+
+/**
+ * Runs a recording through the same face backend + analyzer pipeline as the live
+ * dashboard. Frame timestamps come from the recording, not the wall clock,
+ * and every frame waits for asynchronous analyzers, so the metrics depend
+ * only on the recording and not on how fast this machine is.
+ */
+export async function runReplay(source: ReplaySource, options: ReplayOptions): Promise<ReplayResult> {
+  const { baseline = DEFAULT_BLINK_BASELINE, emotions, settings = DEFAULT_SETTINGS, signal, onProgress } = options;
+  const startedAt = Date.now();
+  const log = new SessionLog(startedAt);
+  let blinkQuality = EMPTY_BLINK_QUALITY;
+  const blinkTimes: number[] = [];
+
+  const backend = createFaceBackend(settings.analysis.backend, { expressions: emotions && settings.features.emotion });
+  const engine = new VisionEngine();
+  engine.setQualityGate(settings.quality.minScore);
+  engine.register(new BlinkAnalyzer(baseline));
+  if (settings.features.redness) engine.register(new RednessAnalyzer({ intervalMs: settings.redness.intervalMs }));
+  if (emotions && settings.features.emotion) {
+    engine.register(new EmotionAnalyzer({ ...settings.emotion, detect: expressionDetectorFor(backend) }));
+  }
+
+  engine.on('blink', ({ timestamp }) => {
+    blinkTimes.push(timestamp);
+    log.recordBlink(timestamp);
+  });
+  engine.on('blinkEnd', (event) => {
+    blinkQuality = addBlink(blinkQuality, event);
+    log.recordBlinkEnd(event.startedAt, event.duration, event.kind);
+  });
+  engine.on('redness', ({ timestamp, left, right }) => {
+    // Frames that could not be measured are left out of the timeline
+    if (left.status !== 'ok' || right.status !== 'ok') return;
+    log.recordRedness({ timestamp, left: left.index, right: right.index, confidence: Math.min(left.confidence, right.confidence) });
+  });
+  engine.on('emotion', ({ timestamp, emotion, confidence, expressions, affect }) => {
+    const blinkRate = recentBlinkRate(blinkTimes, timestamp, startedAt);
+    const stress = stressIndex(affect, blinkRate, healthyBlinkRange(settings));
+    log.recordEmotion({ timestamp, emotion, confidence, expressions, ...affect, stress });
+  });
+
+  let framesProcessed = 0;
+  let framesWithFace = 0;
+  let lastProgress = 0;
+
+  try {
+    for await (const frame of source.frames()) {
+      signal?.throwIfAborted();
+
+      const landmarks = (await backend.detect(frame.image))[0] ?? null;
+
+      engine.process({
+        timestamp: startedAt + frame.mediaTime,
+        landmarks,
+        image: frame.image,
+        width: frame.width,
+        height: frame.height,
+      });
+      await engine.idle();
+
+      framesProcessed += 1;
+      if (landmarks) framesWithFace += 1;
+
+      const now = Date.now();
+      if (onProgress && (now - lastProgress >= PROGRESS_INTERVAL_MS || framesProcessed === source.frameCount)) {
+        lastProgress = now;
+        const elapsed = Math.max(1, now - startedAt);
+        onProgress({
+          framesDone: framesProcessed,
+          frameCount: source.frameCount,
+          speed: frame.mediaTime / elapsed,
+        });
+      }
+    }
+  } finally {
+    engine.dispose();
+    await backend.close();
+  }
+
+  return {
+    sourceName: source.name,
+    startedAt,
+    durationMs: source.durationMs,
+    framesProcessed,
+    framesWithFace,
+    elapsedMs: Date.now() - startedAt,
+    log: log.snapshot(),
+    blinkQuality,
+  };
+}
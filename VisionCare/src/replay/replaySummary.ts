@@ -0,0 +1,60 @@
+import { formatClock } from '../utils/time';
+import { dominantExpression } from '../vision/affect';
+import type { Emotion } from '../metrics/types';
+import type { ReplayResult } from './replayRunner';
+
+export interface ReplaySummary {
+  blinkCount: number;
+  /** Blinks per minute of recording. */
+  blinkRate: number;
+  leftRedness: number | null;
+  rightRedness: number | null;
+  dominantEmotion: Emotion | null;
+  /** Fraction of frames in which a face was tracked. */
+  faceCoverage: number;
+}
+
+export interface ReplayTimelinePoint {
+  key: string;
+  label: string;
+  blinkRate: number;
+  redness: number | null;
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+export function summarizeReplay({ log, durationMs, framesProcessed, framesWithFace }: ReplayResult): ReplaySummary {
+  return {
+    blinkCount: log.blinks.length,
+    blinkRate: durationMs > 0 ? log.blinks.length / (durationMs / 60000) : 0,
+    leftRedness: mean(log.redness.map((r) => r.left)),
+    rightRedness: mean(log.redness.map((r) => r.right)),
+    dominantEmotion: dominantExpression(log.emotions.map((e) => e.expressions)),
+    faceCoverage: framesProcessed > 0 ? framesWithFace / framesProcessed : 0,
+  };
+}
+
+/** Splits the recording into fixed windows labelled by recording time. */
+export function replayTimeline({ log, startedAt, durationMs }: ReplayResult, bucketMs: number): ReplayTimelinePoint[] {
+  const count = Math.max(1, Math.ceil(durationMs / bucketMs));
+  const blinks = new Array<number>(count).fill(0);
+  const redness: number[][] = Array.from({ length: count }, () => []);
+  const bucketOf = (timestamp: number) =>
+    Math.min(count - 1, Math.max(0, Math.floor((timestamp - startedAt) / bucketMs)));
+
+  log.blinks.forEach(({ timestamp }) => (blinks[bucketOf(timestamp)] += 1));
+  log.redness.forEach(({ timestamp, left, right }) => redness[bucketOf(timestamp)].push((left + right) / 2));
+
+  return blinks.map((blinkCount, i) => {
+    // The last window may be shorter than bucketMs
+    const windowMs = Math.min(bucketMs, durationMs - i * bucketMs);
+    return {
+      key: String(i),
+      label: formatClock(i * bucketMs),
+      blinkRate: windowMs > 0 ? blinkCount / (windowMs / 60000) : 0,
+      redness: mean(redness[i]),
+    };
+  });
+}
@@ -0,0 +1,77 @@
+import { EMOTIONS } from '../metrics/types';
+import type { SessionReport } from './sessionReport';
+
+const COLUMNS = [
+  'timestamp',
+  'time',
+  'type',
+  'blink_duration_ms',
+  'blink_kind',
+  'left_redness',
+  'right_redness',
+  'redness_confidence',
+  'emotion',
+  'confidence',
+  'valence',
+  'arousal',
+  'stress_index',
+  'p_neutral',
+  'p_happy',
+  'p_sad',
+  'p_angry',
+  'p_fearful',
+  'p_disgusted',
+  'p_surprised',
+] as const;
+
+type Column = (typeof COLUMNS)[number];
+type Row = { timestamp: number; type: string } & Partial<Record<Column, string | number>>;
+
+function escapeCell(value: string | number | undefined) {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per measurement in long format, sorted by time. The `type` column
+ * says which of the other columns are filled in.
+ */
+export function reportToCsv({ series }: SessionReport): string {
+  const rows: Row[] = [
+    ...series.blinks.map((b) => ({
+      timestamp: b.timestamp,
+      type: 'blink',
+      blink_duration_ms: b.durationMs,
+      blink_kind: b.kind,
+    })),
+    ...series.redness.map((r) => ({
+      timestamp: r.timestamp,
+      type: 'redness',
+      left_redness: r.left.toFixed(2),
+      right_redness: r.right.toFixed(2),
+      redness_confidence: r.confidence.toFixed(2),
+    })),
+    ...series.emotions.map((e) => ({
+      timestamp: e.timestamp,
+      type: 'emotion',
+      emotion: e.emotion,
+      confidence: e.confidence.toFixed(3),
+      valence: e.valence.toFixed(3),
+      arousal: e.arousal.toFixed(3),
+      stress_index: e.stress.toFixed(1),
+      ...Object.fromEntries(EMOTIONS.map((label) => [`p_${label}`, e.expressions[label]?.toFixed(4)])),
+    })),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  const lines = rows.map((row) =>
+    COLUMNS.map((column) =>
+      escapeCell(column === 'time' ? new Date(row.timestamp).toISOString() : row[column]),
+    ).join(','),
+  );
+  return [COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function reportToJson(report: SessionReport): string {
+  return JSON.stringify(report, null, 2);
+}
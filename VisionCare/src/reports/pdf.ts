@@ -0,0 +1,144 @@
+// A small PDF 1.4 writer: enough for text, filled rectangles and lines on A4
+// pages using the standard Helvetica fonts, so reports need no dependency.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type Rgb = [number, number, number];
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+}
+
+// Helvetica average glyph width as a fraction of the font size, used for
+// right-aligning and wrapping. Exact metrics are not worth the bytes here.
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+export function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((c) => c / 255) as Rgb;
+}
+
+// The standard fonts only cover Latin-1 here; drop anything else (emoji etc.)
+function sanitize(text: string) {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '')
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function formatNumber(n: number) {
+  return Number(n.toFixed(2)).toString();
+}
+
+function colorOp(color: Rgb, op: 'rg' | 'RG') {
+  return `${color.map(formatNumber).join(' ')} ${op}`;
+}
+
+export function estimateTextWidth(text: string, size: number) {
+  return text.length * size * AVERAGE_GLYPH_WIDTH;
+}
+
+/** Splits text into lines that fit `maxWidth` at the given font size. */
+export function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * AVERAGE_GLYPH_WIDTH)));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Coordinates are in points from the top-left corner, the way the page is
+ * laid out; they are flipped to PDF's bottom-left origin when written.
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, { size = 11, bold = false, color = [0, 0, 0] }: TextOptions = {}) {
+    this.current.push(
+      `BT ${colorOp(color, 'rg')} /${bold ? 'F2' : 'F1'} ${size} Tf ` +
+        `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} Td (${sanitize(text)}) Tj ET`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Rgb) {
+    this.current.push(
+      `${colorOp(color, 'rg')} ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: Rgb, width = 1) {
+    this.current.push(
+      `${colorOp(color, 'RG')} ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`,
+    );
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    // Object 1: catalog, 2: page tree, 3-4: fonts, then a page and a content
+    // stream per page.
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, i) => {
+      const pageId = pageIds[i];
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Everything is Latin-1, so string offsets equal byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+  }
+}
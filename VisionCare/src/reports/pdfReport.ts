@@ -0,0 +1,146 @@
+import { formatDuration } from '../history/trends';
+import type { HealthVerdict } from '../insights/verdicts';
+import { hexToRgb, PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, wrapText, type Rgb } from './pdf';
+import type { SessionReport } from './sessionReport';
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT: Rgb = [0.12, 0.12, 0.16];
+const MUTED: Rgb = [0.45, 0.45, 0.5];
+const RULE: Rgb = [0.85, 0.85, 0.88];
+const ACCENT = hexToRgb('#6366f1');
+const CHART_HEIGHT = 110;
+
+function formatPercent(value: number | null) {
+  return value === null ? '--' : `${(value * 100).toFixed(0)}%`;
+}
+
+/** Blinks counted in each whole minute of the session. */
+function blinksPerMinute(report: SessionReport) {
+  const minutes = Math.max(1, Math.ceil(report.durationMs / 60000));
+  const counts = new Array<number>(minutes).fill(0);
+  for (const blink of report.series.blinks) {
+    const minute = Math.floor((blink.timestamp - report.startedAt) / 60000);
+    if (minute >= 0 && minute < minutes) counts[minute] += 1;
+  }
+  return counts;
+}
+
+/** Lays out the printable one-to-two page summary of a session report. */
+export function reportToPdf(report: SessionReport): Uint8Array<ArrayBuffer> {
+  const pdf = new PdfDocument();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    y += 14;
+    pdf.text(MARGIN, y, title, { size: 13, bold: true, color: ACCENT });
+    y += 6;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE);
+    y += 18;
+  };
+
+  const row = (label: string, value: string) => {
+    ensureSpace(18);
+    pdf.text(MARGIN, y, label, { size: 10, color: MUTED });
+    pdf.text(MARGIN + 200, y, value, { size: 10, bold: true, color: TEXT });
+    y += 18;
+  };
+
+  const verdict = (label: string, { status, color, message }: HealthVerdict) => {
+    ensureSpace(22);
+    pdf.rect(MARGIN, y - 11, 10, 14, hexToRgb(color));
+    pdf.text(MARGIN + 18, y, `${label}: ${status}`, { size: 11, bold: true, color: TEXT });
+    if (message) pdf.text(MARGIN + 250, y, message, { size: 10, color: MUTED });
+    y += 22;
+  };
+
+  // Header
+  pdf.text(MARGIN, y + 10, 'VisionCare Session Report', { size: 22, bold: true, color: TEXT });
+  y += 36;
+  pdf.text(MARGIN, y, `${report.subject.name} <${report.subject.email}>`, { size: 11, color: MUTED });
+  y += 16;
+  pdf.text(
+    MARGIN,
+    y,
+    `Session started ${new Date(report.startedAt).toLocaleString()} - duration ${formatDuration(report.durationMs)}`,
+    { size: 11, color: MUTED },
+  );
+  y += 10;
+
+  heading('Assessment');
+  verdict('Eye health', report.verdicts.eyeHealth);
+  verdict('Blink rate', report.verdicts.blinkHealth);
+  verdict('Blink quality', report.verdicts.blinkQuality);
+
+  const { summary, healthyBlinkRange: healthy } = report;
+  heading('Measurements');
+  row('Total blinks', String(summary.totalBlinks));
+  row('Current blink rate', `${summary.currentBPM} BPM`);
+  row('Session average', `${summary.avgBlinkRate.toFixed(1)} BPM (healthy ${healthy.min}-${healthy.max})`);
+  row('Partial blinks', formatPercent(summary.partialBlinkRatio));
+  row(
+    'Mean blink duration',
+    summary.meanBlinkDurationMs === null ? '--' : `${Math.round(summary.meanBlinkDurationMs)} ms`,
+  );
+  row(
+    'Redness index (left / right)',
+    summary.leftRedness === null || summary.rightRedness === null
+      ? 'Not measured'
+      : `${summary.leftRedness.toFixed(1)} / ${summary.rightRedness.toFixed(1)}`,
+  );
+  row('Dominant emotion', summary.dominantEmotion ?? 'No data');
+  row('Screen stress index', summary.meanStressIndex === null ? 'No data' : `${Math.round(summary.meanStressIndex)} / 100`);
+
+  const counts = blinksPerMinute(report);
+  heading('Blinks per minute');
+  ensureSpace(CHART_HEIGHT + 24);
+  const maxCount = Math.max(healthy.max, ...counts);
+  const slot = CONTENT_WIDTH / counts.length;
+  const barWidth = Math.max(1, Math.min(24, slot * 0.7));
+  const baseline = y + CHART_HEIGHT;
+  const bandTop = baseline - (healthy.max / maxCount) * CHART_HEIGHT;
+  const bandBottom = baseline - (healthy.min / maxCount) * CHART_HEIGHT;
+  pdf.rect(MARGIN, bandTop, CONTENT_WIDTH, bandBottom - bandTop, [0.86, 0.96, 0.91]);
+  counts.forEach((count, i) => {
+    const height = (count / maxCount) * CHART_HEIGHT;
+    pdf.rect(MARGIN + i * slot + (slot - barWidth) / 2, baseline - height, barWidth, height, ACCENT);
+  });
+  pdf.line(MARGIN, baseline, MARGIN + CONTENT_WIDTH, baseline, MUTED);
+  y = baseline + 14;
+  pdf.text(MARGIN, y, 'Minute 1', { size: 8, color: MUTED });
+  pdf.text(MARGIN + CONTENT_WIDTH - 50, y, `Minute ${counts.length}`, { size: 8, color: MUTED });
+  pdf.text(MARGIN + 120, y, `Shaded band: healthy range (${healthy.min}-${healthy.max} BPM)`, { size: 8, color: MUTED });
+  y += 10;
+
+  heading('Recommendations');
+  for (const recommendation of report.recommendations) {
+    for (const [i, line] of wrapText(recommendation, 11, CONTENT_WIDTH - 14).entries()) {
+      ensureSpace(16);
+      pdf.text(MARGIN + 14, y, line, { size: 11, color: TEXT });
+      if (i === 0) pdf.text(MARGIN, y, '-', { size: 11, color: ACCENT });
+      y += 16;
+    }
+  }
+
+  ensureSpace(40);
+  y += 20;
+  for (const line of wrapText(
+    `Generated ${new Date(report.generatedAt).toLocaleString()} by VisionCare. These webcam-based ` +
+      'measurements are a screening aid and not a medical diagnosis.',
+    8,
+    CONTENT_WIDTH,
+  )) {
+    pdf.text(MARGIN, y, line, { size: 8, color: MUTED });
+    y += 11;
+  }
+
+  return pdf.toBytes();
+}
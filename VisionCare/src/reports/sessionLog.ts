@@ -0,0 +1,50 @@
+import type { BlinkEvent, BlinkKind, EmotionSample, RednessSample } from '../metrics/types';
+
+export interface SessionLogData {
+  startedAt: number;
+  blinks: BlinkEvent[];
+  redness: RednessSample[];
+  emotions: EmotionSample[];
+}
+
+/**
+ * Keeps every raw measurement of the live session in memory so it can be
+ * exported. Unlike the SessionRecorder nothing is bucketed or persisted.
+ */
+export class SessionLog {
+  private readonly data: SessionLogData;
+
+  constructor(startedAt = Date.now()) {
+    this.data = { startedAt, blinks: [], redness: [], emotions: [] };
+  }
+
+  recordBlink(timestamp: number) {
+    this.data.blinks.push({ timestamp });
+  }
+
+  recordBlinkEnd(startedAt: number, durationMs: number, kind: BlinkKind) {
+    const last = this.data.blinks[this.data.blinks.length - 1];
+    if (last?.timestamp === startedAt) {
+      last.durationMs = durationMs;
+      last.kind = kind;
+    }
+  }
+
+  recordRedness(sample: RednessSample) {
+    this.data.redness.push(sample);
+  }
+
+  recordEmotion(sample: EmotionSample) {
+    this.data.emotions.push(sample);
+  }
+
+  /** A copy of everything recorded so far. */
+  snapshot(): SessionLogData {
+    return {
+      startedAt: this.data.startedAt,
+      blinks: this.data.blinks.map((entry) => ({ ...entry })),
+      redness: [...this.data.redness],
+      emotions: [...this.data.emotions],
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  DEFAULT_HEALTHY_BLINK_RANGE,
+  getBlinkHealthStatus,
+  getEyeHealthStatus,
+  getRednessRecommendations,
+  type BlinkRateBounds,
+  type BlinkRateRange,
+  type HealthVerdict,
+  type RednessThresholds,
+} from '../insights/verdicts';
+import {
+  getBlinkQualityStatus,
+  meanBlinkDuration,
+  partialBlinkRatio,
+  type BlinkQualityStats,
+} from '../vision/blinkStats';
+import type { Emotion } from '../metrics/types';
+import type { SessionLogData } from './sessionLog';
+
+export interface ReportSubject {
+  name: string;
+  email: string;
+}
+
+export interface ReportSnapshot {
+  currentBPM: number;
+  avgBlinkRate: number;
+  leftRedness: number | null;
+  rightRedness: number | null;
+  dominantEmotion: Emotion | null;
+  blinkQuality: BlinkQualityStats;
+  /** Length of the analysed recording; defaults to the time since the log started. */
+  durationMs?: number;
+  /** The user's verdict cut-offs; the defaults apply when omitted. */
+  rednessThresholds?: RednessThresholds;
+  blinkRateBounds?: BlinkRateBounds;
+  healthyBlinkRange?: BlinkRateRange;
+}
+
+export interface SessionReport {
+  subject: ReportSubject;
+  generatedAt: number;
+  startedAt: number;
+  durationMs: number;
+  healthyBlinkRange: BlinkRateRange;
+  summary: {
+    totalBlinks: number;
+    currentBPM: number;
+    avgBlinkRate: number;
+    leftRedness: number | null;
+    rightRedness: number | null;
+    dominantEmotion: Emotion | null;
+    partialBlinkRatio: number | null;
+    meanBlinkDurationMs: number | null;
+    /** Mean screen-stress index over the session's expression detections. */
+    meanStressIndex: number | null;
+  };
+  verdicts: {
+    eyeHealth: HealthVerdict;
+    blinkHealth: HealthVerdict;
+    blinkQuality: HealthVerdict;
+  };
+  recommendations: string[];
+  series: Omit<SessionLogData, 'startedAt'>;
+}
+
+export function buildSessionReport(
+  subject: ReportSubject,
+  log: SessionLogData,
+  snapshot: ReportSnapshot,
+  generatedAt = Date.now(),
+): SessionReport {
+  const { leftRedness, rightRedness, currentBPM, blinkQuality, rednessThresholds, blinkRateBounds } = snapshot;
+  const eyeHealth = getEyeHealthStatus(leftRedness, rightRedness, null, rednessThresholds);
+  const blinkHealth = getBlinkHealthStatus(currentBPM, blinkRateBounds);
+  const quality = getBlinkQualityStatus(blinkQuality);
+
+  const recommendations = getRednessRecommendations(leftRedness, rightRedness, rednessThresholds);
+  if (blinkHealth.message) recommendations.push(blinkHealth.message);
+  if (quality.message) recommendations.push(quality.message);
+
+  return {
+    subject,
+    generatedAt,
+    startedAt: log.startedAt,
+    durationMs: snapshot.durationMs ?? generatedAt - log.startedAt,
+    healthyBlinkRange: snapshot.healthyBlinkRange ?? DEFAULT_HEALTHY_BLINK_RANGE,
+    summary: {
+      totalBlinks: log.blinks.length,
+      currentBPM,
+      avgBlinkRate: snapshot.avgBlinkRate,
+      leftRedness,
+      rightRedness,
+      dominantEmotion: snapshot.dominantEmotion,
+      partialBlinkRatio: partialBlinkRatio(blinkQuality),
+      meanBlinkDurationMs: meanBlinkDuration(blinkQuality),
+      meanStressIndex: log.emotions.length > 0
+        ? log.emotions.reduce((sum, e) => sum + e.stress, 0) / log.emotions.length
+        : null,
+    },
+    verdicts: { eyeHealth, blinkHealth, blinkQuality: quality },
+    recommendations,
+    series: { blinks: log.blinks, redness: log.redness, emotions: log.emotions },
+  };
+}
+
+export function reportFileName(report: SessionReport, extension: string) {
+  const stamp = new Date(report.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `visioncare-session-${stamp}.${extension}`;
+}
@@ -0,0 +1,55 @@
+import type { TimerRequest, TimerTick } from './workers/timerProtocol';
+
+const callbacks = new Map<number, { callback: () => void; repeat: boolean }>();
+let worker: Worker | null = null;
+let nextId = 0;
+let failed = typeof Worker === 'undefined';
+
+function getWorker(): Worker | null {
+  if (worker || failed) return worker;
+  try {
+    worker = new Worker(new URL('./workers/timer.worker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.error('Timer worker unavailable, falling back to page timers:', err);
+    failed = true;
+    return null;
+  }
+  worker.addEventListener('message', (event: MessageEvent<TimerTick>) => {
+    const timer = callbacks.get(event.data.id);
+    if (!timer) return;
+    if (!timer.repeat) callbacks.delete(event.data.id);
+    timer.callback();
+  });
+  return worker;
+}
+
+function schedule(callback: () => void, ms: number, repeat: boolean): () => void {
+  const timerWorker = getWorker();
+  if (!timerWorker) {
+    const handle = repeat ? setInterval(callback, ms) : setTimeout(callback, ms);
+    return () => clearTimeout(handle);
+  }
+
+  const id = nextId++;
+  callbacks.set(id, { callback, repeat });
+  timerWorker.postMessage({ type: 'set', id, ms, repeat } satisfies TimerRequest);
+  return () => {
+    if (!callbacks.delete(id)) return;
+    timerWorker.postMessage({ type: 'clear', id } satisfies TimerRequest);
+  };
+}
+
+/**
+ * Like setInterval, but keeps its pace while the tab is hidden, where page
+ * timers are throttled down to once a minute. For work that has to go on in
+ * the background, such as break reminders; UI refreshes can use page timers.
+ * Returns a function that cancels the interval.
+ */
+export function setBackgroundInterval(callback: () => void, ms: number): () => void {
+  return schedule(callback, ms, true);
+}
+
+/** The one-shot counterpart of setBackgroundInterval. */
+export function setBackgroundTimeout(callback: () => void, ms: number): () => void {
+  return schedule(callback, ms, false);
+}
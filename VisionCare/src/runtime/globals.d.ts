@@ -0,0 +1,21 @@
+// TypeScript declaration for the MediaPipe FaceMesh global that the
+// runtime loader injects via a script tag.
+interface Window {
+  FaceMesh: typeof import('@mediapipe/face_mesh').FaceMesh;
+}
+
+// Document Picture-in-Picture (Chromium only), not yet in TypeScript's DOM types
+interface DocumentPictureInPictureOptions {
+  width?: number;
+  height?: number;
+  disallowReturnToOpener?: boolean;
+}
+
+interface DocumentPictureInPicture extends EventTarget {
+  readonly window: Window | null;
+  requestWindow(options?: DocumentPictureInPictureOptions): Promise<Window>;
+}
+
+interface Window {
+  documentPictureInPicture?: DocumentPictureInPicture;
+}
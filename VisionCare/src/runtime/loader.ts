@@ -0,0 +1,112 @@
+import * as faceapi from 'face-api.js';
+import { loadHumanModels } from '../vision/humanBackend';
+
+// The default runtimes are served from the app's own origin so monitoring
+// works on locked-down networks and, once cached by the service worker,
+// offline. The optional Human backend's models come from the npm CDN, at the
+// installed library's version, so their 5 MB stay out of the app.
+const BASE_URL = import.meta.env.BASE_URL;
+export const MEDIAPIPE_BASE_URL = `${BASE_URL}mediapipe/`;
+export const FACE_API_MODEL_URL = `${BASE_URL}models`;
+export const humanModelUrl = (version: string) => `https://cdn.jsdelivr.net/npm/@vladmandic/human@${version}/models/`;
+
+export type EngineId = 'mediapipe' | 'faceApi' | 'human';
+
+export type EngineStatus =
+  | { state: 'loading' }
+  | { state: 'ready' }
+  | { state: 'failed'; error: string };
+
+export type EngineStatuses = Record<EngineId, EngineStatus>;
+
+export const ENGINE_LABELS: Record<EngineId, string> = {
+  mediapipe: 'MediaPipe',
+  faceApi: 'Face-API',
+  human: 'Human',
+};
+
+let statuses: EngineStatuses = {
+  mediapipe: { state: 'loading' },
+  faceApi: { state: 'loading' },
+  human: { state: 'loading' },
+};
+const listeners = new Set<() => void>();
+const loads = new Map<EngineId, Promise<void>>();
+
+function setStatus(id: EngineId, status: EngineStatus) {
+  statuses = { ...statuses, [id]: status };
+  listeners.forEach((listener) => listener());
+}
+
+export function getEngineStatuses(): EngineStatuses {
+  return statuses;
+}
+
+export function subscribeEngineStatuses(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function loadScript(src: string): Promise<void> {
+  const existing = document.querySelector<HTMLScriptElement>(`script[data-runtime-src="${src}"]`);
+  if (existing?.dataset.loaded === 'true') return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const script = existing ?? document.createElement('script');
+    script.addEventListener('load', () => {
+      script.dataset.loaded = 'true';
+      resolve();
+    });
+    script.addEventListener('error', () => {
+      // Drop the dead element so a retry injects a fresh one.
+      script.remove();
+      reject(new Error(`Failed to load ${src}`));
+    });
+    if (!existing) {
+      script.src = src;
+      script.async = true;
+      script.dataset.runtimeSrc = src;
+      document.head.appendChild(script);
+    }
+  });
+}
+
+async function loadMediaPipe() {
+  await loadScript(`${MEDIAPIPE_BASE_URL}face_mesh.js`);
+  if (typeof window.FaceMesh === 'undefined') {
+    throw new Error('MediaPipe globals missing after script load');
+  }
+}
+
+async function loadFaceApi() {
+  await faceapi.nets.tinyFaceDetector.loadFromUri(FACE_API_MODEL_URL);
+  await faceapi.nets.faceExpressionNet.loadFromUri(FACE_API_MODEL_URL);
+}
+
+const LOADERS: Record<EngineId, () => Promise<void>> = {
+  mediapipe: loadMediaPipe,
+  faceApi: loadFaceApi,
+  human: () => loadHumanModels(humanModelUrl),
+};
+
+/**
+ * Loads a runtime once and tracks its status. Calling it again after a
+ * failure retries the load.
+ */
+export function loadEngine(id: EngineId): Promise<void> {
+  const pending = loads.get(id);
+  if (pending && statuses[id].state !== 'failed') return pending;
+
+  setStatus(id, { state: 'loading' });
+  const load = LOADERS[id]()
+    .then(() => setStatus(id, { state: 'ready' }))
+    .catch((err: unknown) => {
+      console.error(`Error loading ${ENGINE_LABELS[id]}:`, err);
+      setStatus(id, { state: 'failed', error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    });
+  loads.set(id, load);
+  return load;
+}
@@ -0,0 +1,23 @@
+/**
+ * Registers the offline service worker in production builds. The dev server
+ * is left alone so HMR requests are never served from cache.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      await navigator.serviceWorker.ready;
+
+      // Resources fetched before the worker took control never went through
+      // it; hand them over so the first visit is enough to work offline.
+      const urls = performance
+        .getEntriesByType('resource')
+        .map((entry) => entry.name);
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+    } catch (err) {
+      console.error('Service worker registration failed:', err);
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getEngineStatuses, loadEngine, subscribeEngineStatuses, type EngineId } from './loader';
+
+/** Starts loading the given runtimes and returns the live status of all of them. */
+export function useEngineStatus(engines: EngineId[]) {
+  const key = engines.join(',');
+
+  useEffect(() => {
+    key.split(',').forEach((id) => {
+      loadEngine(id as EngineId).catch(() => {
+        // Failure is reported through the status store.
+      });
+    });
+  }, [key]);
+
+  return useSyncExternalStore(subscribeEngineStatuses, getEngineStatuses);
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Copies the page's styles into the picture-in-picture document, which
+ * starts out empty. Bundled styles are copied rule by rule; styles that
+ * cannot be read, such as cross-origin sheets, are linked instead.
+ */
+function copyStyles(target: Document) {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = target.createElement('style');
+      style.textContent = Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n');
+      target.head.appendChild(style);
+    } catch {
+      if (!sheet.href) continue;
+      const link = target.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = sheet.href;
+      target.head.appendChild(link);
+    }
+  }
+}
+
+/**
+ * An always-on-top window from the Document Picture-in-Picture API, for
+ * React content rendered into it through a portal. The window closes with
+ * the component that opened it.
+ */
+export function usePictureInPicture() {
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+  const supported = typeof window !== 'undefined' && 'documentPictureInPicture' in window;
+
+  const open = useCallback(async (width: number, height: number) => {
+    const api = window.documentPictureInPicture;
+    if (!api) throw new Error('This browser cannot open picture-in-picture windows');
+    // Only one window per page; asking again brings back the open one
+    if (api.window) {
+      setPipWindow(api.window);
+      return;
+    }
+    const win = await api.requestWindow({ width, height });
+    win.document.body.style.margin = '0';
+    copyStyles(win.document);
+    win.addEventListener('pagehide', () => setPipWindow(null), { once: true });
+    setPipWindow(win);
+  }, []);
+
+  const close = useCallback(() => pipWindow?.close(), [pipWindow]);
+
+  useEffect(() => () => pipWindow?.close(), [pipWindow]);
+
+  return { supported, pipWindow, open, close };
+}
@@ -0,0 +1,24 @@
+import type { TimerRequest, TimerTick } from './timerProtocol';
+
+// Keeps time for the page while its tab is hidden: browsers throttle timers
+// on a background page to once a second and eventually once a minute, but
+// not timers in a dedicated worker. Ticks are posted back as messages, which
+// hidden pages still receive promptly.
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+self.addEventListener('message', (event: MessageEvent<TimerRequest>) => {
+  const request = event.data;
+  clearTimeout(timers.get(request.id));
+  timers.delete(request.id);
+  if (request.type === 'clear') return;
+
+  const tick: TimerTick = { id: request.id };
+  if (request.repeat) {
+    timers.set(request.id, setInterval(() => self.postMessage(tick), request.ms));
+  } else {
+    timers.set(request.id, setTimeout(() => {
+      timers.delete(request.id);
+      self.postMessage(tick);
+    }, request.ms));
+  }
+});
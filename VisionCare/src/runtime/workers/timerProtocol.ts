@@ -0,0 +1,7 @@
+export type TimerRequest =
+  | { type: 'set'; id: number; ms: number; repeat: boolean }
+  | { type: 'clear'; id: number };
+
+export interface TimerTick {
+  id: number;
+}
@@ -0,0 +1,22 @@
+/** What the user is doing during a session, so blink behaviour can be compared across tasks. */
+export type SessionActivity = 'coding' | 'reading' | 'videoCall' | 'writing' | 'gaming' | 'other';
+
+export const SESSION_ACTIVITIES: { activity: SessionActivity; label: string; icon: string }[] = [
+  { activity: 'coding', label: 'Coding', icon: '💻' },
+  { activity: 'reading', label: 'Reading', icon: '📖' },
+  { activity: 'videoCall', label: 'Video call', icon: '🎥' },
+  { activity: 'writing', label: 'Writing', icon: '✍️' },
+  { activity: 'gaming', label: 'Gaming', icon: '🎮' },
+  { activity: 'other', label: 'Other', icon: '🗂️' },
+];
+
+export const DEFAULT_ACTIVITY: SessionActivity = 'other';
+
+export function isSessionActivity(value: unknown): value is SessionActivity {
+  return SESSION_ACTIVITIES.some((entry) => entry.activity === value);
+}
+
+export function activityLabel(activity: SessionActivity) {
+  const entry = SESSION_ACTIVITIES.find((e) => e.activity === activity);
+  return entry ? `${entry.icon} ${entry.label}` : activity;
+}
@@ -0,0 +1,160 @@
+import { DEFAULT_ACTIVITY, type SessionActivity } from './activities';
+
+export const DEFAULT_AWAY_AFTER_MS = 60_000;
+
+export type SessionStatus = 'idle' | 'running' | 'paused' | 'stopped';
+
+/** Why a session is paused: the user asked, or nobody has been in front of the camera. */
+export type PauseReason = 'manual' | 'away';
+
+export interface SessionSnapshot {
+  status: SessionStatus;
+  pauseReason: PauseReason | null;
+  activity: SessionActivity;
+  startedAt: number | null;
+  /** Time spent running; paused time, including the absence before an automatic pause, is left out. */
+  activeMs: number;
+  pausedMs: number;
+}
+
+export type SessionEvent =
+  | { type: 'start'; at: number }
+  | { type: 'pause'; at: number; reason: PauseReason }
+  | { type: 'resume'; at: number }
+  | { type: 'stop'; at: number }
+  | { type: 'activity'; activity: SessionActivity };
+
+/**
+ * The lifecycle of one monitoring session: start, pause, resume and stop,
+ * with rates measured against running time only. Presence updates pause the
+ * session once the face has been gone for `awayAfterMs`, backdated to when it
+ * left, and resume it when the face returns. A manual pause is only ended by
+ * the user.
+ */
+export class SessionClock {
+  private status: SessionStatus = 'idle';
+  private pauseReason: PauseReason | null = null;
+  private activity: SessionActivity;
+  private startedAt: number | null = null;
+  private endedAt: number | null = null;
+  // Start of the current running stretch
+  private runningSince = 0;
+  private activeBeforeMs = 0;
+  private present = false;
+  private absentSince: number | null = null;
+  private awayAfterMs: number;
+  private readonly listeners = new Set<(event: SessionEvent) => void>();
+
+  /** `awayAfterMs` of 0 turns automatic pausing off. */
+  constructor(awayAfterMs: number, activity: SessionActivity = DEFAULT_ACTIVITY) {
+    this.awayAfterMs = awayAfterMs;
+    this.activity = activity;
+  }
+
+  on(listener: (event: SessionEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  /** Starts a new session; a running or paused one is stopped first. */
+  start(now: number, activity = this.activity) {
+    if (this.status === 'running' || this.status === 'paused') this.stop(now);
+    this.setActivity(activity);
+    this.status = 'running';
+    this.pauseReason = null;
+    this.startedAt = now;
+    this.endedAt = null;
+    this.runningSince = now;
+    this.activeBeforeMs = 0;
+    // Nobody in view yet counts as away from the start
+    if (!this.present) this.absentSince = now;
+    this.emit({ type: 'start', at: now });
+  }
+
+  pause(now: number, reason: PauseReason = 'manual') {
+    if (this.status === 'paused' && reason === 'manual') {
+      // Taking over an automatic pause keeps the session paused when the face returns
+      this.pauseReason = 'manual';
+      return;
+    }
+    if (this.status !== 'running') return;
+    const at = Math.max(now, this.runningSince);
+    this.activeBeforeMs += at - this.runningSince;
+    this.status = 'paused';
+    this.pauseReason = reason;
+    this.emit({ type: 'pause', at, reason });
+  }
+
+  resume(now: number) {
+    if (this.status !== 'paused') return;
+    this.status = 'running';
+    this.pauseReason = null;
+    this.runningSince = now;
+    // Absence before the resume was already excluded; count it again from here
+    if (this.absentSince !== null) this.absentSince = now;
+    this.emit({ type: 'resume', at: now });
+  }
+
+  stop(now: number) {
+    if (this.status === 'running') this.activeBeforeMs += now - this.runningSince;
+    else if (this.status !== 'paused') return;
+    this.status = 'stopped';
+    this.pauseReason = null;
+    this.endedAt = now;
+    this.emit({ type: 'stop', at: now });
+  }
+
+  setActivity(activity: SessionActivity) {
+    if (activity === this.activity) return;
+    this.activity = activity;
+    this.emit({ type: 'activity', activity });
+  }
+
+  setAwayAfter(ms: number) {
+    this.awayAfterMs = ms;
+  }
+
+  /** Reports whether a face is in view; called on every presence change. */
+  setPresence(present: boolean, now: number) {
+    this.present = present;
+    if (!present) {
+      this.absentSince ??= now;
+      return;
+    }
+    this.absentSince = null;
+    if (this.status === 'paused' && this.pauseReason === 'away') this.resume(now);
+  }
+
+  /** Pauses the session once the face has been away long enough; call periodically. */
+  update(now: number) {
+    if (this.status !== 'running' || this.awayAfterMs <= 0 || this.absentSince === null) return;
+    if (now - this.absentSince >= this.awayAfterMs) this.pause(this.absentSince, 'away');
+  }
+
+  activeMs(now: number) {
+    return this.activeBeforeMs + (this.status === 'running' ? Math.max(0, now - this.runningSince) : 0);
+  }
+
+  getSnapshot(now: number): SessionSnapshot {
+    const end = this.endedAt ?? now;
+    const activeMs = this.activeMs(now);
+    return {
+      status: this.status,
+      pauseReason: this.pauseReason,
+      activity: this.activity,
+      startedAt: this.startedAt,
+      activeMs,
+      pausedMs: this.startedAt === null ? 0 : Math.max(0, end - this.startedAt - activeMs),
+    };
+  }
+
+  private emit(event: SessionEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
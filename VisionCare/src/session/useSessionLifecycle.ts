@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { VisionEngine } from '../vision/VisionEngine';
+import { setBackgroundInterval } from '../runtime/backgroundTimer';
+import { loadActivity, saveActivity } from '../storage/activityStore';
+import type { SessionActivity } from './activities';
+import { SessionClock, type SessionSnapshot } from './sessionClock';
+
+const TICK_MS = 1000;
+
+/** Wires a SessionClock to the engine's presence events and exposes the session controls. */
+export function useSessionLifecycle(engine: VisionEngine, userId: string, awayAfterMs: number) {
+  const [clock] = useState(() => new SessionClock(awayAfterMs, loadActivity(userId)));
+  const [snapshot, setSnapshot] = useState<SessionSnapshot>(() => clock.getSnapshot(0));
+
+  useEffect(() => {
+    clock.setAwayAfter(awayAfterMs);
+  }, [clock, awayAfterMs]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('faceFound', ({ timestamp }) => clock.setPresence(true, timestamp)),
+      engine.on('faceLost', ({ timestamp }) => clock.setPresence(false, timestamp)),
+      // Controls and presence changes show up straight away rather than on the next tick
+      clock.on(() => setSnapshot(clock.getSnapshot(Date.now()))),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine, clock]);
+
+  useEffect(() => {
+    // Auto-pause has to happen on time while the user works in another app
+    return setBackgroundInterval(() => {
+      const now = Date.now();
+      clock.update(now);
+      setSnapshot(clock.getSnapshot(now));
+    }, TICK_MS);
+  }, [clock]);
+
+  const setActivity = useCallback((activity: SessionActivity) => {
+    clock.setActivity(activity);
+    saveActivity(userId, activity);
+  }, [clock, userId]);
+
+  const start = useCallback(() => clock.start(Date.now()), [clock]);
+  const pause = useCallback(() => clock.pause(Date.now()), [clock]);
+  const resume = useCallback(() => clock.resume(Date.now()), [clock]);
+  const stop = useCallback(() => clock.stop(Date.now()), [clock]);
+
+  return { clock, snapshot, start, pause, resume, stop, setActivity };
+}
@@ -0,0 +1,249 @@
+import {
+  DEFAULT_BLINK_RATE_BOUNDS,
+  DEFAULT_HEALTHY_BLINK_RANGE,
+  DEFAULT_REDNESS_THRESHOLDS,
+  type BlinkRateRange,
+  type BlinkRateBounds,
+  type RednessThresholds,
+} from '../insights/verdicts';
+import { DEFAULT_AWAY_AFTER_MS } from '../session/sessionClock';
+import { DEFAULT_EXPRESSION_SMOOTHING_MS } from '../vision/affect';
+import { DEFAULT_MIN_QUALITY } from '../vision/frameQuality';
+import { DEFAULT_BLINK_BASELINE, DEFAULT_BLINK_THRESHOLDS, type BlinkBaseline } from '../vision/analyzers/blinkAnalyzer';
+import { DEFAULT_EMOTION_INTERVAL_MS } from '../vision/analyzers/emotionAnalyzer';
+import { BACKEND_IDS, type BackendId } from '../vision/faceBackend';
+import { DEFAULT_REDNESS_INTERVAL_MS } from '../vision/analyzers/rednessAnalyzer';
+
+/** What the dashboard shows of the camera image; analysis is the same in every mode. */
+export type PreviewMode = 'camera' | 'blurred' | 'landmarks';
+
+export interface AppSettings {
+  /** EAR thresholds used until the user runs blink calibration. */
+  blink: { closeThreshold: number; reopenThreshold: number };
+  blinkRate: BlinkRateBounds & { healthyMin: number; healthyMax: number };
+  redness: RednessThresholds & { intervalMs: number };
+  emotion: { intervalMs: number; smoothingMs: number };
+  capture: { width: number; height: number; fps: number; maxFaces: number };
+  /** Sessions pause once no face has been seen for `autoPauseSec`; 0 never pauses. */
+  session: { autoPauseSec: number };
+  /** Frames scoring below `minScore` are withheld from blink, fatigue, redness and emotion analysis. */
+  quality: { minScore: number };
+  /** Disabled analyzers are never registered, so they process no frames. */
+  features: { emotion: boolean; redness: boolean };
+  privacy: { preview: PreviewMode };
+  /** Library that finds landmarks, iris and expressions. */
+  analysis: { backend: BackendId };
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  blink: { closeThreshold: DEFAULT_BLINK_THRESHOLDS.close, reopenThreshold: DEFAULT_BLINK_THRESHOLDS.reopen },
+  blinkRate: {
+    ...DEFAULT_BLINK_RATE_BOUNDS,
+    healthyMin: DEFAULT_HEALTHY_BLINK_RANGE.min,
+    healthyMax: DEFAULT_HEALTHY_BLINK_RANGE.max,
+  },
+  redness: { ...DEFAULT_REDNESS_THRESHOLDS, intervalMs: DEFAULT_REDNESS_INTERVAL_MS },
+  emotion: { intervalMs: DEFAULT_EMOTION_INTERVAL_MS, smoothingMs: DEFAULT_EXPRESSION_SMOOTHING_MS },
+  capture: { width: 640, height: 480, fps: 30, maxFaces: 4 },
+  session: { autoPauseSec: DEFAULT_AWAY_AFTER_MS / 1000 },
+  quality: { minScore: DEFAULT_MIN_QUALITY },
+  features: { emotion: true, redness: true },
+  privacy: { preview: 'camera' },
+  analysis: { backend: 'mediapipe' },
+};
+
+type NumberSection = Exclude<keyof AppSettings, 'features' | 'privacy' | 'analysis'>;
+
+export type NumberField = {
+  [S in NumberSection]: {
+    section: S;
+    key: keyof AppSettings[S] & string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+  };
+}[NumberSection];
+
+export interface ToggleField {
+  key: keyof AppSettings['features'];
+  label: string;
+  description: string;
+}
+
+export const SECTION_LABELS: Record<NumberSection, string> = {
+  blink: 'Blink detection',
+  blinkRate: 'Blink rate',
+  redness: 'Eye redness',
+  emotion: 'Emotion',
+  capture: 'Camera',
+  session: 'Sessions',
+  quality: 'Tracking quality',
+};
+
+/** Every numeric setting with its allowed range; drives validation and the settings form. */
+export const NUMBER_FIELDS: NumberField[] = [
+  { section: 'blink', key: 'closeThreshold', label: 'Blink starts below EAR', min: 0.1, max: 0.45, step: 0.01 },
+  { section: 'blink', key: 'reopenThreshold', label: 'Blink ends above EAR', min: 0.1, max: 0.45, step: 0.01 },
+  { section: 'blinkRate', key: 'low', label: 'Too low below', min: 1, max: 40, step: 1, unit: 'BPM' },
+  { section: 'blinkRate', key: 'high', label: 'Too high above', min: 1, max: 60, step: 1, unit: 'BPM' },
+  { section: 'blinkRate', key: 'healthyMin', label: 'Healthy range from', min: 1, max: 40, step: 1, unit: 'BPM' },
+  { section: 'blinkRate', key: 'healthyMax', label: 'Healthy range to', min: 1, max: 60, step: 1, unit: 'BPM' },
+  { section: 'redness', key: 'moderate', label: 'Moderate above', min: 0, max: 100, step: 0.5, unit: 'index' },
+  { section: 'redness', key: 'alert', label: 'Recommend a rest above', min: 0, max: 100, step: 0.5, unit: 'index' },
+  { section: 'redness', key: 'high', label: 'High risk above', min: 0, max: 100, step: 0.5, unit: 'index' },
+  { section: 'redness', key: 'intervalMs', label: 'Measure every', min: 100, max: 5000, step: 50, unit: 'ms' },
+  { section: 'emotion', key: 'intervalMs', label: 'Detect every', min: 100, max: 5000, step: 50, unit: 'ms' },
+  { section: 'emotion', key: 'smoothingMs', label: 'Smooth expressions over', min: 0, max: 10000, step: 100, unit: 'ms' },
+  { section: 'capture', key: 'width', label: 'Capture width', min: 320, max: 1920, step: 1, unit: 'px' },
+  { section: 'capture', key: 'height', label: 'Capture height', min: 240, max: 1080, step: 1, unit: 'px' },
+  { section: 'capture', key: 'fps', label: 'Camera frame rate', min: 5, max: 60, step: 1, unit: 'fps' },
+  { section: 'capture', key: 'maxFaces', label: 'Faces tracked', min: 1, max: 8, step: 1 },
+  { section: 'session', key: 'autoPauseSec', label: 'Pause when away for (0 = never)', min: 0, max: 600, step: 5, unit: 's' },
+  { section: 'quality', key: 'minScore', label: 'Ignore frames scoring below', min: 0, max: 0.95, step: 0.05 },
+];
+
+export const TOGGLE_FIELDS: ToggleField[] = [
+  {
+    key: 'emotion',
+    label: 'Emotion detection',
+    description: 'Classifies facial expressions. When off, the expression models are not even loaded.',
+  },
+  {
+    key: 'redness',
+    label: 'Eye redness',
+    description: 'Reads eye pixels to score sclera redness. When off, no eye pixels are analysed.',
+  },
+];
+
+export const PREVIEW_MODES: { mode: PreviewMode; label: string; description: string }[] = [
+  { mode: 'camera', label: 'Camera image', description: 'The live camera picture with the face mesh on top.' },
+  { mode: 'blurred', label: 'Blurred', description: 'A heavily blurred picture; faces cannot be recognised.' },
+  {
+    mode: 'landmarks',
+    label: 'Landmarks only',
+    description: 'Just the face mesh on a dark background. No camera pixels reach the screen.',
+  },
+];
+
+export function getNumber(settings: AppSettings, field: NumberField): number {
+  return (settings[field.section] as Record<string, number>)[field.key];
+}
+
+export function setNumber(settings: AppSettings, field: NumberField, value: number): AppSettings {
+  return { ...settings, [field.section]: { ...settings[field.section], [field.key]: value } };
+}
+
+// Pairs that must stay ordered: [lower, upper, message]
+const ORDERED_PAIRS: [NumberField, NumberField, string][] = [
+  [field('blink', 'closeThreshold'), field('blink', 'reopenThreshold'), 'Blink start EAR must not exceed blink end EAR'],
+  [field('blinkRate', 'low'), field('blinkRate', 'high'), 'Low blink rate must not exceed the high blink rate'],
+  [field('blinkRate', 'healthyMin'), field('blinkRate', 'healthyMax'), 'Healthy range must not start after it ends'],
+  [field('redness', 'moderate'), field('redness', 'alert'), 'Moderate redness must not exceed the rest threshold'],
+  [field('redness', 'alert'), field('redness', 'high'), 'Rest threshold must not exceed high risk'],
+];
+
+function field(section: NumberSection, key: string): NumberField {
+  const found = NUMBER_FIELDS.find((f) => f.section === section && f.key === key);
+  if (!found) throw new Error(`Unknown setting ${section}.${key}`);
+  return found;
+}
+
+export interface ParsedSettings {
+  settings: AppSettings;
+  /** One message per value that was rejected and replaced by its default. */
+  errors: string[];
+}
+
+/**
+ * Reads settings from untrusted JSON, such as storage written by an older
+ * version or an imported file. Missing values take their defaults; invalid
+ * ones are reported and replaced by their defaults too, so the result is
+ * always usable.
+ */
+export function parseSettings(input: unknown): ParsedSettings {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, Record<string, unknown>>;
+  const errors: string[] = [];
+  let settings = DEFAULT_SETTINGS;
+
+  for (const f of NUMBER_FIELDS) {
+    const value = source[f.section]?.[f.key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < f.min || value > f.max) {
+      errors.push(`${SECTION_LABELS[f.section]}: ${f.label} must be a number from ${f.min} to ${f.max}`);
+      continue;
+    }
+    settings = setNumber(settings, f, value);
+  }
+
+  for (const [lower, upper, message] of ORDERED_PAIRS) {
+    if (getNumber(settings, lower) > getNumber(settings, upper)) {
+      errors.push(message);
+      settings = setNumber(setNumber(settings, lower, getNumber(DEFAULT_SETTINGS, lower)), upper, getNumber(DEFAULT_SETTINGS, upper));
+    }
+  }
+
+  for (const t of TOGGLE_FIELDS) {
+    const value = source.features?.[t.key];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      errors.push(`${t.label} must be true or false`);
+      continue;
+    }
+    settings = { ...settings, features: { ...settings.features, [t.key]: value } };
+  }
+
+  const preview = source.privacy?.preview;
+  if (preview !== undefined) {
+    if (PREVIEW_MODES.some((p) => p.mode === preview)) {
+      settings = { ...settings, privacy: { preview: preview as PreviewMode } };
+    } else {
+      errors.push(`Camera preview must be one of ${PREVIEW_MODES.map((p) => p.mode).join(', ')}`);
+    }
+  }
+
+  const backend = source.analysis?.backend;
+  if (backend !== undefined) {
+    if ((BACKEND_IDS as unknown[]).includes(backend)) {
+      settings = { ...settings, analysis: { backend: backend as BackendId } };
+    } else {
+      errors.push(`Face analysis backend must be one of ${BACKEND_IDS.join(', ')}`);
+    }
+  }
+
+  return { settings, errors };
+}
+
+// Marks exported files so an import can tell settings from other JSON
+const EXPORT_FORMAT = 'visioncare-settings';
+const EXPORT_VERSION = 1;
+
+export function settingsToJson(settings: AppSettings): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, settings }, null, 2);
+}
+
+/** Parses an exported settings file; returns null when it is not one. */
+export function settingsFromJson(text: string): ParsedSettings | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+  const file = data as { format?: unknown; settings?: unknown };
+  if (file.format !== EXPORT_FORMAT) return null;
+  return parseSettings(file.settings);
+}
+
+export function healthyBlinkRange(settings: AppSettings): BlinkRateRange {
+  return { min: settings.blinkRate.healthyMin, max: settings.blinkRate.healthyMax };
+}
+
+/** Blink baseline to run with: the user's calibration, else the configured thresholds. */
+export function blinkBaselineFor(settings: AppSettings, calibration: BlinkBaseline | null): BlinkBaseline {
+  if (calibration) return calibration;
+  const { closeThreshold, reopenThreshold } = settings.blink;
+  return { ...DEFAULT_BLINK_BASELINE, thresholds: { close: closeThreshold, reopen: reopenThreshold } };
+}
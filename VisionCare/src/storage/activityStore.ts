@@ -0,0 +1,13 @@
+import { DEFAULT_ACTIVITY, isSessionActivity, type SessionActivity } from '../session/activities';
+
+// The activity picked for the last session, offered again for the next one
+export const activityKey = (userId: string) => `sessionActivity:${userId}`;
+
+export function loadActivity(userId: string): SessionActivity {
+  const stored = localStorage.getItem(activityKey(userId));
+  return isSessionActivity(stored) ? stored : DEFAULT_ACTIVITY;
+}
+
+export function saveActivity(userId: string, activity: SessionActivity) {
+  localStorage.setItem(activityKey(userId), activity);
+}
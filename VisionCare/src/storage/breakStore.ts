@@ -0,0 +1,30 @@
+import { DEFAULT_BREAK_CONFIG, EMPTY_BREAK_STATS, type BreakConfig, type BreakStats } from '../coaching/breakScheduler';
+
+export const breakConfigKey = (userId: string) => `breakConfig:${userId}`;
+export const breakStatsKey = (userId: string) => `breakStats:${userId}`;
+
+function read<T>(key: string, fallback: T): T {
+  const raw = localStorage.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(raw) };
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadBreakConfig(userId: string): BreakConfig {
+  return read(breakConfigKey(userId), DEFAULT_BREAK_CONFIG);
+}
+
+export function saveBreakConfig(userId: string, config: BreakConfig) {
+  localStorage.setItem(breakConfigKey(userId), JSON.stringify(config));
+}
+
+export function loadBreakStats(userId: string): BreakStats {
+  return read(breakStatsKey(userId), EMPTY_BREAK_STATS);
+}
+
+export function saveBreakStats(userId: string, stats: BreakStats) {
+  localStorage.setItem(breakStatsKey(userId), JSON.stringify(stats));
+}
@@ -0,0 +1,21 @@
+import type { EarCalibrationProfile } from '../vision/calibration';
+
+export const calibrationKey = (userId: string) => `calibration:${userId}`;
+
+export function loadCalibration(userId: string): EarCalibrationProfile | null {
+  const raw = localStorage.getItem(calibrationKey(userId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as EarCalibrationProfile;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCalibration(userId: string, profile: EarCalibrationProfile) {
+  localStorage.setItem(calibrationKey(userId), JSON.stringify(profile));
+}
+
+export function clearCalibration(userId: string) {
+  localStorage.removeItem(calibrationKey(userId));
+}
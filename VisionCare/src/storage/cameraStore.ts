@@ -0,0 +1,12 @@
+// Device ids are specific to this browser profile, so the chosen camera is
+// kept apart from the exportable settings.
+export const cameraDeviceKey = (userId: string) => `cameraDevice:${userId}`;
+
+export function loadCameraDevice(userId: string): string | null {
+  return localStorage.getItem(cameraDeviceKey(userId));
+}
+
+export function saveCameraDevice(userId: string, deviceId: string | null) {
+  if (deviceId) localStorage.setItem(cameraDeviceKey(userId), deviceId);
+  else localStorage.removeItem(cameraDeviceKey(userId));
+}
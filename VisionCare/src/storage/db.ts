@@ -0,0 +1,57 @@
+// Thin promise wrapper around the app's IndexedDB database.
+const DB_NAME = 'visioncare';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+// Held remembered data keys until version 3
+const KEYS_STORE = 'keys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // Migrations run in order so users upgrading from any version end up
+      // with the same schema.
+      if (event.oldVersion < 1) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('userId', 'userId', { unique: false });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(KEYS_STORE, { keyPath: 'userId' });
+      }
+      if (event.oldVersion < 3) {
+        // Data keys are no longer kept on disk; drop any that were remembered
+        db.deleteObjectStore(KEYS_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
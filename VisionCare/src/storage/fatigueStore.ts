@@ -0,0 +1,17 @@
+import { DEFAULT_FATIGUE_CONFIG, type FatigueConfig } from '../coaching/fatigueMonitor';
+
+export const fatigueConfigKey = (userId: string) => `fatigueConfig:${userId}`;
+
+export function loadFatigueConfig(userId: string): FatigueConfig {
+  const raw = localStorage.getItem(fatigueConfigKey(userId));
+  if (!raw) return DEFAULT_FATIGUE_CONFIG;
+  try {
+    return { ...DEFAULT_FATIGUE_CONFIG, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_FATIGUE_CONFIG;
+  }
+}
+
+export function saveFatigueConfig(userId: string, config: FatigueConfig) {
+  localStorage.setItem(fatigueConfigKey(userId), JSON.stringify(config));
+}
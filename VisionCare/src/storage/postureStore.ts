@@ -0,0 +1,21 @@
+import type { DistanceCalibration } from '../vision/headPose';
+
+export const distanceCalibrationKey = (userId: string) => `distanceCalibration:${userId}`;
+
+export function loadDistanceCalibration(userId: string): DistanceCalibration | null {
+  const raw = localStorage.getItem(distanceCalibrationKey(userId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as DistanceCalibration;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDistanceCalibration(userId: string, calibration: DistanceCalibration) {
+  localStorage.setItem(distanceCalibrationKey(userId), JSON.stringify(calibration));
+}
+
+export function clearDistanceCalibration(userId: string) {
+  localStorage.removeItem(distanceCalibrationKey(userId));
+}
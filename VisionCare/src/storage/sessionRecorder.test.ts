@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionRecorder } from './sessionRecorder';
+import { appendSample, createSession, type SessionRecord } from './sessionStore';
+
+vi.mock('./sessionStore', () => ({
+  createSession: vi.fn(async (userId: string, startedAt: number): Promise<SessionRecord> => ({
+    id: 'session-1',
+    userId,
+    startedAt,
+    endedAt: startedAt,
+    samples: [],
+  })),
+  appendSample: vi.fn(async () => {}),
+  setSessionActivity: vi.fn(async () => {}),
+}));
+
+const stored = () => vi.mocked(appendSample).mock.calls.map(([, sample]) => [sample.start, sample.end, sample.blinks]);
+
+beforeEach(() => {
+  vi.mocked(createSession).mockClear();
+  vi.mocked(appendSample).mockClear();
+});
+
+describe('SessionRecorder', () => {
+  it('creates no session without a measurement', async () => {
+    const recorder = new SessionRecorder('user', 0);
+
+    await recorder.flush(30_000);
+    await recorder.flush(60_000);
+
+    expect(createSession).not.toHaveBeenCalled();
+    expect(appendSample).not.toHaveBeenCalled();
+  });
+
+  it('stores buckets without blinks once the session has a measurement', async () => {
+    const recorder = new SessionRecorder('user', 0);
+
+    await recorder.flush(30_000);
+    recorder.recordBlink();
+    await recorder.flush(60_000);
+    await recorder.flush(90_000);
+
+    expect(createSession).toHaveBeenCalledOnce();
+    expect(stored()).toEqual([
+      [30_000, 60_000, 1],
+      [60_000, 90_000, 0],
+    ]);
+  });
+
+  it('leaves paused time out of every bucket', async () => {
+    const recorder = new SessionRecorder('user', 0);
+    recorder.recordBlink();
+
+    await recorder.pause(20_000);
+    await recorder.flush(30_000);
+    recorder.resume(50_000);
+    await recorder.flush(60_000);
+
+    expect(stored()).toEqual([
+      [0, 20_000, 1],
+      [50_000, 60_000, 0],
+    ]);
+  });
+
+  it('skips a bucket with no time in it', async () => {
+    const recorder = new SessionRecorder('user', 0);
+    recorder.recordBlink();
+
+    await recorder.flush(30_000);
+    await recorder.flush(30_000);
+
+    expect(stored()).toEqual([[0, 30_000, 1]]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { SessionActivity } from '../session/activities';
+import { appendSample, createSession, setSessionActivity, type SessionSample } from './sessionStore';
+
+export const SAMPLE_BUCKET_MS = 30_000;
+
+interface Bucket {
+  start: number;
+  blinks: number;
+  leftRednessSum: number;
+  rightRednessSum: number;
+  /** Sum of the weights of the redness measurements in the bucket. */
+  rednessWeight: number;
+  rednessCount: number;
+  emotions: Record<string, number>;
+}
+
+function emptyBucket(start: number): Bucket {
+  return { start, blinks: 0, leftRednessSum: 0, rightRednessSum: 0, rednessWeight: 0, rednessCount: 0, emotions: {} };
+}
+
+function isEmpty(bucket: Bucket) {
+  return bucket.blinks === 0 && bucket.rednessCount === 0 && Object.keys(bucket.emotions).length === 0;
+}
+
+/**
+ * Collects live measurements into fixed time buckets and persists each
+ * bucket as a sample of the current session, including buckets without a
+ * single blink, so stored rates cover all monitored time. The session record
+ * is only created with the first measurement, so short-lived mounts (e.g.
+ * React StrictMode double effects) leave no empty sessions behind. Buckets
+ * closed before it recorded nothing at all and are dropped rather than
+ * counted as time without blinks. Paused time falls between buckets, so it
+ * never counts towards stored rates.
+ */
+export class SessionRecorder {
+  private readonly userId: string;
+  private readonly startedAt: number;
+  private activity: SessionActivity | undefined;
+  private bucket: Bucket;
+  private paused = false;
+  private sessionId: Promise<string> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(userId: string, startedAt = Date.now(), activity?: SessionActivity) {
+    this.userId = userId;
+    this.startedAt = startedAt;
+    this.activity = activity;
+    this.bucket = emptyBucket(startedAt);
+  }
+
+  /**
+   * Closes the bucket at `at`, which may lie in the past for a pause backdated
+   * to when the user left. Flushes do nothing until `resume`.
+   */
+  pause(at: number): Promise<void> {
+    if (this.paused) return this.writes;
+    const writes = this.flush(Math.max(at, this.bucket.start));
+    this.paused = true;
+    return writes;
+  }
+
+  /** Starts a fresh bucket, so the pause is not part of any. */
+  resume(at: number) {
+    this.paused = false;
+    this.bucket = emptyBucket(at);
+  }
+
+  setActivity(activity: SessionActivity) {
+    this.activity = activity;
+    const sessionId = this.sessionId;
+    if (!sessionId) return;
+    this.writes = this.writes
+      .then(async () => {
+        await setSessionActivity(await sessionId, activity);
+      })
+      .catch((err) => console.error('Failed to tag session:', err));
+  }
+
+  recordBlink() {
+    this.bucket.blinks += 1;
+  }
+
+  /** Measurements count towards the bucket average in proportion to `weight`, e.g. their confidence. */
+  recordRedness(left: number, right: number, weight = 1) {
+    if (weight <= 0) return;
+    this.bucket.leftRednessSum += left * weight;
+    this.bucket.rightRednessSum += right * weight;
+    this.bucket.rednessWeight += weight;
+    this.bucket.rednessCount += 1;
+  }
+
+  recordEmotion(emotion: string) {
+    this.bucket.emotions[emotion] = (this.bucket.emotions[emotion] || 0) + 1;
+  }
+
+  /** Closes the current bucket and queues it for storage. */
+  flush(now = Date.now()): Promise<void> {
+    if (this.paused) return this.writes;
+    const bucket = this.bucket;
+    this.bucket = emptyBucket(now);
+    if (now <= bucket.start) return this.writes;
+
+    const sample: SessionSample = {
+      start: bucket.start,
+      end: now,
+      blinks: bucket.blinks,
+      leftRedness: bucket.rednessCount > 0 ? bucket.leftRednessSum / bucket.rednessWeight : null,
+      rightRedness: bucket.rednessCount > 0 ? bucket.rightRednessSum / bucket.rednessWeight : null,
+      emotions: bucket.emotions,
+    };
+
+    if (!this.sessionId) {
+      if (isEmpty(bucket)) return this.writes;
+      this.sessionId = createSession(this.userId, this.startedAt, this.activity).then((record) => record.id);
+    }
+    const sessionId = this.sessionId;
+
+    this.writes = this.writes
+      .then(async () => appendSample(await sessionId, sample))
+      .catch((err) => console.error('Failed to store session sample:', err));
+    return this.writes;
+  }
+}
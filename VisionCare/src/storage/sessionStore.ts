@@ -0,0 +1,150 @@
+import { getDataKey } from '../privacy/dataKey';
+import { seal, unseal, type Sealed } from '../privacy/encryption';
+import type { SessionActivity } from '../session/activities';
+import { openDatabase, requestToPromise, transactionDone, SESSIONS_STORE } from './db';
+
+// One time bucket of a monitoring session. Redness values are averages over
+// the bucket, or null when no redness measurement landed in it.
+export interface SessionSample {
+  start: number;
+  end: number;
+  blinks: number;
+  leftRedness: number | null;
+  rightRedness: number | null;
+  emotions: Record<string, number>;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  startedAt: number;
+  endedAt: number;
+  /** What the user was doing; sessions recorded before tagging existed have none. */
+  activity?: SessionActivity;
+  samples: SessionSample[];
+}
+
+// How a session sits in IndexedDB: only the ids needed to find it are in
+// the clear. Records written before encryption existed are plain
+// SessionRecords; they are encrypted the next time the user lists them.
+interface SealedSessionRow {
+  id: string;
+  userId: string;
+  sealed: Sealed;
+}
+
+type SessionRow = SealedSessionRow | SessionRecord;
+
+const isSealed = (row: SessionRow): row is SealedSessionRow => 'sealed' in row;
+
+// Binds the ciphertext to its row
+const contextFor = (row: { id: string; userId: string }) => `session:${row.userId}:${row.id}`;
+
+async function sealRecord(record: SessionRecord): Promise<SealedSessionRow> {
+  const { id, userId, ...content } = record;
+  return { id, userId, sealed: await seal(getDataKey(userId), content, contextFor(record)) };
+}
+
+async function openRow(row: SessionRow): Promise<SessionRecord> {
+  if (!isSealed(row)) return row;
+  const content = await unseal<Omit<SessionRecord, 'id' | 'userId'>>(getDataKey(row.userId), row.sealed, contextFor(row));
+  return { id: row.id, userId: row.userId, ...content };
+}
+
+async function readRows(userId: string): Promise<SessionRow[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  return requestToPromise<SessionRow[]>(tx.objectStore(SESSIONS_STORE).index('userId').getAll(userId));
+}
+
+async function putRows(rows: SealedSessionRow[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  for (const row of rows) store.put(row);
+  await transactionDone(tx);
+}
+
+export async function createSession(userId: string, startedAt: number, activity?: SessionActivity): Promise<SessionRecord> {
+  const record: SessionRecord = {
+    id: crypto.randomUUID(),
+    userId,
+    startedAt,
+    endedAt: startedAt,
+    activity,
+    samples: [],
+  };
+  const row = await sealRecord(record);
+
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).add(row);
+  await transactionDone(tx);
+  return record;
+}
+
+/**
+ * Changes a stored session. Decryption cannot run inside an IndexedDB
+ * transaction, so the read and the write are separate; callers serialise
+ * writes per session (see SessionRecorder).
+ */
+async function updateSession(sessionId: string, update: (record: SessionRecord) => void): Promise<SessionRecord> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const row = await requestToPromise<SessionRow | undefined>(tx.objectStore(SESSIONS_STORE).get(sessionId));
+  if (!row) throw new Error(`Session ${sessionId} not found`);
+
+  const record = await openRow(row);
+  update(record);
+  await putRows([await sealRecord(record)]);
+  return record;
+}
+
+export async function appendSample(sessionId: string, sample: SessionSample): Promise<void> {
+  await updateSession(sessionId, (record) => {
+    record.samples.push(sample);
+    record.endedAt = Math.max(record.endedAt, sample.end);
+  });
+}
+
+export async function setSessionActivity(sessionId: string, activity: SessionActivity): Promise<SessionRecord> {
+  return updateSession(sessionId, (record) => {
+    record.activity = activity;
+  });
+}
+
+export async function listSessions(userId: string): Promise<SessionRecord[]> {
+  const rows = await readRows(userId);
+  const records = await Promise.all(rows.map(openRow));
+
+  const legacy = records.filter((_, i) => !isSealed(rows[i]));
+  if (legacy.length > 0) await putRows(await Promise.all(legacy.map(sealRecord)));
+
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+  await transactionDone(tx);
+}
+
+/** The user's stored sessions at a glance: how many, how many are encrypted, and their size. */
+export async function countSessions(userId: string): Promise<{ total: number; encrypted: number; bytes: number }> {
+  const rows = await readRows(userId);
+  return {
+    total: rows.length,
+    encrypted: rows.filter(isSealed).length,
+    bytes: rows.reduce((sum, row) => sum + (isSealed(row) ? row.sealed.data.byteLength : JSON.stringify(row).length), 0),
+  };
+}
+
+export async function deleteUserSessions(userId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const ids = await requestToPromise(store.index('userId').getAllKeys(userId));
+  for (const id of ids) store.delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_SETTINGS, parseSettings, type AppSettings } from '../settings/settings';
+
+export const settingsKey = (userId: string) => `settings:${userId}`;
+
+export function loadSettings(userId: string): AppSettings {
+  const raw = localStorage.getItem(settingsKey(userId));
+  if (!raw) return DEFAULT_SETTINGS;
+  try {
+    return parseSettings(JSON.parse(raw)).settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(userId: string, settings: AppSettings) {
+  localStorage.setItem(settingsKey(userId), JSON.stringify(settings));
+}
+
+export function clearSettings(userId: string) {
+  localStorage.removeItem(settingsKey(userId));
+}
@@ -0,0 +1,30 @@
+import { isEmotion, type Emotion } from '../metrics/types';
+
+const EMOTION_EMOJI: Record<Emotion, string> = {
+  happy: '😊',
+  sad: '😢',
+  angry: '😠',
+  fearful: '😨',
+  surprised: '😲',
+  disgusted: '🤢',
+  neutral: '😐',
+};
+
+// Labels come from stored history too, which may predate the typed model
+export function emotionEmoji(emotion: string) {
+  return isEmotion(emotion) ? EMOTION_EMOJI[emotion] : EMOTION_EMOJI.neutral;
+}
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  happy: '#10b981',
+  sad: '#60a5fa',
+  angry: '#ef4444',
+  fearful: '#a78bfa',
+  surprised: '#f59e0b',
+  disgusted: '#84cc16',
+  neutral: '#64748b',
+};
+
+export function emotionColor(emotion: Emotion) {
+  return EMOTION_COLORS[emotion];
+}
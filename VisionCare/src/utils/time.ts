@@ -0,0 +1,17 @@
+/** Formats a duration as m:ss, or h:mm:ss from one hour up. */
+export function formatClock(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`;
+  return `${minutes}:${seconds}`;
+}
+
+/** Formats a position in a recording as m:ss.mmm. */
+export function formatMediaTime(ms: number) {
+  const totalMs = Math.max(0, Math.floor(ms));
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = String(Math.floor((totalMs % 60000) / 1000)).padStart(2, '0');
+  return `${minutes}:${seconds}.${String(totalMs % 1000).padStart(3, '0')}`;
+}
@@ -0,0 +1,248 @@
+import { describe, expect, it, vi } from 'vitest';
+import { clipFrames, COMPLETE_BLINK } from './__fixtures__/landmarks';
+import { BlinkAnalyzer } from './analyzers/blinkAnalyzer';
+import { DEFAULT_MIN_QUALITY } from './frameQuality';
+import type { Analyzer, AnalyzerContext, BlinkEndEvent, VisionFrame } from './types';
+import { VisionEngine } from './VisionEngine';
+
+// Shrunk to a sixth, the face is too small for the eyes to be measured
+const FAR_AWAY = 1 / 6;
+
+/** Records the frames it is given. */
+class RecordingAnalyzer implements Analyzer {
+  readonly frames: VisionFrame[] = [];
+  readonly id: string;
+  readonly qualityGated?: boolean;
+  readonly intervalMs?: number;
+  reset = vi.fn();
+  dispose = vi.fn();
+
+  constructor(id: string, options: { qualityGated?: boolean; intervalMs?: number } = {}) {
+    this.id = id;
+    this.qualityGated = options.qualityGated;
+    this.intervalMs = options.intervalMs;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    this.frames.push(frame);
+    context.recordLatency(`${this.id} (background)`, 1);
+  }
+}
+
+describe('VisionEngine', () => {
+  it('reports the face coming and going once per change', () => {
+    const engine = new VisionEngine();
+    const presence: string[] = [];
+    engine.on('faceFound', ({ timestamp }) => presence.push(`found ${timestamp}`));
+    engine.on('faceLost', ({ timestamp }) => presence.push(`lost ${timestamp}`));
+    const [a, b, c] = clipFrames(COMPLETE_BLINK);
+
+    [a, b, { ...c, landmarks: null }, { ...c, timestamp: 100, landmarks: null }, { ...a, timestamp: 133 }].forEach((frame) =>
+      engine.process(frame),
+    );
+
+    expect(presence).toEqual([`found ${a.timestamp}`, `lost ${c.timestamp}`, 'found 133']);
+  });
+
+  it('dispatches analyzer events to every subscriber until it unsubscribes', () => {
+    const engine = new VisionEngine();
+    engine.register(new BlinkAnalyzer());
+    const first: number[] = [];
+    const second: number[] = [];
+    engine.on('blinkEnd', ({ duration }) => first.push(duration));
+    const unsubscribe = engine.on('blinkEnd', ({ duration }) => second.push(duration));
+
+    clipFrames(COMPLETE_BLINK).forEach((frame) => engine.process(frame));
+    unsubscribe();
+    clipFrames(COMPLETE_BLINK).forEach((frame) => engine.process({ ...frame, timestamp: frame.timestamp + 1000 }));
+
+    expect(first).toHaveLength(2);
+    expect(second).toEqual([first[0]]);
+  });
+
+  it('keeps running the other analyzers when one throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const engine = new VisionEngine();
+    const after = new RecordingAnalyzer('after');
+    engine.register({
+      id: 'broken',
+      process() {
+        throw new Error('boom');
+      },
+    });
+    engine.register(after);
+
+    engine.process(clipFrames(COMPLETE_BLINK)[0]);
+
+    expect(after.frames).toHaveLength(1);
+    expect(error).toHaveBeenCalledWith('Analyzer "broken" failed:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('refuses a second analyzer with the same id', () => {
+    const engine = new VisionEngine();
+    engine.register(new RecordingAnalyzer('blink'));
+    expect(() => engine.register(new RecordingAnalyzer('blink'))).toThrow('Analyzer "blink" is already registered');
+  });
+
+  it('resets every analyzer and reports the face again', () => {
+    const engine = new VisionEngine();
+    const analyzer = new RecordingAnalyzer('recorder');
+    engine.register(analyzer);
+    const found = vi.fn();
+    engine.on('faceFound', found);
+    const [frame] = clipFrames(COMPLETE_BLINK);
+
+    engine.process(frame);
+    engine.reset();
+    engine.process(frame);
+
+    expect(analyzer.reset).toHaveBeenCalledOnce();
+    expect(found).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs periodic analyzers on their own schedule', () => {
+    const engine = new VisionEngine();
+    const everyFrame = new RecordingAnalyzer('everyFrame');
+    const periodic = new RecordingAnalyzer('periodic', { intervalMs: 200 });
+    engine.register(everyFrame);
+    engine.register(periodic);
+
+    const frames = clipFrames(COMPLETE_BLINK);
+    frames.forEach((frame) => engine.process(frame));
+
+    const span = frames[frames.length - 1].timestamp - frames[0].timestamp;
+    expect(everyFrame.frames).toHaveLength(frames.length);
+    expect(periodic.frames.length).toBeGreaterThan(1);
+    expect(periodic.frames.length).toBeLessThanOrEqual(Math.floor(span / 200) + 1);
+  });
+
+  it('records analyzer time and background latency', () => {
+    const engine = new VisionEngine();
+    engine.register(new RecordingAnalyzer('recorder'));
+
+    engine.process(clipFrames(COMPLETE_BLINK)[0]);
+
+    const labels = engine.perf.snapshot().latencies.map((latency) => latency.label);
+    expect(labels).toEqual(expect.arrayContaining(['recorder', 'recorder (background)']));
+  });
+
+  it('unregisters and disposes analyzers', () => {
+    const engine = new VisionEngine();
+    const analyzer = new RecordingAnalyzer('recorder');
+    engine.register(analyzer);
+
+    engine.dispose();
+    engine.process(clipFrames(COMPLETE_BLINK)[0]);
+
+    expect(analyzer.dispose).toHaveBeenCalledOnce();
+    expect(analyzer.frames).toHaveLength(0);
+    expect(engine.getAnalyzer('recorder')).toBeUndefined();
+  });
+
+  describe('with a quality gate', () => {
+    function gatedEngine() {
+      const engine = new VisionEngine();
+      const gated = new RecordingAnalyzer('gated', { qualityGated: true });
+      const ungated = new RecordingAnalyzer('ungated');
+      engine.register(gated);
+      engine.register(ungated);
+      engine.setQualityGate(DEFAULT_MIN_QUALITY);
+      return { engine, gated, ungated };
+    }
+
+    it('passes good frames to every analyzer with their quality', () => {
+      const { engine, gated, ungated } = gatedEngine();
+      const [frame] = clipFrames(COMPLETE_BLINK);
+
+      engine.process(frame);
+
+      expect(engine.quality?.score).toBeGreaterThanOrEqual(DEFAULT_MIN_QUALITY);
+      expect(gated.frames[0].landmarks).toBe(frame.landmarks);
+      expect(gated.frames[0].quality).toBe(engine.quality);
+      expect(ungated.frames[0].quality).toBe(engine.quality);
+    });
+
+    it('withholds the landmarks of poor frames from gated analyzers only', () => {
+      const { engine, gated, ungated } = gatedEngine();
+      const [frame] = clipFrames(COMPLETE_BLINK, FAR_AWAY);
+
+      engine.process(frame);
+
+      expect(engine.quality).toMatchObject({ score: 0, issue: 'tooFar' });
+      expect(gated.frames[0].landmarks).toBeNull();
+      expect(gated.frames[0].quality).toBe(engine.quality);
+      expect(ungated.frames[0].landmarks).toBe(frame.landmarks);
+    });
+
+    it('does not report the face lost for a poor frame', () => {
+      const { engine } = gatedEngine();
+      const lost = vi.fn();
+      engine.on('faceLost', lost);
+
+      engine.process(clipFrames(COMPLETE_BLINK)[0]);
+      engine.process(clipFrames(COMPLETE_BLINK, FAR_AWAY)[1]);
+
+      expect(lost).not.toHaveBeenCalled();
+    });
+
+    // The clip with the frames from `from` to `to` (exclusive) too far away to pass the gate
+    function poorStretch(from: number, to: number) {
+      const far = clipFrames(COMPLETE_BLINK, FAR_AWAY);
+      return clipFrames(COMPLETE_BLINK).map((frame, i) => (i >= from && i < to ? far[i] : frame));
+    }
+
+    function blinkEngine() {
+      const { engine, gated } = gatedEngine();
+      engine.register(new BlinkAnalyzer());
+      const starts: number[] = [];
+      const ends: BlinkEndEvent[] = [];
+      engine.on('blink', ({ timestamp }) => starts.push(timestamp));
+      engine.on('blinkEnd', (event) => ends.push(event));
+      return { engine, gated, starts, ends };
+    }
+
+    it('keeps a blink open across a poor frame mid-blink', () => {
+      const reference = blinkEngine();
+      clipFrames(COMPLETE_BLINK).forEach((frame) => reference.engine.process(frame));
+      const startAt = COMPLETE_BLINK.frames.findIndex(([timestamp]) => timestamp === reference.starts[0]);
+
+      const { engine, gated, starts, ends } = blinkEngine();
+      poorStretch(startAt + 2, startAt + 3).forEach((frame) => engine.process(frame));
+
+      expect(gated.frames[startAt + 2].gated).toBe(true);
+      expect(starts).toEqual(reference.starts);
+      expect(ends).toEqual(reference.ends);
+      expect(ends[0].interrupted).toBe(false);
+    });
+
+    it('ends a blink as interrupted when poor frames outlast it', () => {
+      const reference = blinkEngine();
+      clipFrames(COMPLETE_BLINK).forEach((frame) => reference.engine.process(frame));
+      const startAt = COMPLETE_BLINK.frames.findIndex(([timestamp]) => timestamp === reference.starts[0]);
+
+      const { engine, starts, ends } = blinkEngine();
+      poorStretch(startAt + 1, COMPLETE_BLINK.frames.length).forEach((frame) => engine.process(frame));
+
+      expect(starts).toEqual(reference.starts);
+      expect(ends).toHaveLength(1);
+      expect(ends[0]).toMatchObject({ startedAt: starts[0], timestamp: starts[0], interrupted: true });
+    });
+
+    it('keeps blinks in poor frames out of the count', () => {
+      const engine = new VisionEngine();
+      engine.register(new BlinkAnalyzer());
+      engine.setQualityGate(DEFAULT_MIN_QUALITY);
+      const blinks = vi.fn();
+      engine.on('blink', blinks);
+
+      clipFrames(COMPLETE_BLINK, FAR_AWAY).forEach((frame) => engine.process(frame));
+      expect(blinks).not.toHaveBeenCalled();
+
+      engine.setQualityGate(null);
+      clipFrames(COMPLETE_BLINK, FAR_AWAY).forEach((frame) => engine.process({ ...frame, timestamp: frame.timestamp + 1000 }));
+      expect(blinks).toHaveBeenCalledOnce();
+      expect(engine.quality).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import type {
+  Analyzer,
+  AnalyzerContext,
+  VisionEventHandler,
+  VisionEventMap,
+  VisionEventType,
+  VisionFrame,
+} from './types';
+import { FrameQualityAssessor, type FrameQuality } from './frameQuality';
+import { FrameScheduler, type PeriodicTask } from './frameScheduler';
+import { PerfMonitor } from './perfMonitor';
+
+type HandlerSet = Set<(event: never) => void>;
+
+/**
+ * Framework-independent frame pipeline. Frames go in through `process`,
+ * registered analyzers turn them into metrics, and results come out as typed
+ * events that any number of listeners can subscribe to. Every analyzer's
+ * processing time is tracked in `perf`. With a quality gate set, every frame
+ * is scored first and poor ones are withheld from gated analyzers.
+ */
+export class VisionEngine {
+  readonly perf = new PerfMonitor();
+  private readonly analyzers = new Map<string, Analyzer>();
+  private readonly handlers = new Map<VisionEventType, HandlerSet>();
+  private readonly scheduler = new FrameScheduler();
+  private faceVisible = false;
+  private qualityGate: { assessor: FrameQualityAssessor; minScore: number } | null = null;
+  private latestQuality: FrameQuality | null = null;
+
+  private readonly context: AnalyzerContext = {
+    emit: (type, event) => this.emit(type, event),
+    recordLatency: (label, ms) => this.perf.record(label, ms),
+  };
+
+  register(analyzer: Analyzer) {
+    if (this.analyzers.has(analyzer.id)) {
+      throw new Error(`Analyzer "${analyzer.id}" is already registered`);
+    }
+    this.analyzers.set(analyzer.id, analyzer);
+  }
+
+  unregister(id: string) {
+    this.analyzers.get(id)?.dispose?.();
+    this.analyzers.delete(id);
+    this.scheduler.forget(id);
+  }
+
+  /** Starts scoring frames, gating those below `minScore`; null stops it. */
+  setQualityGate(minScore: number | null) {
+    this.qualityGate = minScore === null ? null : { assessor: new FrameQualityAssessor(), minScore };
+    this.latestQuality = null;
+  }
+
+  /** Assessment of the most recent frame, while a quality gate is set. */
+  get quality(): FrameQuality | null {
+    return this.latestQuality;
+  }
+
+  getAnalyzer<T extends Analyzer>(id: string): T | undefined {
+    return this.analyzers.get(id) as T | undefined;
+  }
+
+  on<K extends VisionEventType>(type: K, handler: VisionEventHandler<K>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(handler as (event: never) => void);
+    return () => {
+      set.delete(handler as (event: never) => void);
+    };
+  }
+
+  process(frame: VisionFrame) {
+    this.perf.frame(performance.now());
+    const hasFace = frame.landmarks !== null;
+    if (hasFace !== this.faceVisible) {
+      this.faceVisible = hasFace;
+      this.emit(hasFace ? 'faceFound' : 'faceLost', { timestamp: frame.timestamp });
+    }
+
+    let gated = frame;
+    if (this.qualityGate) {
+      const start = performance.now();
+      const quality = this.qualityGate.assessor.assess(frame);
+      this.perf.record('quality', performance.now() - start);
+      this.latestQuality = quality;
+      frame = { ...frame, quality };
+      gated = frame.landmarks && quality.score < this.qualityGate.minScore ? { ...frame, landmarks: null, gated: true } : frame;
+    }
+
+    const scheduled = this.scheduler.next(frame.timestamp, this.periodicAnalyzers());
+    for (const analyzer of this.analyzers.values()) {
+      if (analyzer.intervalMs !== undefined && analyzer.id !== scheduled) continue;
+      const start = performance.now();
+      try {
+        analyzer.process(analyzer.qualityGated ? gated : frame, this.context);
+      } catch (err) {
+        console.error(`Analyzer "${analyzer.id}" failed:`, err);
+      }
+      this.perf.record(analyzer.id, performance.now() - start);
+    }
+  }
+
+  /** Resolves once every analyzer has finished its in-flight work. */
+  async idle() {
+    await Promise.all([...this.analyzers.values()].map((analyzer) => analyzer.idle?.()));
+  }
+
+  reset() {
+    this.faceVisible = false;
+    this.qualityGate?.assessor.reset();
+    this.latestQuality = null;
+    this.scheduler.reset();
+    this.perf.reset();
+    this.analyzers.forEach((analyzer) => analyzer.reset?.());
+  }
+
+  /** Unregisters every analyzer, releasing their resources. */
+  dispose() {
+    [...this.analyzers.keys()].forEach((id) => this.unregister(id));
+  }
+
+  private *periodicAnalyzers(): Iterable<PeriodicTask> {
+    for (const analyzer of this.analyzers.values()) {
+      if (analyzer.intervalMs !== undefined) yield { id: analyzer.id, intervalMs: analyzer.intervalMs };
+    }
+  }
+
+  private emit<K extends VisionEventType>(type: K, event: VisionEventMap[K]) {
+    this.handlers.get(type)?.forEach((handler) => {
+      (handler as VisionEventHandler<K>)(event);
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import type { Circle, PixelBuffer, Point } from '../scleraRedness';
+
+// Eye crops as the redness worker receives them, taken from the bench's
+// graded set (bench/fixtures/redness/synthetic-eyes.json). Pixels are RGBA,
+// base64; polygon and iris are in crop coordinates.
+
+export interface EyeCropSample {
+  width: number;
+  height: number;
+  rgba: string;
+  polygon: Point[];
+  iris: Circle | null;
+}
+
+export function cropPixels(sample: EyeCropSample): PixelBuffer {
+  const data = Uint8ClampedArray.from(atob(sample.rgba), (c) => c.charCodeAt(0));
+  return { data, width: sample.width, height: sample.height };
+}
+
+/** White sclera, graded index 0. */
+export const CLEAR_EYE: EyeCropSample = {
+  width: 40,
+  height: 20,
+  rgba: 'q41r/62Nbf+mhG7/qYhw/6mObv+phmz/qIZr/6qIaf+ojm3/qItu/6eDbv+riHL/poht/6aMbP+pi27/qopp/6+Qb/+wi2z/qItt/6mJdP+nhmv/p4pp/6+Ma/+ri2//r4dv/66Gaf+tiW//pYly/6mMbf+qhm//pIhu/6eIbv+ohWz/rIZz/6mLbP+rjG7/p4dq/6eIbv+linP/rI5w/6eHb/+siWj/qohz/6mIav+tinL/rYpu/6+HbP+lj2z/rpB0/6+Kaf+pjnH/q4hu/6uObv+oiG//r4dv/6WNbv+miWr/qYtr/6mLbv+liW3/pYVx/6qMav+viXH/roZp/6WGcP+lj23/qo1x/6iOaP+tjG//o4pv/62JbP+wiG3/p4lt/6uJbv+rh2n/qIht/6mHbP+njW3/qIhw/6yLa/+mh27/q4hs/6iJav+liW7/pYdu/66KbP+jiW//rodt/6iMb/+njW7/podx/6mGav+mi2v/ooVq/83YyP/N2cL/z9LF/8rTvf/N3MP/ytjC/8zPw//R1cH/w9fE/8rXwP/O1sP/zNjD/66HaP+viXD/qIhw/6yDbf+mhWr/qYRy/6iFbP+thm//oo1s/66NdP+qhGf/qYxu/6iGcv+oj3L/qYds/6+JaP+ojG7/pYdm/6eKbf+miW3/qYpw/6yLcP+uhmr/09i//8vUxP/G1cb/zNrD/8/YxP/M18P/0dPE/8zaxv/O0cX/x9bJ/8rTwv/M2sL/zdTC/8nWw//N18P/zNvF/8rWwf/C2MD/zdfE/9TZv//I1cX/ztnE/62Ia/+sim7/p4xv/6eIbf+ph23/qY5u/6uLcv+sim//rIxp/6mIcf+qiW7/q4lv/6qFbf+oj23/pY1t/83Xvv/Kz8H/zNnC/87WwP/L3Mf/ytbJ/8zXwv/K1cT/ydbG/8vSv//P1b//PzQk/z0tHv89MiP/PC8b/z0zIf/N07//09jG/87XxP/O1sb/0dXB/87bw//N0cL/y9vC/9DWxP/L2Mf/zdXH/9DSyv+qimz/q4Zp/6mKb/+qi3P/rY5s/6eKb/+tiWz/rIdw/7OObP+pjGr/ytXG/9DcwP/L2MD/ydnE/8vZvv/N1ML/0NnE/83Zwf/K2cH/zNS//8vWxP8+Lx//QSof/zoxIf86NyX/QC0n/0QyIP8/LSf/PCwh/9DVwP/O2sX/zde+/8jVvv/F08L/0dfG/83Yw//M27//zNXB/9DXxf/L1ML/zdXA/8zSvf+ni3D/oIRo/6SGbP+rjmz/qohs/6eGbf+rhmn/zdLD/9HSxf/M1cD/ytjB/9Hbw//E2b//yNbH/8zRyf/P2cL/zdTA/8zUvP/J2sT/PTAk/z4vIf9CNB//Oiwj/0MsJ/9ALyD/QDIi/0IyJf87MST/z9rB/8fcv//R2cf/zNfA/8XVv//N1MX/ztbC/8nYxP/R2cT/zNbH/8/Qyv/L1Mb/ys7F/6qNa/+ni2v/rIpr/6uOcv+tj23/ztPK/8bdwv/J1cL/ztbE/8vZxP/N1sX/z9W7/87QxP/M2MP/zNXA/83Uxf/J2cT/OzAh/z8rJ/84LiL/PS8g/z8vIf9ANiD/Oi4b/z4wJP8/Lyb/RTQl/z8yIv/O2MT/x9XB/8nSwP/N18D/z9bG/9DXwf/P1r//zNbB/83ZwP/N2cL/0NTK/8rYw//O1cL/q4hq/6eTcP+piW//z9HC/8vUxP/M08T/0NfF/83Vxf/LzsX/zdi8/8vVvf/R0sX/0NXB/8vawv/O18L/yNXB/z0zJf8/LCT/QCsn/z4vH/9ALif/PS0h/z4uIf8/MyP/PzAj/z8yI/87MSP/1NfD/8jYxP/J0sL/xtq+/8vWxP/N1sP/ytfE/8vYv//J1cP/z9LE/8/WxP/N3sP/zNTF/87Uwv+ti2//o4tu/8zYwv/K0sr/0NbD/8zXwf/L2cL/ztPA/9DTwf/M073/zdm//8vUx//O0MP/x9bH/zs2Jv9AMx7/Oy4k/0AuH/86MSH/OjEg/0AvKf9BMiX/PjEk/0AxJv8+NCH/OzEi/8nVvP/J1sf/zNTE/8rTx//M1cP/ztjD/8vWxv/Q18P/zdTE/8vVw//N1cD/zdm//9LYw//K1MP/rI1x/7CHbf/N1sX/zdjD/83awv/M18T/z9jG/8zVw//O28b/zNTF/9XXwP/G1sP/zM3E/9HVwv9CMCD/Pi8g/zsvKP9AMCL/QC4h/0IrI/8+LyX/PTId/0UyIf8+MiP/PS8b/z8vJv/M18X/xNDB/8/Ywv/J2cT/ytXC/87VwP/Hzr//z9S//8jQvv/K18P/z9nK/8/Wxv/O3sX/0dbE/6aMa/+ujG//x9XB/87Uw//L2ML/z9HE/8jYxP/M1MH/zdvE/8rVwv/M2MH/09XD/8rSx//P1sP/ytLC/0AwH/8+MSb/Qi8j/zwvIP85NSP/PTIk/zovIf9ALSH/PDEm/0MvHv87Mh3/ztXF/8vZwf/N1MT/z9fD/83Vw//P2b3/ztXA/87Yyf/O1rv/z9rA/9DQvf/M08P/y9fF/8jXvv+sjmv/qYpu/6mHbv/I2MT/y8vG/8vTvP/N1L3/y9XD/8vZwf/M18H/zNi9/9HUxf/N1rz/ztnC/8jZw/9FLiP/Qi8h/z84Jv89LiH/Qy4h/z8qI/89MiH/PTEi/zoyHf88LiD/Py4j/87YwP/Q2MX/y9LA/8fZw//M1sT/0dm//8vZwf/K28D/z9fD/8/XxP/N1MP/y9K+/87Uxf+og3X/pYlw/6eHav+rh3P/qolv/8jZw//Mz8P/y9e+/83Yvf/P2sX/y9LC/8vWwv/U0sL/z9vI/9LRwv/T1sD/zdbE/z0yJP89LiP/Pywj/z8tI/9BLhz/Pi0f/zs2HP8+Mh3/QTAk/8/Zwv/K2cb/yNPI/8nXv//N18L/zdTL/8/WxP/P2MX/x+DD/8rdx//O1cj/ytnA/8vRvf+oiGr/p4tr/6yKaf+riG3/qItw/6WIcf+tf2z/0NbE/8jZwv/O2MT/0Nq//8zXw//I18X/ytbG/8nXv//O0ML/ztS+/8nZvf86NCH/QS4k/0EyI/8/LyP/OjMk/z4xI/88NyP/PTIi/8vYwf/K0sr/z9PB/8jbwP/I0s3/y9rC/8rVw//S1b//xtrE/8rZwv/O1cL/0djA/9HTwv+uj2j/qohq/6eIbv+vi2v/p4Zt/6WCav+pim3/roht/6qLcf+qi23/yti+/9LZv//I18T/zdXE/8jdyf/L1cT/ydbI/8rYwP/M2Lv/zde+/8/Vwv8/Lib/PDAk/zw2Hv86MB3/PS4d/8nUwP/L1MT/y9nB/9DZvP/K1cL/0dbF/8rYw//K1sb/xNLE/9TUw//M2MH/y9zB/66Ha/+tg3D/pIpn/6yJbP+rh27/qIlv/6qMbf+kim7/qYZq/6KGdf+qiWv/polx/6iNa/+ri3D/q45q/9DWxP/J18L/zNbC/8vUw//K2cL/ytm+/83Wwf/P18P/z9HC/87Zxf/M0cH/z9nF/87Nwf/P3cb/zdPH/87WxP/Q1b//0dbC/8nTxf/O2MH/ytTI/9PZwf+vjG//potu/6uLbP+okG3/ro5w/6mLbP+oh23/p4hq/66JbP+oj2z/poZn/6qIbf+pjXD/q4lt/6yFa/+ujG//sYxr/6qJa/+kiW7/pott/6mLav+ph27/qY5s/8/ax//N2Mn/x9fD/8rWw//N1Mb/z9XH/9Ddx//N177/zNrB/8nXv//L2MH/0tm6/6+Nb/+limz/q4lw/6iHbf+jh2//qodq/6eNbf+ninD/qIpr/6WHa/+wim//qYlt/6eGa/+riW7/rIxr/6ePdP+mhnD/rYpu/6mJcf+qimr/pYVx/66LbP+sim3/q4Vr/6qGbf+qiWv/qIpy/6eLbv+qjXD/p41w/6uNc/+miGv/polt/6mHc/+ni2z/rI1p/6yKa/+sh2v/rIlu/6yNbv+niW3/q4tt/6yMcP+pkG7/rIxr/62JcP+qimv/sIhz/6uJYv+njW//pYls/6uLdP+sj2n/q4pw/6iObf+piWz/r4Jv/6qEbf+liGv/qYxz/6+Obf+ri2f/qIds/6uLav+nhnP/qo5u/6iHc/+riXH/rIhw/6eHcv+ri27/pY1t/6SHa/+oiW7/sY1u/6yJa/+qh23/q4hx/6eJav+tjGv/q4xt/62IZv+njnH/rYxu/6qPbf+ojm//pIxp/6eOcv+qiW7/potm/6eJbv+mh27/podp/7CNbf8=',
+  polygon: [[39, 10], [37.55, 13.03], [33.44, 15.61], [27.27, 17.32], [20, 17.93], [12.73, 17.32], [6.56, 15.61], [2.45, 13.03], [1, 10], [2.45, 6.97], [6.56, 4.39], [12.73, 2.68], [20, 2.07], [27.27, 2.68], [33.44, 4.39], [37.55, 6.97]],
+  iris: { cx: 19.4, cy: 10, r: 6 },
+};
+
+/** Bloodshot sclera, graded index 25. */
+export const RED_EYE: EyeCropSample = {
+  width: 40,
+  height: 20,
+  rgba: 'rINm/6yAZv+of2r/rYJv/7CCbv+uemz/qnlo/62GcP+xf2//rIBm/6h6av+pe3L/r31v/6x9bv+sfHD/qnts/6h6af+tgWv/q4Br/6qBbP+tem//r31p/6uAaf+wfGv/p3xn/6x+aP+ygGv/rHtr/6t5a/+rfm7/qYJs/6x8bP+qfGz/rX1q/6+Cbv+qfWz/rn1p/65+b/+sfWj/qn1u/7J+av+tgG//s39p/7CDaf+sg2z/qoFt/6t/af+rgGv/r4Bk/66Bav+sg3D/qntp/7KBb/+pgm3/rXlq/9Gmn/+oKCD/zrSx/8u6tv/HvLv/0r67/9S7tf+qKCL/yLWo/9Kuof+tgWv/qYVx/659av+ohW3/rHxn/6R+ZP+qe2z/rH9v/6qBaP+of2j/rntn/6t9aP+pd2z/rn9r/6+FZ/+mf2z/rH5r/6p9bf+we2v/q3pv/62Daf+rhWb/qn9s/6t7aP+lgGj/zJWN/82Zi/+rLyj/zKWY/8ypov/IrqT/zbGm/822sP/Pw7T/0MW9/869vP/SvLL/1LCs/9Cxov+pKCj/rSgo/9Cik/+yMiv/qjAt/6Q4NP+rfW3/r31o/6uAbP+sfmr/q4Bt/61/Zv+ueWX/sIJq/6p9a/+lf2//rH1p/6qCZP+sgGz/rn1j/6x7cP+qe2f/tINn/6o3N/+rNzX/rTQw/8yXhf/RmpP/pyoo/8uhnf+qKCX/zaip/8yyqv/Ot6z/0r26/9G+wv/Tu7z/17iz/8mtr//Ksav/rCYi/9GqnP/InZX/y52Q/6sxMP+oMjH/qDgy/601Of+uOjr/rYJs/6l7bP+nfnD/q4Bt/6p/af+nfmr/rX5r/6h6cf+shG3/r4Fs/7CAbP+qf2f/rD44/6o6OP+rPTn/0od+/6gyLv/LkYj/qS4x/6szKv/Nn5v/0aOh/6clJ/+sIxz/PScf/z0vHv8+LB//QSch/zwqIf/Puq3/zbOq/6srKP/NpZz/y6GU/6kzLP+rKjD/rTkv/6g0Nv+rNjP/x3p2/6tAPf+vPTT/sIRn/697Z/+neGj/rnxu/6x+Yv+vfmT/qHxp/6p9a/+te23/rjw4/6w4P//KeHT/rT04/600Nf+oNzL/qjMu/600Kv/MoJf/z5+a/8ipm//OrKf/Qy4h/0EqJP86JyX/Qi8f/zkvJP9HJyL/PSwf/0QnIv/Kq6X/yqOc/6wnL//MmZL/qzMr/64xMv+oMzD/sTg4/6k/Of+uOT7/rT08/689O/+sg2r/rYJo/6t/a/+qf2j/qYBs/6R6Y/+tfWr/qjs5/6s8Pv+pNjr/rD05/6w5Nv/JiHr/qDgx/603KP/PkJL/0ZyQ/8qkm/+oLCz/SCkc/0AsJf8+LB//QC4i/z0lIP9FJh3/Oi0e/0AxIv8/LCL/PSYg/6wvKP+pLyr/qy4u/6wxLf/Oj4X/zYh8/6k5Mf+rOjb/rTs8/7A9N/+wPDr/pTk4/7B9av+nfWX/sYFu/62AZ/+xfWr/y3Rx/8p4bP/Nem3/yndu/8x8cf/GhHj/zouB/8mNhP/KkYP/zJyP/8qfk//RoJn/QSoq/z4tI/8+LyD/Qysg/zwtHf87LR7/Piwh/0AqHf9BLCP/Py0f/z4wJP/IpZv/y5+V/9GekP/NlpD/yJaE/82Fe//Pg3v/xH13/8p1cf/Od3D/zHpu/812cP/MeG7/rn1k/6l7cf+wfmf/qj05/607O/+nPj3/qj04/6o7Ov+pPDz/qzo4/6oyOf+uNjT/rS8t/8yWi/+rLCj/zqCV/0EpJP9CLiH/Qysn/z0lGv89LB//RC4j/z4xIf9BKSP/PSYh/0ExG/88LST/y6Sa/8+gk//Om5L/qS0u/9ORiv+qNTD/rzo3/684Of+qPDz/pz09/6lAOf+nPDb/pkE+/6w9OP+qgmz/pn1s/64+PP+rPTj/qj44/6s6N/+vQTz/rTY3/6w0N/+vNzX/qzcs/6ozMP/Mmo3/qzAo/60mLf8+LyT/QDAe/z8oIf8/Lh7/Py0m/zwsHf9CKhz/Pioi/zwqGf89KSL/Qisi/z0rIP+nKyz/ypGZ/6YrLv+rNi7/pjcy/7A3N/+pOjj/qz05/686Of+rOzn/rT02/647N/+tOD7/r39o/619af/OcnD/0Hhm/8V1cP/HdnH/xXtu/8Z9cP/GhXb/xI17/8mNhP/Kk4b/0JmV/9Cel//Qnp3/OzIk/zwqJv84LR//Piwh/0MvIf9ALR7/RCwi/0AsIP89KCb/QCgf/z8qH/88KST/0ZuZ/82ekP/NkY3/x4mM/8mFhf/Lg3f/yX90/8t2b//HeG7/z3pw/813bv/MdXH/0nlv/6p4af+vfWz/x3Zv/8x5b//KdnD/ynZt/8p1bf/Nfm7/y4J7/8eGhf/Ni4j/zY6K/8uckv/Nmpf/zqqZ/0QvIP9DKyP/OCwj/0AuGv88LCf/PS8i/0AqG/9ALSL/PSsf/z8oIv87MCD/zqed/8uglv/Nl4z/0pWJ/82VjP/IiH//yYB8/8p+eP/IeHT/xHhy/8d7b//MdXH/zHtp/812bP+sgWz/p31l/6Z7bv+sPDv/qzo7/6o9P/+oNz7/rjU2/8t9dv/HjHj/qTEu/6g6K//ImZH/0KOY/6srJ/9ALCX/PSkf/zwuGP89LCH/Piog/zwrIP9CLh//QCkm/0IsHv9HLCH/QjAl/6kmK/+rLyr/zJSU/8yRkf+vNzT/rjc3/6k2NP+uPDj/qzcz/6s7Of+sOjf/rjs5/609PP+ufGv/qIBq/7F6bf+qgmv/rINo/6w8Nf+qPzv/qkA5/8l/dv+vOjn/pzQy/6U3N//Ik4v/ry0u/86gk/+nLDH/qiYf/0ArIf9AKyX/Pikh/z8yIf88KiX/Py4g/0ErI/8+KST/Pi0h/z0tHP/Lpp//qyws/6wwMP+oMyz/sDQt/685Mf+sODf/qzcw/6lAOP+vQjb/pT09/6s7O/+rg2r/rXxr/6t6bf+sf2j/rHZo/6yDaP+sgGX/qjk6/6tAQP+qPDr/qi47/6s8MP/LjYT/zI6H/8mQkP/KnJT/qC8o/8uspP/RsqL/OSoi/z8qIf8+JR3/PjIl/0MtIf8/JyP/Qigg/0QsI/+qKiX/qTAj/6ooJv+pMin/rTMu/9GUgv+uMzD/yoR8/6o5M/+uO0D/rjw6/6c8Nv+yf2r/rn9p/6t9av+sfmX/q4Br/6l9ZP+ng2r/rntq/7SAaf+vPj//qj07/6o4OP+tNDL/rDMo/6oyL//InYz/rjAr/9Gjmf/Pq6H/yqun/6gmH/89LCT/Qyci/z8oIv8+KRv/QS0j/6kmI/+tJSf/yqqg/9Oknf/LoJr/zJiT/82Tjv+qNi7/sDov/605Mf+nPDb/rTs2/6c8PP+nf3D/rH5u/6yGav+tgG7/r4Js/6qEbf+re2f/pn9p/6l+bP+lfWv/qXdr/6iAaf+pNjr/sDU1/6o3Mv+rMy7/zJiM/8ublf+oKCf/qygl/6kjJP/Ptq3/zLm1/82+vv/Pxb7/0r20/9W4t/+sISn/0bOm/9K1of+uJSX/0KSX/64yLf+tLy7/pTcx/6w7O/+sMjf/rTw3/66Abv+tfm3/r31p/6+Baf+vf23/soJr/699a/+qe2j/r4Np/6p+dP+rgGz/q39u/6uFaP+qgGr/qoFq/618Zv+qgW3/yZKJ/6UvMP+sLS//0KSb/6grJP/Kq6f/yres/8y7sP/OwLz/zsa//9LBuv/Nubb/qiUi/8yxp/+nLST/z6Sh/8+hmf+qKjP/qSsx/8iNhP+rf23/p4Fq/65/a/+pfGr/q3lv/69+av+qf2//pn9r/7N8af+vgm7/rIJq/6t/Zf+sg2r/sHlo/7N/a/+sf2n/qH5m/657aP+vfmj/rH9r/6h+aP+ofmf/roBy/619Z/+ogGn/pyAf/6olIP/Mtan/zby3/9PEvf/Nvrj/zrq1/9O0sP/Oq7D/qioj/6x+aP+nhGb/qHpr/6qBbf+wd2r/q31q/6x7bf+wemb/qH5t/6t+aP+sg2n/rHpr/6uBa/+we2n/rYBk/655Z/+rgWn/qYJs/6x9bf+ufm7/rYFo/6x/av+vgXD/r39n/7CEZ/+0fWr/rHps/6t8cf+qgm3/qX5p/6l/Zv+sgWb/rIRt/698Z/+wfWf/rX5t/7B/aP+wf2j/rXpm/6l9bf+rfGj/qH5r/656a/+pfWj/rn1q/7GBbv+ofWv/rHxp/69/c/+vf2P/qoFn/6x8av+yfW//roJs/62DZ/8=',
+  polygon: [[39, 10], [37.55, 13.38], [33.44, 16.25], [27.27, 18.16], [20, 18.84], [12.73, 18.16], [6.56, 16.25], [2.45, 13.38], [1, 10], [2.45, 6.62], [6.56, 3.75], [12.73, 1.84], [20, 1.16], [27.27, 1.84], [33.44, 3.75], [37.55, 6.62]],
+  iris: { cx: 19.69, cy: 10, r: 6 },
+};
+
+/** Lids almost shut; too little sclera to measure. */
+export const CLOSED_EYE: EyeCropSample = {
+  width: 40,
+  height: 20,
+  rgba: 'xZiF/8WQgf/GlID/wpuB/8aRgv/FloL/xZR6/8WUfv/Gkn//wZN9/8eVgv/GmIH/w56C/8KTe//Dl4P/ypR+/8KTg//HlYb/xZd9/8CUgf/GloP/wZaC/8WSgP/Fk3//v5GE/8WWev/DlYD/vpuC/8KVhf/GlIL/v5V5/8SUf//GlX3/xpJ//86YgP/FmH7/wJN//8WUgP/FlH//v5WE/8uUgP/Em4f/wpaA/8OWhf/Dl4H/xZKE/8CYgv/Ck33/w5iD/8qUgP/EkYL/wpeB/8KXfP/DnID/yJmD/8GXfP/BlYX/wpR+/8eYgP/GlYD/xY9+/8iWev/FmIP/xZd8/8OXgf/GlIb/xJGC/8aYfv/BmHj/wJZ+/8OXhv/FnH3/wJaC/8OTgP+8k4H/wIyB/8OXfv/JlH7/x5J//8WafP/EmIH/xZaA/8KUff/Al3//x5l9/76Zf//CloP/x5CA/8STf//Dl4j/yJaB/8CVhP/Ajn//xpd9/8aUff/GloT/yZd+/8GUf//GkYD/xJGE/8WVgf/Gln3/yJaA/8Sdg//CmXv/xJR+/8OcgP+/mn//ypqD/8Cahv/GlYD/yJV//8GXfv/HmoX/v499/8SUgv/EkXz/w5V9/8mXgP/Jl3z/xpR6/8aZf//EloD/wZN//8GPgf/Blon/vpl9/8SWff/GlYD/w5eA/8SRfv/CloH/w5SE/8WXgP/GmX7/wpR8/8qUfv/Il4T/xpl+/8KSf//El37/xZqD/8CTgP/LloD/wpd9/8SQgv/EkIH/w5R6/8GYgf/DloL/w5Z9/8mXe//AlX7/w5eE/8SXfP/Fl4X/xJmB/8GZfP/ElX//xJ2F/8WSgv/EkoL/vpiD/8mWgv/Ek37/xJeE/8SafP/FlYb/ypZ+/8Kagf/Dk4T/x5R+/8SdgP++l4D/xpaA/8aVfv/Blnz/x5uE/8WWgv/CmYT/xJZ+/8STf//EloX/yJKC/8SUh//Bm4H/xJKC/76Whf+9lIf/w5Z//8KShf/ElHz/w5KA/8aVff/FlX//wZSA/8aShf/El3//x5aC/8iafv/DlYb/wpqC/8aZgf/HmH7/xZ5//8eTe//IlX3/wpSD/8GZfP/Dln7/xJF9/8aZhf/Jl4L/x5R//8OThP/Dl3v/yJd//8WYgf/DloD/xJuE/8eUfv/FmID/xJWF/8WTev/Al3z/wJV8/8KSgP/ElX//ypp8/8WWgP/Fl4D/w5d9/8CVg//GloD/xpqA/8GRgf/GnIL/wJR//8OYg//FmoD/xZeA/8aUfv/Fl3//wZiE/8WUg//El4H/xZWE/8SWgf/IlYL/yZl8/8OUgP/DmID/w5eD/8aWgP/QloD/yZmB/8GYfP/HlH7/ypF9/8KYgv/EkIH/wJeA/8aTf//Cln//xpSA/8OWgP/Cl4D/yJiG/8WYgP/Cl3z/xJiB/8OTh//GmoH/yJt7/8WSgf/FlIP/wpZ6/8OWgP/BlH3/v5eA/8KVfv/Bm4H/xZmC/8Gagv/DkYH/yJF8/8SYg//QmX3/xZSA/8CZg//Akn7/v5h//8Saff/CkoD/wJZ//8KVfv/Hl4L/xJaD/8eYhf/GkoH/xZJ//8eVfv/Ek37/w5N9/8SWhf/EmYD/wJWD/8ibf//Ck4P/wpiB/8GTgv/FlIL/ypd//8iVfv/EmHr/x5p9/8GXgf/El4L/w5eB/8SUg//GmH//yJOA/8WSff/Fk4L/xZOC/8SVg//ImX7/xJeA/8WWf//Dkn//wpiF/7+Rgv/BkYL/x496/8SYfP/KlX//wZuB/8GWgv/DlYD/xpqC/8OYg//Fk3//xJWA/8KUgf/KmYH/xZeA/8SZfv/EkXv/xJiA/8WXg//Fl4T/xZB9/7+TgP/Dl4P/xJeB/8WRf/+/k4H/xJV8/8qaff/DkXz/xpqB/8iUgP/n1s//59fR/+/V0P/v09D/7dTP/+7U0P/r2c//69zT//HZ0f/w3tf/6Nva//Dk2v/q49n/7OPW/0s1I/9MNib/STAr/003Jv9GMyf/TTQn/0Y4Kv9JNCL/STEp/0gyJv9LOij/RTUj/+3e1f/q3tv/7d7W/+zW1f/t3NL/5dnW/+vVzP/p1c7/5tXP/+vWzv/AmYD/wJWB/8GUf//EmoD/7tbP//PU0v/q0dH/7NjP/+vTzv/t0c//59XN/+rYzv/s1dX/6drV/+rg1//w2Nj/6eHW/+zl2P9MOC3/RzEo/0I2JP9HMyn/Rjkn/0k0K/9UNST/STMq/0owKv9DNCv/SDQm/0kxKP/p49z/6t7Z/+va0//l19j/59TX/+3Y0v/p3NX/59bP/+vVzP/z3c//xJaH/8iXe//Cl3z/w5J9/8CWf//BloX/yJJ9/8aYgv/ElIL/x5mB/8aYgP/CmIL/xpSB/8aWhv/Cm3//v5OB/8aWf//HlIL/wpZ8/8WWfP/Fl3v/wpiB/8OYfv/JkXz/wpt7/8WXf//EmID/xJeB/8aSff/BlYH/wJWA/8WUf//Hk4L/xJR+/8KXg//Hk4L/wJh8/8SVfP/Il3//x5Z+/8KVgv/GlH3/xZ6D/8WXfv/FmH3/xpV9/8eTff/BmID/xJp+/8CVff/BlIH/w5V//7+ZgP/BmoL/xpWA/8qRgv/Ilnz/wZR//8eUfP/DlIH/w5d+/8KYgP/BlYf/w5V9/8aUfP/FloH/xpaA/8eUgv/AmX7/wZaC/8OYfv/DlIL/x5OG/8GXff/ImH3/w5d+/8uVfv/Cln7/vpKH/8Gbgf/BkYT/xph//8KUhf/KlH//w5N//7+WgP/JmXv/xpeA/8OZgv/Dln7/w5eC/8qVf//DmYL/yY9//8aVgP/ElIH/zJaD/8OWg//EmX3/w5OF/8aVg//Dl3//w5d8/8SYg//ClH3/y5aC/8GVfv/Fl4T/vpKD/8aVgP/Dln7/v5Z7/8KXgv/Fmn//vpZ6/8WUfv/El4D/wpWB/8CVgv/HmIL/w5l//8WXff/FnH7/w5qB/8WWfv/MlYX/yI6C/8KVg//EmYT/wZiB/8SVgP/Bln7/x5SC/8KWfv/GlX//wpOA/8Kagf/Dln//xpGB/8WZev/Fk4D/xJl+/8eUfv/EmID/yJGA/8mWfv/Bk4T/w5h+/8Obff/ElID/xJeB/8SYff/ClH//yJiC/8GRf//Fln//xJaA/8OUhf/Gk4P/xZSC/8OTg//Al37/xpl//8SbhP/Cl4D/wpWE/8aUfv/DkoH/xJN9/8OTfP/GkoX/xZV9/8GSh//CmX//xJmF/8OZhP/FlX//wZaB/8aWf//DnH7/w5KD/8WXh//BmIT/xJqC/8KZgv/HmoL/yJmF/8WSg//GkoT/wZV6/8GXff/CkX7/x5N9/8SYf//Fl37/yJh//8OSgf/DkoP/xpmB/8qWgf/InIP/xJWE/8iUhf+9mYj/xZWB/8eSfP+/lX7/xZWB/8WVg//Kl37/wpZ9/8aRhv/Ak33/xZt+/8ObfP/JmHz/yZN//8KWgP/MmoD/yJKD/8WZfP/El3//x5WE/8GYff/Il4D/wpaA/8qbf//Dk3//xJWB/8Kcg//ElH7/wZV+/7+Wg//DmX7/wJOA/8WPgf/Imn//ypl+/8GVe//Gk4L/w5aD/8mWgv/ElH3/xpSA/8mZgv/Hj3//wZF6/8WYgf/Cln3/wpiC/7+Ue//Dj4D/v5Z//8iUgP/EkYH/wZt//8WUgP/MkX//yZJ//8KZgP/ElXz/w5t9/8SYf//AmIH/yJV+/8aYg//Dknz/wZWB/8KVe//GkoD/x5x9/7+Wfv/Il4H/w5KA/8uOfP/ClH//xZl//8SVfv/Dln7/xZZ7/8SYf//GlIH/wpiD/8SWgf/Bk37/wZOC/8KVgf/JmH3/xJWD/8WUgf/DmHr/wZd+/8eWf//FloD/x5l+/8OZgP/Dln//v5iD/8OTh//IlX//zJGD/8qUf//DlH7/w5GC/8GWg//Bl4D/w5WF/8iZe//Hln3/w5R+/8WRfv/CmIL/xJiE/8OVhv/GkX//xZd//8aUfv/Am4H/xJOC/8KUgv+9lXv/w5R+/8KWfv/DmX7/wpx8/8eZfv/DmH//x5h//8SVgf/Fk33/vZd9/8uaff/FmIP/w5GA/8eSgv/DmH3/xJeI/8WUhf/DloP/yZKA/8mVgf/Cl4P/x5mD/8OVhP/Am3//zJR//8GbfP/DlH7/xpWG/8OZfv/DlID/xph9/8GWev/EmYL/xZR8/8Sag//GnoH/wpWB/8iaff/Gk4H/wZp+/8GRf/8=',
+  polygon: [[39, 10], [37.55, 10.52], [33.44, 10.95], [27.27, 11.25], [20, 11.35], [12.73, 11.25], [6.56, 10.95], [2.45, 10.52], [1, 10], [2.45, 9.48], [6.56, 9.05], [12.73, 8.75], [20, 8.65], [27.27, 8.75], [33.44, 9.05], [37.55, 9.48]],
+  iris: { cx: 21.71, cy: 10, r: 6 },
+};
@@ -0,0 +1,202 @@
+import type { BlinkKind } from '../../metrics/types';
+import { LEFT_EYE_REGION, RIGHT_EYE_REGION } from '../landmarks';
+import type { Landmark, VisionFrame } from '../types';
+
+// Landmark clips for the analyzer tests: synthetic 30 fps eye tracks of a face
+// looking at the camera, with a little jitter on every point, around scripted
+// blinks. Frames are `[timestamp]` without a face, else `[timestamp, x, y, ...]`
+// in pixels for each index in CLIP_POINTS.
+
+export const CLIP_WIDTH = 640;
+export const CLIP_HEIGHT = 480;
+export const CLIP_POINTS = [33, 160, 158, 133, 153, 144, 362, 385, 387, 263, 373, 380];
+
+export interface LandmarkClip {
+  frames: number[][];
+  /** From the lid starting to close until it is fully open again, in ms. */
+  blinks: { start: number; end: number; kind: BlinkKind }[];
+}
+
+const MESH_SIZE = 478;
+const FOREHEAD = 10;
+const CHIN = 152;
+const IRIS_CENTERS: [number, number, number][] = [
+  [468, 33, 133],
+  [473, 362, 263],
+];
+const IRIS_RADIUS = 12;
+// Face box the unstored points are spread over, in pixels
+const FACE = { minX: 180, maxX: 460, minY: 120, maxY: 380 };
+const GRID_COLUMNS = 22;
+
+/**
+ * A full refined mesh around one frame's eye points: the eye outlines run
+ * through the stored points, each iris sits in the middle of its eye, the
+ * forehead and chin above and below the face centre, and every other point on
+ * a grid over the face box. `scale` shrinks the face about its centre, as if
+ * the user moved away.
+ */
+export function meshFromCoords(coords: number[], scale = 1): Landmark[] {
+  const points: [number, number][] = [];
+  const rows = Math.ceil(MESH_SIZE / GRID_COLUMNS);
+  for (let i = 0; i < MESH_SIZE; i++) {
+    const column = i % GRID_COLUMNS;
+    const row = Math.floor(i / GRID_COLUMNS);
+    points.push([
+      FACE.minX + (column * (FACE.maxX - FACE.minX)) / (GRID_COLUMNS - 1),
+      FACE.minY + (row * (FACE.maxY - FACE.minY)) / (rows - 1),
+    ]);
+  }
+  const centerX = (FACE.minX + FACE.maxX) / 2;
+  const centerY = (FACE.minY + FACE.maxY) / 2;
+  points[FOREHEAD] = [centerX, FACE.minY];
+  points[CHIN] = [centerX, FACE.maxY];
+  CLIP_POINTS.forEach((index, i) => {
+    points[index] = [coords[i * 2], coords[i * 2 + 1]];
+  });
+  // The rest of each eye outline is spaced evenly between the stored points
+  for (const region of [LEFT_EYE_REGION, RIGHT_EYE_REGION]) {
+    const anchors = region.flatMap((index, i) => (CLIP_POINTS.includes(index) ? [i] : []));
+    anchors.forEach((from, k) => {
+      const to = anchors[(k + 1) % anchors.length];
+      const [ax, ay] = points[region[from]];
+      const [bx, by] = points[region[to]];
+      const span = (to - from + region.length) % region.length;
+      for (let step = 1; step < span; step++) {
+        points[region[(from + step) % region.length]] = [ax + ((bx - ax) * step) / span, ay + ((by - ay) * step) / span];
+      }
+    });
+  }
+  for (const [iris, inner, outer] of IRIS_CENTERS) {
+    const x = (points[inner][0] + points[outer][0]) / 2;
+    const y = (points[inner][1] + points[outer][1]) / 2;
+    points[iris] = [x, y];
+    points[iris + 1] = [x + IRIS_RADIUS, y];
+    points[iris + 2] = [x, y - IRIS_RADIUS];
+    points[iris + 3] = [x - IRIS_RADIUS, y];
+    points[iris + 4] = [x, y + IRIS_RADIUS];
+  }
+
+  return points.map(([x, y]) => ({
+    x: (centerX + (x - centerX) * scale) / CLIP_WIDTH,
+    y: (centerY + (y - centerY) * scale) / CLIP_HEIGHT,
+  }));
+}
+
+/** The clip as engine frames, without pixels. */
+export function clipFrames(clip: LandmarkClip, scale = 1): VisionFrame[] {
+  return clip.frames.map(([timestamp, ...coords]) => ({
+    timestamp,
+    landmarks: coords.length > 0 ? meshFromCoords(coords, scale) : null,
+    width: CLIP_WIDTH,
+    height: CLIP_HEIGHT,
+  }));
+}
+
+/** A complete blink. */
+export const COMPLETE_BLINK: LandmarkClip = {
+  frames: [
+    [0, 224.2, 201.7, 242.7, 191.4, 265.3, 191.6, 283.4, 201.4, 265.7, 211.1, 242.4, 210.9, 356, 201.5, 374.6, 191.6, 397.5, 191.8, 416.4, 201.5, 397.9, 211.4, 374.6, 211.4],
+    [33, 224.6, 201.9, 242.7, 191.9, 265.5, 192.3, 283.4, 202, 265.5, 211.6, 242.6, 211.3, 355.6, 201.9, 374.4, 191.9, 397.5, 191.5, 416.3, 201.9, 397.2, 211.5, 374.9, 211.4],
+    [67, 223.6, 201.5, 242.9, 191.8, 265.2, 192, 284.4, 201.5, 265.4, 211.3, 242.6, 211.1, 356.1, 201.5, 374.6, 192.2, 397.2, 191.7, 416.2, 201.7, 397.2, 210.9, 374.5, 211.1],
+    [100, 223.7, 201.2, 242.8, 191.8, 265.6, 192.1, 284.1, 201.8, 265.8, 211.7, 242.3, 211.5, 356.3, 201.3, 374.3, 191.7, 397.3, 192, 416.4, 201.5, 397.7, 211.9, 374.3, 211.4],
+    [133, 223.4, 201.6, 242.3, 192.2, 265.4, 191.9, 283.8, 201.5, 265.4, 211.4, 243, 211.3, 356.2, 201.5, 374.7, 191.8, 397.6, 191.7, 415.6, 201.7, 397.6, 211.1, 374.4, 211.6],
+    [167, 224.6, 201.7, 242.5, 192.2, 265.1, 192, 283.9, 201.8, 265.4, 211.4, 242.1, 211.4, 356.2, 201.6, 374.7, 191.8, 396.9, 191.4, 416, 201.5, 397.6, 211.6, 374.3, 211.9],
+    [200, 224, 201.5, 242.7, 191.8, 265.4, 192, 284, 201.8, 265.2, 211.1, 242.5, 211.2, 356.4, 201.7, 374.6, 191.8, 397.7, 191.3, 415.8, 201.5, 397.7, 211.4, 374.6, 211.7],
+    [233, 223.6, 201.3, 242.4, 194.2, 265.1, 193.7, 283.7, 201.6, 265.8, 208.9, 243, 209.2, 356.2, 201.8, 374.7, 194.3, 397.7, 193.8, 415.8, 201.5, 397.8, 209.5, 374.9, 208.9],
+    [267, 224.5, 201.8, 242.5, 198.9, 265.3, 198.6, 283.9, 201.6, 265.6, 204.7, 242.6, 204.7, 356.1, 201.9, 374.6, 198.6, 397.4, 198.9, 415.8, 201.8, 397.5, 204.3, 374.8, 204.6],
+    [300, 224.5, 201.9, 242.6, 199.9, 265.1, 199.9, 284, 202.1, 265.6, 203.2, 242.6, 203.3, 356.1, 201.9, 375, 199.3, 397.7, 199.5, 416.1, 201.5, 397.7, 203.8, 374.6, 203.7],
+    [333, 224.2, 201.9, 242.4, 199.7, 265.8, 198.9, 283.5, 201.4, 265.6, 203.5, 242.6, 204, 356.2, 202, 374.7, 199.1, 397.2, 199.7, 416.2, 201.8, 397.8, 203.5, 374.7, 203.3],
+    [367, 224, 201.3, 242.5, 198.1, 265.7, 198.2, 283.9, 201.6, 265.7, 204.8, 242.2, 205, 355.5, 201.6, 374.7, 197.9, 397.5, 198, 415.8, 201.7, 397.8, 205.1, 374.3, 205.4],
+    [400, 224.2, 201.7, 243, 195.5, 265.3, 195.5, 284.1, 201.5, 265.5, 207.6, 242.4, 207.7, 355.9, 201.8, 374.5, 195.4, 397.6, 195.8, 415.9, 201.6, 397.5, 208, 374.8, 207.9],
+    [433, 224.1, 201.5, 242.7, 192.9, 265.3, 192.9, 284.3, 201.7, 265.8, 210.1, 242.6, 210.3, 355.6, 201.7, 374.4, 193.1, 397.7, 192.8, 415.5, 201.5, 397.3, 209.6, 374.7, 210],
+    [467, 224, 201.5, 242.6, 191.9, 265.5, 192.4, 283.8, 201.4, 265.6, 211.5, 242.4, 211.8, 355.9, 201.4, 374.8, 191.6, 397.7, 191.5, 415.9, 201.4, 397.3, 211.6, 374.7, 211.5],
+    [500, 223.8, 201.9, 242.4, 191.3, 265.8, 191.7, 284, 201.8, 265, 211.9, 242.6, 211.2, 356.3, 201.5, 374.7, 191.6, 397.6, 191.9, 416.2, 201.3, 397.7, 211.5, 374.2, 211.1],
+    [533, 224.4, 201.2, 242.5, 191.9, 265.4, 191.5, 284, 201.9, 265.6, 211.1, 243, 211.5, 356, 201.3, 374.9, 191.9, 397.7, 191.3, 415.8, 201.7, 397.4, 211.4, 374.6, 210.9],
+    [567, 224.3, 201.4, 242.4, 192.2, 265.5, 192, 284.4, 201.9, 265.1, 211.5, 242.5, 211.5, 356.1, 201.6, 374.5, 192, 397.3, 191.9, 415.7, 201.6, 397.5, 211.6, 374.3, 211.7],
+    [600, 223.7, 201.5, 242.6, 191.9, 265.6, 191.6, 283.8, 201.7, 265.8, 211.7, 242.3, 211.2, 355.7, 201.8, 374.6, 191.7, 397.6, 191.9, 415.9, 201.6, 397.6, 211, 374.6, 211.3],
+    [633, 223.9, 201.2, 242.4, 191.8, 265.6, 191.8, 283.9, 201.3, 265.8, 211.4, 242.7, 211.4, 356.2, 201.3, 375.3, 192.2, 397.5, 192.1, 416.3, 201.3, 397.1, 211.5, 374.8, 211.6],
+    [667, 224.1, 201.5, 242.5, 191.5, 265.7, 191.8, 283.6, 201.3, 265.1, 211.4, 242.2, 211.4, 356.7, 201.7, 374.6, 191.3, 397.3, 191.8, 415.7, 201.7, 397.5, 211.8, 374.6, 211.5],
+  ],
+  blinks: [{ start: 203, end: 473, kind: 'complete' }],
+};
+
+/** A blink that only half closes the lids. */
+export const INCOMPLETE_BLINK: LandmarkClip = {
+  frames: [
+    [0, 223.6, 202, 242.2, 191, 265.7, 192, 284.3, 201.1, 265.2, 211.6, 242.7, 211.8, 355.8, 201.4, 374.2, 191.6, 397.6, 192.2, 415.4, 201.6, 397.4, 211.3, 374.3, 211.4],
+    [33, 223.9, 201.6, 242.3, 191.8, 265.3, 191.9, 283.6, 201.2, 265.4, 211.3, 242.3, 210.8, 356.2, 202, 374.8, 191.4, 397.5, 191.5, 416.1, 201.8, 397.4, 211.4, 374.2, 211.4],
+    [67, 224, 201.2, 242.7, 191.8, 264.9, 191.6, 284.3, 201.9, 265.7, 211.7, 242, 211.7, 355.8, 201.6, 374.6, 192, 397.9, 191.7, 416.2, 201.7, 397.6, 211.5, 374.8, 211.5],
+    [100, 224.2, 201.7, 242.1, 192.1, 265.4, 191.6, 284.3, 201.9, 265.7, 211.6, 242.4, 211.4, 356.4, 202.2, 374.2, 191.5, 397.8, 191.8, 416, 201.8, 397.7, 211.1, 374.8, 211.4],
+    [133, 223.7, 201.4, 242.6, 192, 265.5, 191.5, 284.2, 201.6, 265.7, 211.5, 242.9, 211.4, 355.7, 201.5, 375.2, 191.4, 397.3, 191.5, 416, 201.4, 396.9, 211.1, 374.8, 211.3],
+    [167, 224.1, 201.3, 242.3, 192.1, 265.6, 191.6, 283.8, 201.7, 265.5, 212, 242.4, 211.2, 356.1, 201.5, 374.7, 192, 397.4, 192.2, 416, 201.2, 397.6, 211.2, 374.4, 211.3],
+    [200, 224.7, 201.7, 242.4, 191.8, 266, 191.5, 284.2, 201.8, 265.4, 211.2, 242.5, 211.2, 356.4, 202, 374.7, 191.8, 397.5, 191.8, 416.1, 201.6, 397.9, 211.2, 373.9, 211.2],
+    [233, 224.1, 200.9, 242, 192, 265.5, 191.6, 283.9, 201.6, 265.3, 211.3, 242.8, 211, 355.8, 201.6, 374.8, 191.5, 397.7, 192, 416.1, 201.5, 397.3, 211.8, 374.1, 211.6],
+    [267, 223.5, 201.3, 242.3, 193.4, 266.1, 193.7, 284, 201.8, 265.3, 209.5, 242.5, 209.7, 356.2, 201.5, 374, 193.6, 397.5, 193.8, 416.4, 201.6, 397.3, 208.9, 374.2, 209.5],
+    [300, 223.9, 201.5, 242.7, 195.8, 265.6, 196, 284.1, 201.8, 265.1, 207.5, 242.5, 207.8, 355.7, 201.2, 374.7, 196.2, 397.3, 196.1, 415.9, 201.9, 397.5, 206.8, 374.4, 207],
+    [333, 224, 201.3, 241.9, 196.1, 265.1, 196.2, 284, 201.4, 265.9, 206.7, 242.2, 206.8, 355.6, 201.4, 374.4, 196.6, 397.1, 196.2, 415.9, 201.5, 397.3, 206.9, 374.6, 207.2],
+    [367, 224.1, 202, 242.6, 196, 265, 196.2, 284.5, 201.3, 265.1, 207.6, 242.4, 207.1, 356.3, 201.3, 374.3, 196.1, 397.4, 196, 416.3, 201.5, 397.3, 207.1, 374.6, 206.9],
+    [400, 223.9, 201.9, 242.7, 195.5, 265.4, 196.1, 283.9, 201.7, 265.4, 207.7, 242.9, 207.3, 356.2, 201.7, 374.6, 195.8, 397.5, 195.1, 415.5, 201.8, 397.2, 207.5, 374.5, 207.5],
+    [433, 223.9, 201.4, 242.4, 194.3, 265.5, 194.1, 284.1, 201.3, 265.5, 209.1, 242.2, 209, 356.6, 201.5, 374, 194.1, 397.2, 194.3, 416.2, 201.4, 397.7, 208.9, 374.5, 208.6],
+    [467, 223.5, 201.1, 242.8, 193.1, 265.5, 192.2, 284.2, 201.5, 265.6, 210.4, 242.9, 211, 355.5, 201.6, 374.4, 192.9, 397.4, 192.8, 415.5, 201.5, 397.5, 210.8, 374.6, 210.6],
+    [500, 224.2, 201.5, 242.4, 192.1, 265.7, 191.9, 284.4, 201.7, 265, 211.5, 242.2, 211.4, 356.1, 201.7, 374.2, 191.7, 397.3, 191.5, 415.6, 201.4, 397.5, 211.1, 374.4, 211.6],
+    [533, 224.1, 202.2, 242.8, 191.6, 265.3, 192.2, 283.8, 201.6, 265.8, 211.2, 242.7, 211.6, 356.1, 201.8, 374.7, 191.3, 397.5, 191.9, 416, 201.5, 397.3, 211.7, 374.4, 211.7],
+    [567, 223.8, 201.5, 242.5, 191.6, 265.9, 191.7, 284.2, 201.5, 265.6, 211.5, 242.1, 211.5, 356.1, 201.9, 374.7, 191.6, 397.1, 191.8, 416, 201.5, 397.1, 211, 374.5, 211],
+    [600, 223.9, 201.8, 242.7, 191.5, 265.6, 191.5, 284.3, 202, 265.3, 211.4, 242.7, 211, 356.1, 201.9, 374.8, 191.6, 397.5, 191.9, 416.3, 201.5, 397.5, 211.5, 374.8, 211.2],
+    [633, 223.6, 201.3, 242.3, 191.6, 265.2, 192, 284.2, 201.6, 265.6, 211, 242.5, 211.3, 356.1, 201.6, 374.3, 191.8, 397, 191.8, 416.2, 201.1, 397.3, 211.2, 374.5, 211.6],
+    [667, 223.9, 201.6, 242.5, 191.7, 265.5, 192.2, 284, 201.4, 265.4, 211.3, 242.2, 211, 356.2, 202, 374.6, 191.7, 397.9, 192.3, 415.9, 201.7, 398.2, 211.2, 374.3, 211.5],
+    [700, 224.2, 201.5, 242.7, 191.4, 265.6, 191.9, 283.7, 201.7, 265.2, 211.3, 242.7, 211, 355.6, 201.5, 374.1, 192, 397.1, 191.4, 416.1, 201.3, 397.6, 211.5, 374.7, 211.7],
+    [733, 224, 201.6, 242.6, 191.5, 265.6, 192, 283.8, 201.5, 265.3, 211.9, 242.9, 211.4, 355.5, 201.8, 374.8, 191.2, 397.5, 191.6, 416.4, 201.4, 397.8, 211.9, 374.7, 211],
+    [767, 224.2, 201.2, 242.5, 191.7, 265.8, 191.9, 284.3, 201.5, 265.8, 211.4, 242.4, 211.6, 355.6, 201.7, 374.5, 191.9, 397.5, 191.6, 416.1, 201.6, 397.5, 211.3, 374.3, 211.3],
+  ],
+  blinks: [{ start: 232, end: 507, kind: 'incomplete' }],
+};
+
+/** Eyes held shut for most of a second. */
+export const PROLONGED_BLINK: LandmarkClip = {
+  frames: [
+    [0, 224.1, 201.4, 242.4, 191.6, 265.4, 191.5, 283.6, 201.9, 265.6, 211.3, 242.3, 211.8, 356.3, 201.6, 374.6, 191.6, 397.3, 191.7, 415.7, 201.8, 397.4, 211.4, 374.5, 211.4],
+    [33, 224.2, 202.2, 242.6, 192, 265.5, 191.5, 283.9, 201.6, 265.5, 211, 242.3, 211.5, 356, 202, 374.2, 191.8, 397.3, 192.3, 416.4, 201.8, 397.4, 211.4, 375, 211.4],
+    [67, 223.8, 201.4, 242.4, 191.3, 265.6, 192, 283.9, 201.9, 265.6, 211.4, 242.4, 211.4, 355.8, 201.5, 374.9, 191.7, 397.7, 191.8, 416.3, 201.7, 397.6, 211.8, 374.6, 211.5],
+    [100, 223.5, 201.7, 242.4, 191.7, 265.4, 191.9, 283.8, 201.5, 265.4, 211.3, 242.7, 211.5, 356, 201.4, 374.3, 191.7, 397.3, 191.7, 415.8, 201.4, 397.3, 211.5, 374.3, 211.4],
+    [133, 224.4, 201.3, 242.5, 191.6, 265.2, 191.3, 284, 202, 265, 211.6, 242.5, 211.6, 356.2, 201.8, 374.5, 191.4, 396.9, 191.4, 416, 201.4, 397.5, 211.5, 374.2, 211.6],
+    [167, 224.1, 201.5, 242.6, 191.8, 265.5, 192.1, 283.9, 201.5, 265.9, 211.4, 242.8, 211, 356.3, 201.6, 374.4, 192.1, 397.8, 191.5, 416, 201.7, 397.6, 211.7, 374.6, 211.2],
+    [200, 224.5, 201.8, 242.6, 191.8, 265.4, 191.4, 284, 201.6, 265.8, 211.4, 242.3, 211.2, 355.5, 201.6, 374.2, 191.8, 397.5, 191.2, 416.6, 201.1, 397.6, 211.7, 374.7, 211.9],
+    [233, 223.7, 201.4, 242.9, 191.7, 265.4, 192.2, 284.1, 201.5, 265.2, 211.5, 242.1, 211, 356.1, 201.5, 374.6, 191.7, 397.3, 191.7, 415.8, 202.1, 397.5, 211.8, 374.7, 211.5],
+    [267, 224.1, 201.5, 242.4, 191.9, 265.2, 192.1, 284, 202, 265.5, 211.4, 242.5, 211.1, 355.7, 201.3, 374.4, 191.7, 397.6, 192.4, 415.9, 201.5, 397.2, 210.9, 374.3, 211.1],
+    [300, 223.9, 201.6, 242.1, 194.7, 265.5, 194.8, 283.9, 201.6, 265.9, 208.2, 242.5, 208.2, 356, 201.3, 374.7, 194.4, 397.1, 194.7, 416.2, 201.7, 397.1, 208.4, 374.2, 208.7],
+    [333, 224, 201.1, 242.4, 198.7, 265.3, 198.4, 283.8, 201.7, 265.4, 205.3, 242.1, 204.7, 356.4, 201.5, 374.7, 198.4, 397.1, 198.2, 416.2, 201.3, 397.6, 204.8, 374.4, 204.7],
+    [367, 223.8, 201.4, 242.6, 199.4, 265.8, 199.8, 284, 201.5, 266, 204, 243, 203.6, 355.9, 201.8, 374.4, 199.5, 397, 199.5, 416.3, 201.3, 397.2, 203.8, 374.9, 203.4],
+    [400, 224.4, 201.7, 243, 199.6, 265.3, 199.1, 284.3, 202.1, 265.8, 203.7, 242.4, 203.7, 355.9, 202.1, 374.7, 199.3, 397.4, 199.4, 416.3, 201.3, 397.3, 203.7, 374.5, 204.2],
+    [433, 224, 202, 242.7, 199.3, 266.1, 199.8, 283.7, 201.7, 265.6, 203.8, 242.7, 203.8, 356.2, 201.5, 374.6, 199.7, 397.6, 199.4, 415.8, 201.3, 397.4, 203.8, 374.5, 203.7],
+    [467, 224.4, 201.6, 242.4, 199.6, 265.3, 199.6, 283.6, 201.7, 265.5, 204, 242.4, 203.7, 355.6, 201.8, 374.4, 199.6, 397.6, 199.4, 416.1, 201.8, 397.4, 203.7, 374.7, 203.7],
+    [500, 223.8, 201.8, 242.6, 199.3, 265.5, 199.4, 283.9, 201.6, 265.9, 204.1, 242.6, 203.6, 355.6, 201.7, 374.6, 199, 397.4, 199.3, 415.8, 201.5, 397.5, 203.2, 374.6, 204],
+    [533, 224.1, 201.5, 242.7, 199.3, 265.7, 199.3, 284.1, 201.7, 265.5, 204.2, 242.4, 203.3, 355.8, 201.3, 374.9, 199.5, 396.9, 199.4, 416.2, 202.1, 397.1, 203.4, 374.4, 203.8],
+    [567, 224.4, 201.6, 242.6, 199.5, 265.6, 199.4, 284.5, 201.5, 265.1, 203.9, 241.9, 203.8, 355.7, 201.7, 374.7, 199.4, 397, 199.8, 416.2, 201.6, 397.7, 203.4, 374.2, 204],
+    [600, 223.7, 201.7, 242.8, 199.5, 265.3, 199.6, 284.2, 201.5, 265.8, 203.5, 242.9, 203.9, 355.7, 201, 374.6, 199.6, 397.4, 199.9, 416.5, 201.5, 397.5, 204, 374.4, 204.1],
+    [633, 224, 201.3, 242.7, 199.4, 265.9, 199.1, 283.6, 201.8, 265.9, 204.2, 242.4, 203.8, 356.3, 201.7, 374.4, 199.5, 397.5, 199.5, 415.7, 201.5, 397.3, 203.6, 375.2, 203.4],
+    [667, 224, 201.2, 242.7, 199.4, 265.1, 199.5, 283.7, 201, 265.5, 203.9, 242.6, 203.8, 356, 201.7, 374.8, 199.4, 397.4, 199.4, 415.7, 201.3, 397.6, 204, 374, 203.2],
+    [700, 224.1, 201.9, 242.8, 199, 265.7, 199.3, 284.1, 201.5, 265.4, 203.5, 242.5, 204.1, 356.2, 201.9, 375, 199.9, 397.4, 199.4, 416.1, 201.9, 397.3, 203.5, 374.7, 203.7],
+    [733, 224.1, 201.8, 242.2, 199.4, 265.3, 199.1, 283.8, 202, 265.6, 203.4, 242.2, 203.8, 356.1, 202, 374.5, 199.4, 397.2, 199.6, 415.9, 201.8, 397.1, 203.8, 374.1, 203.8],
+    [767, 224, 201.7, 242.5, 199, 265.3, 199.4, 283.9, 201.6, 265.6, 203.9, 242.8, 203.8, 355.9, 201.6, 374.1, 199.5, 397.2, 199.3, 416.1, 201.6, 397.5, 203.7, 374.6, 203.6],
+    [800, 224.2, 201.5, 242.7, 199.4, 265.5, 199.6, 284, 201.3, 265.2, 204.3, 242.2, 204.3, 356, 201.7, 374.4, 199.4, 397.3, 199.7, 416, 201.7, 397.6, 203.7, 374.3, 204.2],
+    [833, 224.1, 201.9, 242.7, 200, 265.4, 199.6, 283.6, 201.6, 265.7, 203.7, 242.1, 204.2, 356.2, 201.7, 374.3, 199.6, 397.4, 199, 415.9, 201.9, 397.6, 203.9, 374.3, 203.9],
+    [867, 223.9, 202.2, 242.5, 199.4, 265.4, 199.9, 283.9, 201.2, 265.5, 203.8, 242.7, 203.9, 356.1, 201.5, 374.3, 199.3, 397.6, 199.5, 415.6, 201.7, 397.6, 204.2, 374.8, 204.1],
+    [900, 223.9, 201.7, 242.4, 199.3, 265.5, 199.7, 284.5, 201.6, 265.4, 203.7, 242.4, 203.6, 356.1, 201.3, 374.6, 199.6, 397.4, 199.6, 416.1, 202.1, 397.7, 203.8, 374.8, 204.2],
+    [933, 223.7, 201.3, 242.4, 199.6, 265.7, 200, 284, 201.3, 265.2, 203.5, 242.1, 204, 355.7, 201.8, 374.7, 199.4, 397.3, 199.5, 416.3, 201.6, 397.2, 203.9, 374.8, 203.8],
+    [967, 223.5, 202, 242.7, 199.5, 265.4, 199.5, 283.9, 201.5, 265.7, 203.9, 242.9, 203.9, 355.8, 201.2, 374.5, 199.5, 397.5, 200.3, 416.2, 201.1, 397.4, 203.9, 374.3, 203.9],
+    [1000, 224.5, 201.6, 242.9, 199.7, 265.2, 199.6, 284.1, 202, 265, 203.7, 242.6, 203.6, 356.1, 201.8, 374.6, 199.3, 397.2, 199.6, 416.5, 201.8, 397.3, 203.7, 374.1, 203.8],
+    [1033, 223.7, 202, 242.3, 198.9, 265.9, 198.7, 284.6, 201.8, 265.5, 203.9, 242.4, 204.2, 356.3, 202, 374.5, 198.6, 397.8, 199.5, 415.9, 201.3, 397.7, 204.5, 374.2, 204],
+    [1067, 224, 201.1, 242.9, 196.9, 265.7, 196.6, 283.7, 201.8, 265.4, 206.6, 242.3, 206.7, 356.2, 201.7, 374.2, 197.1, 397.4, 197.2, 416, 202.3, 397.5, 206.6, 374.5, 206.2],
+    [1100, 224, 201.7, 242.3, 194.1, 265.8, 194, 283.9, 201.5, 265.7, 209.1, 242.5, 209.6, 356, 201.9, 374.9, 194.5, 397.8, 194.3, 416.1, 201.6, 397.1, 209.2, 374.5, 209.3],
+    [1133, 224.1, 201.8, 242.3, 191.9, 265.6, 191.8, 284.2, 201.6, 265.1, 211.6, 242.1, 211.2, 355.8, 201.6, 373.9, 192.2, 396.9, 191.9, 415.9, 201.4, 397.4, 211, 374.3, 211.3],
+    [1167, 223.7, 201.9, 242.8, 191.9, 265.6, 191.6, 284.3, 202.2, 265.2, 211.5, 242.4, 211.1, 355.7, 201.5, 374.4, 191.9, 397.6, 191.4, 415.6, 201.9, 397.7, 211.1, 374.8, 211.5],
+    [1200, 224.4, 201.5, 242.2, 191.9, 265.6, 191.5, 283.5, 201.8, 265.2, 211.4, 242.7, 211.4, 355.9, 201.1, 374.9, 191.7, 396.7, 191.7, 416, 201.2, 397.4, 211.6, 374.5, 212.1],
+    [1233, 224, 201.3, 242.4, 191.7, 265.4, 191.5, 284.2, 201.9, 265, 211.7, 242.1, 211.4, 355.7, 201.5, 374.4, 191.9, 397.3, 192.1, 415.5, 201.5, 397.2, 211.7, 374.7, 211.8],
+    [1267, 223.7, 201, 242.5, 191.7, 265.6, 192, 283.8, 201.6, 265.3, 211.4, 242.1, 211.6, 355.7, 201.3, 374.8, 191.9, 397.1, 191.8, 416.4, 201.6, 397.7, 211.3, 374.7, 211.2],
+    [1300, 223.8, 201.8, 242.3, 191.9, 265.3, 192.2, 284.5, 201.7, 265.2, 211.6, 242.7, 211.7, 356.3, 202, 374.3, 191.8, 397.4, 191.8, 415.9, 201.7, 397.1, 211.1, 374.8, 211.6],
+    [1333, 223.9, 202.2, 242.9, 191.7, 265.7, 191.6, 283.9, 201.9, 265.5, 211, 242.6, 211.4, 356.3, 201.6, 374.2, 191.2, 397.6, 191.5, 416, 201.9, 397.5, 211.6, 374.4, 211.3],
+    [1367, 224.5, 201.3, 242.1, 191.7, 265.3, 191.9, 284.3, 201.4, 265.8, 211.7, 242.4, 211.6, 356.3, 201.5, 374.4, 191.8, 397.5, 191.7, 415.6, 201.2, 397.4, 211.1, 374.2, 211.5],
+  ],
+  blinks: [{ start: 259, end: 1149, kind: 'prolonged' }],
+};
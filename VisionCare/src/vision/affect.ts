@@ -0,0 +1,134 @@
+import { DEFAULT_HEALTHY_BLINK_RANGE, type BlinkRateRange } from '../insights/verdicts';
+import { EMOTIONS, type Emotion, type ExpressionVector } from '../metrics/types';
+
+/** A point on the circumplex model of affect; both axes run from -1 to 1. */
+export interface Affect {
+  valence: number;
+  arousal: number;
+}
+
+// Where each basic expression sits on the valence/arousal plane, after
+// Russell's circumplex
+const EXPRESSION_AFFECT: Record<Emotion, Affect> = {
+  neutral: { valence: 0, arousal: 0 },
+  happy: { valence: 0.8, arousal: 0.4 },
+  sad: { valence: -0.6, arousal: -0.4 },
+  angry: { valence: -0.6, arousal: 0.7 },
+  fearful: { valence: -0.7, arousal: 0.6 },
+  disgusted: { valence: -0.6, arousal: 0.3 },
+  surprised: { valence: 0.2, arousal: 0.8 },
+};
+
+export const DEFAULT_EXPRESSION_SMOOTHING_MS = 1500;
+
+// A detection gap longer than this (face lost, analyzer paused) restarts the average
+const SMOOTHING_RESET_MS = 3000;
+
+/** Probability-weighted average of the expressions' positions. */
+export function projectAffect(expressions: ExpressionVector): Affect {
+  let valence = 0;
+  let arousal = 0;
+  let total = 0;
+  for (const emotion of EMOTIONS) {
+    const p = expressions[emotion] ?? 0;
+    valence += EXPRESSION_AFFECT[emotion].valence * p;
+    arousal += EXPRESSION_AFFECT[emotion].arousal * p;
+    total += p;
+  }
+  return total > 0 ? { valence: valence / total, arousal: arousal / total } : { valence: 0, arousal: 0 };
+}
+
+/** The most probable expression, or null for an empty vector. */
+export function topExpression(expressions: ExpressionVector): { emotion: Emotion; confidence: number } | null {
+  let best: { emotion: Emotion; confidence: number } | null = null;
+  for (const emotion of EMOTIONS) {
+    const confidence = expressions[emotion];
+    if (confidence !== undefined && (!best || confidence > best.confidence)) best = { emotion, confidence };
+  }
+  return best;
+}
+
+/** The expression with the most probability mass summed over many vectors. */
+export function dominantExpression(vectors: ExpressionVector[]): Emotion | null {
+  const totals: ExpressionVector = {};
+  for (const vector of vectors) {
+    for (const emotion of EMOTIONS) {
+      if (vector[emotion] !== undefined) totals[emotion] = (totals[emotion] ?? 0) + vector[emotion];
+    }
+  }
+  return topExpression(totals)?.emotion ?? null;
+}
+
+/**
+ * Exponential moving average of expression vectors. The weight of each new
+ * detection depends on the time since the previous one, so the smoothing
+ * behaves the same at any detection rate.
+ */
+export class ExpressionSmoother {
+  private readonly timeConstantMs: number;
+  private state: ExpressionVector | null = null;
+  private lastTimestamp = 0;
+
+  constructor(timeConstantMs = DEFAULT_EXPRESSION_SMOOTHING_MS) {
+    this.timeConstantMs = timeConstantMs;
+  }
+
+  update(timestamp: number, expressions: ExpressionVector): ExpressionVector {
+    const dt = timestamp - this.lastTimestamp;
+    this.lastTimestamp = timestamp;
+    if (!this.state || this.timeConstantMs <= 0 || dt > SMOOTHING_RESET_MS) {
+      this.state = { ...expressions };
+      return { ...this.state };
+    }
+
+    const alpha = 1 - Math.exp(-Math.max(0, dt) / this.timeConstantMs);
+    const next: ExpressionVector = {};
+    for (const emotion of EMOTIONS) {
+      const previous = this.state[emotion] ?? 0;
+      next[emotion] = previous + alpha * ((expressions[emotion] ?? 0) - previous);
+    }
+    this.state = next;
+    return { ...next };
+  }
+
+  reset() {
+    this.state = null;
+  }
+}
+
+// How much each signal contributes to the stress index
+const STRESS_WEIGHTS = { negativeValence: 0.4, arousal: 0.3, blinkRate: 0.3 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Screen-stress index from 0 (relaxed) to 100: negative valence, high
+ * arousal and a blink rate outside the healthy range all push it up. Both
+ * staring (too few blinks) and strained eyes (too many) count. Without a
+ * blink rate the index rests on affect alone.
+ */
+export function stressIndex(
+  affect: Affect,
+  blinkRate: number | null,
+  healthy: BlinkRateRange = DEFAULT_HEALTHY_BLINK_RANGE,
+): number {
+  let score = STRESS_WEIGHTS.negativeValence * clamp01(-affect.valence) + STRESS_WEIGHTS.arousal * clamp01(affect.arousal);
+  let weight = STRESS_WEIGHTS.negativeValence + STRESS_WEIGHTS.arousal;
+
+  if (blinkRate !== null) {
+    const deviation = blinkRate < healthy.min
+      ? (healthy.min - blinkRate) / healthy.min
+      : blinkRate > healthy.max ? (blinkRate - healthy.max) / healthy.max : 0;
+    score += STRESS_WEIGHTS.blinkRate * clamp01(deviation);
+    weight += STRESS_WEIGHTS.blinkRate;
+  }
+  return (score / weight) * 100;
+}
+
+const BLINK_RATE_WINDOW_MS = 60_000;
+
+/** Blinks in the last minute, or null until a full minute has been observed. */
+export function recentBlinkRate(blinkTimestamps: number[], now: number, startedAt: number): number | null {
+  if (now - startedAt < BLINK_RATE_WINDOW_MS) return null;
+  return blinkTimestamps.filter((t) => t > now - BLINK_RATE_WINDOW_MS && t <= now).length;
+}
@@ -0,0 +1,80 @@
+import { EMOTIONS, type Emotion, type ExpressionVector } from '../metrics/types';
+import { topExpression, type Affect } from './affect';
+
+/** Mean affect over one time bucket of the session. */
+export interface AffectPoint {
+  start: number;
+  expressions: ExpressionVector;
+  valence: number;
+  arousal: number;
+  stress: number;
+  /** Most probable expression of the bucket's mean vector. */
+  emotion: Emotion;
+}
+
+export const DEFAULT_AFFECT_BUCKET_MS = 1000;
+
+interface Bucket {
+  start: number;
+  count: number;
+  expressions: ExpressionVector;
+  valence: number;
+  arousal: number;
+  stress: number;
+}
+
+function toPoint(bucket: Bucket): AffectPoint {
+  const mean = (sum: number) => sum / bucket.count;
+  const expressions: ExpressionVector = {};
+  for (const emotion of EMOTIONS) {
+    const sum = bucket.expressions[emotion];
+    if (sum !== undefined) expressions[emotion] = mean(sum);
+  }
+  return {
+    start: bucket.start,
+    expressions,
+    valence: mean(bucket.valence),
+    arousal: mean(bucket.arousal),
+    stress: mean(bucket.stress),
+    emotion: topExpression(expressions)?.emotion ?? 'neutral',
+  };
+}
+
+/**
+ * Whole-session affect history at a fixed resolution. Detections arrive
+ * several times a second; averaging them into buckets keeps an hour-long
+ * session to a few thousand points, small enough to chart in full.
+ */
+export class AffectTimeline {
+  readonly startedAt: number;
+  private readonly bucketMs: number;
+  private readonly closed: AffectPoint[] = [];
+  private bucket: Bucket | null = null;
+
+  constructor(startedAt = Date.now(), bucketMs = DEFAULT_AFFECT_BUCKET_MS) {
+    this.startedAt = startedAt;
+    this.bucketMs = bucketMs;
+  }
+
+  add(timestamp: number, expressions: ExpressionVector, affect: Affect, stress: number) {
+    const start = timestamp - (timestamp % this.bucketMs);
+    if (this.bucket && this.bucket.start !== start) {
+      this.closed.push(toPoint(this.bucket));
+      this.bucket = null;
+    }
+    const bucket = (this.bucket ??= { start, count: 0, expressions: {}, valence: 0, arousal: 0, stress: 0 });
+    bucket.count += 1;
+    bucket.valence += affect.valence;
+    bucket.arousal += affect.arousal;
+    bucket.stress += stress;
+    for (const emotion of EMOTIONS) {
+      const p = expressions[emotion];
+      if (p !== undefined) bucket.expressions[emotion] = (bucket.expressions[emotion] ?? 0) + p;
+    }
+  }
+
+  /** Every point so far, including the bucket still being filled. */
+  points(): AffectPoint[] {
+    return this.bucket ? [...this.closed, toPoint(this.bucket)] : [...this.closed];
+  }
+}
@@ -0,0 +1,51 @@
+import type { Analyzer, AnalyzerContext, VisionFrame } from '../types';
+
+// Nose tip and outer eye corners
+const NOSE_TIP = 1;
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+export interface AttentionAnalyzerOptions {
+  /** Horizontal nose offset, relative to eye distance, that counts as turned away. */
+  maxYawRatio?: number;
+}
+
+/**
+ * Detects when the user turns their head away from the screen, using how far
+ * the nose tip sits from the midpoint between the eyes. Emits only on change.
+ */
+export class AttentionAnalyzer implements Analyzer {
+  readonly id = 'attention';
+  private readonly maxYawRatio: number;
+  private lookingAway: boolean | null = null;
+
+  constructor({ maxYawRatio = 0.25 }: AttentionAnalyzerOptions = {}) {
+    this.maxYawRatio = maxYawRatio;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { landmarks, timestamp } = frame;
+    if (!landmarks) {
+      this.lookingAway = null;
+      return;
+    }
+
+    const nose = landmarks[NOSE_TIP];
+    const left = landmarks[LEFT_EYE_OUTER];
+    const right = landmarks[RIGHT_EYE_OUTER];
+    const eyeDistance = Math.hypot(right.x - left.x, right.y - left.y);
+    if (eyeDistance === 0) return;
+
+    const yawRatio = (nose.x - (left.x + right.x) / 2) / eyeDistance;
+    const lookingAway = Math.abs(yawRatio) > this.maxYawRatio;
+
+    if (lookingAway !== this.lookingAway) {
+      this.lookingAway = lookingAway;
+      context.emit('attention', { timestamp, lookingAway });
+    }
+  }
+
+  reset() {
+    this.lookingAway = null;
+  }
+}
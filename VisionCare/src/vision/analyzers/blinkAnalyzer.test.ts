@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { clipFrames, COMPLETE_BLINK, INCOMPLETE_BLINK, PROLONGED_BLINK, type LandmarkClip } from '../__fixtures__/landmarks';
+import type { AnalyzerContext, BlinkEndEvent, BlinkEvent, EarEvent, VisionEventType, VisionFrame } from '../types';
+import { BlinkAnalyzer, classifyBlink, DEFAULT_BLINK_CLASSIFICATION } from './blinkAnalyzer';
+
+// Detected onsets trail the labeled start while the lid is still closing
+const ONSET_TOLERANCE_MS = 150;
+
+function run(analyzer: BlinkAnalyzer, frames: VisionFrame[]) {
+  const events: { type: VisionEventType; event: unknown }[] = [];
+  const context: AnalyzerContext = {
+    emit(type, event) {
+      events.push({ type, event });
+    },
+    recordLatency() {},
+  };
+  frames.forEach((frame) => analyzer.process(frame, context));
+  return {
+    starts: events.filter((e) => e.type === 'blink').map((e) => e.event as BlinkEvent),
+    ends: events.filter((e) => e.type === 'blinkEnd').map((e) => e.event as BlinkEndEvent),
+    ears: events.filter((e) => e.type === 'ear').map((e) => e.event as EarEvent),
+  };
+}
+
+describe('BlinkAnalyzer', () => {
+  it.each<[string, LandmarkClip]>([
+    ['complete', COMPLETE_BLINK],
+    ['incomplete', INCOMPLETE_BLINK],
+    ['prolonged', PROLONGED_BLINK],
+  ])('finds the start and end of a %s blink', (kind, clip) => {
+    const { starts, ends, ears } = run(new BlinkAnalyzer(), clipFrames(clip));
+    const [label] = clip.blinks;
+
+    expect(ears).toHaveLength(clip.frames.length);
+    expect(starts).toHaveLength(1);
+    expect(ends).toHaveLength(1);
+    expect(starts[0].timestamp).toBeGreaterThanOrEqual(label.start);
+    expect(starts[0].timestamp - label.start).toBeLessThanOrEqual(ONSET_TOLERANCE_MS);
+    expect(ends[0].startedAt).toBe(starts[0].timestamp);
+    expect(ends[0].timestamp).toBeLessThanOrEqual(label.end);
+    expect(ends[0].duration).toBe(ends[0].timestamp - ends[0].startedAt);
+    expect(ends[0].kind).toBe(kind);
+    expect(ends[0].interrupted).toBe(false);
+  });
+
+  it('measures depth from the lowest EAR of the blink', () => {
+    const complete = run(new BlinkAnalyzer(), clipFrames(COMPLETE_BLINK)).ends[0];
+    const incomplete = run(new BlinkAnalyzer(), clipFrames(INCOMPLETE_BLINK)).ends[0];
+
+    expect(complete.minEar).toBeLessThan(incomplete.minEar);
+    expect(complete.depth).toBeGreaterThanOrEqual(DEFAULT_BLINK_CLASSIFICATION.completeDepth);
+    expect(incomplete.depth).toBeLessThan(DEFAULT_BLINK_CLASSIFICATION.completeDepth);
+  });
+
+  it('ends a blink at its last tracked frame when the landmarks drop out', () => {
+    const frames = clipFrames(COMPLETE_BLINK);
+    const { starts } = run(new BlinkAnalyzer(), frames);
+    const gapAt = frames.findIndex((frame) => frame.timestamp === starts[0].timestamp) + 2;
+    frames[gapAt] = { ...frames[gapAt], landmarks: null };
+
+    const result = run(new BlinkAnalyzer(), frames);
+    const [interrupted, after] = result.ends;
+    expect(interrupted).toMatchObject({
+      startedAt: starts[0].timestamp,
+      timestamp: frames[gapAt - 1].timestamp,
+      duration: frames[gapAt - 1].timestamp - starts[0].timestamp,
+      interrupted: true,
+    });
+    // The closure seen after the gap is a blink of its own
+    expect(result.starts.map((start) => start.timestamp)).toEqual([starts[0].timestamp, frames[gapAt + 1].timestamp]);
+    expect(after).toMatchObject({ startedAt: frames[gapAt + 1].timestamp, interrupted: false });
+  });
+
+  it('starts a blink below an EAR of 0.25 and ends it back at 0.30 by default', () => {
+    const { starts, ends, ears } = run(new BlinkAnalyzer(), clipFrames(COMPLETE_BLINK));
+    const before = ears.filter((ear) => ear.timestamp < starts[0].timestamp);
+    const during = ears.filter((ear) => ear.timestamp >= starts[0].timestamp && ear.timestamp < ends[0].timestamp);
+
+    expect(starts[0].ear).toBeLessThan(0.25);
+    expect(before.every((ear) => ear.average >= 0.25)).toBe(true);
+    expect(ends[0].ear).toBeGreaterThanOrEqual(0.3);
+    expect(during.every((ear) => ear.average < 0.3)).toBe(true);
+  });
+
+  it('counts one blink while the EAR wavers between the thresholds', () => {
+    // The closed stretch played forward, back and forward again: the EAR climbs
+    // past the close threshold and falls back without reaching reopen
+    const frames = clipFrames(COMPLETE_BLINK);
+    const { starts, ends } = run(new BlinkAnalyzer(), frames);
+    const closing = frames.filter((frame) => frame.timestamp <= starts[0].timestamp);
+    const closed = frames.filter((frame) => frame.timestamp > starts[0].timestamp && frame.timestamp < ends[0].timestamp);
+    const wavering = [...closing, ...closed, ...closed.slice().reverse(), ...closed].map((frame, i) => ({
+      ...frame,
+      timestamp: i * 33,
+    }));
+
+    const result = run(new BlinkAnalyzer(), wavering);
+    expect(result.starts).toHaveLength(1);
+    expect(result.ends).toHaveLength(0);
+  });
+
+  it('forgets an open blink on reset', () => {
+    const analyzer = new BlinkAnalyzer();
+    const frames = clipFrames(COMPLETE_BLINK);
+    const { starts } = run(new BlinkAnalyzer(), frames);
+    const firstClosed = frames.findIndex((frame) => frame.timestamp === starts[0].timestamp);
+
+    run(analyzer, frames.slice(0, firstClosed + 1));
+    analyzer.reset();
+    expect(analyzer.series.toArray()).toHaveLength(0);
+    const { ends } = run(analyzer, frames.slice(firstClosed + 1));
+    expect(ends).toHaveLength(1);
+    expect(ends[0].startedAt).toBe(frames[firstClosed + 1].timestamp);
+  });
+});
+
+describe('classifyBlink', () => {
+  it.each([
+    { depth: 1, duration: 100, kind: 'complete' },
+    { depth: 0.8, duration: 499, kind: 'complete' },
+    { depth: 0.79, duration: 100, kind: 'incomplete' },
+    { depth: 0.2, duration: 500, kind: 'prolonged' },
+    { depth: 1, duration: 900, kind: 'prolonged' },
+  ])('classifies depth $depth held for $duration ms as $kind', ({ depth, duration, kind }) => {
+    expect(classifyBlink(depth, duration, DEFAULT_BLINK_CLASSIFICATION)).toBe(kind);
+  });
+});
@@ -0,0 +1,152 @@
+import { calcEAR, LEFT_EYE, RIGHT_EYE } from '../landmarks';
+import { EarSeries } from '../earSeries';
+import type { BlinkKind } from '../../metrics/types';
+import type { Analyzer, AnalyzerContext, VisionFrame } from '../types';
+
+export interface BlinkThresholds {
+  /** A blink starts when the average EAR drops below this value. */
+  close: number;
+  /** The eye counts as open again once the average EAR reaches this value. */
+  reopen: number;
+}
+
+/** Open/closed EAR baselines of a user's eyes plus the derived thresholds. */
+export interface BlinkBaseline {
+  openEAR: number;
+  closedEAR: number;
+  thresholds: BlinkThresholds;
+}
+
+// Reopen sits above close, as calibration derives them, so EAR noise around
+// one threshold cannot end a blink and start another
+export const DEFAULT_BLINK_THRESHOLDS: BlinkThresholds = { close: 0.25, reopen: 0.30 };
+
+export const DEFAULT_BLINK_BASELINE: BlinkBaseline = {
+  openEAR: 0.33,
+  closedEAR: 0.12,
+  thresholds: DEFAULT_BLINK_THRESHOLDS,
+};
+
+export interface BlinkClassification {
+  /** Fraction of the open-to-closed EAR range a blink must reach to be complete. */
+  completeDepth: number;
+  /** Closures lasting at least this long are prolonged, whatever their depth. */
+  prolongedMs: number;
+}
+
+export const DEFAULT_BLINK_CLASSIFICATION: BlinkClassification = {
+  completeDepth: 0.8,
+  prolongedMs: 500,
+};
+
+// About a minute of history at 30 fps
+const SERIES_CAPACITY = 1800;
+
+// A blink is held open over poor frames for up to this long; past it, the
+// unseen time would be counted as closure, so the blink ends as interrupted
+const MAX_GATED_GAP_MS = 200;
+
+interface Episode {
+  startedAt: number;
+  minEar: number;
+  /** The blink's latest tracked frame, where it ends if tracking drops out. */
+  lastAt: number;
+  lastEar: number;
+}
+
+export function classifyBlink(
+  depth: number,
+  duration: number,
+  { completeDepth, prolongedMs }: BlinkClassification,
+): BlinkKind {
+  if (duration >= prolongedMs) return 'prolonged';
+  return depth >= completeDepth ? 'complete' : 'incomplete';
+}
+
+/**
+ * Emits the per-frame eye aspect ratio and blink start/end events. Each blink
+ * is classified on reopening by how far the lid closed (minimum EAR relative
+ * to the user's baselines) and how long it stayed below threshold. A blink
+ * still open when tracking drops out ends at its last tracked frame, flagged
+ * as interrupted, so listeners never wait for a reopening they cannot see.
+ * Frames withheld by the quality gate only end it once they last too long, so
+ * a gate flickering mid-blink neither splits nor cuts it short.
+ */
+export class BlinkAnalyzer implements Analyzer {
+  readonly id = 'blink';
+  readonly qualityGated = true;
+  readonly series = new EarSeries(SERIES_CAPACITY);
+  private baseline: BlinkBaseline;
+  private readonly classification: BlinkClassification;
+  private episode: Episode | null = null;
+
+  constructor(
+    baseline: BlinkBaseline = DEFAULT_BLINK_BASELINE,
+    classification: BlinkClassification = DEFAULT_BLINK_CLASSIFICATION,
+  ) {
+    this.baseline = baseline;
+    this.classification = classification;
+  }
+
+  getBaseline(): BlinkBaseline {
+    return this.baseline;
+  }
+
+  setBaseline(baseline: BlinkBaseline) {
+    this.baseline = baseline;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { landmarks, timestamp, gated } = frame;
+    if (!landmarks) {
+      // A blink cannot be measured across a tracking gap
+      const episode = this.episode;
+      if (episode && (!gated || timestamp - episode.lastAt > MAX_GATED_GAP_MS)) {
+        this.endEpisode(episode.lastAt, episode.lastEar, true, context);
+      }
+      return;
+    }
+
+    const left = calcEAR(landmarks, LEFT_EYE);
+    const right = calcEAR(landmarks, RIGHT_EYE);
+    const average = (left + right) / 2.0;
+    this.series.push({ timestamp, left, right });
+    context.emit('ear', { timestamp, left, right, average });
+
+    const { thresholds } = this.baseline;
+
+    if (average < thresholds.close && !this.episode) {
+      this.episode = { startedAt: timestamp, minEar: average, lastAt: timestamp, lastEar: average };
+      context.emit('blink', { timestamp, ear: average });
+    } else if (this.episode) {
+      this.episode.minEar = Math.min(this.episode.minEar, average);
+      this.episode.lastAt = timestamp;
+      this.episode.lastEar = average;
+
+      if (average >= thresholds.reopen) this.endEpisode(timestamp, average, false, context);
+    }
+  }
+
+  reset() {
+    this.episode = null;
+    this.series.clear();
+  }
+
+  private endEpisode(timestamp: number, ear: number, interrupted: boolean, context: AnalyzerContext) {
+    const { startedAt, minEar } = this.episode!;
+    const { openEAR, closedEAR } = this.baseline;
+    const duration = timestamp - startedAt;
+    const depth = Math.min(1, Math.max(0, (openEAR - minEar) / (openEAR - closedEAR)));
+    this.episode = null;
+    context.emit('blinkEnd', {
+      timestamp,
+      ear,
+      startedAt,
+      duration,
+      minEar,
+      depth,
+      kind: classifyBlink(depth, duration, this.classification),
+      interrupted,
+    });
+  }
+}
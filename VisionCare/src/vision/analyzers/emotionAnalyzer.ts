@@ -0,0 +1,109 @@
+import * as faceapi from 'face-api.js';
+import { isEmotion, type ExpressionVector } from '../../metrics/types';
+import { DEFAULT_EXPRESSION_SMOOTHING_MS, ExpressionSmoother, projectAffect, topExpression } from '../affect';
+import { boxIou, landmarkBox, type FaceBox } from '../faceTracker';
+import type { Analyzer, AnalyzerContext, FrameSource, VisionFrame } from '../types';
+
+export interface ExpressionDetection {
+  /** Face box in normalised frame coordinates, comparable with landmarks. */
+  box: FaceBox;
+  expressions: ExpressionVector;
+}
+
+/** Returns expression probabilities for every face found in the image. */
+export type ExpressionDetector = (image: FrameSource) => Promise<ExpressionDetection[]>;
+
+export interface EmotionAnalyzerOptions {
+  intervalMs?: number;
+  /** Time constant of the expression smoothing; 0 reports raw detections. */
+  smoothingMs?: number;
+  detect?: ExpressionDetector;
+}
+
+export const DEFAULT_EMOTION_INTERVAL_MS = 300;
+
+// Minimum overlap between a detection and the face mesh to treat them as
+// the same person
+const MIN_MATCH_IOU = 0.3;
+
+export const faceApiExpressionDetector: ExpressionDetector = async (image) => {
+  const detections = await faceapi
+    .detectAllFaces(image, new faceapi.TinyFaceDetectorOptions())
+    .withFaceExpressions();
+  return detections.map(({ detection, expressions }) => {
+    const { x, y, width, height } = detection.relativeBox;
+    const vector: ExpressionVector = {};
+    for (const [label, p] of Object.entries(expressions)) {
+      if (isEmotion(label) && typeof p === 'number') vector[label] = p;
+    }
+    return { box: { minX: x, minY: y, maxX: x + width, maxY: y + height }, expressions: vector };
+  });
+};
+
+/** The detection that overlaps the face mesh most, if any overlaps enough. */
+function matchDetection(detections: ExpressionDetection[], box: FaceBox) {
+  let best: ExpressionDetection | null = null;
+  let bestIou = MIN_MATCH_IOU;
+  for (const detection of detections) {
+    const iou = boxIou(detection.box, box);
+    if (iou >= bestIou) {
+      best = detection;
+      bestIou = iou;
+    }
+  }
+  return best;
+}
+
+/**
+ * Classifies facial expressions on frames picked by the engine's scheduler.
+ * face-api finds faces on its own, so its detections are matched to the
+ * frame's face mesh by box overlap and only the matching face is reported.
+ * The reported label and affect come from probabilities smoothed over recent
+ * detections, so single-frame flickers do not flip the emotion. Detection is
+ * asynchronous, so frames arriving while one is in flight are skipped.
+ */
+export class EmotionAnalyzer implements Analyzer {
+  readonly id = 'emotion';
+  readonly qualityGated = true;
+  readonly intervalMs: number;
+  private readonly detect: ExpressionDetector;
+  private readonly smoother: ExpressionSmoother;
+  private inFlight: Promise<void> | null = null;
+
+  constructor({
+    intervalMs = DEFAULT_EMOTION_INTERVAL_MS,
+    smoothingMs = DEFAULT_EXPRESSION_SMOOTHING_MS,
+    detect = faceApiExpressionDetector,
+  }: EmotionAnalyzerOptions = {}) {
+    this.intervalMs = intervalMs;
+    this.detect = detect;
+    this.smoother = new ExpressionSmoother(smoothingMs);
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { image, landmarks, timestamp } = frame;
+    if (!image || !landmarks || this.inFlight) return;
+
+    const faceBox = landmarkBox(landmarks);
+    const start = performance.now();
+    this.inFlight = this.detect(image)
+      .then((detections) => {
+        context.recordLatency('emotion (detect)', performance.now() - start);
+        const match = matchDetection(detections, faceBox);
+        if (!match) return;
+        const { expressions } = match;
+        const smoothed = this.smoother.update(timestamp, expressions);
+        const top = topExpression(smoothed);
+        if (!top) return;
+        context.emit('emotion', { timestamp, ...top, expressions, smoothed, affect: projectAffect(smoothed) });
+      })
+      .catch((err) => console.error('Emotion detection error:', err))
+      .finally(() => {
+        this.inFlight = null;
+      });
+  }
+
+  async idle() {
+    await this.inFlight;
+  }
+}
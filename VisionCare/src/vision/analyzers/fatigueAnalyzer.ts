@@ -0,0 +1,153 @@
+import { calcEAR, calcMAR, LEFT_EYE, RIGHT_EYE } from '../landmarks';
+import type { Analyzer, AnalyzerContext, VisionFrame } from '../types';
+import { DEFAULT_BLINK_BASELINE, type BlinkBaseline } from './blinkAnalyzer';
+
+export interface FatigueAnalyzerConfig {
+  /** Rolling window for PERCLOS. */
+  perclosWindowMs: number;
+  /** A closure lasting this long is reported as a microsleep. */
+  microsleepMs: number;
+  /** Mouth aspect ratio above which the mouth counts as wide open. */
+  yawnMAR: number;
+  /** How long the mouth must stay wide open to count as a yawn. */
+  yawnMs: number;
+}
+
+export const DEFAULT_FATIGUE_ANALYZER_CONFIG: FatigueAnalyzerConfig = {
+  perclosWindowMs: 60_000,
+  microsleepMs: 1000,
+  yawnMAR: 0.6,
+  yawnMs: 1500,
+};
+
+// PERCLOS P80: the eye counts as closed once the lid covers 80% of the
+// open-to-closed EAR range.
+const P80_FRACTION = 0.2;
+const PERCLOS_EMIT_MS = 1000;
+
+interface ClosureSample {
+  timestamp: number;
+  closed: boolean;
+}
+
+/**
+ * Tracks sustained eye closure and mouth opening. Emits PERCLOS once per
+ * second, plus a single `microsleep` or `yawn` event as soon as a closure or
+ * mouth opening has lasted long enough, so alarms can fire while it is still
+ * happening.
+ */
+export class FatigueAnalyzer implements Analyzer {
+  readonly id = 'fatigue';
+  readonly qualityGated = true;
+  private baseline: BlinkBaseline;
+  private config: FatigueAnalyzerConfig;
+  private samples: ClosureSample[] = [];
+  private head = 0;
+  private closedCount = 0;
+  private lastPerclosEmit = -Infinity;
+  private closedSince: number | null = null;
+  private microsleepReported = false;
+  private mouthOpenSince: number | null = null;
+  private yawnReported = false;
+
+  constructor(
+    baseline: BlinkBaseline = DEFAULT_BLINK_BASELINE,
+    config: FatigueAnalyzerConfig = DEFAULT_FATIGUE_ANALYZER_CONFIG,
+  ) {
+    this.baseline = baseline;
+    this.config = config;
+  }
+
+  setBaseline(baseline: BlinkBaseline) {
+    this.baseline = baseline;
+  }
+
+  setConfig(config: FatigueAnalyzerConfig) {
+    this.config = config;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { landmarks, timestamp } = frame;
+    if (!landmarks) {
+      // Closures and yawns cannot be timed across a tracking gap
+      this.closedSince = null;
+      this.mouthOpenSince = null;
+      return;
+    }
+
+    const ear = (calcEAR(landmarks, LEFT_EYE) + calcEAR(landmarks, RIGHT_EYE)) / 2;
+    const { openEAR, closedEAR } = this.baseline;
+    const closed = ear < closedEAR + (openEAR - closedEAR) * P80_FRACTION;
+
+    this.addSample(timestamp, closed);
+    this.trackClosure(timestamp, closed, context);
+    this.trackMouth(timestamp, calcMAR(landmarks), context);
+
+    if (timestamp - this.lastPerclosEmit >= PERCLOS_EMIT_MS) {
+      this.lastPerclosEmit = timestamp;
+      const active = this.samples.length - this.head;
+      context.emit('perclos', {
+        timestamp,
+        perclos: active > 0 ? this.closedCount / active : 0,
+        coveredMs: timestamp - this.samples[this.head].timestamp,
+      });
+    }
+  }
+
+  reset() {
+    this.samples = [];
+    this.head = 0;
+    this.closedCount = 0;
+    this.lastPerclosEmit = -Infinity;
+    this.closedSince = null;
+    this.mouthOpenSince = null;
+  }
+
+  private addSample(timestamp: number, closed: boolean) {
+    this.samples.push({ timestamp, closed });
+    if (closed) this.closedCount += 1;
+
+    const cutoff = timestamp - this.config.perclosWindowMs;
+    while (this.samples[this.head].timestamp < cutoff) {
+      if (this.samples[this.head].closed) this.closedCount -= 1;
+      this.head += 1;
+    }
+    // Compact occasionally instead of shifting on every frame
+    if (this.head > 1024) {
+      this.samples = this.samples.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  private trackClosure(timestamp: number, closed: boolean, context: AnalyzerContext) {
+    if (!closed) {
+      this.closedSince = null;
+      return;
+    }
+    if (this.closedSince === null) {
+      this.closedSince = timestamp;
+      this.microsleepReported = false;
+    }
+    const duration = timestamp - this.closedSince;
+    if (!this.microsleepReported && duration >= this.config.microsleepMs) {
+      this.microsleepReported = true;
+      context.emit('microsleep', { timestamp, startedAt: this.closedSince, duration });
+    }
+  }
+
+  private trackMouth(timestamp: number, mar: number, context: AnalyzerContext) {
+    if (mar < this.config.yawnMAR) {
+      this.mouthOpenSince = null;
+      return;
+    }
+    if (this.mouthOpenSince === null) {
+      this.mouthOpenSince = timestamp;
+      this.yawnReported = false;
+    }
+    const duration = timestamp - this.mouthOpenSince;
+    if (!this.yawnReported && duration >= this.config.yawnMs) {
+      this.yawnReported = true;
+      context.emit('yawn', { timestamp, startedAt: this.mouthOpenSince, duration });
+    }
+  }
+}
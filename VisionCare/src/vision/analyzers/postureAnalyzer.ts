@@ -0,0 +1,62 @@
+import {
+  estimateDistanceCm,
+  estimateGaze,
+  estimateHeadPose,
+  interpupillaryRatio,
+  type DistanceCalibration,
+} from '../headPose';
+import type { Analyzer, AnalyzerContext, VisionFrame } from '../types';
+
+export interface PostureAnalyzerOptions {
+  /** Minimum time between posture events; pose changes slowly. */
+  intervalMs?: number;
+  calibration?: DistanceCalibration | null;
+}
+
+/**
+ * Estimates head pose, iris gaze and viewing distance. With a distance
+ * calibration the pose is reported relative to the user's upright pose and
+ * the distance is scaled from the calibrated measurement.
+ */
+export class PostureAnalyzer implements Analyzer {
+  readonly id = 'posture';
+  // Posture is cheap, so it throttles its own events instead of being scheduled
+  private readonly emitIntervalMs: number;
+  private calibration: DistanceCalibration | null;
+  private lastEmit = -Infinity;
+
+  constructor({ intervalMs = 200, calibration = null }: PostureAnalyzerOptions = {}) {
+    this.emitIntervalMs = intervalMs;
+    this.calibration = calibration;
+  }
+
+  setCalibration(calibration: DistanceCalibration | null) {
+    this.calibration = calibration;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { landmarks, timestamp, width, height } = frame;
+    if (!landmarks || timestamp - this.lastEmit < this.emitIntervalMs) return;
+    this.lastEmit = timestamp;
+
+    const raw = estimateHeadPose(landmarks, width, height);
+    const neutral = this.calibration?.neutralPose;
+    const pose = neutral
+      ? { yaw: raw.yaw - neutral.yaw, pitch: raw.pitch - neutral.pitch, roll: raw.roll - neutral.roll }
+      : raw;
+    const ipdRatio = interpupillaryRatio(landmarks, width, height, pose.yaw);
+
+    context.emit('posture', {
+      timestamp,
+      pose,
+      rawPose: raw,
+      gaze: estimateGaze(landmarks),
+      ipdRatio,
+      distanceCm: ipdRatio === null ? null : estimateDistanceCm(ipdRatio, this.calibration),
+    });
+  }
+
+  reset() {
+    this.lastEmit = -Infinity;
+  }
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLIP_HEIGHT, CLIP_WIDTH, clipFrames, COMPLETE_BLINK } from '../__fixtures__/landmarks';
+import type { FrameQuality } from '../frameQuality';
+import { LEFT_EYE_REGION, LEFT_IRIS_CENTER } from '../landmarks';
+import type { RednessMeasurement } from '../scleraRedness';
+import type { AnalyzerContext, FrameSource, Landmark, RednessEvent, VisionFrame } from '../types';
+import type { EyeCrop, RednessResult } from '../workers/rednessWorkerClient';
+import { eyeCrop, RednessAnalyzer } from './rednessAnalyzer';
+
+const measure = vi.fn<(image: FrameSource, crops: EyeCrop[]) => Promise<RednessResult>>();
+const dispose = vi.fn();
+
+vi.mock('../workers/rednessWorkerClient', () => ({
+  RednessWorkerClient: class {
+    measure = measure;
+    dispose = dispose;
+  },
+}));
+
+const IMAGE = {} as HTMLCanvasElement;
+const OK: RednessMeasurement = { status: 'ok', index: 6, confidence: 0.9, scleraPixels: 120 };
+const [OPEN_FRAME] = clipFrames(COMPLETE_BLINK);
+
+// The whole left eye outline on one pixel row (y 0.5 is exactly row 240), leaving it no height
+function shutLeftEye(landmarks: Landmark[]) {
+  return landmarks.map((point, i) => (LEFT_EYE_REGION.includes(i) ? { ...point, y: 0.5 } : point));
+}
+
+function collect() {
+  const events: RednessEvent[] = [];
+  const latencies: [string, number][] = [];
+  const context: AnalyzerContext = {
+    emit(type, event) {
+      if (type === 'redness') events.push(event as RednessEvent);
+    },
+    recordLatency(label, ms) {
+      latencies.push([label, ms]);
+    },
+  };
+  return { events, latencies, context };
+}
+
+beforeEach(() => {
+  measure.mockReset();
+  dispose.mockReset();
+});
+
+describe('eyeCrop', () => {
+  it('boxes the eye outline and keeps the outline and iris relative to the box', () => {
+    const crop = eyeCrop(OPEN_FRAME.landmarks!, CLIP_WIDTH, CLIP_HEIGHT, LEFT_EYE_REGION, LEFT_IRIS_CENTER)!;
+    const [, x, y] = COMPLETE_BLINK.frames[0];
+
+    // The outer corner, landmark 33, is the first stored point and the leftmost of the eye
+    expect(crop.x).toBe(Math.floor(x));
+    expect(crop.polygon[0][0]).toBeCloseTo(x - crop.x, 3);
+    expect(crop.polygon[0][1]).toBeCloseTo(y - crop.y, 3);
+    expect(crop.width).toBeGreaterThan(crop.height);
+    expect(crop.iris).not.toBeNull();
+    expect(crop.iris!.r).toBeCloseTo(12, 3);
+  });
+
+  it('has no crop for a shut eye', () => {
+    expect(eyeCrop(shutLeftEye(OPEN_FRAME.landmarks!), CLIP_WIDTH, CLIP_HEIGHT, LEFT_EYE_REGION, LEFT_IRIS_CENTER)).toBeNull();
+  });
+});
+
+describe('RednessAnalyzer', () => {
+  it('emits both eyes with confidence scaled by frame quality', async () => {
+    measure.mockResolvedValue({ measurements: [OK, { status: 'insufficient', reason: 'tooDark' }], elapsedMs: 4 });
+    const analyzer = new RednessAnalyzer();
+    const { events, latencies, context } = collect();
+    const quality: FrameQuality = {
+      timestamp: 0,
+      score: 0.5,
+      factors: { brightness: 1, sharpness: 1, faceSize: 1, pose: 1, occlusion: 0.5 },
+      issue: 'occluded',
+    };
+
+    analyzer.process({ ...OPEN_FRAME, image: IMAGE, quality }, context);
+    await analyzer.idle();
+
+    expect(measure).toHaveBeenCalledOnce();
+    const [image, crops] = measure.mock.calls[0];
+    expect(image).toBe(IMAGE);
+    expect(crops).toHaveLength(2);
+    expect(events).toEqual([
+      {
+        timestamp: OPEN_FRAME.timestamp,
+        left: { ...OK, confidence: 0.45 },
+        right: { status: 'insufficient', reason: 'tooDark' },
+      },
+    ]);
+    expect(latencies).toEqual([['redness (worker)', 4]]);
+  });
+
+  it('skips frames while a measurement is in flight', async () => {
+    let finish: (result: RednessResult) => void = () => {};
+    measure.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+    const analyzer = new RednessAnalyzer();
+    const { events, context } = collect();
+    const frames = clipFrames(COMPLETE_BLINK).slice(0, 3).map((frame): VisionFrame => ({ ...frame, image: IMAGE }));
+
+    frames.forEach((frame) => analyzer.process(frame, context));
+    finish({ measurements: [OK, OK], elapsedMs: 1 });
+    await analyzer.idle();
+
+    expect(measure).toHaveBeenCalledOnce();
+    expect(events.map((event) => event.timestamp)).toEqual([frames[0].timestamp]);
+  });
+
+  it('needs both landmarks and pixels', () => {
+    const analyzer = new RednessAnalyzer();
+    const { context } = collect();
+
+    analyzer.process(OPEN_FRAME, context);
+    analyzer.process({ ...OPEN_FRAME, landmarks: null, image: IMAGE }, context);
+
+    expect(measure).not.toHaveBeenCalled();
+  });
+
+  it('reports an eye without a crop as closed without measuring it', async () => {
+    measure.mockResolvedValue({ measurements: [OK], elapsedMs: 1 });
+    const analyzer = new RednessAnalyzer();
+    const { events, context } = collect();
+
+    analyzer.process({ ...OPEN_FRAME, landmarks: shutLeftEye(OPEN_FRAME.landmarks!), image: IMAGE }, context);
+    await analyzer.idle();
+
+    expect(measure.mock.calls[0][1]).toHaveLength(1);
+    expect(events[0].left).toEqual({ status: 'insufficient', reason: 'eyeClosed' });
+    expect(events[0].right).toEqual(OK);
+  });
+
+  it('stays quiet about failures after dispose', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    measure.mockRejectedValue(new Error('Redness worker terminated'));
+    const analyzer = new RednessAnalyzer();
+    const { events, context } = collect();
+
+    analyzer.process({ ...OPEN_FRAME, image: IMAGE }, context);
+    analyzer.dispose();
+    await analyzer.idle();
+
+    expect(dispose).toHaveBeenCalledOnce();
+    expect(events).toHaveLength(0);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  LEFT_EYE_REGION,
+  LEFT_IRIS_CENTER,
+  RIGHT_EYE_REGION,
+  RIGHT_IRIS_CENTER,
+} from '../landmarks';
+import type { Circle, Point, RednessMeasurement } from '../scleraRedness';
+import type { Analyzer, AnalyzerContext, Landmark, VisionFrame } from '../types';
+import { RednessWorkerClient, type EyeCrop } from '../workers/rednessWorkerClient';
+
+export interface RednessAnalyzerOptions {
+  /** Time between measurements; each one costs two eye crops. */
+  intervalMs?: number;
+}
+
+export const DEFAULT_REDNESS_INTERVAL_MS = 200;
+
+// Iris boundary points follow each refined iris centre
+const IRIS_BOUNDARY_POINTS = 4;
+
+function irisCircle(landmarks: Landmark[], center: number, width: number, height: number, minX: number, minY: number): Circle | null {
+  if (landmarks.length <= center + IRIS_BOUNDARY_POINTS) return null;
+  const c = landmarks[center];
+  const cx = c.x * width - minX;
+  const cy = c.y * height - minY;
+  let r = 0;
+  for (let i = 1; i <= IRIS_BOUNDARY_POINTS; i++) {
+    const p = landmarks[center + i];
+    r += Math.hypot(p.x * width - minX - cx, p.y * height - minY - cy);
+  }
+  return { cx, cy, r: r / IRIS_BOUNDARY_POINTS };
+}
+
+/** The eye's bounding box in the frame, or null when the lids leave no area. */
+export function eyeCrop(
+  landmarks: Landmark[],
+  width: number,
+  height: number,
+  eyeRegion: number[],
+  irisCenter: number,
+): EyeCrop | null {
+  const points = eyeRegion.map((idx) => [landmarks[idx].x * width, landmarks[idx].y * height]);
+  const minX = Math.max(0, Math.floor(Math.min(...points.map(([x]) => x))));
+  const maxX = Math.min(width, Math.ceil(Math.max(...points.map(([x]) => x))));
+  const minY = Math.max(0, Math.floor(Math.min(...points.map(([, y]) => y))));
+  const maxY = Math.min(height, Math.ceil(Math.max(...points.map(([, y]) => y))));
+  if (maxX <= minX || maxY <= minY) return null;
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+    polygon: points.map(([x, y]): Point => [x - minX, y - minY]),
+    iris: irisCircle(landmarks, irisCenter, width, height, minX, minY),
+  };
+}
+
+const EYE_CLOSED: RednessMeasurement = { status: 'insufficient', reason: 'eyeClosed' };
+
+/**
+ * Measures per-eye sclera redness on scheduled frames, in a worker. Frames
+ * arriving while a measurement is in flight are skipped. Frames the
+ * measurement cannot be trusted on are reported as insufficient rather than
+ * as a score, and a score's confidence is scaled down by the frame's quality.
+ */
+export class RednessAnalyzer implements Analyzer {
+  readonly id = 'redness';
+  readonly qualityGated = true;
+  readonly intervalMs: number;
+  private readonly client = new RednessWorkerClient();
+  private inFlight: Promise<void> | null = null;
+  private disposed = false;
+
+  constructor({ intervalMs = DEFAULT_REDNESS_INTERVAL_MS }: RednessAnalyzerOptions = {}) {
+    this.intervalMs = intervalMs;
+  }
+
+  process(frame: VisionFrame, context: AnalyzerContext) {
+    const { landmarks, image, width, height, timestamp, quality } = frame;
+    if (!landmarks || !image || this.inFlight) return;
+
+    const crops = [
+      eyeCrop(landmarks, width, height, LEFT_EYE_REGION, LEFT_IRIS_CENTER),
+      eyeCrop(landmarks, width, height, RIGHT_EYE_REGION, RIGHT_IRIS_CENTER),
+    ];
+    const measurable = crops.filter((crop): crop is EyeCrop => crop !== null);
+
+    this.inFlight = this.client
+      .measure(image, measurable)
+      .then(({ measurements, elapsedMs }) => {
+        context.recordLatency('redness (worker)', elapsedMs);
+        const weight = quality?.score ?? 1;
+        const queue = measurements.map((m) => (m.status === 'ok' ? { ...m, confidence: m.confidence * weight } : m));
+        const [left, right] = crops.map((crop) => (crop ? queue.shift()! : EYE_CLOSED));
+        context.emit('redness', { timestamp, left, right });
+      })
+      .catch((err) => {
+        if (!this.disposed) console.error('Redness measurement error:', err);
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+  }
+
+  async idle() {
+    await this.inFlight;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.client.dispose();
+  }
+}
@@ -0,0 +1,213 @@
+import type { Emotion } from '../metrics/types';
+import { topExpression } from './affect';
+import { BlinkAnalyzer, DEFAULT_BLINK_BASELINE, type BlinkBaseline } from './analyzers/blinkAnalyzer';
+import { expressionDetectorFor, type BackendId, type FaceBackend } from './faceBackend';
+import { calcEAR, LEFT_EYE, LEFT_EYE_REGION, LEFT_IRIS_CENTER, RIGHT_EYE, RIGHT_EYE_REGION } from './landmarks';
+import type { AnalyzerContext, FrameSource, Landmark } from './types';
+
+export interface BackendStats {
+  id: BackendId;
+  frames: number;
+  /** Share of frames in which the backend found a face. */
+  detectionRate: number | null;
+  /** Detection time per frame, over the last few hundred frames. */
+  meanMs: number | null;
+  p95Ms: number | null;
+  /** Frames per second the backend could sustain on its own at its mean latency. */
+  maxFps: number | null;
+  /** Whether the meshes carry iris landmarks. */
+  iris: boolean;
+  blinks: number;
+  /** Top expression of the latest expression reading. */
+  emotion: Emotion | null;
+  /** Mean time of a separate expression pass, null when expressions come with the mesh. */
+  expressionMs: number | null;
+}
+
+export interface ComparisonSnapshot {
+  backends: BackendStats[];
+  /** Frames in which every backend found a face. */
+  framesCompared: number;
+  /** Mean absolute difference of the average EAR between the first two backends. */
+  earDifference: number | null;
+  /** Mean eye-landmark distance between the first two backends, as a share of the distance between the eyes. */
+  eyeLandmarkDifference: number | null;
+  /** Share of expression readings where the first two backends agree on the top expression. */
+  emotionAgreement: number | null;
+}
+
+export interface BackendComparisonOptions {
+  baseline?: BlinkBaseline;
+  /** Time between expression readings; 0 turns them off. */
+  expressionIntervalMs?: number;
+}
+
+const LATENCY_WINDOW = 300;
+const EYE_POINTS = [...LEFT_EYE_REGION, ...RIGHT_EYE_REGION];
+// Outer eye corners, for normalising landmark distances
+const LEFT_OUTER_CORNER = 33;
+const RIGHT_OUTER_CORNER = 263;
+
+interface Entry {
+  backend: FaceBackend;
+  frames: number;
+  framesWithFace: number;
+  latencies: number[];
+  iris: boolean;
+  blink: BlinkAnalyzer;
+  blinks: number;
+  emotion: Emotion | null;
+  expressionMs: number | null;
+}
+
+function percentile(values: number[], q: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+function eyeLandmarkDistance(a: Landmark[], b: Landmark[], width: number, height: number) {
+  const px = (p: Landmark) => [p.x * width, p.y * height];
+  const [ax, ay] = px(a[LEFT_OUTER_CORNER]);
+  const [bx, by] = px(a[RIGHT_OUTER_CORNER]);
+  const eyeDistance = Math.hypot(ax - bx, ay - by);
+  if (eyeDistance === 0) return null;
+  let sum = 0;
+  for (const index of EYE_POINTS) {
+    const [x1, y1] = px(a[index]);
+    const [x2, y2] = px(b[index]);
+    sum += Math.hypot(x1 - x2, y1 - y2);
+  }
+  return sum / EYE_POINTS.length / eyeDistance;
+}
+
+const averageEar = (landmarks: Landmark[]) => (calcEAR(landmarks, LEFT_EYE) + calcEAR(landmarks, RIGHT_EYE)) / 2;
+
+/**
+ * Runs several face backends on the same frames and keeps score: speed,
+ * how often each finds the face, blinks counted from its meshes, and how far
+ * the first two agree on eye landmarks, EAR and expressions. Backends take
+ * turns going first so neither always runs on a warm GPU.
+ */
+export class BackendComparison {
+  private readonly entries: Entry[];
+  private readonly expressionIntervalMs: number;
+  private framesCompared = 0;
+  private earDifferenceSum = 0;
+  private eyeDistanceSum = 0;
+  private eyeDistanceCount = 0;
+  private emotionReadings = 0;
+  private emotionAgreements = 0;
+  private lastExpressions = -Infinity;
+  private turn = 0;
+
+  constructor(backends: FaceBackend[], { baseline = DEFAULT_BLINK_BASELINE, expressionIntervalMs = 0 }: BackendComparisonOptions = {}) {
+    this.expressionIntervalMs = expressionIntervalMs;
+    this.entries = backends.map((backend) => ({
+      backend,
+      frames: 0,
+      framesWithFace: 0,
+      latencies: [],
+      iris: false,
+      blink: new BlinkAnalyzer(baseline),
+      blinks: 0,
+      emotion: null,
+      expressionMs: null,
+    }));
+  }
+
+  /** Runs every backend on the frame; returns each backend's primary face mesh, in backend order. */
+  async process(image: FrameSource, width: number, height: number, timestamp: number): Promise<(Landmark[] | null)[]> {
+    const meshes: (Landmark[] | null)[] = this.entries.map(() => null);
+    const order = this.entries.map((_, i) => (i + this.turn) % this.entries.length);
+    this.turn += 1;
+
+    const readExpressions = this.expressionIntervalMs > 0 && timestamp - this.lastExpressions >= this.expressionIntervalMs;
+    if (readExpressions) this.lastExpressions = timestamp;
+    const emotions: (Emotion | null)[] = this.entries.map(() => null);
+
+    for (const i of order) {
+      const entry = this.entries[i];
+      const start = performance.now();
+      const faces = await entry.backend.detect(image);
+      entry.latencies.push(performance.now() - start);
+      if (entry.latencies.length > LATENCY_WINDOW) entry.latencies.shift();
+      entry.frames += 1;
+
+      const landmarks = faces[0] ?? null;
+      meshes[i] = landmarks;
+      if (landmarks) {
+        entry.framesWithFace += 1;
+        entry.iris = landmarks.length > LEFT_IRIS_CENTER;
+      }
+      this.countBlinks(entry, landmarks, timestamp, width, height);
+
+      // Read right after this backend's own detection, as the EmotionAnalyzer does
+      if (readExpressions && landmarks) emotions[i] = await this.readExpressions(entry, image);
+    }
+
+    const [a, b] = meshes;
+    if (a && b) {
+      this.framesCompared += 1;
+      this.earDifferenceSum += Math.abs(averageEar(a) - averageEar(b));
+      const distance = eyeLandmarkDistance(a, b, width, height);
+      if (distance !== null) {
+        this.eyeDistanceSum += distance;
+        this.eyeDistanceCount += 1;
+      }
+    }
+    if (emotions[0] && emotions[1]) {
+      this.emotionReadings += 1;
+      if (emotions[0] === emotions[1]) this.emotionAgreements += 1;
+    }
+    return meshes;
+  }
+
+  snapshot(): ComparisonSnapshot {
+    return {
+      backends: this.entries.map((entry) => {
+        const meanMs = entry.latencies.length > 0
+          ? entry.latencies.reduce((sum, ms) => sum + ms, 0) / entry.latencies.length
+          : null;
+        return {
+          id: entry.backend.id,
+          frames: entry.frames,
+          detectionRate: entry.frames > 0 ? entry.framesWithFace / entry.frames : null,
+          meanMs,
+          p95Ms: entry.latencies.length > 0 ? percentile(entry.latencies, 0.95) : null,
+          maxFps: meanMs ? 1000 / meanMs : null,
+          iris: entry.iris,
+          blinks: entry.blinks,
+          emotion: entry.emotion,
+          expressionMs: entry.expressionMs,
+        };
+      }),
+      framesCompared: this.framesCompared,
+      earDifference: this.framesCompared > 0 ? this.earDifferenceSum / this.framesCompared : null,
+      eyeLandmarkDifference: this.eyeDistanceCount > 0 ? this.eyeDistanceSum / this.eyeDistanceCount : null,
+      emotionAgreement: this.emotionReadings > 0 ? this.emotionAgreements / this.emotionReadings : null,
+    };
+  }
+
+  async close() {
+    await Promise.all(this.entries.map((entry) => entry.backend.close()));
+  }
+
+  private countBlinks(entry: Entry, landmarks: Landmark[] | null, timestamp: number, width: number, height: number) {
+    const context: AnalyzerContext = {
+      emit(type) {
+        if (type === 'blink') entry.blinks += 1;
+      },
+      recordLatency() {},
+    };
+    entry.blink.process({ timestamp, landmarks, width, height }, context);
+  }
+
+  private async readExpressions(entry: Entry, image: FrameSource): Promise<Emotion | null> {
+    const start = performance.now();
+    const [detection] = await expressionDetectorFor(entry.backend)(image);
+    // Expressions from the mesh pass cost nothing extra; only face-api's cost is its own
+    if (!entry.backend.expressions) entry.expressionMs = performance.now() - start;
+    entry.emotion = detection ? (topExpression(detection.expressions)?.emotion ?? null) : null;
+    return entry.emotion;
+  }
+}
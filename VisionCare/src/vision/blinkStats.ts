@@ -0,0 +1,60 @@
+import type { BlinkKind } from '../metrics/types';
+import type { BlinkEndEvent } from './types';
+
+export type BlinkQualityStats = Record<BlinkKind, number> & {
+  /** Summed closure time of all classified blinks, in milliseconds. */
+  totalDurationMs: number;
+};
+
+export const EMPTY_BLINK_QUALITY: BlinkQualityStats = {
+  complete: 0,
+  incomplete: 0,
+  prolonged: 0,
+  totalDurationMs: 0,
+};
+
+// Above this share of incomplete blinks the tear film is poorly refreshed
+const PARTIAL_RATIO_WARNING = 0.4;
+// Typical spontaneous blinks last 100-400 ms
+const MEAN_DURATION_WARNING_MS = 400;
+
+export function addBlink(
+  stats: BlinkQualityStats,
+  { kind, duration }: Pick<BlinkEndEvent, 'kind' | 'duration'>,
+): BlinkQualityStats {
+  return {
+    ...stats,
+    [kind]: stats[kind] + 1,
+    totalDurationMs: stats.totalDurationMs + duration,
+  };
+}
+
+export function totalBlinks(stats: BlinkQualityStats) {
+  return stats.complete + stats.incomplete + stats.prolonged;
+}
+
+/** Share of blinks where the lid did not close fully, or null before any blink. */
+export function partialBlinkRatio(stats: BlinkQualityStats): number | null {
+  const total = totalBlinks(stats);
+  return total > 0 ? stats.incomplete / total : null;
+}
+
+export function meanBlinkDuration(stats: BlinkQualityStats): number | null {
+  const total = totalBlinks(stats);
+  return total > 0 ? stats.totalDurationMs / total : null;
+}
+
+export function getBlinkQualityStatus(stats: BlinkQualityStats) {
+  const ratio = partialBlinkRatio(stats);
+  const duration = meanBlinkDuration(stats);
+  if (ratio === null || duration === null) {
+    return { status: 'Measuring...', color: '#6b7280', icon: '⏱️' };
+  }
+  if (ratio > PARTIAL_RATIO_WARNING) {
+    return { status: 'Partial Blinks', color: '#ef4444', icon: '⚠️', message: 'Many blinks are incomplete. Try closing your eyes fully.' };
+  }
+  if (duration > MEAN_DURATION_WARNING_MS) {
+    return { status: 'Slow Blinks', color: '#f59e0b', icon: '⚡', message: 'Long closures can be a sign of fatigue' };
+  }
+  return { status: 'Healthy', color: '#10b981', icon: '✓', message: 'Blinks are complete and brisk' };
+}
@@ -0,0 +1,68 @@
+import type { BlinkBaseline, BlinkThresholds } from './analyzers/blinkAnalyzer';
+
+// Hysteresis points as a fraction of the way from the closed to the open
+// baseline. A blink starts below CLOSE and ends once the eye is back above
+// REOPEN, so noise around a single threshold cannot double count.
+const CLOSE_FRACTION = 0.4;
+const REOPEN_FRACTION = 0.6;
+
+// Percentile of the blink-phase samples taken as the closed-eye EAR; the
+// very lowest frames are often landmark glitches.
+const CLOSED_PERCENTILE = 0.05;
+
+const MIN_OPEN_SAMPLES = 20;
+const MIN_BLINK_SAMPLES = 30;
+const MIN_EAR_SPAN = 0.05;
+
+export interface EarCalibrationProfile extends BlinkBaseline {
+  calibratedAt: number;
+}
+
+export type CalibrationResult =
+  | { ok: true; profile: EarCalibrationProfile }
+  | { ok: false; reason: string };
+
+function percentile(values: number[], p: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+export function thresholdsFromBaselines(openEAR: number, closedEAR: number): BlinkThresholds {
+  const span = openEAR - closedEAR;
+  return {
+    close: closedEAR + span * CLOSE_FRACTION,
+    reopen: closedEAR + span * REOPEN_FRACTION,
+  };
+}
+
+/**
+ * Derives personal blink thresholds from EAR samples recorded while the user
+ * kept their eyes open and while they blinked on cue.
+ */
+export function computeCalibration(
+  openSamples: number[],
+  blinkSamples: number[],
+  calibratedAt = Date.now(),
+): CalibrationResult {
+  if (openSamples.length < MIN_OPEN_SAMPLES || blinkSamples.length < MIN_BLINK_SAMPLES) {
+    return { ok: false, reason: "We couldn't see your face clearly enough. Make sure your face is well lit and centred." };
+  }
+
+  const openEAR = percentile(openSamples, 0.5);
+  const closedEAR = percentile(blinkSamples, CLOSED_PERCENTILE);
+
+  if (openEAR - closedEAR < MIN_EAR_SPAN) {
+    return { ok: false, reason: "We couldn't detect your blinks. Try blinking fully each time the cue appears." };
+  }
+
+  return {
+    ok: true,
+    profile: {
+      openEAR,
+      closedEAR,
+      thresholds: thresholdsFromBaselines(openEAR, closedEAR),
+      calibratedAt,
+    },
+  };
+}
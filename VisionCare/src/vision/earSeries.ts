@@ -0,0 +1,43 @@
+export interface EarSample {
+  timestamp: number;
+  left: number;
+  right: number;
+}
+
+/** Fixed-capacity ring buffer of per-frame EAR values for both eyes. */
+export class EarSeries {
+  readonly capacity: number;
+  private readonly buffer: EarSample[];
+  private start = 0;
+  private length = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.buffer = new Array(capacity);
+  }
+
+  push(sample: EarSample) {
+    const index = (this.start + this.length) % this.capacity;
+    this.buffer[index] = sample;
+    if (this.length < this.capacity) {
+      this.length += 1;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /** Samples in chronological order, optionally only those at or after `since`. */
+  toArray(since = -Infinity): EarSample[] {
+    const samples: EarSample[] = [];
+    for (let i = 0; i < this.length; i++) {
+      const sample = this.buffer[(this.start + i) % this.capacity];
+      if (sample.timestamp >= since) samples.push(sample);
+    }
+    return samples;
+  }
+
+  clear() {
+    this.start = 0;
+    this.length = 0;
+  }
+}
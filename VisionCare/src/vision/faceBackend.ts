@@ -0,0 +1,73 @@
+import type { EngineId } from '../runtime/loader';
+import { faceApiExpressionDetector, type ExpressionDetector } from './analyzers/emotionAnalyzer';
+import { createMediaPipeBackend } from './faceMesh';
+import { createHumanBackend } from './humanBackend';
+import type { FrameSource, Landmark } from './types';
+
+export type BackendId = 'mediapipe' | 'human';
+
+/**
+ * A face-analysis library behind a common interface. Every backend returns
+ * MediaPipe-topology meshes (468 points, plus 10 iris points at 468-477), so
+ * the analyzers work unchanged whichever one runs.
+ */
+export interface FaceBackend {
+  readonly id: BackendId;
+  /** Face meshes found in the image, in normalised frame coordinates. */
+  detect(image: FrameSource): Promise<Landmark[][]>;
+  /**
+   * For backends that classify expressions in the mesh pass: the expressions
+   * from this backend's last `detect`, so call it right after that.
+   */
+  readonly expressions?: ExpressionDetector;
+  close(): Promise<void>;
+}
+
+export interface FaceBackendOptions {
+  /** Faces tracked at once; each extra face costs another mesh inference. */
+  maxFaces?: number;
+  /** Whether expression classification should run alongside the mesh, for backends that do both in one pass. */
+  expressions?: boolean;
+}
+
+export interface BackendInfo {
+  label: string;
+  description: string;
+  /** Runtime that must be loaded before `detect` can run. */
+  landmarks: EngineId;
+  /** Runtime behind the backend's expression detector. */
+  expressions: EngineId;
+}
+
+export const FACE_BACKENDS: Record<BackendId, BackendInfo> = {
+  mediapipe: {
+    label: 'MediaPipe + face-api',
+    description: 'MediaPipe FaceMesh (WebAssembly) for landmarks and iris, face-api.js for expressions. Light on the GPU.',
+    landmarks: 'mediapipe',
+    expressions: 'faceApi',
+  },
+  human: {
+    label: 'Human (TensorFlow.js)',
+    description: 'Landmarks, iris and expressions from one WebGL pass. Usually faster with a capable GPU.',
+    landmarks: 'human',
+    expressions: 'human',
+  },
+};
+
+export const BACKEND_IDS = Object.keys(FACE_BACKENDS) as BackendId[];
+
+/** Runtimes to load for a backend; expression models only when emotions are on. */
+export function backendEngines(id: BackendId, expressions: boolean): EngineId[] {
+  const { landmarks, expressions: expressionEngine } = FACE_BACKENDS[id];
+  return expressions && expressionEngine !== landmarks ? [landmarks, expressionEngine] : [landmarks];
+}
+
+/** Requires the backend's `landmarks` runtime to be loaded. */
+export function createFaceBackend(id: BackendId, options: FaceBackendOptions = {}): FaceBackend {
+  return id === 'human' ? createHumanBackend(options) : createMediaPipeBackend(options);
+}
+
+/** The detector an EmotionAnalyzer should use with this backend. */
+export function expressionDetectorFor(backend: FaceBackend): ExpressionDetector {
+  return backend.expressions ?? faceApiExpressionDetector;
+}
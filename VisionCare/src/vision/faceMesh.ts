@@ -0,0 +1,65 @@
+import { MEDIAPIPE_BASE_URL } from '../runtime/loader';
+import type { FaceBackend, FaceBackendOptions } from './faceBackend';
+import type { FrameSource, Landmark } from './types';
+
+/** The subset of MediaPipe FaceMesh results the app reads. */
+export interface FaceMeshResults {
+  image: CanvasImageSource;
+  multiFaceLandmarks?: Landmark[][];
+}
+
+export interface FaceMeshSolution {
+  /** Resolves after `onResults` has been called for this image. */
+  send(input: { image: FrameSource }): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface FaceMeshOptions {
+  /** Faces tracked at once; each extra face costs another mesh inference. */
+  maxFaces?: number;
+}
+
+/**
+ * Creates a FaceMesh instance loading its assets from the app origin.
+ * Requires the 'mediapipe' engine to be loaded.
+ */
+export function createFaceMesh(
+  onResults: (results: FaceMeshResults) => void,
+  { maxFaces = 1 }: FaceMeshOptions = {},
+): FaceMeshSolution {
+  const faceMesh = new window.FaceMesh({
+    locateFile: (file: string) => `${MEDIAPIPE_BASE_URL}${file}`,
+  });
+
+  faceMesh.setOptions({
+    maxNumFaces: maxFaces,
+    // Adds the iris landmarks used for gaze and viewing distance
+    refineLandmarks: true,
+    minDetectionConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+  });
+  faceMesh.onResults(onResults);
+  return faceMesh;
+}
+
+/**
+ * FaceMesh as a FaceBackend. Expressions come from face-api.js separately,
+ * so `expressions` makes no difference here.
+ */
+export function createMediaPipeBackend({ maxFaces }: FaceBackendOptions = {}): FaceBackend {
+  let latest: Landmark[][] = [];
+  const faceMesh = createFaceMesh((results) => {
+    latest = results.multiFaceLandmarks ?? [];
+  }, { maxFaces });
+
+  return {
+    id: 'mediapipe',
+    async detect(image) {
+      latest = [];
+      await faceMesh.send({ image });
+      // `latest` is assigned by the onResults callback during send
+      return latest;
+    },
+    close: () => faceMesh.close(),
+  };
+}
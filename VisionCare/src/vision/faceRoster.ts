@@ -0,0 +1,187 @@
+import { VisionEngine } from './VisionEngine';
+import { BlinkAnalyzer } from './analyzers/blinkAnalyzer';
+import { boxArea, FaceTracker, type FaceTrackerOptions, type TrackedFace } from './faceTracker';
+import type { Landmark, VisionFrame } from './types';
+
+export interface FaceSummary {
+  trackId: number;
+  primary: boolean;
+  visible: boolean;
+  firstSeen: number;
+  blinkCount: number;
+  /** Blinks during the last minute. */
+  blinksPerMinute: number;
+  /** Only the primary face runs expression detection. */
+  emotion: string | null;
+}
+
+export interface FaceRosterOptions extends FaceTrackerOptions {
+  /** Builds the lightweight engine that measures faces other than the primary. */
+  createEngine?: () => VisionEngine;
+}
+
+interface FaceStats {
+  blinkCount: number;
+  recentBlinks: number[];
+  emotion: string | null;
+}
+
+const BPM_WINDOW_MS = 60_000;
+
+function createSecondaryEngine() {
+  const engine = new VisionEngine();
+  engine.register(new BlinkAnalyzer());
+  return engine;
+}
+
+/**
+ * Splits a multi-face frame between people. The primary face drives the
+ * full engine the dashboard listens to; every other tracked face gets its
+ * own lightweight engine, so nobody's blinks are counted for someone else.
+ *
+ * The primary face is either chosen automatically (the largest face, kept
+ * for as long as it stays tracked) or locked to a track id. A locked user
+ * who leaves is never replaced: the primary engine sees no face until they
+ * come back or the lock changes.
+ */
+export class FaceRoster {
+  private readonly primary: VisionEngine;
+  private readonly tracker: FaceTracker;
+  private readonly createEngine: () => VisionEngine;
+  private readonly secondary = new Map<number, VisionEngine>();
+  private readonly stats = new Map<number, FaceStats>();
+  private readonly unsubscribers: (() => void)[];
+  private tracks: TrackedFace[] = [];
+  private primaryId: number | null = null;
+  private lockedId: number | null = null;
+  private lastTimestamp = 0;
+
+  constructor(primary: VisionEngine, { createEngine = createSecondaryEngine, ...trackerOptions }: FaceRosterOptions = {}) {
+    this.primary = primary;
+    this.tracker = new FaceTracker(trackerOptions);
+    this.createEngine = createEngine;
+    this.unsubscribers = [
+      primary.on('blink', ({ timestamp }) => {
+        if (this.primaryId !== null) this.countBlink(this.primaryId, timestamp);
+      }),
+      primary.on('emotion', ({ emotion }) => {
+        if (this.primaryId !== null) this.statsFor(this.primaryId).emotion = emotion;
+      }),
+    ];
+  }
+
+  get lockedTrackId() {
+    return this.lockedId;
+  }
+
+  /** Locks the primary user to a track, or returns to automatic choice with null. */
+  lock(trackId: number | null) {
+    this.lockedId = trackId;
+  }
+
+  /** Routes one frame's faces; returns the live tracks for drawing. */
+  process(frame: Omit<VisionFrame, 'landmarks'>, faces: Landmark[][]): TrackedFace[] {
+    const { timestamp } = frame;
+    this.lastTimestamp = timestamp;
+    this.tracks = this.tracker.update(timestamp, faces);
+    const visible = this.tracks.filter((track) => track.lastSeen === timestamp);
+
+    const primary = this.choosePrimary(visible);
+    const primaryId = this.lockedId ?? primary?.trackId ?? this.primaryId;
+    if (primaryId !== this.primaryId) {
+      // Blink and fatigue state belongs to the previous person
+      if (this.primaryId !== null) this.primary.reset();
+      this.primaryId = primaryId;
+      if (primaryId !== null) this.dropSecondary(primaryId);
+    }
+    this.primary.process({ ...frame, landmarks: primary?.landmarks ?? null });
+
+    const live = new Set(this.tracks.map((track) => track.trackId));
+    for (const id of [...this.secondary.keys(), ...this.stats.keys()]) {
+      if (!live.has(id)) {
+        this.dropSecondary(id);
+        this.stats.delete(id);
+      }
+    }
+    for (const track of this.tracks) {
+      if (track.trackId === this.primaryId) continue;
+      // Secondary engines get landmarks only; pixel analysis is for the primary user
+      this.secondaryFor(track.trackId).process({
+        timestamp,
+        landmarks: track.lastSeen === timestamp ? track.landmarks : null,
+        width: frame.width,
+        height: frame.height,
+      });
+    }
+    return this.tracks;
+  }
+
+  isPrimary(trackId: number) {
+    return trackId === this.primaryId;
+  }
+
+  summaries(): FaceSummary[] {
+    const since = this.lastTimestamp - BPM_WINDOW_MS;
+    return this.tracks.map((track) => {
+      const stats = this.statsFor(track.trackId);
+      stats.recentBlinks = stats.recentBlinks.filter((t) => t > since);
+      return {
+        trackId: track.trackId,
+        primary: track.trackId === this.primaryId,
+        visible: track.lastSeen === this.lastTimestamp,
+        firstSeen: track.firstSeen,
+        blinkCount: stats.blinkCount,
+        blinksPerMinute: stats.recentBlinks.length,
+        emotion: stats.emotion,
+      };
+    });
+  }
+
+  dispose() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    [...this.secondary.keys()].forEach((id) => this.dropSecondary(id));
+  }
+
+  private choosePrimary(visible: TrackedFace[]): TrackedFace | null {
+    if (this.lockedId !== null) {
+      return visible.find((track) => track.trackId === this.lockedId) ?? null;
+    }
+    const current = visible.find((track) => track.trackId === this.primaryId);
+    if (current) return current;
+    // The closest person to the camera is most likely the one at the keyboard
+    return visible.reduce<TrackedFace | null>(
+      (largest, track) => (!largest || boxArea(track.box) > boxArea(largest.box) ? track : largest),
+      null,
+    );
+  }
+
+  private secondaryFor(trackId: number) {
+    let engine = this.secondary.get(trackId);
+    if (!engine) {
+      engine = this.createEngine();
+      engine.on('blink', ({ timestamp }) => this.countBlink(trackId, timestamp));
+      this.secondary.set(trackId, engine);
+    }
+    return engine;
+  }
+
+  private dropSecondary(trackId: number) {
+    this.secondary.get(trackId)?.dispose();
+    this.secondary.delete(trackId);
+  }
+
+  private statsFor(trackId: number) {
+    let stats = this.stats.get(trackId);
+    if (!stats) {
+      stats = { blinkCount: 0, recentBlinks: [], emotion: null };
+      this.stats.set(trackId, stats);
+    }
+    return stats;
+  }
+
+  private countBlink(trackId: number, timestamp: number) {
+    const stats = this.statsFor(trackId);
+    stats.blinkCount += 1;
+    stats.recentBlinks.push(timestamp);
+  }
+}
@@ -0,0 +1,111 @@
+import type { Landmark } from './types';
+
+/** Axis-aligned box in normalised frame coordinates. */
+export interface FaceBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface TrackedFace {
+  /** Stable for as long as the face keeps being matched. */
+  trackId: number;
+  landmarks: Landmark[];
+  box: FaceBox;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface FaceTrackerOptions {
+  /** Minimum overlap between a face and a track's last box to continue it. */
+  minIou?: number;
+  /** How long a track survives without a matching face. */
+  lostAfterMs?: number;
+}
+
+export function landmarkBox(landmarks: Landmark[]): FaceBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of landmarks) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+export function boxArea(box: FaceBox) {
+  return Math.max(0, box.maxX - box.minX) * Math.max(0, box.maxY - box.minY);
+}
+
+export function boxIou(a: FaceBox, b: FaceBox) {
+  const intersection = boxArea({
+    minX: Math.max(a.minX, b.minX),
+    minY: Math.max(a.minY, b.minY),
+    maxX: Math.min(a.maxX, b.maxX),
+    maxY: Math.min(a.maxY, b.maxY),
+  });
+  const union = boxArea(a) + boxArea(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Gives every face mesh a track id that survives across frames. FaceMesh
+ * returns faces in no particular order, so each frame's faces are matched
+ * to existing tracks greedily by box overlap; unmatched faces start new
+ * tracks and tracks unmatched for `lostAfterMs` are dropped.
+ */
+export class FaceTracker {
+  private readonly minIou: number;
+  private readonly lostAfterMs: number;
+  private tracks: TrackedFace[] = [];
+  private nextId = 1;
+
+  constructor({ minIou = 0.3, lostAfterMs = 1500 }: FaceTrackerOptions = {}) {
+    this.minIou = minIou;
+    this.lostAfterMs = lostAfterMs;
+  }
+
+  /** Matches this frame's faces and returns every live track, visible or not. */
+  update(timestamp: number, faces: Landmark[][]): TrackedFace[] {
+    const boxes = faces.map(landmarkBox);
+    const pairs: { track: number; face: number; iou: number }[] = [];
+    this.tracks.forEach((track, t) => {
+      boxes.forEach((box, f) => {
+        const iou = boxIou(track.box, box);
+        if (iou >= this.minIou) pairs.push({ track: t, face: f, iou });
+      });
+    });
+    pairs.sort((a, b) => b.iou - a.iou);
+
+    const matchedTracks = new Set<number>();
+    const matchedFaces = new Set<number>();
+    for (const { track, face } of pairs) {
+      if (matchedTracks.has(track) || matchedFaces.has(face)) continue;
+      matchedTracks.add(track);
+      matchedFaces.add(face);
+      Object.assign(this.tracks[track], { landmarks: faces[face], box: boxes[face], lastSeen: timestamp });
+    }
+
+    this.tracks = this.tracks.filter((track) => timestamp - track.lastSeen <= this.lostAfterMs);
+    faces.forEach((landmarks, f) => {
+      if (matchedFaces.has(f)) return;
+      this.tracks.push({
+        trackId: this.nextId++,
+        landmarks,
+        box: boxes[f],
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+      });
+    });
+    return this.tracks;
+  }
+
+  reset() {
+    this.tracks = [];
+  }
+}
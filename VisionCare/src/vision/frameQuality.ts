@@ -0,0 +1,277 @@
+import { landmarkBox, type FaceBox } from './faceTracker';
+import { estimateHeadPose } from './headPose';
+import { calcEAR, LEFT_EYE, LEFT_EYE_REGION, RIGHT_EYE, RIGHT_EYE_REGION } from './landmarks';
+import type { FrameSource, Landmark, VisionFrame } from './types';
+
+/** Each factor runs from 0 (unusable) to 1 (good). */
+export interface QualityFactors {
+  brightness: number;
+  sharpness: number;
+  faceSize: number;
+  pose: number;
+  occlusion: number;
+}
+
+export type QualityIssue =
+  | 'noFace'
+  | 'outOfFrame'
+  | 'tooFar'
+  | 'tooClose'
+  | 'turnedAway'
+  | 'tooDark'
+  | 'tooBright'
+  | 'backlit'
+  | 'blurry'
+  | 'moving'
+  | 'occluded';
+
+export interface FrameQuality {
+  timestamp: number;
+  /** The weakest factor: a frame is only as usable as its worst aspect. */
+  score: number;
+  factors: QualityFactors;
+  /** What to fix first, or null when every factor is good. */
+  issue: QualityIssue | null;
+}
+
+export const QUALITY_HINTS: Record<QualityIssue, string> = {
+  noFace: 'No face found: look at the camera',
+  outOfFrame: 'Centre your face in the picture',
+  tooFar: 'Move closer to the camera',
+  tooClose: 'Move back a little',
+  turnedAway: 'Face the screen',
+  tooDark: 'Too dark: add light in front of you',
+  tooBright: 'Too bright: reduce direct light',
+  backlit: 'Light behind you: face a window or lamp instead',
+  blurry: 'Picture is blurry: clean the lens or hold still',
+  moving: 'Hold your head still',
+  occluded: 'Keep your eyes uncovered',
+};
+
+/** Frames scoring below this reach gated analyzers without landmarks. */
+export const DEFAULT_MIN_QUALITY = 0.5;
+
+// A factor at or above this is not worth a hint
+const GOOD_FACTOR = 0.8;
+
+// Pixel statistics cost a canvas read, so they are refreshed at this rate
+// and reused for the frames in between
+const PIXEL_INTERVAL_MS = 250;
+const FACE_SAMPLE_SIZE = 96;
+const FRAME_SAMPLE_WIDTH = 32;
+const FRAME_SAMPLE_HEIGHT = 24;
+
+// Eye contrast is only judged above this EAR: a closed lid is as flat as a
+// covered eye, and blinks must not be gated away
+const EYES_OPEN_EAR = 0.22;
+
+/** 0 at `bad`, 1 at `good`, linear in between; works for either direction. */
+function ramp(value: number, bad: number, good: number) {
+  const t = (value - bad) / (good - bad);
+  return Math.min(1, Math.max(0, t));
+}
+
+interface Scored {
+  value: number;
+  issue: QualityIssue;
+}
+
+// The lower-scoring of two assessments of the same factor
+const worse = (a: Scored, b: Scored) => (b.value < a.value ? b : a);
+
+interface PixelStats {
+  faceLuma: number;
+  frameLuma: number;
+  /** Variance of the Laplacian over the face; falls as the picture blurs. */
+  sharpness: number;
+  /** Lowest luma standard deviation of the two eye regions; null while the eyes are closed. */
+  eyeContrast: number | null;
+}
+
+function luma(data: Uint8ClampedArray, i: number) {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function grayscale(image: ImageData): Float32Array {
+  const gray = new Float32Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luma(image.data, i * 4);
+  return gray;
+}
+
+function mean(values: ArrayLike<number>) {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+}
+
+function laplacianVariance(gray: Float32Array, size: number) {
+  const values: number[] = [];
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      values.push(gray[i - 1] + gray[i + 1] + gray[i - size] + gray[i + size] - 4 * gray[i]);
+    }
+  }
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+}
+
+// Luma standard deviation inside an eye's bounding box; `crop` is the part of
+// the frame the face sample was taken from
+function eyeContrast(gray: Float32Array, landmarks: Landmark[], region: number[], crop: FaceBox) {
+  const width = crop.maxX - crop.minX;
+  const height = crop.maxY - crop.minY;
+  const xs = region.map((i) => Math.round(((landmarks[i].x - crop.minX) / width) * (FACE_SAMPLE_SIZE - 1)));
+  const ys = region.map((i) => Math.round(((landmarks[i].y - crop.minY) / height) * (FACE_SAMPLE_SIZE - 1)));
+  const values: number[] = [];
+  for (let y = Math.max(0, Math.min(...ys)); y <= Math.min(FACE_SAMPLE_SIZE - 1, Math.max(...ys)); y++) {
+    for (let x = Math.max(0, Math.min(...xs)); x <= Math.min(FACE_SAMPLE_SIZE - 1, Math.max(...xs)); x++) {
+      values.push(gray[y * FACE_SAMPLE_SIZE + x]);
+    }
+  }
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+/**
+ * Scores how far a frame's metrics can be trusted. Geometry (face size,
+ * head pose, how much of the face is in frame, head motion) comes from the
+ * landmarks on every frame; brightness, sharpness and eye visibility come
+ * from a small downscaled copy of the face, refreshed a few times a second.
+ */
+export class FrameQualityAssessor {
+  private canvas: HTMLCanvasElement | null = null;
+  private pixels: PixelStats | null = null;
+  private lastPixelSample = -Infinity;
+  private lastCenter: { x: number; y: number; timestamp: number } | null = null;
+
+  assess(frame: VisionFrame): FrameQuality {
+    const { landmarks, timestamp, width, height } = frame;
+    if (!landmarks) {
+      this.lastCenter = null;
+      const factors: QualityFactors = { brightness: 0, sharpness: 0, faceSize: 0, pose: 0, occlusion: 0 };
+      return { timestamp, score: 0, factors, issue: 'noFace' };
+    }
+
+    const box = landmarkBox(landmarks);
+    if (frame.image && timestamp - this.lastPixelSample >= PIXEL_INTERVAL_MS) {
+      this.lastPixelSample = timestamp;
+      this.pixels = this.samplePixels(frame.image, landmarks, box, width, height);
+    }
+
+    const brightness = this.brightness();
+    const sharpness = worse(this.sharpness(), this.motion(box, timestamp));
+    const faceSize = this.faceSize(box);
+    const pose = this.pose(landmarks, width, height);
+    const occlusion = worse(this.inFrame(landmarks), this.eyesVisible());
+
+    const weakest = [brightness, sharpness, faceSize, pose, occlusion].reduce(worse);
+    return {
+      timestamp,
+      score: weakest.value,
+      factors: {
+        brightness: brightness.value,
+        sharpness: sharpness.value,
+        faceSize: faceSize.value,
+        pose: pose.value,
+        occlusion: occlusion.value,
+      },
+      issue: weakest.value < GOOD_FACTOR ? weakest.issue : null,
+    };
+  }
+
+  reset() {
+    this.pixels = null;
+    this.lastPixelSample = -Infinity;
+    this.lastCenter = null;
+  }
+
+  private faceSize(box: FaceBox): Scored {
+    // Face width as a fraction of the frame; below a tenth the eyes are only a few pixels wide
+    const size = box.maxX - box.minX;
+    return size < 0.4
+      ? { value: ramp(size, 0.1, 0.2), issue: 'tooFar' }
+      : { value: ramp(size, 0.85, 0.65), issue: 'tooClose' };
+  }
+
+  private pose(landmarks: Landmark[], width: number, height: number): Scored {
+    // A turned head foreshortens the eye width that EAR divides by
+    const { yaw, pitch } = estimateHeadPose(landmarks, width, height);
+    return {
+      value: Math.min(ramp(Math.abs(yaw), 40, 20), ramp(Math.abs(pitch), 50, 30)),
+      issue: 'turnedAway',
+    };
+  }
+
+  private inFrame(landmarks: Landmark[]): Scored {
+    const inside = landmarks.filter((p) => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1).length;
+    return { value: ramp(inside / landmarks.length, 0.85, 1), issue: 'outOfFrame' };
+  }
+
+  private motion(box: FaceBox, timestamp: number): Scored {
+    // Head speed in face widths per second; fast movement smears the eyes
+    const center = { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2, timestamp };
+    const last = this.lastCenter;
+    this.lastCenter = center;
+    if (!last || timestamp <= last.timestamp) return { value: 1, issue: 'moving' };
+    const faceWidth = Math.max(box.maxX - box.minX, 1e-3);
+    const speed = Math.hypot(center.x - last.x, center.y - last.y) / faceWidth / ((timestamp - last.timestamp) / 1000);
+    return { value: ramp(speed, 1.5, 0.75), issue: 'moving' };
+  }
+
+  private brightness(): Scored {
+    if (!this.pixels) return { value: 1, issue: 'tooDark' };
+    const { faceLuma, frameLuma } = this.pixels;
+    if (faceLuma > 200) return { value: ramp(faceLuma, 240, 200), issue: 'tooBright' };
+    const exposure: Scored = { value: ramp(faceLuma, 30, 70), issue: 'tooDark' };
+    // A face much darker than its surroundings is lit from behind
+    const backlight: Scored = { value: ramp(faceLuma / Math.max(frameLuma, 1), 0.45, 0.75), issue: 'backlit' };
+    return worse(exposure, backlight);
+  }
+
+  private sharpness(): Scored {
+    return { value: this.pixels ? ramp(this.pixels.sharpness, 15, 60) : 1, issue: 'blurry' };
+  }
+
+  private eyesVisible(): Scored {
+    // An open, visible eye has dark iris against white sclera; a hand, hair
+    // or glare leaves a flat patch
+    const contrast = this.pixels?.eyeContrast ?? null;
+    return { value: contrast !== null ? ramp(contrast, 8, 18) : 1, issue: 'occluded' };
+  }
+
+  private samplePixels(image: FrameSource, landmarks: Landmark[], box: FaceBox, width: number, height: number): PixelStats | null {
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = FACE_SAMPLE_SIZE;
+      this.canvas.height = FACE_SAMPLE_SIZE;
+    }
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    const sx = Math.max(0, box.minX * width);
+    const sy = Math.max(0, box.minY * height);
+    const sw = Math.min(width, box.maxX * width) - sx;
+    const sh = Math.min(height, box.maxY * height) - sy;
+    if (sw <= 1 || sh <= 1) return null;
+
+    ctx.drawImage(image, sx, sy, sw, sh, 0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE);
+    const crop: FaceBox = { minX: sx / width, minY: sy / height, maxX: (sx + sw) / width, maxY: (sy + sh) / height };
+    const face = grayscale(ctx.getImageData(0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE));
+    ctx.drawImage(image, 0, 0, FRAME_SAMPLE_WIDTH, FRAME_SAMPLE_HEIGHT);
+    const frame = grayscale(ctx.getImageData(0, 0, FRAME_SAMPLE_WIDTH, FRAME_SAMPLE_HEIGHT));
+    ctx.clearRect(0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE);
+
+    return {
+      faceLuma: mean(face),
+      frameLuma: mean(frame),
+      sharpness: laplacianVariance(face, FACE_SAMPLE_SIZE),
+      eyeContrast: (calcEAR(landmarks, LEFT_EYE) + calcEAR(landmarks, RIGHT_EYE)) / 2 >= EYES_OPEN_EAR
+        ? Math.min(
+            eyeContrast(face, landmarks, LEFT_EYE_REGION, crop),
+            eyeContrast(face, landmarks, RIGHT_EYE_REGION, crop),
+          )
+        : null,
+    };
+  }
+}
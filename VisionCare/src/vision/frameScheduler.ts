@@ -0,0 +1,43 @@
+export interface PeriodicTask {
+  readonly id: string;
+  /** Minimum time between two runs, in milliseconds. */
+  readonly intervalMs: number;
+}
+
+/**
+ * Decides which periodic analyzer runs on a frame. At most one task runs per
+ * frame, so expensive analyzers never pile up on the same frame, and the
+ * choice depends only on frame timestamps: the same recording always runs
+ * the same analyzers on the same frames.
+ */
+export class FrameScheduler {
+  private readonly lastRun = new Map<string, number>();
+
+  /**
+   * Returns the id of the task to run on the frame at `timestamp`, or null.
+   * Among tasks whose interval has elapsed the most overdue one wins; ties
+   * go to the earliest task in `tasks`.
+   */
+  next(timestamp: number, tasks: Iterable<PeriodicTask>): string | null {
+    let chosen: string | null = null;
+    let chosenLag = 1;
+    for (const task of tasks) {
+      const last = this.lastRun.get(task.id);
+      const lag = last === undefined ? Infinity : (timestamp - last) / task.intervalMs;
+      if (lag >= chosenLag && (chosen === null || lag > chosenLag)) {
+        chosen = task.id;
+        chosenLag = lag;
+      }
+    }
+    if (chosen !== null) this.lastRun.set(chosen, timestamp);
+    return chosen;
+  }
+
+  forget(id: string) {
+    this.lastRun.delete(id);
+  }
+
+  reset() {
+    this.lastRun.clear();
+  }
+}
@@ -0,0 +1,60 @@
+export interface FrameThrottleConfig {
+  minFps: number;
+  maxFps: number;
+  /** Share of the frame interval processing may use before the rate drops. */
+  highLoad: number;
+  /** Share of the frame interval below which the rate climbs back. */
+  lowLoad: number;
+  /** Frames per second added or removed per adjustment. */
+  stepFps: number;
+}
+
+export const DEFAULT_FRAME_THROTTLE_CONFIG: FrameThrottleConfig = {
+  // Blinks last 100-400 ms, so below ~15 fps short ones are missed
+  minFps: 15,
+  maxFps: 30,
+  highLoad: 0.7,
+  lowLoad: 0.4,
+  stepFps: 1,
+};
+
+// Weight of the newest frame cost in the moving average
+const SMOOTHING = 0.2;
+
+/**
+ * Adapts the processing frame rate to what the machine sustains. Each frame's
+ * processing cost is fed back through `update`; when the average cost eats
+ * too much of the frame interval the target rate steps down, and it recovers
+ * once there is headroom again. Camera frames arriving faster than the
+ * target are dropped by `shouldProcess`.
+ */
+export class FrameThrottle {
+  private readonly config: FrameThrottleConfig;
+  private fps: number;
+  private meanCostMs = 0;
+  private lastFrame = -Infinity;
+
+  constructor(config: FrameThrottleConfig = DEFAULT_FRAME_THROTTLE_CONFIG) {
+    this.config = config;
+    this.fps = config.maxFps;
+  }
+
+  get targetFps() {
+    return this.fps;
+  }
+
+  shouldProcess(now: number) {
+    // Half a millisecond of slack absorbs camera timing jitter
+    if (now - this.lastFrame < 1000 / this.fps - 0.5) return false;
+    this.lastFrame = now;
+    return true;
+  }
+
+  update(costMs: number) {
+    const { minFps, maxFps, highLoad, lowLoad, stepFps } = this.config;
+    this.meanCostMs += (costMs - this.meanCostMs) * SMOOTHING;
+    const load = this.meanCostMs / (1000 / this.fps);
+    if (load > highLoad) this.fps = Math.max(minFps, this.fps - stepFps);
+    else if (load < lowLoad) this.fps = Math.min(maxFps, this.fps + stepFps);
+  }
+}
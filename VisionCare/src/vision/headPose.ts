@@ -0,0 +1,121 @@
+import { LEFT_IRIS_CENTER, RIGHT_IRIS_CENTER } from './landmarks';
+import type { Landmark } from './types';
+
+// Outer eye corners, forehead and chin
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+// Eye corners ordered image-left to image-right, and upper/lower lid midpoints
+const LEFT_EYE_CORNERS = [33, 133];
+const RIGHT_EYE_CORNERS = [362, 263];
+const LEFT_EYE_LIDS = [159, 145];
+const RIGHT_EYE_LIDS = [386, 374];
+
+// Population average interpupillary distance and a typical webcam's
+// horizontal field of view, used until the user calibrates.
+const AVERAGE_IPD_CM = 6.3;
+const DEFAULT_HFOV_DEG = 60;
+
+/** Head rotation in degrees. Positive pitch is chin down, positive roll is clockwise in the image. */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/** Iris position within the eye opening, -1..1 on each axis; 0 is centred. */
+export interface GazeEstimate {
+  /** Positive when the irises sit towards the right of the image. */
+  horizontal: number;
+  /** Positive when the irises sit low in the eye, i.e. looking down. */
+  vertical: number;
+}
+
+/**
+ * One-time viewing distance calibration: the interpupillary distance as a
+ * fraction of frame width, measured at a known distance, plus the head pose
+ * the user considers upright.
+ */
+export interface DistanceCalibration {
+  distanceCm: number;
+  ipdRatio: number;
+  neutralPose: HeadPose;
+  calibratedAt: number;
+}
+
+type Point3 = [number, number, number];
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// MediaPipe normalises x and y by frame width and height and z roughly by
+// width; convert to pixels so angles are not distorted by the aspect ratio.
+function pixel(landmark: Landmark, width: number, height: number): Point3 {
+  return [landmark.x * width, landmark.y * height, (landmark.z ?? 0) * width];
+}
+
+export function hasIris(landmarks: Landmark[]) {
+  return landmarks.length > RIGHT_IRIS_CENTER;
+}
+
+/** Approximates head rotation from the 3D eye-corner and forehead-chin axes. */
+export function estimateHeadPose(landmarks: Landmark[], width: number, height: number): HeadPose {
+  const [lx, ly, lz] = pixel(landmarks[LEFT_EYE_OUTER], width, height);
+  const [rx, ry, rz] = pixel(landmarks[RIGHT_EYE_OUTER], width, height);
+  const [fx, fy, fz] = pixel(landmarks[FOREHEAD], width, height);
+  const [cx, cy, cz] = pixel(landmarks[CHIN], width, height);
+
+  return {
+    yaw: toDegrees(Math.atan2(rz - lz, rx - lx)),
+    pitch: toDegrees(Math.atan2(cz - fz, Math.hypot(cy - fy, cx - fx))),
+    roll: toDegrees(Math.atan2(ry - ly, rx - lx)),
+  };
+}
+
+// Position of `point` along the segment a->b, 0 at a and 1 at b
+function along(point: Landmark, a: Landmark, b: Landmark) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return 0.5;
+  return ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq;
+}
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+export function estimateGaze(landmarks: Landmark[]): GazeEstimate | null {
+  if (!hasIris(landmarks)) return null;
+  const p = (i: number) => landmarks[i];
+  const leftIris = p(LEFT_IRIS_CENTER);
+  const rightIris = p(RIGHT_IRIS_CENTER);
+
+  const horizontal =
+    (along(leftIris, p(LEFT_EYE_CORNERS[0]), p(LEFT_EYE_CORNERS[1])) +
+      along(rightIris, p(RIGHT_EYE_CORNERS[0]), p(RIGHT_EYE_CORNERS[1]))) / 2;
+  const vertical =
+    (along(leftIris, p(LEFT_EYE_LIDS[0]), p(LEFT_EYE_LIDS[1])) +
+      along(rightIris, p(RIGHT_EYE_LIDS[0]), p(RIGHT_EYE_LIDS[1]))) / 2;
+
+  return { horizontal: clampUnit((horizontal - 0.5) * 2), vertical: clampUnit((vertical - 0.5) * 2) };
+}
+
+/**
+ * Interpupillary distance as a fraction of frame width, corrected for head
+ * yaw (turning the head foreshortens it).
+ */
+export function interpupillaryRatio(landmarks: Landmark[], width: number, height: number, yaw: number) {
+  if (!hasIris(landmarks) || width === 0) return null;
+  const [lx, ly] = pixel(landmarks[LEFT_IRIS_CENTER], width, height);
+  const [rx, ry] = pixel(landmarks[RIGHT_IRIS_CENTER], width, height);
+  const cosYaw = Math.max(0.5, Math.cos((yaw * Math.PI) / 180));
+  return Math.hypot(rx - lx, ry - ly) / cosYaw / width;
+}
+
+/** Pinhole-camera distance estimate; apparent IPD shrinks in proportion to distance. */
+export function estimateDistanceCm(ipdRatio: number, calibration: DistanceCalibration | null) {
+  if (ipdRatio <= 0) return null;
+  if (calibration) return (calibration.distanceCm * calibration.ipdRatio) / ipdRatio;
+  const tanHalfFov = Math.tan((DEFAULT_HFOV_DEG * Math.PI) / 360);
+  return AVERAGE_IPD_CM / (2 * tanHalfFov * ipdRatio);
+}
@@ -0,0 +1,116 @@
+import type { Config, FaceResult, Human, Result } from '@vladmandic/human';
+import type { Emotion, ExpressionVector } from '../metrics/types';
+import type { ExpressionDetection } from './analyzers/emotionAnalyzer';
+import type { FaceBackend, FaceBackendOptions } from './faceBackend';
+import { landmarkBox } from './faceTracker';
+import type { Landmark } from './types';
+
+// Human's expression labels, mapped onto the app's
+const EMOTION_LABELS: Record<string, Emotion> = {
+  neutral: 'neutral',
+  happy: 'happy',
+  sad: 'sad',
+  angry: 'angry',
+  fear: 'fearful',
+  disgust: 'disgusted',
+  surprise: 'surprised',
+};
+
+// Only the face models run. Result caching is off: it reuses meshes while
+// the picture changes little, which is exactly when a blink is happening.
+const BASE_CONFIG: Partial<Config> = {
+  backend: 'webgl',
+  debug: false,
+  warmup: 'face',
+  cacheSensitivity: 0,
+  filter: { enabled: false },
+  gesture: { enabled: false },
+  body: { enabled: false },
+  hand: { enabled: false },
+  object: { enabled: false },
+  segmentation: { enabled: false },
+  face: {
+    enabled: true,
+    detector: { rotation: false, return: false },
+    mesh: { enabled: true },
+    iris: { enabled: true },
+    emotion: { enabled: true, minConfidence: 0 },
+    attention: { enabled: false },
+    description: { enabled: false },
+    antispoof: { enabled: false },
+    liveness: { enabled: false },
+    gear: { enabled: false },
+  },
+};
+
+let human: Human | null = null;
+
+/**
+ * Downloads the Human library and its face models and compiles them for the
+ * GPU. `modelBasePath` maps the library's version to where the matching
+ * models are. The library itself is a separate chunk, so users who stay on
+ * MediaPipe never download it.
+ */
+export async function loadHumanModels(modelBasePath: (version: string) => string) {
+  if (human) return;
+  const { Human } = await import('@vladmandic/human');
+  const instance = new Human(BASE_CONFIG);
+  instance.config.modelBasePath = modelBasePath(instance.version);
+  await instance.load();
+  await instance.warmup();
+  human = instance;
+}
+
+function requireHuman(): Human {
+  if (!human) throw new Error("Human models are not loaded; load the 'human' engine first");
+  return human;
+}
+
+function meshOf(face: FaceResult): Landmark[] {
+  return face.meshRaw.map(([x, y, z]) => ({ x, y, z }));
+}
+
+function expressionsOf(face: FaceResult): ExpressionVector {
+  const vector: ExpressionVector = {};
+  for (const { emotion, score } of face.emotion ?? []) {
+    const label = EMOTION_LABELS[emotion];
+    if (label) vector[label] = score;
+  }
+  return vector;
+}
+
+function detectionsOf(result: Result): ExpressionDetection[] {
+  const detections: ExpressionDetection[] = [];
+  for (const face of result.face) {
+    const expressions = expressionsOf(face);
+    if (Object.keys(expressions).length === 0) continue;
+    // The mesh box, so the detection matches the analysed face exactly
+    detections.push({ box: landmarkBox(meshOf(face)), expressions });
+  }
+  return detections;
+}
+
+/** Requires the 'human' engine to be loaded. */
+export function createHumanBackend({ maxFaces = 1, expressions = true }: FaceBackendOptions = {}): FaceBackend {
+  const instance = requireHuman();
+  // Per-call settings, since backends created with different options share the one instance
+  const config: Partial<Config> = {
+    face: { detector: { maxDetected: maxFaces }, emotion: { enabled: expressions } },
+  };
+
+  // This backend's own last result: the shared instance's `result` would
+  // belong to whichever backend ran last
+  let last: Result | null = null;
+
+  return {
+    id: 'human',
+    async detect(image) {
+      last = await instance.detect(image, config);
+      return last.face.filter((face) => face.meshRaw.length > 0).map(meshOf);
+    },
+    // Human runs expressions in the same pass as the mesh, so the models do not run again
+    expressions: async () => (last ? detectionsOf(last) : []),
+    // The models stay loaded for the next backend; nothing is held per backend
+    close: async () => {},
+  };
+}
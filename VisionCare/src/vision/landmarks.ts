@@ -0,0 +1,46 @@
+import type { Landmark } from './types';
+
+// Eye landmark indices (from MediaPipe documentation)
+export const LEFT_EYE = [33, 160, 158, 133, 153, 144];
+export const RIGHT_EYE = [362, 385, 387, 263, 373, 380];
+
+// Extended eye region for redness detection (including sclera)
+export const LEFT_EYE_REGION = [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246];
+export const RIGHT_EYE_REGION = [263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388, 466];
+
+// Iris centres, only present with refineLandmarks (478 points)
+export const LEFT_IRIS_CENTER = 468;
+export const RIGHT_IRIS_CENTER = 473;
+
+// Inner lip contour: corners first, then upper/lower pairs from left to right
+export const MOUTH = [78, 308, 81, 178, 13, 14, 311, 402];
+
+// Eye Aspect Ratio function
+export function calcEAR(landmarks: Landmark[], eyeIndices: number[]) {
+  const p = (i: number) => landmarks[i];
+  const dist = (a: number, b: number) =>
+    Math.hypot(p(a).x - p(b).x, p(a).y - p(b).y);
+
+  const A = dist(eyeIndices[1], eyeIndices[5]);
+  const B = dist(eyeIndices[2], eyeIndices[4]);
+  const C = dist(eyeIndices[0], eyeIndices[3]);
+
+  return (A + B) / (2.0 * C);
+}
+
+// Mouth Aspect Ratio: mean inner-lip opening relative to mouth width
+export function calcMAR(landmarks: Landmark[]) {
+  const p = (i: number) => landmarks[i];
+  const dist = (a: number, b: number) =>
+    Math.hypot(p(a).x - p(b).x, p(a).y - p(b).y);
+
+  const [leftCorner, rightCorner, ...pairs] = MOUTH;
+  const width = dist(leftCorner, rightCorner);
+  if (width === 0) return 0;
+
+  let opening = 0;
+  for (let i = 0; i < pairs.length; i += 2) {
+    opening += dist(pairs[i], pairs[i + 1]);
+  }
+  return opening / (pairs.length / 2) / width;
+}
@@ -0,0 +1,77 @@
+export interface LatencyStats {
+  label: string;
+  /** Exponential moving average, in milliseconds. */
+  meanMs: number;
+  /** Slowest sample over roughly the last second. */
+  maxMs: number;
+}
+
+export interface PerfSnapshot {
+  /** Frames processed during the last window, per second. */
+  fps: number;
+  latencies: LatencyStats[];
+}
+
+interface LatencyEntry {
+  meanMs: number;
+  maxMs: number;
+  windowMaxMs: number;
+}
+
+const WINDOW_MS = 1000;
+// Weight of the newest sample in the moving average
+const SMOOTHING = 0.1;
+
+/**
+ * Collects frame rate and per-stage latency for the performance HUD. Stages
+ * are free-form labels: analyzer ids for the synchronous part of each
+ * analyzer, plus whatever asynchronous work analyzers report themselves.
+ */
+export class PerfMonitor {
+  private readonly entries = new Map<string, LatencyEntry>();
+  private frames: number[] = [];
+  private windowStart = 0;
+
+  /** Records that a frame went through the pipeline at `now` (ms, monotonic). */
+  frame(now: number) {
+    this.frames.push(now);
+    const cutoff = now - WINDOW_MS;
+    while (this.frames.length > 0 && this.frames[0] <= cutoff) this.frames.shift();
+    this.rollWindow(now);
+  }
+
+  record(label: string, ms: number) {
+    const entry = this.entries.get(label);
+    if (!entry) {
+      this.entries.set(label, { meanMs: ms, maxMs: ms, windowMaxMs: ms });
+      return;
+    }
+    entry.meanMs += (ms - entry.meanMs) * SMOOTHING;
+    entry.windowMaxMs = Math.max(entry.windowMaxMs, ms);
+    entry.maxMs = Math.max(entry.maxMs, entry.windowMaxMs);
+  }
+
+  snapshot(): PerfSnapshot {
+    return {
+      fps: this.frames.length * (1000 / WINDOW_MS),
+      latencies: [...this.entries].map(([label, { meanMs, maxMs }]) => ({ label, meanMs, maxMs })),
+    };
+  }
+
+  reset() {
+    this.entries.clear();
+    this.frames = [];
+    this.windowStart = 0;
+  }
+
+  // The reported maximum covers the previous full window, so one slow frame
+  // shows up for a second instead of flickering past or sticking forever.
+  private rollWindow(now: number) {
+    if (now - this.windowStart < WINDOW_MS) return;
+    this.windowStart = now;
+    this.entries.forEach((entry) => {
+      entry.maxMs = entry.windowMaxMs;
+      entry.windowMaxMs = 0;
+    });
+  }
+}
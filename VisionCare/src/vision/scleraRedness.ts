@@ -0,0 +1,158 @@
+// Sclera redness measured on raw RGBA pixels. Everything here is plain
+// arithmetic on typed arrays so it can run wherever the pixels are.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type Point = [number, number];
+
+export interface Circle {
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+export type InsufficientReason = 'eyeClosed' | 'tooDark' | 'overexposed' | 'colorCast';
+
+export type RednessMeasurement =
+  | {
+      status: 'ok';
+      /** 0 for a white sclera; 100 is saturated red. */
+      index: number;
+      /** 0-1, from sclera area, exposure and how much colour correction was needed. */
+      confidence: number;
+      scleraPixels: number;
+    }
+  | { status: 'insufficient'; reason: InsufficientReason };
+
+export const INSUFFICIENT_REASON_TEXT: Record<InsufficientReason, string> = {
+  eyeClosed: 'Eye not open wide enough',
+  tooDark: 'Too dark',
+  overexposed: 'Overexposed',
+  colorCast: 'Strong colour cast',
+};
+
+// Pixels inside the eye polygon below this luminance percentile are
+// lashes, lid shadow or (without iris landmarks) the iris itself.
+const SCLERA_PERCENTILE = 0.4;
+// The brightest pixels of the sclera serve as the white reference.
+const REFERENCE_PERCENTILE = 0.85;
+const IRIS_MARGIN = 1.15;
+
+const MIN_SCLERA_PIXELS = 40;
+const TARGET_SCLERA_PIXELS = 300;
+const MIN_REFERENCE_LUMA = 70;
+const GOOD_REFERENCE_LUMA = 130;
+const CLIP_LEVEL = 250;
+const MAX_CLIPPED_FRACTION = 0.5;
+// Largest ratio between white-balance gains we trust to correct
+const MAX_GAIN_RATIO = 1.8;
+// Maps mean excess-red chromaticity onto the 0-100 index
+const REDNESS_SCALE = 200;
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+function insidePolygon(x: number, y: number, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Scores redness of the visible sclera: pixels inside the eye contour,
+ * minus the iris and the darkest pixels, white-balanced against the
+ * brightest sclera pixels so lighting colour and camera tint cancel out.
+ * Polygon and iris are in buffer pixel coordinates.
+ */
+export function measureScleraRedness(pixels: PixelBuffer, polygon: Point[], iris: Circle | null): RednessMeasurement {
+  const { data, width, height } = pixels;
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  const minX = Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+  const irisR = iris ? iris.r * IRIS_MARGIN : 0;
+
+  const offsets: number[] = [];
+  const lumas: number[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      if (!insidePolygon(px, py, polygon)) continue;
+      if (iris && Math.hypot(px - iris.cx, py - iris.cy) < irisR) continue;
+      const offset = (y * width + x) * 4;
+      offsets.push(offset);
+      lumas.push(luma(data[offset], data[offset + 1], data[offset + 2]));
+    }
+  }
+
+  const sorted = [...lumas].sort((a, b) => a - b);
+  const scleraThreshold = sorted[Math.floor(sorted.length * SCLERA_PERCENTILE)] ?? Infinity;
+  const referenceThreshold = sorted[Math.floor(sorted.length * REFERENCE_PERCENTILE)] ?? Infinity;
+
+  let count = 0;
+  let clipped = 0;
+  let refCount = 0;
+  const ref = [0, 0, 0];
+  const sclera: number[] = [];
+  for (let i = 0; i < offsets.length; i++) {
+    if (lumas[i] < scleraThreshold) continue;
+    const offset = offsets[i];
+    const r = data[offset];
+    const g = data[offset + 1];
+    const b = data[offset + 2];
+    count += 1;
+    sclera.push(offset);
+    if (r >= CLIP_LEVEL || g >= CLIP_LEVEL || b >= CLIP_LEVEL) clipped += 1;
+    if (lumas[i] >= referenceThreshold) {
+      ref[0] += r;
+      ref[1] += g;
+      ref[2] += b;
+      refCount += 1;
+    }
+  }
+
+  if (count < MIN_SCLERA_PIXELS || refCount === 0) return { status: 'insufficient', reason: 'eyeClosed' };
+
+  const [refR, refG, refB] = ref.map((sum) => sum / refCount);
+  const refLuma = luma(refR, refG, refB);
+  if (refLuma < MIN_REFERENCE_LUMA) return { status: 'insufficient', reason: 'tooDark' };
+  const clippedFraction = clipped / count;
+  if (clippedFraction > MAX_CLIPPED_FRACTION) return { status: 'insufficient', reason: 'overexposed' };
+
+  const gains = [refR, refG, refB].map((channel) => refLuma / Math.max(1, channel));
+  const gainRatio = Math.max(...gains) / Math.min(...gains);
+  if (gainRatio > MAX_GAIN_RATIO) return { status: 'insufficient', reason: 'colorCast' };
+
+  let excessSum = 0;
+  for (const offset of sclera) {
+    const r = data[offset] * gains[0];
+    const g = data[offset + 1] * gains[1];
+    const b = data[offset + 2] * gains[2];
+    const total = r + g + b;
+    if (total === 0) continue;
+    excessSum += Math.max(0, (r - (g + b) / 2) / total);
+  }
+
+  const confidence =
+    Math.min(1, count / TARGET_SCLERA_PIXELS) *
+    Math.min(1, (refLuma - MIN_REFERENCE_LUMA) / (GOOD_REFERENCE_LUMA - MIN_REFERENCE_LUMA)) *
+    (1 - 0.5 * ((gainRatio - 1) / (MAX_GAIN_RATIO - 1))) *
+    (1 - clippedFraction);
+
+  return {
+    status: 'ok',
+    index: Math.min(100, (excessSum / count) * REDNESS_SCALE),
+    confidence: Math.max(0, Math.min(1, confidence)),
+    scleraPixels: count,
+  };
+}
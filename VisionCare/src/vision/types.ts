@@ -0,0 +1,163 @@
+import type { BlinkKind, Emotion, ExpressionVector } from '../metrics/types';
+import type { Affect } from './affect';
+import type { FrameQuality } from './frameQuality';
+import type { GazeEstimate, HeadPose } from './headPose';
+import type { RednessMeasurement } from './scleraRedness';
+
+// Normalised MediaPipe landmark: x/y in [0, 1] relative to the frame.
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export interface VisionFrame {
+  /** Capture time in milliseconds. */
+  timestamp: number;
+  /** Face mesh of the tracked face, or null when no face was found. */
+  landmarks: Landmark[] | null;
+  /** Pixels the landmarks were computed from, for analyzers that need them. */
+  image?: FrameSource;
+  width: number;
+  height: number;
+  /** Set by the engine when quality gating is on. */
+  quality?: FrameQuality;
+  /** Set by the engine when the quality gate withheld this frame's landmarks. */
+  gated?: boolean;
+}
+
+export interface EarEvent {
+  timestamp: number;
+  left: number;
+  right: number;
+  average: number;
+}
+
+export interface BlinkEvent {
+  timestamp: number;
+  ear: number;
+}
+
+export interface BlinkEndEvent {
+  timestamp: number;
+  ear: number;
+  startedAt: number;
+  /** Time spent below the blink threshold, in milliseconds. */
+  duration: number;
+  minEar: number;
+  /** How far the lid closed: 0 = fully open baseline, 1 = closed baseline. */
+  depth: number;
+  kind: BlinkKind;
+  /** Tracking dropped out before the lid reopened; the blink ends at its last tracked frame. */
+  interrupted: boolean;
+}
+
+export interface RednessEvent {
+  timestamp: number;
+  left: RednessMeasurement;
+  right: RednessMeasurement;
+}
+
+export interface EmotionEvent {
+  timestamp: number;
+  /** Most probable expression after smoothing, with its smoothed probability. */
+  emotion: Emotion;
+  confidence: number;
+  /** Raw probabilities from this detection. */
+  expressions: ExpressionVector;
+  /** Probabilities averaged over recent detections. */
+  smoothed: ExpressionVector;
+  /** The smoothed expressions projected onto the valence/arousal plane. */
+  affect: Affect;
+}
+
+export interface FaceEvent {
+  timestamp: number;
+}
+
+export interface AttentionEvent {
+  timestamp: number;
+  lookingAway: boolean;
+}
+
+export interface PerclosEvent {
+  timestamp: number;
+  /** Fraction of frames in the window with the eyes at least 80% closed. */
+  perclos: number;
+  /** Time span actually covered by samples, at most the configured window. */
+  coveredMs: number;
+}
+
+export interface MicrosleepEvent {
+  timestamp: number;
+  startedAt: number;
+  /** How long the eyes had been closed when the event fired. */
+  duration: number;
+}
+
+export interface YawnEvent {
+  timestamp: number;
+  startedAt: number;
+  duration: number;
+}
+
+export interface PostureEvent {
+  timestamp: number;
+  /** Head pose relative to the calibrated upright pose, if any. */
+  pose: HeadPose;
+  /** Head pose as measured, for calibration. */
+  rawPose: HeadPose;
+  /** Null when the face mesh has no iris landmarks. */
+  gaze: GazeEstimate | null;
+  ipdRatio: number | null;
+  distanceCm: number | null;
+}
+
+export interface VisionEventMap {
+  ear: EarEvent;
+  blink: BlinkEvent;
+  blinkEnd: BlinkEndEvent;
+  redness: RednessEvent;
+  emotion: EmotionEvent;
+  faceFound: FaceEvent;
+  faceLost: FaceEvent;
+  attention: AttentionEvent;
+  perclos: PerclosEvent;
+  microsleep: MicrosleepEvent;
+  yawn: YawnEvent;
+  posture: PostureEvent;
+}
+
+export type VisionEventType = keyof VisionEventMap;
+
+export type VisionEventHandler<K extends VisionEventType> = (event: VisionEventMap[K]) => void;
+
+export interface AnalyzerContext {
+  emit<K extends VisionEventType>(type: K, event: VisionEventMap[K]): void;
+  /** Reports the duration of background work, for the performance HUD. */
+  recordLatency(label: string, ms: number): void;
+}
+
+/**
+ * A metric extractor plugged into the engine. `process` is called for every
+ * frame, including frames without a face, and must not block: analyzers that
+ * do asynchronous work run it in the background and emit when done.
+ * Expensive analyzers set `intervalMs` and are then called on scheduled
+ * frames only (see FrameScheduler).
+ * Analyzers whose metrics a poor frame would corrupt set `qualityGated`:
+ * with the engine's quality gate on, frames below its threshold reach them
+ * without landmarks and with `gated` set, telling them apart from a lost face.
+ * `idle` lets offline callers wait for that background work to finish, and
+ * `dispose` releases workers or other resources when the analyzer is removed.
+ */
+export interface Analyzer {
+  readonly id: string;
+  readonly intervalMs?: number;
+  readonly qualityGated?: boolean;
+  process(frame: VisionFrame, context: AnalyzerContext): void;
+  reset?(): void;
+  idle?(): Promise<void>;
+  dispose?(): void;
+}
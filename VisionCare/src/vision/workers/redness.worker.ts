@@ -0,0 +1,20 @@
+import { measureEyeJob, type RednessRequest, type RednessResponse } from './rednessProtocol';
+
+// Runs the sclera measurement off the main thread. Eye crops arrive as
+// transferred ImageBitmaps, so no pixels are copied on the way in.
+const ctx = new OffscreenCanvas(1, 1).getContext('2d', { willReadFrequently: true });
+
+self.addEventListener('message', (event: MessageEvent<RednessRequest>) => {
+  const { id, eyes } = event.data;
+  const start = performance.now();
+  let response: RednessResponse;
+  try {
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+    const measurements = eyes.map((eye) => measureEyeJob(ctx, eye));
+    response = { id, measurements, elapsedMs: performance.now() - start };
+  } catch (err) {
+    eyes.forEach((eye) => eye.bitmap.close());
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+});
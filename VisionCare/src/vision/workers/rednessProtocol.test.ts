@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CLEAR_EYE, CLOSED_EYE, cropPixels, RED_EYE, type EyeCropSample } from '../__fixtures__/eyeCrops';
+import { DEFAULT_REDNESS_THRESHOLDS } from '../../insights/verdicts';
+import type { PixelBuffer } from '../scleraRedness';
+import { measureEyeJob, type EyeJob, type RednessRequest, type RednessResponse } from './rednessProtocol';
+
+interface FakeBitmap {
+  width: number;
+  height: number;
+  pixels: PixelBuffer;
+  close: () => void;
+}
+
+// Stands in for an (Offscreen)Canvas 2D context: reads back whatever bitmap was drawn last
+function fakeContext() {
+  let drawn: FakeBitmap | null = null;
+  return {
+    canvas: { width: 1, height: 1 },
+    drawImage: vi.fn((bitmap: FakeBitmap) => {
+      drawn = bitmap;
+    }),
+    getImageData: vi.fn(() => drawn!.pixels),
+  };
+}
+
+function job(sample: EyeCropSample): EyeJob & { bitmap: FakeBitmap } {
+  const bitmap: FakeBitmap = { width: sample.width, height: sample.height, pixels: cropPixels(sample), close: vi.fn() };
+  return { bitmap: bitmap as unknown as ImageBitmap & FakeBitmap, polygon: sample.polygon, iris: sample.iris };
+}
+
+type Context2D = Parameters<typeof measureEyeJob>[0];
+
+describe('measureEyeJob', () => {
+  it('sizes the canvas to the crop, reads it back and closes the bitmap', () => {
+    const ctx = fakeContext();
+    const eye = job(CLEAR_EYE);
+
+    const result = measureEyeJob(ctx as unknown as Context2D, eye);
+
+    expect(ctx.canvas).toEqual({ width: CLEAR_EYE.width, height: CLEAR_EYE.height });
+    expect(ctx.getImageData).toHaveBeenCalledWith(0, 0, CLEAR_EYE.width, CLEAR_EYE.height);
+    expect(eye.bitmap.close).toHaveBeenCalledOnce();
+    expect(result.status).toBe('ok');
+  });
+
+  it('grades a bloodshot eye above a clear one', () => {
+    const ctx = fakeContext() as unknown as Context2D;
+    const clear = measureEyeJob(ctx, job(CLEAR_EYE));
+    const red = measureEyeJob(ctx, job(RED_EYE));
+
+    expect(clear.status === 'ok' && clear.index).toBeLessThan(DEFAULT_REDNESS_THRESHOLDS.moderate);
+    expect(red.status === 'ok' && red.index).toBeGreaterThan(DEFAULT_REDNESS_THRESHOLDS.alert);
+  });
+
+  it('rejects an eye with too little sclera', () => {
+    expect(measureEyeJob(fakeContext() as unknown as Context2D, job(CLOSED_EYE))).toEqual({
+      status: 'insufficient',
+      reason: 'eyeClosed',
+    });
+  });
+});
+
+describe('redness worker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  // Loads the worker script against a fake worker scope; `context` is what its OffscreenCanvas hands out
+  async function startWorker(context: ReturnType<typeof fakeContext> | null) {
+    let listener: ((event: { data: RednessRequest }) => void) | null = null;
+    const postMessage = vi.fn<(response: RednessResponse) => void>();
+    vi.stubGlobal('self', {
+      addEventListener: (_type: string, handler: typeof listener) => {
+        listener = handler;
+      },
+      postMessage,
+    });
+    vi.stubGlobal(
+      'OffscreenCanvas',
+      class {
+        getContext() {
+          return context;
+        }
+      },
+    );
+    await import('./redness.worker');
+    return { send: (request: RednessRequest) => listener!({ data: request }), postMessage };
+  }
+
+  it('answers each request with its id and one measurement per eye', async () => {
+    const { send, postMessage } = await startWorker(fakeContext());
+
+    send({ id: 7, eyes: [job(CLEAR_EYE), job(CLOSED_EYE)] });
+
+    expect(postMessage).toHaveBeenCalledOnce();
+    const response = postMessage.mock.calls[0][0];
+    expect(response.id).toBe(7);
+    expect('measurements' in response && response.measurements.map((m) => m.status)).toEqual(['ok', 'insufficient']);
+    expect('elapsedMs' in response && response.elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports an error and releases the bitmaps without a 2D context', async () => {
+    const { send, postMessage } = await startWorker(null);
+    const eyes = [job(CLEAR_EYE), job(RED_EYE)];
+
+    send({ id: 3, eyes });
+
+    expect(postMessage).toHaveBeenCalledWith({ id: 3, error: 'OffscreenCanvas 2D context unavailable' });
+    eyes.forEach((eye) => expect(eye.bitmap.close).toHaveBeenCalledOnce());
+  });
+});
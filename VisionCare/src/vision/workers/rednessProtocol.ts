@@ -0,0 +1,33 @@
+import { measureScleraRedness, type Circle, type Point, type RednessMeasurement } from '../scleraRedness';
+
+/** One eye to measure: its bounding-box pixels plus outline and iris in box coordinates. */
+export interface EyeJob {
+  bitmap: ImageBitmap;
+  polygon: Point[];
+  iris: Circle | null;
+}
+
+export interface RednessRequest {
+  id: number;
+  eyes: EyeJob[];
+}
+
+export type RednessResponse =
+  | { id: number; measurements: RednessMeasurement[]; elapsedMs: number }
+  | { id: number; error: string };
+
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * Reads the job's pixels through `ctx` and measures them. The bitmap is
+ * closed afterwards; its canvas is resized per job and reused across jobs.
+ */
+export function measureEyeJob(ctx: Context2D, job: EyeJob): RednessMeasurement {
+  const { bitmap, polygon, iris } = job;
+  const { width, height } = bitmap;
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return measureScleraRedness(ctx.getImageData(0, 0, width, height), polygon, iris);
+}
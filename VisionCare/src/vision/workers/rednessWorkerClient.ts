@@ -0,0 +1,93 @@
+import type { Circle, Point, RednessMeasurement } from '../scleraRedness';
+import type { FrameSource } from '../types';
+import { measureEyeJob, type EyeJob, type RednessRequest, type RednessResponse } from './rednessProtocol';
+
+/** An eye's bounding box in frame pixels, with outline and iris relative to it. */
+export interface EyeCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  polygon: Point[];
+  iris: Circle | null;
+}
+
+export interface RednessResult {
+  measurements: RednessMeasurement[];
+  /** Time spent measuring, excluding queueing and transfer. */
+  elapsedMs: number;
+}
+
+interface Pending {
+  resolve: (result: RednessResult) => void;
+  reject: (err: Error) => void;
+}
+
+const supportsWorker = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Measures eye crops in a dedicated worker. Crops are cut out of the frame
+ * with createImageBitmap, which snapshots the pixels when called, so the
+ * live video may move on while the worker is busy. Browsers without
+ * OffscreenCanvas measure on the main thread with a single reused canvas.
+ */
+export class RednessWorkerClient {
+  private worker: Worker | null = null;
+  private fallbackCtx: CanvasRenderingContext2D | null = null;
+  private readonly pending = new Map<number, Pending>();
+  private nextId = 0;
+
+  async measure(image: FrameSource, crops: EyeCrop[]): Promise<RednessResult> {
+    const bitmaps = await Promise.all(
+      crops.map((crop) => createImageBitmap(image, crop.x, crop.y, crop.width, crop.height)),
+    );
+    const eyes: EyeJob[] = crops.map((crop, i) => ({ bitmap: bitmaps[i], polygon: crop.polygon, iris: crop.iris }));
+
+    if (!supportsWorker) return this.measureHere(eyes);
+
+    const id = this.nextId++;
+    const request: RednessRequest = { id, eyes };
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.getWorker().postMessage(request, bitmaps);
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(({ reject }) => reject(new Error('Redness worker terminated')));
+    this.pending.clear();
+  }
+
+  private getWorker() {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('./redness.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<RednessResponse>) => {
+      const response = event.data;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if ('error' in response) pending.reject(new Error(response.error));
+      else pending.resolve({ measurements: response.measurements, elapsedMs: response.elapsedMs });
+    });
+    worker.addEventListener('error', (event) => {
+      // A crashed worker is replaced on the next request
+      this.dispose();
+      console.error('Redness worker failed:', event.message);
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  private measureHere(eyes: EyeJob[]): RednessResult {
+    if (!this.fallbackCtx) {
+      this.fallbackCtx = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+    }
+    const ctx = this.fallbackCtx;
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    const start = performance.now();
+    const measurements = eyes.map((eye) => measureEyeJob(ctx, eye));
+    return { measurements, elapsedMs: performance.now() - start };
+  }
+}